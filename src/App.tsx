@@ -5,7 +5,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
 import { CallProvider } from "@/contexts/CallContext";
-import { CallOverlay, IncomingCallModal } from "@/components/calls";
+import { CallOverlay, IncomingCallModal, RecordingConsentDialog } from "@/components/calls";
 import Index from "./pages/Index";
 import Void from "./pages/Void";
 import Messages from "./pages/Messages";
@@ -20,6 +20,7 @@ import UsernameProfile from "./pages/UsernameProfile";
 import Notifications from "./pages/Notifications";
 import Settings from "./pages/Settings";
 import Stickers from "./pages/Stickers";
+import Tag from "./pages/Tag";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -47,12 +48,14 @@ const App = () => (
               <Route path="/notifications" element={<Notifications />} />
               <Route path="/settings" element={<Settings />} />
               <Route path="/stickers" element={<Stickers />} />
+              <Route path="/tag/:name" element={<Tag />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
             
             {/* Global Call UI */}
             <CallOverlay />
             <IncomingCallModal />
+            <RecordingConsentDialog />
           </CallProvider>
         </AuthProvider>
       </BrowserRouter>
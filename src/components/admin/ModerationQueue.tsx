@@ -0,0 +1,337 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  CheckCircle,
+  EyeOff,
+  Ban,
+  Search,
+  XCircle,
+  History,
+  Loader2,
+  Flag,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  useModerationQueue,
+  ModerationAction,
+  ModerationReport,
+  ReportStatus,
+} from "@/hooks/useModerationQueue";
+import type { ReportTargetType } from "@/hooks/useReports";
+
+const TARGET_LABELS: Record<ReportTargetType, string> = {
+  post: "Post",
+  comment: "Comentário",
+  message: "Mensagem",
+  profile: "Perfil",
+  sticker_pack: "Pacote de stickers",
+  void: "Void",
+};
+
+const STATUS_LABELS: Record<ReportStatus, string> = {
+  pending: "Pendente",
+  reviewing: "Em análise",
+  dismissed: "Descartada",
+  actioned: "Resolvida",
+};
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  triage: "Em análise",
+  dismiss: "Descartou",
+  hide_content: "Ocultou conteúdo",
+  suspend_author: "Suspendeu autor",
+};
+
+const SUSPEND_OPTIONS = [1, 7, 30];
+
+const OPEN_STATUSES: ReportStatus[] = ["pending", "reviewing"];
+const CLOSED_STATUSES: ReportStatus[] = ["dismissed", "actioned"];
+
+export const ModerationQueue = () => {
+  const [view, setView] = useState<"open" | "closed" | "log">("open");
+  const { reports, auditLog, isLoading, isActing, moderate } = useModerationQueue(
+    view === "closed" ? CLOSED_STATUSES : OPEN_STATUSES
+  );
+  const [pendingAction, setPendingAction] = useState<{
+    report: ModerationReport;
+    action: ModerationAction;
+  } | null>(null);
+  const [note, setNote] = useState("");
+  const [suspendDays, setSuspendDays] = useState(7);
+
+  const openAction = (report: ModerationReport, action: ModerationAction) => {
+    setNote("");
+    setSuspendDays(7);
+    setPendingAction({ report, action });
+  };
+
+  const confirmAction = async () => {
+    if (!pendingAction) return;
+    const success = await moderate(pendingAction.report.id, pendingAction.action, {
+      note: note.trim() || undefined,
+      suspendDays,
+    });
+    if (success) {
+      setPendingAction(null);
+    }
+  };
+
+  const formatRelative = (dateString: string) =>
+    formatDistanceToNow(new Date(dateString), { addSuffix: true, locale: ptBR });
+
+  return (
+    <div className="space-y-4">
+      {/* View switcher */}
+      <div className="flex gap-2">
+        {[
+          { id: "open", label: "Abertas", icon: Flag },
+          { id: "closed", label: "Resolvidas", icon: CheckCircle },
+          { id: "log", label: "Histórico", icon: History },
+        ].map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => setView(tab.id as typeof view)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs transition-colors ${
+              view === tab.id
+                ? "bg-primary/20 text-primary"
+                : "bg-muted/30 text-muted-foreground hover:bg-muted/50"
+            }`}
+          >
+            <tab.icon className="w-3.5 h-3.5" />
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : view === "log" ? (
+        <div className="space-y-2">
+          {auditLog.length === 0 ? (
+            <div className="text-center py-10 text-muted-foreground">
+              Nenhuma ação registrada
+            </div>
+          ) : (
+            auditLog.map((entry) => (
+              <motion.div
+                key={entry.id}
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="glass-strong rounded-xl p-4 border border-white/10"
+              >
+                <p className="text-sm">
+                  <span className="font-medium">
+                    {entry.moderator?.display_name || entry.moderator?.username || "Moderador"}
+                  </span>{" "}
+                  <span className="text-muted-foreground">
+                    {ACTION_LABELS[entry.action].toLowerCase()}
+                  </span>{" "}
+                  · {TARGET_LABELS[entry.target_type]}
+                  {entry.target_owner && (
+                    <span className="text-muted-foreground">
+                      {" "}de @{entry.target_owner.username || "sem_username"}
+                    </span>
+                  )}
+                </p>
+                {entry.action === "suspend_author" && typeof entry.metadata?.suspend_days === "number" && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Suspensão de {entry.metadata.suspend_days} dia(s)
+                  </p>
+                )}
+                {entry.note && (
+                  <p className="text-xs text-muted-foreground mt-1 italic">"{entry.note}"</p>
+                )}
+                <p className="text-xs text-muted-foreground mt-1">{formatRelative(entry.created_at)}</p>
+              </motion.div>
+            ))
+          )}
+        </div>
+      ) : reports.length === 0 ? (
+        <div className="text-center py-10 text-muted-foreground">
+          <CheckCircle className="w-12 h-12 mx-auto mb-4 text-green-500" />
+          <p>{view === "open" ? "Nenhuma denúncia pendente" : "Nenhuma denúncia resolvida"}</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {reports.map((report) => (
+            <motion.div
+              key={report.id}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="glass-strong rounded-xl p-4 border border-white/10"
+            >
+              <div className="flex items-start justify-between gap-3 mb-2">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-muted/40">
+                      {TARGET_LABELS[report.target_type]}
+                    </span>
+                    <span
+                      className={`text-xs px-2 py-0.5 rounded-full ${
+                        report.status === "pending"
+                          ? "bg-yellow-500/20 text-yellow-500"
+                          : report.status === "reviewing"
+                          ? "bg-blue-500/20 text-blue-500"
+                          : report.status === "actioned"
+                          ? "bg-green-500/20 text-green-500"
+                          : "bg-muted/40 text-muted-foreground"
+                      }`}
+                    >
+                      {STATUS_LABELS[report.status]}
+                    </span>
+                  </div>
+                  <p className="font-medium mt-2">{report.reason}</p>
+                  {report.details && (
+                    <p className="text-sm text-muted-foreground">{report.details}</p>
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {formatRelative(report.created_at)}
+                </span>
+              </div>
+
+              {report.target_preview && (
+                <p className="text-sm bg-muted/20 rounded-lg p-3 mb-3 break-words line-clamp-4">
+                  {report.target_preview}
+                </p>
+              )}
+
+              <div className="flex items-center justify-between text-xs text-muted-foreground mb-3">
+                <div className="flex items-center gap-2">
+                  <Avatar className="w-6 h-6">
+                    <AvatarImage src={report.target_owner?.avatar_url || ""} />
+                    <AvatarFallback className="text-[10px]">
+                      {report.target_owner?.display_name?.[0] || "?"}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span>
+                    Autor: @{report.target_owner?.username || "sem_username"}
+                    {report.target_owner?.suspended_until &&
+                      new Date(report.target_owner.suspended_until) > new Date() && (
+                        <span className="text-destructive"> · suspenso</span>
+                      )}
+                  </span>
+                </div>
+                <span>Por @{report.reporter?.username || "sem_username"}</span>
+              </div>
+
+              {view === "open" && (
+                <div className="grid grid-cols-2 gap-2">
+                  {report.status === "pending" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isActing}
+                      onClick={() => moderate(report.id, "triage")}
+                    >
+                      <Search className="w-4 h-4 mr-1" />
+                      Analisar
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isActing}
+                    onClick={() => openAction(report, "dismiss")}
+                  >
+                    <XCircle className="w-4 h-4 mr-1" />
+                    Descartar
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="default"
+                    disabled={isActing}
+                    onClick={() => openAction(report, "hide_content")}
+                  >
+                    <EyeOff className="w-4 h-4 mr-1" />
+                    Ocultar
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    disabled={isActing || !report.target_owner_id}
+                    onClick={() => openAction(report, "suspend_author")}
+                  >
+                    <Ban className="w-4 h-4 mr-1" />
+                    Suspender
+                  </Button>
+                </div>
+              )}
+            </motion.div>
+          ))}
+        </div>
+      )}
+
+      {/* Action Confirmation */}
+      <Dialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {pendingAction && ACTION_LABELS[pendingAction.action]}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingAction?.action === "suspend_author"
+                ? `O autor não poderá publicar, comentar ou enviar mensagens durante a suspensão.`
+                : pendingAction?.action === "hide_content"
+                ? `O conteúdo deixará de ser exibido para outros usuários.`
+                : `A denúncia será encerrada sem ação sobre o conteúdo.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {pendingAction?.action === "suspend_author" && (
+            <div className="flex gap-2">
+              {SUSPEND_OPTIONS.map((days) => (
+                <button
+                  key={days}
+                  onClick={() => setSuspendDays(days)}
+                  className={`flex-1 py-2 rounded-lg text-sm transition-colors ${
+                    suspendDays === days
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-muted/30 text-muted-foreground hover:bg-muted/50"
+                  }`}
+                >
+                  {days} {days === 1 ? "dia" : "dias"}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Observação para o histórico (opcional)"
+            rows={3}
+          />
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)}>
+              Cancelar
+            </Button>
+            <Button
+              variant={pendingAction?.action === "dismiss" ? "default" : "destructive"}
+              disabled={isActing}
+              onClick={confirmAction}
+            >
+              {isActing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Confirmar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
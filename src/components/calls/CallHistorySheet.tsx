@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Disc, Download, Loader2, Phone, PhoneMissed, Video } from "lucide-react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useCallHistory } from "@/hooks/useCallHistory";
+import { cn } from "@/lib/utils";
+import type { CallHistoryEntry, CallRecording } from "@/types/calls";
+import { toast } from "sonner";
+
+interface CallHistorySheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId: string;
+}
+
+const formatDuration = (seconds: number | null) => {
+  if (!seconds) return "";
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+};
+
+const getStatusText = (entry: CallHistoryEntry, isOutgoing: boolean) => {
+  switch (entry.status) {
+    case "missed":
+      return isOutgoing ? "Não atendida" : "Perdida";
+    case "declined":
+      return "Recusada";
+    case "ringing":
+    case "connected":
+      return "Em andamento";
+    default:
+      return formatDuration(entry.duration_seconds) || "Encerrada";
+  }
+};
+
+export const CallHistorySheet = ({ open, onOpenChange, conversationId }: CallHistorySheetProps) => {
+  const { user } = useAuth();
+  const { entries, isLoading, loadRecording } = useCallHistory(conversationId, open);
+  const [loadingRecordingId, setLoadingRecordingId] = useState<string | null>(null);
+  const [playback, setPlayback] = useState<{ recording: CallRecording; url: string } | null>(null);
+
+  // Release the stitched file when it is no longer shown
+  useEffect(() => {
+    return () => {
+      if (playback) URL.revokeObjectURL(playback.url);
+    };
+  }, [playback]);
+
+  useEffect(() => {
+    if (!open) setPlayback(null);
+  }, [open]);
+
+  const handlePlay = async (recording: CallRecording) => {
+    setLoadingRecordingId(recording.id);
+    const url = await loadRecording(recording);
+    setLoadingRecordingId(null);
+
+    if (!url) {
+      toast.error("Erro ao carregar gravação");
+      return;
+    }
+
+    setPlayback({ recording, url });
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="h-[85vh] rounded-t-3xl flex flex-col">
+        <SheetHeader className="pb-2">
+          <div className="w-10 h-1 bg-muted-foreground/30 rounded-full mx-auto mb-3" />
+          <SheetTitle className="text-xl font-bold">Histórico de chamadas</SheetTitle>
+        </SheetHeader>
+
+        {playback && (
+          <div className="space-y-2 pb-4 border-b border-white/5">
+            {playback.recording.mime_type.startsWith("video") ? (
+              <video src={playback.url} controls autoPlay className="w-full max-h-64 rounded-2xl bg-black" />
+            ) : (
+              <audio src={playback.url} controls autoPlay className="w-full" />
+            )}
+            <a
+              href={playback.url}
+              download={`gravacao-${format(new Date(playback.recording.started_at), "yyyy-MM-dd-HHmm")}.webm`}
+              className="flex items-center gap-2 text-sm text-primary"
+            >
+              <Download className="w-4 h-4" />
+              Baixar gravação
+            </a>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-1 pb-8">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-8">
+              Nenhuma chamada nesta conversa
+            </p>
+          ) : (
+            entries.map((entry) => {
+              const isOutgoing = entry.caller_id === user?.id;
+              const isMissed = entry.status === "missed" || entry.status === "declined";
+              const Icon = isMissed ? PhoneMissed : entry.call_type === "video" ? Video : Phone;
+
+              return (
+                <div key={entry.id} className="p-3 rounded-2xl hover:bg-muted/30 transition-colors">
+                  <div className="flex items-center gap-3">
+                    <div
+                      className={cn(
+                        "w-11 h-11 rounded-full flex items-center justify-center",
+                        isMissed ? "bg-destructive/15 text-destructive" : "bg-primary/15 text-primary"
+                      )}
+                    >
+                      <Icon className="w-5 h-5" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">
+                        {entry.call_type === "video" ? "Videochamada" : "Chamada de voz"}
+                        {entry.is_group && " em grupo"}
+                      </p>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {isOutgoing ? "Você ligou" : `${entry.caller_display_name || "Alguém"} ligou`}
+                        {" · "}
+                        {format(new Date(entry.created_at), "d MMM, HH:mm", { locale: ptBR })}
+                      </p>
+                    </div>
+                    <span className={cn("text-sm", isMissed ? "text-destructive" : "text-muted-foreground")}>
+                      {getStatusText(entry, isOutgoing)}
+                    </span>
+                  </div>
+
+                  {entry.recordings.map((recording, index) => (
+                    <Button
+                      key={recording.id}
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handlePlay(recording)}
+                      disabled={loadingRecordingId === recording.id}
+                      className="mt-2 ml-14 h-8 rounded-xl text-primary"
+                    >
+                      {loadingRecordingId === recording.id ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Disc className="w-4 h-4 mr-2" />
+                      )}
+                      Gravação{entry.recordings.length > 1 ? ` ${index + 1}` : ""}
+                      {recording.duration_seconds ? ` · ${formatDuration(recording.duration_seconds)}` : ""}
+                    </Button>
+                  ))}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -34,6 +34,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useCall } from "@/contexts/CallContext";
 import { useAuth } from "@/hooks/useAuth";
 import { cn } from "@/lib/utils";
+import { CallParticipantTile } from "./CallParticipantTile";
 
 export const CallOverlay = () => {
   const { user } = useAuth();
@@ -125,6 +126,11 @@ export const CallOverlay = () => {
   };
 
   const isVideoCall = activeCall.session.call_type === 'video';
+  const isGroupCall = activeCall.session.is_group;
+  const visiblePeers = activeCall.peers.filter(p => p.status === 'invited' || p.status === 'joined');
+  const callTitle = isGroupCall
+    ? activeCall.title || "Chamada em grupo"
+    : activeCall.otherParticipant?.display_name;
 
   const getConnectionQualityIcon = () => {
     switch (activeCall.connectionQuality) {
@@ -195,8 +201,24 @@ export const CallOverlay = () => {
       >
         {/* Video/Avatar Area */}
         <div className="relative h-full w-full">
-          {/* Remote Video or Avatar */}
-          {isVideoCall && activeCall.remoteStream ? (
+          {/* Participant grid (group) or remote video/avatar (1:1) */}
+          {isGroupCall ? (
+            <div
+              className={cn(
+                "w-full h-full grid gap-2 p-2 pt-24 pb-32",
+                visiblePeers.length <= 1 ? "grid-cols-1" : "grid-cols-2"
+              )}
+            >
+              {visiblePeers.map(peer => (
+                <CallParticipantTile
+                  key={peer.id}
+                  peer={peer}
+                  isVideoCall={isVideoCall}
+                  volume={activeCall.remoteVolume}
+                />
+              ))}
+            </div>
+          ) : isVideoCall && activeCall.remoteStream ? (
             <video
               ref={remoteVideoRef}
               autoPlay
@@ -229,7 +251,7 @@ export const CallOverlay = () => {
                  activeCall.session.status === 'ringing' ? "Chamando..." :
                  formatDuration(callDuration)}
               </p>
-              
+            
               {/* Audio visualizer when connected */}
               {activeCall.session.status === 'connected' && !isVideoCall && (
                 <div className="flex items-center gap-1 mt-8">
@@ -286,10 +308,11 @@ export const CallOverlay = () => {
                 <Minimize2 className="w-5 h-5" />
               </Button>
               <div className="text-center">
-                <p className="font-medium">{activeCall.otherParticipant?.display_name}</p>
+                <p className="font-medium">{callTitle}</p>
                 <div className="flex items-center gap-2 justify-center">
                   <p className="text-xs text-muted-foreground">
                     {activeCall.session.status === 'connected' ? formatDuration(callDuration) : activeCall.session.call_type === 'video' ? 'Videochamada' : 'Chamada de voz'}
+                    {isGroupCall && ` · ${visiblePeers.filter(p => p.status === 'joined').length + 1} na chamada`}
                   </p>
                   {activeCall.session.status === 'connected' && (
                     <span className="flex items-center">
@@ -527,15 +550,20 @@ export const CallOverlay = () => {
               <motion.button
                 whileTap={{ scale: 0.9 }}
                 onClick={toggleRecording}
+                disabled={activeCall.recordingStatus === 'saving'}
                 className={cn(
                   "w-14 h-14 rounded-full flex items-center justify-center transition-colors",
                   activeCall.isRecording 
                     ? "bg-red-500/20 text-red-500 animate-pulse" 
-                    : "bg-muted/50 hover:bg-muted"
+                    : activeCall.recordingStatus === 'awaiting-consent'
+                      ? "bg-primary/20 text-primary"
+                      : "bg-muted/50 hover:bg-muted"
                 )}
               >
                 {activeCall.isRecording ? (
                   <Disc className="w-6 h-6" />
+                ) : activeCall.recordingStatus === 'awaiting-consent' ? (
+                  <CircleDashed className="w-6 h-6 animate-spin" />
                 ) : (
                   <Circle className="w-6 h-6" />
                 )}
@@ -0,0 +1,81 @@
+import { useEffect, useRef } from "react";
+import { motion } from "framer-motion";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+import type { CallPeer } from "@/types/calls";
+
+interface CallParticipantTileProps {
+  peer: CallPeer;
+  isVideoCall: boolean;
+  volume: number;
+  className?: string;
+}
+
+const STATUS_LABELS: Record<CallPeer["status"], string> = {
+  invited: "Chamando...",
+  joined: "Conectando...",
+  left: "Saiu da chamada",
+  declined: "Recusou",
+};
+
+export const CallParticipantTile = ({ peer, isVideoCall, volume, className }: CallParticipantTileProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const showVideo = isVideoCall && !!peer.stream && peer.stream.getVideoTracks().length > 0;
+
+  useEffect(() => {
+    const element = showVideo ? videoRef.current : audioRef.current;
+    if (element && peer.stream) {
+      element.srcObject = peer.stream;
+    }
+  }, [peer.stream, showVideo]);
+
+  useEffect(() => {
+    const element = showVideo ? videoRef.current : audioRef.current;
+    if (element) {
+      element.volume = volume / 100;
+    }
+  }, [volume, showVideo]);
+
+  const name = peer.display_name || peer.username || "Usuário";
+
+  return (
+    <div className={cn("relative rounded-2xl overflow-hidden bg-muted/30", className)}>
+      {showVideo ? (
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          className="w-full h-full object-cover"
+        />
+      ) : (
+        <div className="w-full h-full flex flex-col items-center justify-center gap-3">
+          <motion.div
+            animate={{ scale: peer.status === "invited" ? [1, 1.05, 1] : 1 }}
+            transition={{ repeat: peer.status === "invited" ? Infinity : 0, duration: 1.5 }}
+          >
+            <Avatar className={cn("w-20 h-20 border-4 border-primary/20", peer.status !== "joined" && "opacity-60")}>
+              <AvatarImage src={peer.avatar_url || undefined} />
+              <AvatarFallback className="text-2xl">
+                {name[0].toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+          </motion.div>
+          {peer.stream && <audio ref={audioRef} autoPlay />}
+        </div>
+      )}
+
+      <div className="absolute bottom-2 left-2 right-2 flex items-center justify-between gap-2">
+        <span className="bg-background/80 px-2 py-0.5 rounded text-xs font-medium truncate">
+          {name}
+        </span>
+        {!peer.stream && (
+          <span className="bg-background/80 px-2 py-0.5 rounded text-xs text-muted-foreground shrink-0">
+            {STATUS_LABELS[peer.status]}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
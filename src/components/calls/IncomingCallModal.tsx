@@ -112,19 +112,24 @@ export const IncomingCallModal = () => {
           </div>
 
           <h2 className="mt-8 text-2xl font-bold">
-            {incomingCall.caller.display_name || incomingCall.caller.username}
+            {incomingCall.groupTitle || incomingCall.caller.display_name || incomingCall.caller.username}
           </h2>
+          {incomingCall.session.is_group && (
+            <p className="mt-1 text-sm text-muted-foreground">
+              {incomingCall.caller.display_name || incomingCall.caller.username} está chamando o grupo
+            </p>
+          )}
           <div className="flex items-center gap-4 mt-2">
             <div className="flex items-center gap-2 text-muted-foreground">
               {isVideoCall ? (
                 <>
                   <Video className="w-4 h-4" />
-                  <span>Videochamada recebida</span>
+                  <span>{incomingCall.session.is_group ? "Videochamada em grupo" : "Videochamada recebida"}</span>
                 </>
               ) : (
                 <>
                   <Phone className="w-4 h-4" />
-                  <span>Chamada de voz recebida</span>
+                  <span>{incomingCall.session.is_group ? "Chamada de voz em grupo" : "Chamada de voz recebida"}</span>
                 </>
               )}
             </div>
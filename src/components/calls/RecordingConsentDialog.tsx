@@ -0,0 +1,40 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useCall } from "@/contexts/CallContext";
+
+export const RecordingConsentDialog = () => {
+  const { recordingRequest, respondToRecording } = useCall();
+
+  const requesterName =
+    recordingRequest?.requester.display_name || recordingRequest?.requester.username || "Um participante";
+
+  return (
+    <AlertDialog open={!!recordingRequest}>
+      <AlertDialogContent className="rounded-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Permitir gravação?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {requesterName} quer gravar esta chamada. A gravação ficará disponível no histórico de
+            chamadas da conversa para todos os participantes.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel className="rounded-xl" onClick={() => respondToRecording(false)}>
+            Recusar
+          </AlertDialogCancel>
+          <AlertDialogAction className="rounded-xl" onClick={() => respondToRecording(true)}>
+            Permitir
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -1,2 +1,5 @@
 export { CallOverlay } from "./CallOverlay";
 export { IncomingCallModal } from "./IncomingCallModal";
+export { CallParticipantTile } from "./CallParticipantTile";
+export { RecordingConsentDialog } from "./RecordingConsentDialog";
+export { CallHistorySheet } from "./CallHistorySheet";
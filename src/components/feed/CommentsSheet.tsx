@@ -1,15 +1,21 @@
-import { useState } from "react";
+import { useState, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { useComments } from "@/hooks/useComments";
+import { useComments, type Comment } from "@/hooks/useComments";
 import { useAuth } from "@/hooks/useAuth";
+import { useReports } from "@/hooks/useReports";
+import { ReportDialog } from "@/components/reports/ReportDialog";
+import { MentionText } from "@/components/mentions/MentionText";
+import { MentionSuggestions } from "@/components/mentions/MentionSuggestions";
+import { useMentionAutocomplete } from "@/hooks/useMentionAutocomplete";
+import { toMentionRefs } from "@/lib/mentions";
 import { formatDistanceToNow } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import { Heart, Send, Loader2, BadgeCheck, MoreHorizontal, Trash2 } from "lucide-react";
+import { Heart, Send, Loader2, BadgeCheck, MoreHorizontal, Trash2, Flag, X, Pin, PinOff, Eye, EyeOff, MessageSquareOff } from "lucide-react";
 import { cn } from "@/lib/utils";
 import {
   DropdownMenu,
@@ -26,20 +32,71 @@ interface CommentsSheetProps {
 
 export const CommentsSheet = ({ isOpen, onClose, postId }: CommentsSheetProps) => {
   const { user, profile } = useAuth();
-  const { comments, isLoading, addComment, likeComment, deleteComment } = useComments(postId);
+  const {
+    comments,
+    isLoading,
+    addComment,
+    likeComment,
+    deleteComment,
+    hideComment,
+    pinComment,
+    isPostAuthor,
+    pinnedCommentId,
+    commentsDisabled,
+  } = useComments(postId);
   const [newComment, setNewComment] = useState("");
+  const mention = useMentionAutocomplete(newComment, setNewComment);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { submitReport } = useReports();
+  const [reportingCommentId, setReportingCommentId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<{ comment: Comment; threadId: string } | null>(null);
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(new Set());
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const totalCount = comments.reduce((count, c) => count + 1 + (c.replies?.length || 0), 0);
+
+  const toggleThread = (threadId: string, expanded: boolean) => {
+    setExpandedThreads((prev) => {
+      const next = new Set(prev);
+      if (expanded) next.add(threadId);
+      else next.delete(threadId);
+      return next;
+    });
+  };
+
+  // Replies start with the author's handle so the thread reads as a conversation
+  const startReply = (comment: Comment, threadId: string) => {
+    setReplyingTo({ comment, threadId });
+    setNewComment(comment.user?.username ? `@${comment.user.username} ` : "");
+    inputRef.current?.focus();
+  };
+
+  const cancelReply = () => {
+    setReplyingTo(null);
+    setNewComment("");
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newComment.trim() || isSubmitting) return;
 
     setIsSubmitting(true);
-    await addComment(newComment.trim());
-    setNewComment("");
+    const { error } = await addComment(newComment.trim(), replyingTo?.comment.id);
+    if (!error) {
+      if (replyingTo) toggleThread(replyingTo.threadId, true);
+      setReplyingTo(null);
+      setNewComment("");
+    }
     setIsSubmitting(false);
   };
 
+  const handleReport = async (reason: string) => {
+    if (!reportingCommentId) return;
+    const commentId = reportingCommentId;
+    setReportingCommentId(null);
+    await submitReport("comment", commentId, reason);
+  };
+
   const getBadgeColor = (type: string) => {
     switch (type) {
       case "gold":
@@ -51,12 +108,91 @@ export const CommentsSheet = ({ isOpen, onClose, postId }: CommentsSheetProps) =
     }
   };
 
+  const renderActions = (comment: Comment, threadId: string) => (
+    <div className="flex items-center gap-4 mt-2">
+      <button
+        onClick={() => likeComment(comment.id)}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-destructive transition-colors"
+      >
+        <Heart 
+          className={cn(
+            "w-4 h-4",
+            comment.is_liked && "fill-destructive text-destructive"
+          )} 
+        />
+        {comment.likes_count > 0 && comment.likes_count}
+      </button>
+
+      {user && (
+        <button
+          onClick={() => startReply(comment, threadId)}
+          className="text-xs font-medium text-muted-foreground hover:text-foreground"
+        >
+          Responder
+        </button>
+      )}
+
+      {user && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button className="text-muted-foreground hover:text-foreground">
+              <MoreHorizontal className="w-4 h-4" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {/* Post authors moderate the discussion on their posts */}
+            {isPostAuthor && !comment.parent_id && !comment.hidden_by_author && (
+              <DropdownMenuItem
+                onClick={() => pinComment(pinnedCommentId === comment.id ? null : comment.id)}
+              >
+                {pinnedCommentId === comment.id ? (
+                  <PinOff className="w-4 h-4 mr-2" />
+                ) : (
+                  <Pin className="w-4 h-4 mr-2" />
+                )}
+                {pinnedCommentId === comment.id ? "Desafixar" : "Fixar"}
+              </DropdownMenuItem>
+            )}
+            {isPostAuthor && user.id !== comment.user_id && (
+              <DropdownMenuItem onClick={() => hideComment(comment.id, !comment.hidden_by_author)}>
+                {comment.hidden_by_author ? (
+                  <Eye className="w-4 h-4 mr-2" />
+                ) : (
+                  <EyeOff className="w-4 h-4 mr-2" />
+                )}
+                {comment.hidden_by_author ? "Mostrar" : "Ocultar"}
+              </DropdownMenuItem>
+            )}
+            {(user.id === comment.user_id || isPostAuthor) && (
+              <DropdownMenuItem
+                onClick={() => deleteComment(comment.id)}
+                className="text-destructive"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Excluir
+              </DropdownMenuItem>
+            )}
+            {user.id !== comment.user_id && (
+              <DropdownMenuItem
+                onClick={() => setReportingCommentId(comment.id)}
+                className="text-destructive"
+              >
+                <Flag className="w-4 h-4 mr-2" />
+                Denunciar
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+
   return (
     <Sheet open={isOpen} onOpenChange={onClose}>
       <SheetContent side="bottom" className="h-[80vh] rounded-t-3xl">
         <SheetHeader className="border-b border-white/10 pb-4">
           <SheetTitle className="text-center">
-            Comentários ({comments.length})
+            Comentários ({totalCount})
           </SheetTitle>
         </SheetHeader>
 
@@ -81,7 +217,7 @@ export const CommentsSheet = ({ isOpen, onClose, postId }: CommentsSheetProps) =
                     initial={{ opacity: 0, y: 10 }}
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ delay: index * 0.05 }}
-                    className="flex gap-3"
+                    className={cn("flex gap-3", isPostAuthor && comment.hidden_by_author && "opacity-60")}
                   >
                     <Avatar className="w-8 h-8 flex-shrink-0">
                       <AvatarImage src={comment.user?.avatar_url || ""} />
@@ -91,6 +227,12 @@ export const CommentsSheet = ({ isOpen, onClose, postId }: CommentsSheetProps) =
                     </Avatar>
 
                     <div className="flex-1 min-w-0">
+                      {pinnedCommentId === comment.id && (
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground mb-0.5">
+                          <Pin className="w-3 h-3" />
+                          Fixado pelo autor
+                        </div>
+                      )}
                       <div className="flex items-center gap-1 flex-wrap">
                         <span className="font-semibold text-sm">
                           {comment.user?.display_name || comment.user?.username || "Usuário"}
@@ -106,71 +248,74 @@ export const CommentsSheet = ({ isOpen, onClose, postId }: CommentsSheetProps) =
                             locale: ptBR,
                           })}
                         </span>
-                      </div>
-                      <p className="text-sm text-foreground mt-0.5">{comment.content}</p>
-                      
-                      <div className="flex items-center gap-4 mt-2">
-                        <button
-                          onClick={() => likeComment(comment.id)}
-                          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-destructive transition-colors"
-                        >
-                          <Heart 
-                            className={cn(
-                              "w-4 h-4",
-                              comment.is_liked && "fill-destructive text-destructive"
-                            )} 
-                          />
-                          {comment.likes_count > 0 && comment.likes_count}
-                        </button>
-                        
-                        {user?.id === comment.user_id && (
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <button className="text-muted-foreground hover:text-foreground">
-                                <MoreHorizontal className="w-4 h-4" />
-                              </button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="start">
-                              <DropdownMenuItem
-                                onClick={() => deleteComment(comment.id)}
-                                className="text-destructive"
-                              >
-                                <Trash2 className="w-4 h-4 mr-2" />
-                                Excluir
-                              </DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
+                        {isPostAuthor && comment.hidden_by_author && (
+                          <span className="text-xs text-muted-foreground">· Oculto</span>
                         )}
                       </div>
+                      <p className="text-sm text-foreground mt-0.5">
+                        <MentionText text={comment.content} mentions={toMentionRefs(comment.mentions)} />
+                      </p>
+                      
+                      {renderActions(comment, comment.id)}
 
                       {/* Replies */}
                       {comment.replies && comment.replies.length > 0 && (
-                        <div className="mt-3 space-y-3 pl-4 border-l border-white/10">
-                          {comment.replies.map((reply: any) => (
-                            <div key={reply.id} className="flex gap-2">
-                              <Avatar className="w-6 h-6 flex-shrink-0">
-                                <AvatarImage src={reply.user?.avatar_url || ""} />
-                                <AvatarFallback className="text-xs">
-                                  {reply.user?.display_name?.[0] || "?"}
-                                </AvatarFallback>
-                              </Avatar>
-                              <div>
-                                <div className="flex items-center gap-1">
-                                  <span className="font-semibold text-xs">
-                                    {reply.user?.display_name || "Usuário"}
-                                  </span>
-                                  <span className="text-xs text-muted-foreground">
-                                    · {formatDistanceToNow(new Date(reply.created_at), {
-                                      addSuffix: false,
-                                      locale: ptBR,
-                                    })}
-                                  </span>
+                        expandedThreads.has(comment.id) ? (
+                          <div className="mt-3 space-y-3 pl-4 border-l border-white/10">
+                            {comment.replies.map((reply) => (
+                              <div
+                                key={reply.id}
+                                className={cn("flex gap-2", isPostAuthor && reply.hidden_by_author && "opacity-60")}
+                              >
+                                <Avatar className="w-6 h-6 flex-shrink-0">
+                                  <AvatarImage src={reply.user?.avatar_url || ""} />
+                                  <AvatarFallback className="text-xs">
+                                    {reply.user?.display_name?.[0] || "?"}
+                                  </AvatarFallback>
+                                </Avatar>
+                                <div className="flex-1 min-w-0">
+                                  <div className="flex items-center gap-1">
+                                    <span className="font-semibold text-xs">
+                                      {reply.user?.display_name || reply.user?.username || "Usuário"}
+                                    </span>
+                                    {reply.user?.is_verified && (
+                                      <BadgeCheck
+                                        className={cn("w-3 h-3", getBadgeColor(reply.user?.verification_type || "blue"))}
+                                      />
+                                    )}
+                                    <span className="text-xs text-muted-foreground">
+                                      · {formatDistanceToNow(new Date(reply.created_at), {
+                                        addSuffix: false,
+                                        locale: ptBR,
+                                      })}
+                                    </span>
+                                    {isPostAuthor && reply.hidden_by_author && (
+                                      <span className="text-xs text-muted-foreground">· Oculto</span>
+                                    )}
+                                  </div>
+                                  <p className="text-xs text-foreground">
+                                    <MentionText text={reply.content} mentions={toMentionRefs(reply.mentions)} />
+                                  </p>
+                                  {renderActions(reply, comment.id)}
                                 </div>
-                                <p className="text-xs text-foreground">{reply.content}</p>
                               </div>
-                            </div>
-                          ))}
-                        </div>
+                            ))}
+                            <button
+                              onClick={() => toggleThread(comment.id, false)}
+                              className="text-xs font-medium text-muted-foreground hover:text-foreground"
+                            >
+                              Ocultar respostas
+                            </button>
+                          </div>
+                        ) : (
+                          <button
+                            onClick={() => toggleThread(comment.id, true)}
+                            className="mt-3 flex items-center gap-2 text-xs font-medium text-muted-foreground hover:text-foreground"
+                          >
+                            <span className="w-6 h-px bg-muted-foreground/50" />
+                            Ver {comment.replies.length} {comment.replies.length === 1 ? "resposta" : "respostas"}
+                          </button>
+                        )
                       )}
                     </div>
                   </motion.div>
@@ -181,8 +326,24 @@ export const CommentsSheet = ({ isOpen, onClose, postId }: CommentsSheetProps) =
         )}
 
         {/* Comment Input */}
-        {user && (
+        {user && commentsDisabled && (
+          <div className="absolute bottom-0 left-0 right-0 p-4 glass-strong border-t border-white/10 safe-bottom flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <MessageSquareOff className="w-4 h-4" />
+            Os comentários foram desativados
+          </div>
+        )}
+        {user && !commentsDisabled && (
           <form onSubmit={handleSubmit} className="absolute bottom-0 left-0 right-0 p-4 glass-strong border-t border-white/10 safe-bottom">
+            {replyingTo && (
+              <div className="flex items-center justify-between mb-2 text-xs text-muted-foreground">
+                <span>
+                  Respondendo a @{replyingTo.comment.user?.username || replyingTo.comment.user?.display_name || "usuário"}
+                </span>
+                <button type="button" onClick={cancelReply} className="hover:text-foreground">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
             <div className="flex items-center gap-3">
               <Avatar className="w-8 h-8">
                 <AvatarImage src={profile?.avatar_url || ""} />
@@ -190,12 +351,17 @@ export const CommentsSheet = ({ isOpen, onClose, postId }: CommentsSheetProps) =
                   {profile?.display_name?.[0] || "?"}
                 </AvatarFallback>
               </Avatar>
-              <Input
-                value={newComment}
-                onChange={(e) => setNewComment(e.target.value)}
-                placeholder="Adicione um comentário..."
-                className="flex-1"
-              />
+              <div className="relative flex-1">
+                <Input
+                  ref={inputRef}
+                  value={newComment}
+                  onChange={mention.handleChange}
+                  onKeyDown={mention.handleKeyDown}
+                  onBlur={mention.closeSuggestions}
+                  placeholder={replyingTo ? "Adicione uma resposta..." : "Adicione um comentário..."}
+                />
+                <MentionSuggestions users={mention.suggestions} onSelect={mention.selectMention} />
+              </div>
               <Button
                 type="submit"
                 variant="ghost"
@@ -212,6 +378,12 @@ export const CommentsSheet = ({ isOpen, onClose, postId }: CommentsSheetProps) =
           </form>
         )}
       </SheetContent>
+
+      <ReportDialog
+        open={!!reportingCommentId}
+        onOpenChange={(open) => !open && setReportingCommentId(null)}
+        onSubmit={handleReport}
+      />
     </Sheet>
   );
 };
\ No newline at end of file
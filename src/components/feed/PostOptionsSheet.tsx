@@ -11,12 +11,18 @@ import {
   Copy,
   UserMinus,
   AlertTriangle,
-  Loader2
+  Loader2,
+  EyeOff,
+  Hash,
+  MessageSquare,
+  MessageSquareOff
 } from "lucide-react";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { usePostActions } from "@/hooks/usePostActions";
 import { useAuth } from "@/hooks/useAuth";
 import { useSavedPosts } from "@/hooks/useSavedPosts";
+import { useFeedFeedback } from "@/hooks/useFeedFeedback";
+import { ReportDialog } from "@/components/reports/ReportDialog";
 import { toast } from "sonner";
 import {
   AlertDialog,
@@ -34,9 +40,14 @@ interface PostOptionsSheetProps {
   onClose: () => void;
   postId: string;
   creatorId: string;
+  creatorUsername?: string;
+  tags?: string[] | null;
   isPrivate?: boolean;
+  commentsDisabled?: boolean;
   onPostDeleted?: () => void;
   onPrivacyChanged?: () => void;
+  onCommentsToggled?: () => void;
+  onNotInterested?: () => void;
 }
 
 export const PostOptionsSheet = ({
@@ -44,15 +55,22 @@ export const PostOptionsSheet = ({
   onClose,
   postId,
   creatorId,
+  creatorUsername,
+  tags,
   isPrivate = false,
+  commentsDisabled = false,
   onPostDeleted,
   onPrivacyChanged,
+  onCommentsToggled,
+  onNotInterested,
 }: PostOptionsSheetProps) => {
   const { user } = useAuth();
-  const { deletePost, togglePrivacy, isLoading } = usePostActions();
+  const { deletePost, togglePrivacy, toggleComments, reportPost, isLoading } = usePostActions();
   const { isPostSaved, toggleSavePost } = useSavedPosts();
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showReportDialog, setShowReportDialog] = useState(false);
+  const [showNotInterestedDialog, setShowNotInterestedDialog] = useState(false);
+  const { hidePost, hideCreator, hideTag } = useFeedFeedback();
 
   const isOwner = user?.id === creatorId;
   const isSaved = isPostSaved(postId);
@@ -109,16 +127,51 @@ export const PostOptionsSheet = ({
     }
   };
 
+  const handleToggleComments = async () => {
+    const success = await toggleComments(postId, commentsDisabled);
+    if (success) {
+      onCommentsToggled?.();
+      onClose();
+    }
+  };
+
   const handleReport = () => {
     setShowReportDialog(true);
   };
 
   const submitReport = async (reason: string) => {
     setShowReportDialog(false);
-    toast.success("Denúncia enviada. Obrigado pelo feedback!");
+    await reportPost(postId, reason);
+    onClose();
+  };
+
+  const submitNotInterested = async (hide: () => Promise<boolean>) => {
+    setShowNotInterestedDialog(false);
+    const success = await hide();
+    if (success) {
+      onNotInterested?.();
+    }
     onClose();
   };
 
+  const notInterestedChoices = [
+    {
+      icon: EyeOff,
+      label: "Ocultar este post",
+      onClick: () => submitNotInterested(() => hidePost(postId)),
+    },
+    {
+      icon: UserMinus,
+      label: creatorUsername ? `Ocultar posts de @${creatorUsername}` : "Ocultar posts deste criador",
+      onClick: () => submitNotInterested(() => hideCreator(creatorId)),
+    },
+    ...(tags || []).slice(0, 3).map((tag) => ({
+      icon: Hash,
+      label: `Mostrar menos #${tag.replace(/^#+/, "")}`,
+      onClick: () => submitNotInterested(() => hideTag(tag)),
+    })),
+  ];
+
   const ownerOptions = [
     {
       icon: isPrivate ? Unlock : Lock,
@@ -127,6 +180,13 @@ export const PostOptionsSheet = ({
       onClick: handleTogglePrivacy,
       color: "text-foreground",
     },
+    {
+      icon: commentsDisabled ? MessageSquare : MessageSquareOff,
+      label: commentsDisabled ? "Ativar comentários" : "Desativar comentários",
+      description: commentsDisabled ? "Todos poderão comentar de novo" : "Ninguém poderá comentar neste post",
+      onClick: handleToggleComments,
+      color: "text-foreground",
+    },
     {
       icon: Share2,
       label: "Compartilhar",
@@ -176,10 +236,7 @@ export const PostOptionsSheet = ({
       icon: UserMinus,
       label: "Não tenho interesse",
       description: "Mostrar menos posts como este",
-      onClick: () => {
-        toast.info("Preferência salva");
-        onClose();
-      },
+      onClick: () => setShowNotInterestedDialog(true),
       color: "text-foreground",
     },
     {
@@ -270,30 +327,24 @@ export const PostOptionsSheet = ({
         </AlertDialogContent>
       </AlertDialog>
 
-      {/* Report Dialog */}
-      <AlertDialog open={showReportDialog} onOpenChange={setShowReportDialog}>
+      {/* Not Interested Dialog */}
+      <AlertDialog open={showNotInterestedDialog} onOpenChange={setShowNotInterestedDialog}>
         <AlertDialogContent className="rounded-2xl">
           <AlertDialogHeader>
-            <AlertDialogTitle>Por que você está denunciando?</AlertDialogTitle>
+            <AlertDialogTitle>Não tenho interesse</AlertDialogTitle>
             <AlertDialogDescription>
-              Selecione o motivo da denúncia
+              Você pode desfazer isso em Configurações
             </AlertDialogDescription>
           </AlertDialogHeader>
           <div className="space-y-2 py-4">
-            {[
-              "Spam ou golpe",
-              "Nudez ou atividade sexual",
-              "Discurso de ódio",
-              "Violência ou ameaças",
-              "Informação falsa",
-              "Outro",
-            ].map((reason) => (
+            {notInterestedChoices.map((choice) => (
               <button
-                key={reason}
-                onClick={() => submitReport(reason)}
-                className="w-full p-3 text-left rounded-xl hover:bg-muted/50 active:bg-muted transition-colors"
+                key={choice.label}
+                onClick={choice.onClick}
+                className="w-full flex items-center gap-3 p-3 text-left rounded-xl hover:bg-muted/50 active:bg-muted transition-colors"
               >
-                {reason}
+                <choice.icon className="w-4 h-4 text-muted-foreground" />
+                {choice.label}
               </button>
             ))}
           </div>
@@ -304,6 +355,13 @@ export const PostOptionsSheet = ({
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Report Dialog */}
+      <ReportDialog
+        open={showReportDialog}
+        onOpenChange={setShowReportDialog}
+        onSubmit={submitReport}
+      />
     </>
   );
 };
@@ -10,6 +10,8 @@ import { useSavedPosts } from "@/hooks/useSavedPosts";
 import { useFollow } from "@/hooks/useFollow";
 import { useAuth } from "@/hooks/useAuth";
 import { toast } from "sonner";
+import { MentionText } from "@/components/mentions/MentionText";
+import type { MentionRef } from "@/lib/mentions";
 
 interface VideoCardProps {
   id: string;
@@ -18,6 +20,7 @@ interface VideoCardProps {
   displayName: string;
   avatar: string;
   description: string;
+  mentions?: MentionRef[];
   likes: number;
   comments: number;
   shares: number;
@@ -27,8 +30,11 @@ interface VideoCardProps {
   thumbnailUrl: string;
   isLiked?: boolean;
   isPrivate?: boolean;
+  commentsDisabled?: boolean;
+  tags?: string[] | null;
   onLike?: () => void;
   onDeleted?: () => void;
+  onHidden?: () => void;
 }
 
 export const VideoCard = ({
@@ -38,6 +44,7 @@ export const VideoCard = ({
   displayName,
   avatar,
   description,
+  mentions,
   likes,
   comments,
   shares,
@@ -46,12 +53,15 @@ export const VideoCard = ({
   thumbnailUrl,
   isLiked: externalIsLiked,
   isPrivate = false,
+  commentsDisabled = false,
+  tags,
   onLike,
   onDeleted,
+  onHidden,
 }: VideoCardProps) => {
   const navigate = useNavigate();
   const { user } = useAuth();
-  const { isFollowing, toggleFollow, isLoading: followLoading } = useFollow(creatorId);
+  const { isFollowing, isRequested, toggleFollow, isLoading: followLoading } = useFollow(creatorId);
   const { isPostSaved, toggleSavePost } = useSavedPosts();
   
   const [isLiked, setIsLiked] = useState(externalIsLiked ?? false);
@@ -62,6 +72,7 @@ export const VideoCard = ({
   const [commentsOpen, setCommentsOpen] = useState(false);
   const [optionsOpen, setOptionsOpen] = useState(false);
   const [localIsPrivate, setLocalIsPrivate] = useState(isPrivate);
+  const [localCommentsDisabled, setLocalCommentsDisabled] = useState(commentsDisabled);
 
   const isSaved = isPostSaved(id);
   const isOwnPost = user?.id === creatorId;
@@ -166,7 +177,11 @@ export const VideoCard = ({
     }
     
     await toggleFollow();
-    toast.success(isFollowing ? "Deixou de seguir" : "Seguindo!");
+    if (isRequested) {
+      toast.success("Solicitação cancelada");
+    } else {
+      toast.success(isFollowing ? "Deixou de seguir" : "Seguindo!");
+    }
   };
 
   const handleOpenProfile = () => {
@@ -261,17 +276,19 @@ export const VideoCard = ({
                 </button>
                 {!isOwnPost && (
                   <Button 
-                    variant={isFollowing ? "outline" : "neon"} 
+                    variant={isFollowing || isRequested ? "outline" : "neon"} 
                     size="sm" 
                     className="ml-2"
                     onClick={handleFollow}
                     disabled={followLoading}
                   >
-                    {isFollowing ? "Seguindo" : "Seguir"}
+                    {isFollowing ? "Seguindo" : isRequested ? "Solicitado" : "Seguir"}
                   </Button>
                 )}
               </div>
-              <p className="text-sm text-foreground/90 line-clamp-2">{description}</p>
+              <p className="text-sm text-foreground/90 line-clamp-2">
+                <MentionText text={description} mentions={mentions} />
+              </p>
             </div>
 
             {/* Right Side - Actions */}
@@ -322,9 +339,14 @@ export const VideoCard = ({
         onClose={() => setOptionsOpen(false)}
         postId={id}
         creatorId={creatorId}
+        creatorUsername={username}
+        tags={tags}
         isPrivate={localIsPrivate}
+        commentsDisabled={localCommentsDisabled}
         onPostDeleted={onDeleted}
         onPrivacyChanged={() => setLocalIsPrivate(!localIsPrivate)}
+        onCommentsToggled={() => setLocalCommentsDisabled(!localCommentsDisabled)}
+        onNotInterested={onHidden}
       />
     </>
   );
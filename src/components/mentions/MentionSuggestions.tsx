@@ -0,0 +1,58 @@
+import { BadgeCheck } from "lucide-react";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+
+interface MentionCandidate {
+  id: string;
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+  is_verified: boolean;
+}
+
+interface MentionSuggestionsProps {
+  users: MentionCandidate[];
+  onSelect: (username: string) => void;
+  placement?: "above" | "below";
+}
+
+// Floating list for useMentionAutocomplete; the parent must be `relative`
+export const MentionSuggestions = ({ users, onSelect, placement = "above" }: MentionSuggestionsProps) => {
+  if (users.length === 0) return null;
+
+  return (
+    <div
+      className={cn(
+        "absolute left-0 right-0 z-50 max-h-60 overflow-y-auto rounded-xl border border-border bg-popover shadow-lg",
+        placement === "above" ? "bottom-full mb-2" : "top-full mt-2"
+      )}
+    >
+      {users.map((candidate) => (
+        <button
+          key={candidate.id}
+          type="button"
+          // Keep focus in the field while picking
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => candidate.username && onSelect(candidate.username)}
+          className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-muted/50 transition-colors"
+        >
+          <Avatar className="w-8 h-8">
+            <AvatarImage src={candidate.avatar_url || ""} />
+            <AvatarFallback>
+              {candidate.display_name?.[0] || candidate.username?.[0] || "?"}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-1">
+              <span className="text-sm font-medium truncate">
+                {candidate.display_name || candidate.username}
+              </span>
+              {candidate.is_verified && <BadgeCheck className="w-3.5 h-3.5 text-blue-500 flex-shrink-0" />}
+            </div>
+            <span className="text-xs text-muted-foreground truncate block">@{candidate.username}</span>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+};
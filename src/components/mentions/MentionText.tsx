@@ -0,0 +1,71 @@
+import { Fragment } from "react";
+import { Link } from "react-router-dom";
+import { useMentionUsernames } from "@/hooks/useMentionUsernames";
+import { splitMentions, type MentionRef } from "@/lib/mentions";
+import { normalizeTag, splitHashtags } from "@/lib/hashtags";
+import { cn } from "@/lib/utils";
+
+interface MentionTextProps {
+  text: string;
+  mentions?: MentionRef[];
+  // Replaces the default link color, e.g. on the sender's own bubble
+  linkClassName?: string;
+}
+
+// #tags in plain text link to their tag page
+const HashtagText = ({ text, linkClassName }: { text: string; linkClassName?: string }) => (
+  <>
+    {splitHashtags(text).map((part, index) =>
+      part.type === "text" ? (
+        <Fragment key={index}>{part.value}</Fragment>
+      ) : (
+        <Link
+          key={index}
+          to={`/tag/${encodeURIComponent(normalizeTag(part.tag))}`}
+          onClick={(e) => e.stopPropagation()}
+          className={cn("font-semibold hover:underline", linkClassName ?? "text-primary")}
+        >
+          #{part.tag}
+        </Link>
+      )
+    )}
+  </>
+);
+
+// Renders stored mentions as links with the user's current username and
+// #tags as links to their tag page; any other "@word" stays plain text.
+export const MentionText = ({ text, mentions = [], linkClassName }: MentionTextProps) => {
+  const usernames = useMentionUsernames(mentions.map((m) => m.user_id));
+
+  if (mentions.length === 0) return <HashtagText text={text} linkClassName={linkClassName} />;
+
+  const userIdByHandle = new Map(mentions.map((m) => [m.handle, m.user_id]));
+
+  return (
+    <>
+      {splitMentions(text).map((part, index) => {
+        if (part.type === "text") {
+          return <HashtagText key={index} text={part.value} linkClassName={linkClassName} />;
+        }
+
+        const userId = userIdByHandle.get(part.handle.toLowerCase());
+        const username = userId ? usernames[userId] : null;
+
+        if (!username) {
+          return <Fragment key={index}>@{part.handle}</Fragment>;
+        }
+
+        return (
+          <Link
+            key={index}
+            to={`/@${username}`}
+            onClick={(e) => e.stopPropagation()}
+            className={cn("font-semibold hover:underline", linkClassName ?? "text-primary")}
+          >
+            @{username}
+          </Link>
+        );
+      })}
+    </>
+  );
+};
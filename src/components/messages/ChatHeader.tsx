@@ -1,4 +1,4 @@
-import { ArrowLeft, MoreVertical, Phone, Video } from "lucide-react";
+import { ArrowLeft, MoreVertical, Phone, Timer, Video, Users } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { TypingIndicator } from "./TypingIndicator";
 import { useCall } from "@/contexts/CallContext";
@@ -7,29 +7,59 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { formatDisappearingTimer } from "@/lib/systemMessages";
+import { getMutedUntil } from "@/lib/conversationState";
+import { DISAPPEARING_TIMERS, MUTE_DURATIONS } from "@/types/messages";
 import { toast } from "sonner";
 
 interface ChatHeaderProps {
   conversationId: string;
-  otherUserId: string;
   displayName: string | null;
   username: string | null;
   avatarUrl: string | null;
   isOnline: boolean;
   isTyping: boolean;
+  isGroup?: boolean;
+  memberCount?: number;
+  onOpenGroupInfo?: () => void;
+  onOpenCallHistory?: () => void;
+  onOpenSharedMedia?: () => void;
+  onOpenSearch?: () => void;
+  onOpenScheduled?: () => void;
+  disappearingSeconds?: number | null;
+  // Left out when the user can't change the timer (non-admins in groups)
+  onChangeDisappearing?: (seconds: number | null) => void;
+  isMuted?: boolean;
+  // null turns notifications back on
+  onChangeMuted?: (mutedUntil: string | null) => void;
   onBack: () => void;
 }
 
 export const ChatHeader = ({
   conversationId,
-  otherUserId,
   displayName,
   username,
   avatarUrl,
   isOnline,
   isTyping,
+  isGroup = false,
+  memberCount = 0,
+  onOpenGroupInfo,
+  onOpenCallHistory,
+  onOpenSharedMedia,
+  onOpenSearch,
+  onOpenScheduled,
+  disappearingSeconds = null,
+  onChangeDisappearing,
+  isMuted = false,
+  onChangeMuted,
   onBack,
 }: ChatHeaderProps) => {
   const { startCall, activeCall } = useCall();
@@ -39,7 +69,7 @@ export const ChatHeader = ({
       toast.error("Você já está em uma chamada");
       return;
     }
-    await startCall(conversationId, otherUserId, "audio");
+    await startCall(conversationId, "audio");
   };
 
   const handleVideoCall = async () => {
@@ -47,9 +77,45 @@ export const ChatHeader = ({
       toast.error("Você já está em uma chamada");
       return;
     }
-    await startCall(conversationId, otherUserId, "video");
+    await startCall(conversationId, "video");
   };
 
+  const disappearingMenu = onChangeDisappearing && (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger>Mensagens temporárias</DropdownMenuSubTrigger>
+      <DropdownMenuSubContent>
+        <DropdownMenuRadioGroup
+          value={String(disappearingSeconds ?? "off")}
+          onValueChange={(value) => onChangeDisappearing(value === "off" ? null : Number(value))}
+        >
+          <DropdownMenuRadioItem value="off">Desativadas</DropdownMenuRadioItem>
+          {DISAPPEARING_TIMERS.map((seconds) => (
+            <DropdownMenuRadioItem key={seconds} value={String(seconds)}>
+              {formatDisappearingTimer(seconds)}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+
+  const muteMenu = onChangeMuted && (
+    isMuted ? (
+      <DropdownMenuItem onClick={() => onChangeMuted(null)}>Ativar notificações</DropdownMenuItem>
+    ) : (
+      <DropdownMenuSub>
+        <DropdownMenuSubTrigger>Silenciar notificações</DropdownMenuSubTrigger>
+        <DropdownMenuSubContent>
+          {MUTE_DURATIONS.map((duration) => (
+            <DropdownMenuItem key={duration.label} onClick={() => onChangeMuted(getMutedUntil(duration.hours))}>
+              {duration.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuSubContent>
+      </DropdownMenuSub>
+    )
+  );
+
   return (
     <header className="glass-strong border-b border-white/5 px-4 py-3 safe-top">
       <div className="flex items-center gap-3">
@@ -61,11 +127,14 @@ export const ChatHeader = ({
           <ArrowLeft className="w-5 h-5" />
         </motion.button>
         
-        <div className="relative">
+        <div
+          className="relative"
+          onClick={isGroup ? onOpenGroupInfo : undefined}
+        >
           <Avatar className="w-10 h-10 ring-2 ring-background">
             <AvatarImage src={avatarUrl || undefined} />
             <AvatarFallback className="bg-gradient-to-br from-primary/20 to-primary/5">
-              {(displayName || "U")[0].toUpperCase()}
+              {isGroup ? <Users className="w-5 h-5" /> : (displayName || "U")[0].toUpperCase()}
             </AvatarFallback>
           </Avatar>
           {isOnline && (
@@ -77,13 +146,30 @@ export const ChatHeader = ({
           )}
         </div>
         
-        <div className="flex-1 min-w-0">
-          <p className="font-semibold truncate">{displayName || username || "Usuário"}</p>
+        <div
+          className="flex-1 min-w-0"
+          onClick={isGroup ? onOpenGroupInfo : undefined}
+        >
+          <div className="flex items-center gap-1">
+            <p className="font-semibold truncate">
+              {displayName || username || (isGroup ? "Grupo" : "Usuário")}
+            </p>
+            {disappearingSeconds && (
+              <Timer
+                className="w-3.5 h-3.5 flex-shrink-0 text-muted-foreground"
+                aria-label={`Mensagens temporárias: ${formatDisappearingTimer(disappearingSeconds)}`}
+              />
+            )}
+          </div>
           {isTyping ? (
             <div className="flex items-center gap-1.5">
               <span className="text-xs text-primary font-medium">Digitando</span>
               <TypingIndicator className="scale-75 origin-left" />
             </div>
+          ) : isGroup ? (
+            <p className="text-xs text-muted-foreground">
+              {memberCount + 1} membros
+            </p>
           ) : isOnline ? (
             <p className="text-xs text-success font-medium">Online agora</p>
           ) : (
@@ -119,10 +205,28 @@ export const ChatHeader = ({
               </motion.button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="w-48">
-              <DropdownMenuItem>Ver perfil</DropdownMenuItem>
-              <DropdownMenuItem>Silenciar notificações</DropdownMenuItem>
-              <DropdownMenuItem>Buscar na conversa</DropdownMenuItem>
-              <DropdownMenuItem className="text-destructive">Bloquear usuário</DropdownMenuItem>
+              {isGroup ? (
+                <>
+                  <DropdownMenuItem onClick={onOpenGroupInfo}>Dados do grupo</DropdownMenuItem>
+                  <DropdownMenuItem onClick={onOpenSharedMedia}>Mídia compartilhada</DropdownMenuItem>
+                  <DropdownMenuItem onClick={onOpenCallHistory}>Histórico de chamadas</DropdownMenuItem>
+                  {muteMenu}
+                  <DropdownMenuItem onClick={onOpenSearch}>Buscar na conversa</DropdownMenuItem>
+                  <DropdownMenuItem onClick={onOpenScheduled}>Mensagens programadas</DropdownMenuItem>
+                  {disappearingMenu}
+                </>
+              ) : (
+                <>
+                  <DropdownMenuItem>Ver perfil</DropdownMenuItem>
+                  <DropdownMenuItem onClick={onOpenSharedMedia}>Mídia compartilhada</DropdownMenuItem>
+                  <DropdownMenuItem onClick={onOpenCallHistory}>Histórico de chamadas</DropdownMenuItem>
+                  {muteMenu}
+                  <DropdownMenuItem onClick={onOpenSearch}>Buscar na conversa</DropdownMenuItem>
+                  <DropdownMenuItem onClick={onOpenScheduled}>Mensagens programadas</DropdownMenuItem>
+                  {disappearingMenu}
+                  <DropdownMenuItem className="text-destructive">Bloquear usuário</DropdownMenuItem>
+                </>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
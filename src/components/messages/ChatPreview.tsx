@@ -1,4 +1,5 @@
-import { BadgeCheck, Mic, Sticker } from "lucide-react";
+import { useRef } from "react";
+import { BadgeCheck, BellOff, Mic, Pin, Sticker, Timer } from "lucide-react";
 import { motion } from "framer-motion";
 import { cn } from "@/lib/utils";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -16,7 +17,15 @@ interface ChatPreviewProps {
   verificationBadge?: "blue" | "gold" | "staff" | "none" | null;
   isAudioMessage?: boolean;
   isStickerMessage?: boolean;
+  // Disappearing messages are on
+  isDisappearing?: boolean;
+  isPinned?: boolean;
+  isMuted?: boolean;
+  // Marked unread by hand; shows a dot when there's no count
+  isMarkedUnread?: boolean;
   onClick: () => void;
+  // Long-press on touch, right-click on desktop
+  onLongPress?: () => void;
   index?: number;
   // Legacy props for backward compatibility
   avatar?: string;
@@ -36,9 +45,44 @@ export const ChatPreview = ({
   verificationBadge = "blue",
   isAudioMessage = false,
   isStickerMessage = false,
+  isDisappearing = false,
+  isPinned = false,
+  isMuted = false,
+  isMarkedUnread = false,
   onClick,
+  onLongPress,
   index = 0,
 }: ChatPreviewProps) => {
+  const pressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The click that ends a long-press shouldn't also open the chat
+  const didLongPress = useRef(false);
+
+  const startPress = () => {
+    if (!onLongPress) return;
+    didLongPress.current = false;
+    pressTimer.current = setTimeout(() => {
+      didLongPress.current = true;
+      onLongPress();
+    }, 500);
+  };
+
+  const cancelPress = () => {
+    if (pressTimer.current) {
+      clearTimeout(pressTimer.current);
+      pressTimer.current = null;
+    }
+  };
+
+  const handleClick = () => {
+    if (didLongPress.current) {
+      didLongPress.current = false;
+      return;
+    }
+    onClick();
+  };
+
+  const isUnread = unreadCount > 0 || isMarkedUnread;
+
   const getBadgeColor = () => {
     switch (verificationBadge) {
       case "gold":
@@ -89,7 +133,16 @@ export const ChatPreview = ({
       initial={{ opacity: 0, x: -10 }}
       animate={{ opacity: 1, x: 0 }}
       transition={{ delay: index * 0.03 }}
-      onClick={onClick}
+      onClick={handleClick}
+      onTouchStart={startPress}
+      onTouchEnd={cancelPress}
+      onTouchMove={cancelPress}
+      onContextMenu={(e) => {
+        if (!onLongPress) return;
+        e.preventDefault();
+        cancelPress();
+        onLongPress();
+      }}
       className="w-full flex items-center gap-3 p-3 rounded-2xl hover:bg-muted/50 active:bg-muted transition-colors"
     >
       {/* Avatar */}
@@ -112,16 +165,22 @@ export const ChatPreview = ({
           {isVerified && (
             <BadgeCheck className={cn("w-4 h-4 flex-shrink-0", getBadgeColor())} />
           )}
+          {isDisappearing && (
+            <Timer className="w-3.5 h-3.5 flex-shrink-0 text-muted-foreground" aria-label="Mensagens temporárias" />
+          )}
+          {isMuted && (
+            <BellOff className="w-3.5 h-3.5 flex-shrink-0 text-muted-foreground" aria-label="Silenciada" />
+          )}
         </div>
         <div className={cn(
           "flex items-center gap-1.5 mt-0.5",
-          unreadCount > 0 ? "text-foreground" : "text-muted-foreground"
+          isUnread ? "text-foreground" : "text-muted-foreground"
         )}>
           {isStickerMessage && <Sticker className="w-3.5 h-3.5 flex-shrink-0 text-primary" />}
           {isAudio && !isStickerMessage && <Mic className="w-3.5 h-3.5 flex-shrink-0 text-primary" />}
           <p className={cn(
             "text-sm truncate",
-            unreadCount > 0 && "font-medium"
+            isUnread && "font-medium"
           )}>
             {getMessagePreview()}
           </p>
@@ -133,16 +192,25 @@ export const ChatPreview = ({
         {finalTimestamp && (
           <span className={cn(
             "text-xs",
-            unreadCount > 0 ? "text-primary font-medium" : "text-muted-foreground"
+            isUnread && !isMuted ? "text-primary font-medium" : "text-muted-foreground"
           )}>
             {finalTimestamp}
           </span>
         )}
+        {isPinned && !isUnread && (
+          <Pin className="w-3.5 h-3.5 text-muted-foreground" aria-label="Fixada" />
+        )}
+        {isMarkedUnread && unreadCount === 0 && (
+          <div className="w-2.5 h-2.5 rounded-full bg-primary" aria-label="Não lida" />
+        )}
         {unreadCount > 0 && (
           <motion.div 
             initial={{ scale: 0 }}
             animate={{ scale: 1 }}
-            className="min-w-[20px] h-5 px-1.5 rounded-full bg-primary flex items-center justify-center"
+            className={cn(
+              "min-w-[20px] h-5 px-1.5 rounded-full flex items-center justify-center",
+              isMuted ? "bg-muted-foreground/60" : "bg-primary"
+            )}
           >
             <span className="text-[10px] font-bold text-primary-foreground">
               {unreadCount > 99 ? "99+" : unreadCount}
@@ -1,34 +1,148 @@
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { motion } from "framer-motion";
 import { Loader2 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
-import { useConversationMessages, useOtherParticipant } from "@/hooks/messages";
+import {
+  useConversationMessages,
+  useConversationDetails,
+  useConversationActions,
+  useReadReceipts,
+  useScheduledMessages,
+} from "@/hooks/messages";
 import { useTypingIndicator } from "@/hooks/useTypingIndicator";
 import { usePresence } from "@/hooks/usePresence";
 import { useMessageReactions } from "@/hooks/useMessageReactions";
+import { useVirtualList } from "@/hooks/useVirtualList";
 import { ChatHeader } from "./ChatHeader";
 import { MessageBubble } from "./MessageBubble";
 import { MessageInput } from "./MessageInput";
 import { TypingIndicator } from "./TypingIndicator";
+import { SystemMessage } from "./SystemMessage";
+import { GroupInfoSheet } from "./GroupInfoSheet";
+import { EditMessageDialog } from "./EditMessageDialog";
+import { DeleteMessageDialog } from "./DeleteMessageDialog";
+import { MessageEditHistorySheet } from "./MessageEditHistorySheet";
+import { SharedMediaSheet } from "./SharedMediaSheet";
+import { MediaViewer } from "./MediaViewer";
+import { MessageSearchSheet } from "./MessageSearchSheet";
+import { ScheduleMessageDialog } from "./ScheduleMessageDialog";
+import { ScheduledMessagesSheet } from "./ScheduledMessagesSheet";
+import { MessageRequestBar } from "./MessageRequestBar";
+import { CallHistorySheet } from "@/components/calls";
+import { ReportDialog } from "@/components/reports/ReportDialog";
+import { useReports } from "@/hooks/useReports";
+import { getSystemMessageText } from "@/lib/systemMessages";
+import { getMessagePreview } from "@/lib/messagePreview";
+import { isConversationMuted } from "@/lib/conversationState";
+import {
+  MESSAGE_EDIT_WINDOW_MINUTES,
+  type Message,
+  type MessageAttachment,
+  type QuotedMessage,
+  type ScheduledMessage,
+} from "@/types/messages";
+import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 
 interface ChatViewProps {
   conversationId: string;
   onBack: () => void;
+  // Message to scroll to once the conversation opens (e.g. a search hit)
+  focusMessageId?: string | null;
 }
 
-export const ChatView = ({ conversationId, onBack }: ChatViewProps) => {
+export const ChatView = ({ conversationId, onBack, focusMessageId }: ChatViewProps) => {
   const { user } = useAuth();
-  const { messages, isLoading, sendMessage, sendAudioMessage, markAsRead } =
-    useConversationMessages(conversationId);
-  const { otherUser } = useOtherParticipant(conversationId);
+  const {
+    messages,
+    isLoading,
+    isLoadingOlder,
+    hasMore,
+    sendMessage,
+    retryMessage,
+    discardMessage,
+    sendAudioMessage,
+    sendAttachments,
+    editMessage,
+    deleteMessage,
+    fetchEditHistory,
+    getQuotedMessage,
+    loadOlderMessages,
+    loadMessageContext,
+  } = useConversationMessages(conversationId);
+  const {
+    details,
+    participants,
+    members,
+    otherUser,
+    isGroup,
+    isAdmin,
+    isMember,
+    mutedUntil,
+    isPendingRequest,
+    isLoading: detailsLoading,
+    refetch: refetchDetails,
+  } = useConversationDetails(conversationId);
+  const { setDisappearingMessages, setMuted, acceptMessageRequest, declineMessageRequest } =
+    useConversationActions();
   const { typingUsers, startTyping, stopTyping } = useTypingIndicator(conversationId);
   const { onlineUsers } = usePresence();
   const { toggleReaction, getReactionCounts } = useMessageReactions(conversationId);
+  const { otherMarkers, markAsRead } = useReadReceipts(conversationId);
+  const {
+    scheduledMessages,
+    isLoading: scheduledLoading,
+    scheduleMessage,
+    updateScheduledMessage,
+    cancelScheduledMessage,
+  } = useScheduledMessages(conversationId);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
   const [isAtBottom, setIsAtBottom] = useState(true);
+  const [showGroupInfo, setShowGroupInfo] = useState(false);
+  const [showCallHistory, setShowCallHistory] = useState(false);
+  const [showSharedMedia, setShowSharedMedia] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [showScheduled, setShowScheduled] = useState(false);
+  const [editingScheduled, setEditingScheduled] = useState<ScheduledMessage | null>(null);
+  const [pendingJumpId, setPendingJumpId] = useState<string | null>(null);
+  const [viewerMedia, setViewerMedia] = useState<{ media: MessageAttachment[]; index: number } | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [deletingMessage, setDeletingMessage] = useState<Message | null>(null);
+  const [historyMessage, setHistoryMessage] = useState<Message | null>(null);
+  const [reportingMessageId, setReportingMessageId] = useState<string | null>(null);
+  const { submitReport } = useReports();
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const highlightTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    setReplyingTo(null);
+  }, [conversationId]);
+
+  useEffect(() => {
+    return () => {
+      if (highlightTimeoutRef.current) clearTimeout(highlightTimeoutRef.current);
+    };
+  }, []);
+
+  // Membership or group name changed: reload participants
+  const lastMessage = messages[messages.length - 1];
+  useEffect(() => {
+    if (lastMessage?.message_type === "system") {
+      refetchDetails();
+    }
+  }, [lastMessage?.id, lastMessage?.message_type, refetchDetails]);
+
+  const getMessageKey = useCallback((index: number) => messages[index].id, [messages]);
+  const { virtualItems, paddingTop, paddingBottom, totalSize, measureRef, scrollToIndex } = useVirtualList({
+    count: messages.length,
+    getKey: getMessageKey,
+    scrollRef: containerRef,
+    listRef,
+  });
 
   // Scroll to bottom on new messages (only if user is at bottom)
   useEffect(() => {
@@ -37,45 +151,334 @@ export const ChatView = ({ conversationId, onBack }: ChatViewProps) => {
     }
   }, [messages, isAtBottom]);
 
-  // Mark messages as read when viewing
+  // Rows near the bottom settling to their measured height shouldn't pull the view up
+  useEffect(() => {
+    if (isAtBottom && containerRef.current) {
+      containerRef.current.scrollTop = containerRef.current.scrollHeight;
+    }
+  }, [totalSize, isAtBottom]);
+
+  // Move our read marker to the newest message from someone else that is on screen.
+  // Only rendered rows have an element, so rows outside the virtual window are skipped.
+  // Pending requests stay unread so the sender can't tell they were seen.
+  const markVisibleAsRead = useCallback(() => {
+    const container = containerRef.current;
+    if (!container || isPendingRequest || document.visibilityState !== "visible") return;
+
+    const viewportBottom = container.getBoundingClientRect().bottom;
+    for (let index = messages.length - 1; index >= 0; index--) {
+      const message = messages[index];
+      if (message.sender_id === user?.id) continue;
+
+      const element = document.getElementById(`message-${message.id}`);
+      if (element && element.getBoundingClientRect().top < viewportBottom) {
+        markAsRead(message);
+        return;
+      }
+    }
+  }, [messages, user?.id, markAsRead, isPendingRequest]);
+
+  useEffect(() => {
+    markVisibleAsRead();
+  }, [markVisibleAsRead]);
+
   useEffect(() => {
-    markAsRead();
-  }, [messages, markAsRead]);
+    document.addEventListener("visibilitychange", markVisibleAsRead);
+    return () => document.removeEventListener("visibilitychange", markVisibleAsRead);
+  }, [markVisibleAsRead]);
 
-  // Handle scroll to detect if user is at bottom
+  // Handle scroll to detect if user is at bottom, and load older pages near the top
   const handleScroll = useCallback(() => {
     if (containerRef.current) {
       const { scrollTop, scrollHeight, clientHeight } = containerRef.current;
       setIsAtBottom(scrollHeight - scrollTop - clientHeight < 100);
+
+      if (scrollTop < 400 && hasMore && !isLoadingOlder) {
+        loadOlderMessages();
+      }
     }
-  }, []);
+    markVisibleAsRead();
+  }, [hasMore, isLoadingOlder, loadOlderMessages, markVisibleAsRead]);
+
+  // Our message counts as read once every other participant's marker has passed it
+  const isReadByOthers = useCallback(
+    (message: Message) =>
+      otherMarkers.length > 0 &&
+      otherMarkers.every(
+        (marker) => !!marker.last_read_at && new Date(marker.last_read_at) >= new Date(message.created_at)
+      ),
+    [otherMarkers]
+  );
+
+  // Each reader's avatar sits under the newest loaded message their marker covers
+  const seenByMessage = useMemo(() => {
+    const result = new Map<string, { id: string; name: string; avatarUrl: string | null }[]>();
+
+    otherMarkers.forEach((marker) => {
+      if (!marker.last_read_at) return;
+      const readAt = new Date(marker.last_read_at).getTime();
+      const seen = [...messages]
+        .reverse()
+        .find(
+          (m) => m.message_type !== "system" && !m.send_status && new Date(m.created_at).getTime() <= readAt
+        );
+      if (!seen || seen.sender_id === marker.user_id) return;
+
+      const member = members.find((m) => m.id === marker.user_id);
+      const readers = result.get(seen.id) ?? [];
+      readers.push({
+        id: marker.user_id,
+        name: member?.display_name || member?.username || "Usuário",
+        avatarUrl: member?.avatar_url ?? null,
+      });
+      result.set(seen.id, readers);
+    });
+
+    return result;
+  }, [otherMarkers, messages, members]);
 
   const handleSendMessage = useCallback(
     async (content: string, stickerUrl?: string) => {
-      const result = await sendMessage(content, stickerUrl);
+      const result = await sendMessage(content, stickerUrl, replyingTo?.id);
 
       if (!result.success) {
         toast.error(result.error || "Erro ao enviar mensagem");
         throw new Error(result.error);
       }
+
+      setReplyingTo(null);
+    },
+    [sendMessage, replyingTo]
+  );
+
+  const handleScheduleMessage = useCallback(
+    async (content: string, scheduledFor: Date) => {
+      const result = await scheduleMessage(content, scheduledFor, replyingTo?.id);
+
+      if (!result.success) {
+        toast.error(result.error || "Erro ao programar mensagem");
+        return false;
+      }
+
+      setReplyingTo(null);
+      toast.success("Mensagem programada");
+      return true;
+    },
+    [scheduleMessage, replyingTo]
+  );
+
+  const handleUpdateScheduled = useCallback(
+    async (content: string, scheduledFor: Date) => {
+      if (!editingScheduled) return false;
+
+      const result = await updateScheduledMessage(editingScheduled.id, content, scheduledFor);
+
+      if (!result.success) {
+        toast.error(result.error || "Erro ao editar mensagem programada");
+        return false;
+      }
+
+      return true;
+    },
+    [editingScheduled, updateScheduledMessage]
+  );
+
+  const handleCancelScheduled = useCallback(
+    async (scheduled: ScheduledMessage) => {
+      const result = await cancelScheduledMessage(scheduled.id);
+
+      if (!result.success) {
+        toast.error(result.error || "Erro ao cancelar mensagem programada");
+        return;
+      }
+
+      toast.success("Envio cancelado");
+    },
+    [cancelScheduledMessage]
+  );
+
+  const handleChangeDisappearing = useCallback(
+    async (seconds: number | null) => {
+      const result = await setDisappearingMessages(conversationId, seconds);
+
+      if (!result.success) {
+        toast.error(result.error || "Erro ao alterar mensagens temporárias");
+        return;
+      }
+
+      refetchDetails();
+    },
+    [conversationId, setDisappearingMessages, refetchDetails]
+  );
+
+  const handleAcceptRequest = useCallback(async () => {
+    const result = await acceptMessageRequest(conversationId);
+
+    if (!result.success) {
+      toast.error(result.error || "Erro ao aceitar solicitação");
+      return;
+    }
+
+    refetchDetails();
+  }, [conversationId, acceptMessageRequest, refetchDetails]);
+
+  const handleDeclineRequest = useCallback(
+    async (block: boolean) => {
+      const result = await declineMessageRequest(conversationId, block);
+
+      if (!result.success) {
+        toast.error(result.error || "Erro ao excluir solicitação");
+        return;
+      }
+
+      toast.success(block ? "Usuário bloqueado" : "Solicitação excluída");
+      onBack();
+    },
+    [conversationId, declineMessageRequest, onBack]
+  );
+
+  const handleChangeMuted = useCallback(
+    async (until: string | null) => {
+      const result = await setMuted(conversationId, until);
+
+      if (!result.success) {
+        toast.error(result.error || "Erro ao silenciar conversa");
+        return;
+      }
+
+      toast.success(until ? "Notificações silenciadas" : "Notificações ativadas");
+      refetchDetails();
     },
-    [sendMessage]
+    [conversationId, setMuted, refetchDetails]
   );
 
   const handleSendAudio = useCallback(
     async (audioBlob: Blob, duration: number) => {
-      const result = await sendAudioMessage(audioBlob, duration);
+      const result = await sendAudioMessage(audioBlob, duration, replyingTo?.id);
 
       if (!result.success) {
         toast.error(result.error || "Erro ao enviar áudio");
         throw new Error(result.error);
       }
+
+      setReplyingTo(null);
+    },
+    [sendAudioMessage, replyingTo]
+  );
+
+  const handleSendAttachments = useCallback(
+    async (files: File[], caption: string, onProgress: (progress: number) => void) => {
+      const result = await sendAttachments(files, caption, replyingTo?.id, onProgress);
+
+      if (!result.success) {
+        toast.error(result.error || "Erro ao enviar anexos");
+        throw new Error(result.error);
+      }
+
+      setReplyingTo(null);
+    },
+    [sendAttachments, replyingTo]
+  );
+
+  const handleEditMessage = useCallback(
+    async (messageId: string, content: string) => {
+      const result = await editMessage(messageId, content);
+
+      if (!result.success) {
+        toast.error(result.error || "Erro ao editar mensagem");
+        return false;
+      }
+
+      return true;
     },
-    [sendAudioMessage]
+    [editMessage]
   );
 
-  const isOtherUserTyping = otherUser ? typingUsers.includes(otherUser.id) : false;
+  const handleDeleteMessage = useCallback(
+    async (messageId: string, forEveryone: boolean) => {
+      const result = await deleteMessage(messageId, forEveryone);
+
+      if (!result.success) {
+        toast.error(result.error || "Erro ao apagar mensagem");
+      }
+    },
+    [deleteMessage]
+  );
+
+  const handleReportMessage = async (reason: string) => {
+    if (!reportingMessageId) return;
+    const messageId = reportingMessageId;
+    setReportingMessageId(null);
+    await submitReport("message", messageId, reason);
+  };
+
+  const jumpToMessage = useCallback(
+    (messageId: string) => {
+      const index = messages.findIndex((m) => m.id === messageId);
+      if (index === -1) {
+        toast.info("A mensagem original não está mais disponível nesta conversa");
+        return;
+      }
+
+      // Bring the row into the rendered window first, then settle on its measured position
+      scrollToIndex(index);
+      requestAnimationFrame(() => {
+        document.getElementById(`message-${messageId}`)?.scrollIntoView({ block: "center" });
+      });
+      setHighlightedMessageId(messageId);
+
+      if (highlightTimeoutRef.current) clearTimeout(highlightTimeoutRef.current);
+      highlightTimeoutRef.current = setTimeout(() => setHighlightedMessageId(null), 1500);
+    },
+    [messages, scrollToIndex]
+  );
+
+  // Load the hit's surroundings if needed, then jump once it has rendered
+  const goToMessage = useCallback(
+    async (messageId: string) => {
+      const found = await loadMessageContext(messageId);
+      if (!found) {
+        toast.info("Esta mensagem não está mais disponível");
+        return;
+      }
+      setPendingJumpId(messageId);
+    },
+    [loadMessageContext]
+  );
+
+  useEffect(() => {
+    if (!pendingJumpId || !messages.some((m) => m.id === pendingJumpId)) return;
+    jumpToMessage(pendingJumpId);
+    setPendingJumpId(null);
+  }, [pendingJumpId, messages, jumpToMessage]);
+
+  const handledFocusRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!focusMessageId || isLoading || handledFocusRef.current === focusMessageId) return;
+    handledFocusRef.current = focusMessageId;
+    goToMessage(focusMessageId);
+  }, [focusMessageId, isLoading, goToMessage]);
+
+  const getSenderLabel = (message: QuotedMessage) =>
+    message.sender_id === user?.id
+      ? "Você"
+      : message.sender?.display_name || message.sender?.username || "Usuário";
+
+  const getQuote = (message: QuotedMessage | null) => ({
+    senderName: message ? getSenderLabel(message) : "",
+    text: getMessagePreview(message),
+  });
+
+  const canEditMessage = (message: Message) =>
+    message.sender_id === user?.id &&
+    !message.send_status &&
+    !message.deleted_at &&
+    !!message.content &&
+    Date.now() - new Date(message.created_at).getTime() < MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+
+  const isOtherUserTyping = members.some((m) => typingUsers.includes(m.id));
   const isOtherUserOnline = otherUser ? onlineUsers.includes(otherUser.id) : false;
+  const typingMember = members.find((m) => typingUsers.includes(m.id));
 
   if (isLoading) {
     return (
@@ -96,12 +499,22 @@ export const ChatView = ({ conversationId, onBack }: ChatViewProps) => {
     >
       <ChatHeader
         conversationId={conversationId}
-        otherUserId={otherUser?.id || ""}
-        displayName={otherUser?.display_name || null}
-        username={otherUser?.username || null}
-        avatarUrl={otherUser?.avatar_url || null}
+        displayName={isGroup ? details?.title || null : otherUser?.display_name || null}
+        username={isGroup ? null : otherUser?.username || null}
+        avatarUrl={isGroup ? details?.avatarUrl || null : otherUser?.avatar_url || null}
         isOnline={isOtherUserOnline}
         isTyping={isOtherUserTyping}
+        isGroup={isGroup}
+        memberCount={members.length}
+        onOpenGroupInfo={() => setShowGroupInfo(true)}
+        onOpenCallHistory={() => setShowCallHistory(true)}
+        onOpenSharedMedia={() => setShowSharedMedia(true)}
+        onOpenSearch={() => setShowSearch(true)}
+        onOpenScheduled={() => setShowScheduled(true)}
+        disappearingSeconds={details?.disappearingSeconds}
+        onChangeDisappearing={!isGroup || isAdmin ? handleChangeDisappearing : undefined}
+        isMuted={isConversationMuted(mutedUntil)}
+        onChangeMuted={handleChangeMuted}
         onBack={onBack}
       />
 
@@ -118,38 +531,91 @@ export const ChatView = ({ conversationId, onBack }: ChatViewProps) => {
             </div>
             <p className="text-muted-foreground font-medium">Nenhuma mensagem ainda</p>
             <p className="text-sm text-muted-foreground mt-1">
-              Diga oi para {otherUser?.display_name || "este usuário"}!
+              {isGroup
+                ? `Diga oi para ${details?.title || "o grupo"}!`
+                : `Diga oi para ${otherUser?.display_name || "este usuário"}!`}
             </p>
           </div>
         ) : (
-          <div className="space-y-3">
-            {messages.map((message, index) => {
-              const isOwn = message.sender_id === user?.id;
-              const showAvatar =
-                !isOwn &&
-                (index === messages.length - 1 ||
-                  messages[index + 1]?.sender_id !== message.sender_id);
-
-              const reactions = getReactionCounts(message.id);
-
-              return (
-                <MessageBubble
-                  key={message.id}
-                  messageId={message.id}
-                  content={message.content}
-                  stickerUrl={message.sticker_url}
-                  audioUrl={message.audio_url}
-                  audioDuration={message.audio_duration_seconds}
-                  isOwn={isOwn}
-                  isRead={message.is_read}
-                  timestamp={message.created_at}
-                  showAvatar={showAvatar}
-                  avatarUrl={!isOwn ? otherUser?.avatar_url : undefined}
-                  reactions={reactions}
-                  onToggleReaction={toggleReaction}
-                />
-              );
-            })}
+          <div>
+            {(isLoadingOlder || hasMore) && (
+              <div className="flex justify-center pb-3">
+                <Loader2 className={cn("w-5 h-5 text-muted-foreground", isLoadingOlder && "animate-spin")} />
+              </div>
+            )}
+
+            <div ref={listRef} style={{ paddingTop, paddingBottom }}>
+              {virtualItems.map(({ index, key }) => {
+                const message = messages[index];
+
+                if (message.message_type === "system") {
+                  return (
+                    <div key={key} ref={measureRef(key)} id={`message-${message.id}`} className="pb-3">
+                      <SystemMessage text={getSystemMessageText(message, user?.id)} />
+                    </div>
+                  );
+                }
+
+                const isOwn = message.sender_id === user?.id;
+                const showAvatar =
+                  !isOwn &&
+                  (index === messages.length - 1 ||
+                    messages[index + 1]?.sender_id !== message.sender_id ||
+                    messages[index + 1]?.message_type === "system");
+                const showSenderName =
+                  isGroup &&
+                  !isOwn &&
+                  (index === 0 ||
+                    messages[index - 1]?.sender_id !== message.sender_id ||
+                    messages[index - 1]?.message_type === "system");
+
+                const reactions = getReactionCounts(message.id);
+                const replyToId = message.reply_to_message_id;
+
+                return (
+                  <div key={key} ref={measureRef(key)} id={`message-${message.id}`} className="pb-3">
+                    <MessageBubble
+                      messageId={message.id}
+                      content={message.content}
+                      mentions={message.mentions}
+                      stickerUrl={message.sticker_url}
+                      audioUrl={message.audio_url}
+                      audioDuration={message.audio_duration_seconds}
+                      isOwn={isOwn}
+                      isRead={isOwn && !message.send_status && isReadByOthers(message)}
+                      timestamp={message.created_at}
+                      showAvatar={showAvatar}
+                      avatarUrl={!isOwn ? (isGroup ? message.sender?.avatar_url : otherUser?.avatar_url) : undefined}
+                      senderName={
+                        showSenderName
+                          ? message.sender?.display_name || message.sender?.username
+                          : undefined
+                      }
+                      reactions={reactions}
+                      onToggleReaction={toggleReaction}
+                      isEdited={!!message.edited_at}
+                      isDeleted={!!message.deleted_at}
+                      canEdit={canEditMessage(message)}
+                      onEdit={() => setEditingMessage(message)}
+                      onDelete={() => setDeletingMessage(message)}
+                      onViewHistory={() => setHistoryMessage(message)}
+                      onReport={() => setReportingMessageId(message.id)}
+                      quote={replyToId ? getQuote(getQuotedMessage(replyToId)) : null}
+                      onQuoteClick={replyToId ? () => goToMessage(replyToId) : undefined}
+                      onReply={() => setReplyingTo(message)}
+                      isHighlighted={highlightedMessageId === message.id}
+                      attachments={message.attachments}
+                      onOpenMedia={(media, mediaIndex) => setViewerMedia({ media, index: mediaIndex })}
+                      seenBy={seenByMessage.get(message.id)}
+                      isDisappearing={!!message.expires_at}
+                      sendStatus={message.send_status}
+                      onRetrySend={() => retryMessage(message.id)}
+                      onDiscardSend={() => discardMessage(message.id)}
+                    />
+                  </div>
+                );
+              })}
+            </div>
 
             {/* Typing indicator */}
             {isOtherUserTyping && (
@@ -158,9 +624,9 @@ export const ChatView = ({ conversationId, onBack }: ChatViewProps) => {
                 animate={{ opacity: 1, y: 0 }}
                 className="flex items-end gap-2"
               >
-                {otherUser?.avatar_url && (
+                {typingMember?.avatar_url && (
                   <img
-                    src={otherUser.avatar_url}
+                    src={typingMember.avatar_url}
                     alt=""
                     className="w-6 h-6 rounded-full object-cover"
                   />
@@ -176,11 +642,111 @@ export const ChatView = ({ conversationId, onBack }: ChatViewProps) => {
         )}
       </div>
 
-      <MessageInput
-        onSend={handleSendMessage}
-        onSendAudio={handleSendAudio}
-        onTypingStart={startTyping}
-        onTypingStop={stopTyping}
+      {isPendingRequest ? (
+        <MessageRequestBar
+          displayName={otherUser?.display_name || otherUser?.username || null}
+          onAccept={handleAcceptRequest}
+          onDelete={() => handleDeclineRequest(false)}
+          onBlock={() => handleDeclineRequest(true)}
+        />
+      ) : !detailsLoading && !isMember ? (
+        <div className="glass-strong border-t border-white/5 px-4 py-4 safe-bottom text-center text-sm text-muted-foreground">
+          Você não faz mais parte desta conversa
+        </div>
+      ) : (
+        <MessageInput
+          onSend={handleSendMessage}
+          onSendAudio={handleSendAudio}
+          onSendAttachments={handleSendAttachments}
+          onTypingStart={startTyping}
+          onTypingStop={stopTyping}
+          replyTo={replyingTo ? getQuote(replyingTo) : null}
+          onCancelReply={() => setReplyingTo(null)}
+          onScheduleMessage={handleScheduleMessage}
+          scheduledCount={scheduledMessages.length}
+          onOpenScheduled={() => setShowScheduled(true)}
+        />
+      )}
+
+      {isGroup && details && (
+        <GroupInfoSheet
+          open={showGroupInfo}
+          onOpenChange={setShowGroupInfo}
+          details={details}
+          participants={participants}
+          isAdmin={isAdmin}
+          onUpdated={refetchDetails}
+          onLeft={onBack}
+        />
+      )}
+
+      <EditMessageDialog
+        message={editingMessage}
+        onOpenChange={(open) => !open && setEditingMessage(null)}
+        onSave={handleEditMessage}
+      />
+
+      <DeleteMessageDialog
+        message={deletingMessage}
+        isOwn={deletingMessage?.sender_id === user?.id}
+        onOpenChange={(open) => !open && setDeletingMessage(null)}
+        onDelete={handleDeleteMessage}
+      />
+
+      <ReportDialog
+        open={!!reportingMessageId}
+        onOpenChange={(open) => !open && setReportingMessageId(null)}
+        onSubmit={handleReportMessage}
+      />
+
+      <MessageEditHistorySheet
+        message={historyMessage}
+        onOpenChange={(open) => !open && setHistoryMessage(null)}
+        fetchEditHistory={fetchEditHistory}
+      />
+
+      <CallHistorySheet
+        open={showCallHistory}
+        onOpenChange={setShowCallHistory}
+        conversationId={conversationId}
+      />
+
+      <MessageSearchSheet
+        open={showSearch}
+        onOpenChange={setShowSearch}
+        conversationId={conversationId}
+        onSelectMessage={goToMessage}
+      />
+
+      <ScheduledMessagesSheet
+        open={showScheduled}
+        onOpenChange={setShowScheduled}
+        scheduledMessages={scheduledMessages}
+        isLoading={scheduledLoading}
+        onEdit={setEditingScheduled}
+        onCancel={handleCancelScheduled}
+      />
+
+      <ScheduleMessageDialog
+        open={!!editingScheduled}
+        onOpenChange={(open) => !open && setEditingScheduled(null)}
+        content={editingScheduled?.content || ""}
+        scheduledFor={editingScheduled?.scheduled_for}
+        editableContent
+        onConfirm={handleUpdateScheduled}
+      />
+
+      <SharedMediaSheet
+        open={showSharedMedia}
+        onOpenChange={setShowSharedMedia}
+        conversationId={conversationId}
+      />
+
+      <MediaViewer
+        media={viewerMedia?.media || []}
+        startIndex={viewerMedia?.index ?? 0}
+        open={!!viewerMedia}
+        onClose={() => setViewerMedia(null)}
       />
     </motion.div>
   );
@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { Archive, ArchiveRestore, Bell, BellOff, ChevronLeft, Mail, MailOpen, Pin, PinOff } from "lucide-react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { cn } from "@/lib/utils";
+import { getMutedUntil, isConversationMuted } from "@/lib/conversationState";
+import { MUTE_DURATIONS } from "@/types/messages";
+import type { Conversation } from "@/types/messages";
+
+interface ConversationActionsSheetProps {
+  conversation: Conversation | null;
+  title: string;
+  onOpenChange: (open: boolean) => void;
+  onTogglePinned: (conversation: Conversation) => void;
+  onToggleArchived: (conversation: Conversation) => void;
+  // null turns notifications back on
+  onMute: (conversation: Conversation, mutedUntil: string | null) => void;
+  onToggleUnread: (conversation: Conversation) => void;
+}
+
+export const ConversationActionsSheet = ({
+  conversation,
+  title,
+  onOpenChange,
+  onTogglePinned,
+  onToggleArchived,
+  onMute,
+  onToggleUnread,
+}: ConversationActionsSheetProps) => {
+  const [showMuteOptions, setShowMuteOptions] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setShowMuteOptions(false);
+    onOpenChange(open);
+  };
+
+  const run = (action: () => void) => {
+    action();
+    handleOpenChange(false);
+  };
+
+  const isMuted = isConversationMuted(conversation?.mutedUntil);
+  const isUnread = !!conversation && (conversation.unreadCount > 0 || !!conversation.isMarkedUnread);
+
+  const actions = conversation
+    ? [
+        !conversation.isArchived && {
+          label: conversation.pinnedAt ? "Desafixar" : "Fixar",
+          icon: conversation.pinnedAt ? PinOff : Pin,
+          onClick: () => run(() => onTogglePinned(conversation)),
+        },
+        {
+          label: conversation.isArchived ? "Desarquivar" : "Arquivar",
+          icon: conversation.isArchived ? ArchiveRestore : Archive,
+          onClick: () => run(() => onToggleArchived(conversation)),
+        },
+        isMuted
+          ? {
+              label: "Ativar notificações",
+              icon: Bell,
+              onClick: () => run(() => onMute(conversation, null)),
+            }
+          : {
+              label: "Silenciar",
+              icon: BellOff,
+              onClick: () => setShowMuteOptions(true),
+            },
+        {
+          label: isUnread ? "Marcar como lida" : "Marcar como não lida",
+          icon: isUnread ? MailOpen : Mail,
+          onClick: () => run(() => onToggleUnread(conversation)),
+        },
+      ].filter(Boolean) as { label: string; icon: typeof Pin; onClick: () => void }[]
+    : [];
+
+  return (
+    <Sheet open={!!conversation} onOpenChange={handleOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-3xl">
+        <SheetHeader className="pb-2">
+          <div className="w-10 h-1 bg-muted-foreground/30 rounded-full mx-auto mb-3" />
+          <SheetTitle className="text-base font-semibold truncate">
+            {showMuteOptions ? "Silenciar notificações" : title}
+          </SheetTitle>
+        </SheetHeader>
+
+        <div className="space-y-1 pb-6">
+          {showMuteOptions ? (
+            <>
+              <button
+                onClick={() => setShowMuteOptions(false)}
+                className="w-full flex items-center gap-3 p-3 rounded-2xl text-sm text-muted-foreground hover:bg-muted/30 transition-colors"
+              >
+                <ChevronLeft className="w-5 h-5" />
+                Voltar
+              </button>
+              {MUTE_DURATIONS.map((duration) => (
+                <button
+                  key={duration.label}
+                  onClick={() => conversation && run(() => onMute(conversation, getMutedUntil(duration.hours)))}
+                  className="w-full flex items-center gap-3 p-3 rounded-2xl text-sm font-medium hover:bg-muted/30 transition-colors"
+                >
+                  {duration.label}
+                </button>
+              ))}
+            </>
+          ) : (
+            actions.map(({ label, icon: Icon, onClick }) => (
+              <button
+                key={label}
+                onClick={onClick}
+                className={cn(
+                  "w-full flex items-center gap-3 p-3 rounded-2xl text-sm font-medium",
+                  "hover:bg-muted/30 transition-colors"
+                )}
+              >
+                <Icon className="w-5 h-5 text-muted-foreground" />
+                {label}
+              </button>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,59 @@
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import type { Message } from "@/types/messages";
+
+interface DeleteMessageDialogProps {
+  message: Message | null;
+  isOwn: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDelete: (messageId: string, forEveryone: boolean) => void;
+}
+
+export const DeleteMessageDialog = ({ message, isOwn, onOpenChange, onDelete }: DeleteMessageDialogProps) => {
+  // A tombstone can only be removed from your own view
+  const canDeleteForEveryone = isOwn && !message?.deleted_at;
+
+  const handleDelete = (forEveryone: boolean) => {
+    if (!message) return;
+    onDelete(message.id, forEveryone);
+    onOpenChange(false);
+  };
+
+  return (
+    <AlertDialog open={!!message} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="rounded-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Apagar mensagem?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {canDeleteForEveryone
+              ? "Apagar para todos substitui a mensagem por um aviso de mensagem apagada para todos na conversa."
+              : "A mensagem será removida apenas para você."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter className="flex-col gap-2 sm:flex-col sm:space-x-0">
+          {canDeleteForEveryone && (
+            <Button variant="destructive" className="rounded-xl" onClick={() => handleDelete(true)}>
+              Apagar para todos
+            </Button>
+          )}
+          <Button
+            variant={canDeleteForEveryone ? "outline" : "destructive"}
+            className="rounded-xl"
+            onClick={() => handleDelete(false)}
+          >
+            Apagar para mim
+          </Button>
+          <AlertDialogCancel className="rounded-xl mt-0">Cancelar</AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
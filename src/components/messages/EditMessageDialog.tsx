@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MESSAGE_EDIT_WINDOW_MINUTES, type Message } from "@/types/messages";
+
+interface EditMessageDialogProps {
+  message: Message | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (messageId: string, content: string) => Promise<boolean>;
+}
+
+export const EditMessageDialog = ({ message, onOpenChange, onSave }: EditMessageDialogProps) => {
+  const [content, setContent] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setContent(message?.content || "");
+  }, [message]);
+
+  const handleSave = async () => {
+    if (!message) return;
+
+    setIsSaving(true);
+    const saved = await onSave(message.id, content);
+    setIsSaving(false);
+
+    if (saved) onOpenChange(false);
+  };
+
+  const isUnchanged = content.trim() === (message?.content || "").trim();
+
+  return (
+    <Dialog open={!!message} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>Editar mensagem</DialogTitle>
+          <DialogDescription>
+            Mensagens podem ser editadas até {MESSAGE_EDIT_WINDOW_MINUTES} minutos após o envio.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          rows={4}
+          maxLength={2000}
+          className="resize-none rounded-xl"
+          autoFocus
+        />
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !content.trim() || isUnchanged}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Salvar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,331 @@
+import { useState, useRef, useEffect } from "react";
+import { Camera, Check, Loader2, LogOut, MoreVertical, UserPlus, Users, ArrowLeft } from "lucide-react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useGroupActions } from "@/hooks/messages";
+import type { ConversationDetails } from "@/hooks/messages/useConversationDetails";
+import type { ConversationParticipant, SearchableUser } from "@/types/messages";
+import { UserMultiSelect } from "./UserMultiSelect";
+import { toast } from "sonner";
+
+interface GroupInfoSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  details: ConversationDetails;
+  participants: ConversationParticipant[];
+  isAdmin: boolean;
+  onUpdated: () => void;
+  onLeft: () => void;
+}
+
+export const GroupInfoSheet = ({
+  open,
+  onOpenChange,
+  details,
+  participants,
+  isAdmin,
+  onUpdated,
+  onLeft,
+}: GroupInfoSheetProps) => {
+  const { user } = useAuth();
+  const { addMembers, removeMember, leaveGroup, setAdmin, updateGroup } = useGroupActions();
+  const [title, setTitle] = useState(details.title || "");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [showAddMembers, setShowAddMembers] = useState(false);
+  const [newMembers, setNewMembers] = useState<SearchableUser[]>([]);
+  const [confirmLeave, setConfirmLeave] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setTitle(details.title || "");
+      setShowAddMembers(false);
+      setNewMembers([]);
+    }
+  }, [open, details.title]);
+
+  const handleSaveTitle = async () => {
+    setIsSaving(true);
+    const result = await updateGroup(details.id, { title });
+    setIsSaving(false);
+
+    if (result.success) {
+      toast.success("Nome do grupo atualizado");
+      onUpdated();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsSaving(true);
+    const result = await updateGroup(details.id, { avatarFile: file });
+    setIsSaving(false);
+
+    if (result.success) {
+      toast.success("Foto do grupo atualizada");
+      onUpdated();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleAddMembers = async () => {
+    setIsAdding(true);
+    const result = await addMembers(details.id, newMembers.map((u) => u.id));
+    setIsAdding(false);
+
+    if (result.success) {
+      toast.success(newMembers.length === 1 ? "Membro adicionado" : "Membros adicionados");
+      setShowAddMembers(false);
+      setNewMembers([]);
+      onUpdated();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleRemove = async (member: ConversationParticipant) => {
+    const result = await removeMember(details.id, member.id);
+    if (result.success) {
+      onUpdated();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleToggleAdmin = async (member: ConversationParticipant) => {
+    const result = await setAdmin(details.id, member.id, member.role !== "admin");
+    if (result.success) {
+      onUpdated();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleLeave = async () => {
+    const result = await leaveGroup(details.id);
+    if (result.success) {
+      setConfirmLeave(false);
+      onOpenChange(false);
+      onLeft();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const toggleNewMember = (member: SearchableUser) => {
+    setNewMembers((prev) =>
+      prev.some((u) => u.id === member.id)
+        ? prev.filter((u) => u.id !== member.id)
+        : [...prev, member]
+    );
+  };
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent side="bottom" className="h-[85vh] rounded-t-3xl flex flex-col">
+          <SheetHeader className="pb-2">
+            <div className="w-10 h-1 bg-muted-foreground/30 rounded-full mx-auto mb-3" />
+            <div className="flex items-center gap-2">
+              {showAddMembers && (
+                <button
+                  onClick={() => setShowAddMembers(false)}
+                  className="p-2 -ml-2 rounded-full hover:bg-muted transition-colors"
+                >
+                  <ArrowLeft className="w-5 h-5" />
+                </button>
+              )}
+              <SheetTitle className="text-xl font-bold">
+                {showAddMembers ? "Adicionar membros" : "Dados do grupo"}
+              </SheetTitle>
+            </div>
+          </SheetHeader>
+
+          {showAddMembers ? (
+            <div className="flex flex-col gap-4 flex-1 min-h-0">
+              <UserMultiSelect
+                selected={newMembers}
+                onToggle={toggleNewMember}
+                excludeIds={participants.map((p) => p.id)}
+              />
+              <Button
+                onClick={handleAddMembers}
+                disabled={isAdding || newMembers.length === 0}
+                className="rounded-xl h-12"
+              >
+                {isAdding && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Adicionar ({newMembers.length})
+              </Button>
+            </div>
+          ) : (
+            <div className="flex-1 overflow-y-auto space-y-6 pb-8">
+              {/* Avatar and name */}
+              <div className="flex flex-col items-center gap-3">
+                <button
+                  onClick={() => isAdmin && fileInputRef.current?.click()}
+                  disabled={!isAdmin || isSaving}
+                  className="relative"
+                >
+                  <Avatar className="w-24 h-24">
+                    <AvatarImage src={details.avatarUrl || undefined} className="object-cover" />
+                    <AvatarFallback className="bg-gradient-to-br from-primary/20 to-primary/5">
+                      <Users className="w-10 h-10" />
+                    </AvatarFallback>
+                  </Avatar>
+                  {isAdmin && (
+                    <div className="absolute bottom-0 right-0 w-8 h-8 rounded-full bg-primary flex items-center justify-center border-2 border-background">
+                      <Camera className="w-4 h-4 text-primary-foreground" />
+                    </div>
+                  )}
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={handleAvatarChange}
+                />
+
+                {isAdmin ? (
+                  <div className="flex items-center gap-2 w-full">
+                    <Input
+                      value={title}
+                      onChange={(e) => setTitle(e.target.value)}
+                      maxLength={100}
+                      placeholder="Nome do grupo"
+                      className="bg-muted/50 border-0 rounded-xl h-11 text-center font-semibold"
+                    />
+                    {title.trim() && title.trim() !== details.title && (
+                      <Button size="icon" onClick={handleSaveTitle} disabled={isSaving}>
+                        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                      </Button>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-lg font-semibold">{details.title || "Grupo"}</p>
+                )}
+                <p className="text-sm text-muted-foreground">{participants.length} membros</p>
+              </div>
+
+              {/* Members */}
+              <div className="space-y-1">
+                {isAdmin && (
+                  <button
+                    onClick={() => setShowAddMembers(true)}
+                    className="w-full flex items-center gap-3 p-3 rounded-2xl hover:bg-muted/50 transition-colors"
+                  >
+                    <div className="w-11 h-11 rounded-full bg-primary/15 flex items-center justify-center">
+                      <UserPlus className="w-5 h-5 text-primary" />
+                    </div>
+                    <span className="font-medium">Adicionar membros</span>
+                  </button>
+                )}
+
+                {participants.map((member) => {
+                  const isSelf = member.id === user?.id;
+
+                  return (
+                    <div key={member.id} className="flex items-center gap-3 p-3 rounded-2xl">
+                      <Avatar className="w-11 h-11">
+                        <AvatarImage src={member.avatar_url || undefined} className="object-cover" />
+                        <AvatarFallback className="bg-secondary font-semibold">
+                          {(member.display_name || member.username || "U")[0].toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">
+                          {isSelf ? "Você" : member.display_name || member.username || "Usuário"}
+                        </p>
+                        <p className="text-sm text-muted-foreground truncate">
+                          @{member.username || "usuario"}
+                        </p>
+                      </div>
+                      {member.role === "admin" && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-primary/15 text-primary">
+                          Admin
+                        </span>
+                      )}
+                      {isAdmin && !isSelf && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <button className="p-2 rounded-full hover:bg-muted/50 transition-colors">
+                              <MoreVertical className="w-4 h-4 text-muted-foreground" />
+                            </button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end" className="w-48">
+                            <DropdownMenuItem onClick={() => handleToggleAdmin(member)}>
+                              {member.role === "admin" ? "Remover admin" : "Tornar admin"}
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => handleRemove(member)}
+                              className="text-destructive"
+                            >
+                              Remover do grupo
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <button
+                onClick={() => setConfirmLeave(true)}
+                className="w-full flex items-center gap-3 p-3 rounded-2xl text-destructive hover:bg-destructive/10 transition-colors"
+              >
+                <LogOut className="w-5 h-5" />
+                <span className="font-medium">Sair do grupo</span>
+              </button>
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog open={confirmLeave} onOpenChange={setConfirmLeave}>
+        <AlertDialogContent className="rounded-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sair do grupo?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Você deixará de receber mensagens de "{details.title || "Grupo"}".
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="rounded-xl">Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleLeave}
+              className="rounded-xl bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Sair
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
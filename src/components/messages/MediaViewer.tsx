@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { motion, AnimatePresence } from "framer-motion";
+import { ChevronLeft, ChevronRight, Download, Loader2, X } from "lucide-react";
+import { useAttachmentUrls } from "@/hooks/messages";
+import type { MessageAttachment } from "@/types/messages";
+
+interface MediaViewerProps {
+  media: MessageAttachment[];
+  startIndex: number;
+  open: boolean;
+  onClose: () => void;
+}
+
+export const MediaViewer = ({ media, startIndex, open, onClose }: MediaViewerProps) => {
+  const [index, setIndex] = useState(startIndex);
+  const current = media[index];
+  // Only sign the full-size file that is on screen
+  const urls = useAttachmentUrls(open && current ? [current.storage_path] : []);
+  const url = current ? urls[current.storage_path] : undefined;
+
+  useEffect(() => {
+    setIndex(startIndex);
+  }, [startIndex, open]);
+
+  const goTo = useCallback(
+    (next: number) => setIndex(Math.max(0, Math.min(media.length - 1, next))),
+    [media.length]
+  );
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      if (e.key === "ArrowLeft") goTo(index - 1);
+      if (e.key === "ArrowRight") goTo(index + 1);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open, index, goTo, onClose]);
+
+  return createPortal(
+    <AnimatePresence>
+      {open && current && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[100] bg-black/95 flex flex-col"
+        >
+          <div className="flex items-center justify-between px-4 py-3 safe-top text-white">
+            <span className="text-sm text-white/70">
+              {media.length > 1 ? `${index + 1} de ${media.length}` : current.file_name}
+            </span>
+            <div className="flex items-center gap-1">
+              {url && (
+                <a
+                  href={url}
+                  download={current.file_name}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="p-2 rounded-full hover:bg-white/10"
+                  aria-label="Baixar"
+                >
+                  <Download className="w-5 h-5" />
+                </a>
+              )}
+              <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10" aria-label="Fechar">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+
+          <div className="relative flex-1 flex items-center justify-center min-h-0 px-2 pb-6">
+            {!url ? (
+              <Loader2 className="w-8 h-8 animate-spin text-white/70" />
+            ) : current.kind === "video" ? (
+              <video
+                key={current.id}
+                src={url}
+                controls
+                autoPlay
+                playsInline
+                className="max-w-full max-h-full rounded-lg"
+              />
+            ) : (
+              <motion.img
+                key={current.id}
+                src={url}
+                alt={current.file_name}
+                initial={{ scale: 0.96, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                className="max-w-full max-h-full object-contain select-none"
+                drag={media.length > 1 ? "x" : false}
+                dragConstraints={{ left: 0, right: 0 }}
+                onDragEnd={(_, info) => {
+                  if (info.offset.x < -80) goTo(index + 1);
+                  if (info.offset.x > 80) goTo(index - 1);
+                }}
+              />
+            )}
+
+            {index > 0 && (
+              <button
+                onClick={() => goTo(index - 1)}
+                className="absolute left-2 p-2 rounded-full bg-black/50 text-white hover:bg-black/70"
+                aria-label="Anterior"
+              >
+                <ChevronLeft className="w-6 h-6" />
+              </button>
+            )}
+            {index < media.length - 1 && (
+              <button
+                onClick={() => goTo(index + 1)}
+                className="absolute right-2 p-2 rounded-full bg-black/50 text-white hover:bg-black/70"
+                aria-label="Próxima"
+              >
+                <ChevronRight className="w-6 h-6" />
+              </button>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>,
+    document.body
+  );
+};
@@ -0,0 +1,98 @@
+import { Download, FileText, Play } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useAttachmentUrls } from "@/hooks/messages";
+import { formatFileSize } from "@/lib/messageAttachments";
+import type { MessageAttachment } from "@/types/messages";
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  isOwn: boolean;
+  onOpenMedia?: (media: MessageAttachment[], index: number) => void;
+}
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
+export const MessageAttachments = ({ attachments, isOwn, onOpenMedia }: MessageAttachmentsProps) => {
+  const sorted = [...attachments].sort((a, b) => a.position - b.position);
+  const media = sorted.filter((a) => a.kind !== "file");
+  const files = sorted.filter((a) => a.kind === "file");
+  const urls = useAttachmentUrls(sorted.flatMap((a) => [a.thumbnail_path, a.kind === "file" ? a.storage_path : null]));
+
+  return (
+    <div className="space-y-1.5">
+      {media.length > 0 && (
+        <div className={cn("grid gap-1 rounded-xl overflow-hidden", media.length > 1 && "grid-cols-2")}>
+          {media.map((item, index) => {
+            const thumbnailUrl = item.thumbnail_path ? urls[item.thumbnail_path] : undefined;
+            const isWide = media.length === 3 && index === 0;
+
+            return (
+              <button
+                key={item.id}
+                type="button"
+                onClick={() => onOpenMedia?.(media, index)}
+                className={cn(
+                  "relative bg-black/20 overflow-hidden",
+                  media.length === 1 ? "max-h-72" : "aspect-square",
+                  isWide && "col-span-2 aspect-video"
+                )}
+              >
+                {thumbnailUrl ? (
+                  <img
+                    src={thumbnailUrl}
+                    alt={item.file_name}
+                    className="w-full h-full object-cover"
+                    style={
+                      media.length === 1 && item.width && item.height
+                        ? { aspectRatio: `${item.width} / ${item.height}` }
+                        : undefined
+                    }
+                    loading="lazy"
+                  />
+                ) : (
+                  <div className="w-48 h-48 max-w-full animate-pulse bg-muted/40" />
+                )}
+                {item.kind === "video" && (
+                  <div className="absolute inset-0 flex items-center justify-center">
+                    <div className="w-10 h-10 rounded-full bg-black/60 flex items-center justify-center">
+                      <Play className="w-5 h-5 text-white fill-white ml-0.5" />
+                    </div>
+                    {item.duration_seconds != null && (
+                      <span className="absolute bottom-1 right-1.5 text-[10px] text-white bg-black/60 rounded px-1">
+                        {formatDuration(item.duration_seconds)}
+                      </span>
+                    )}
+                  </div>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {files.map((file) => (
+        <a
+          key={file.id}
+          href={urls[file.storage_path]}
+          download={file.file_name}
+          target="_blank"
+          rel="noreferrer"
+          className={cn(
+            "flex items-center gap-2 rounded-xl px-2.5 py-2 min-w-0",
+            isOwn ? "bg-primary-foreground/10" : "bg-background/40"
+          )}
+        >
+          <FileText className="w-6 h-6 flex-shrink-0" />
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-medium truncate">{file.file_name}</p>
+            <p className={cn("text-[10px]", isOwn ? "text-primary-foreground/70" : "text-muted-foreground")}>
+              {formatFileSize(file.size_bytes)}
+            </p>
+          </div>
+          <Download className="w-4 h-4 flex-shrink-0 opacity-70" />
+        </a>
+      ))}
+    </div>
+  );
+};
@@ -1,14 +1,20 @@
 import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Check, CheckCheck } from "lucide-react";
+import { AlertCircle, Ban, Check, CheckCheck, Clock, Flag, History, Pencil, Reply, RotateCw, Timer, Trash2 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { AudioMessage } from "./AudioMessage";
+import { MessageQuote } from "./MessageQuote";
+import { MessageAttachments } from "./MessageAttachments";
+import { MentionText } from "@/components/mentions/MentionText";
+import type { MessageAttachment } from "@/types/messages";
+import type { MentionRef } from "@/lib/mentions";
 import { ReactionType, ReactionCount } from "@/hooks/useMessageReactions";
 import { cn } from "@/lib/utils";
 
 interface MessageBubbleProps {
   messageId: string;
   content: string | null;
+  mentions?: MentionRef[];
   stickerUrl: string | null;
   audioUrl?: string | null;
   audioDuration?: number | null;
@@ -17,8 +23,30 @@ interface MessageBubbleProps {
   timestamp: string;
   showAvatar?: boolean;
   avatarUrl?: string | null;
+  senderName?: string | null;
   reactions?: ReactionCount[];
   onToggleReaction?: (messageId: string, type: ReactionType) => void;
+  isEdited?: boolean;
+  isDeleted?: boolean;
+  canEdit?: boolean;
+  onEdit?: () => void;
+  onDelete?: () => void;
+  onViewHistory?: () => void;
+  onReport?: () => void;
+  quote?: { senderName: string; text: string } | null;
+  onQuoteClick?: () => void;
+  onReply?: () => void;
+  attachments?: MessageAttachment[];
+  onOpenMedia?: (media: MessageAttachment[], index: number) => void;
+  isHighlighted?: boolean;
+  // Sent with disappearing messages on
+  isDisappearing?: boolean;
+  // Participants whose "seen up to" marker stops at this message
+  seenBy?: { id: string; name: string; avatarUrl: string | null }[];
+  // Set while the message sits in the offline outbox
+  sendStatus?: "pending" | "failed";
+  onRetrySend?: () => void;
+  onDiscardSend?: () => void;
 }
 
 const REACTION_EMOJIS: Record<ReactionType, string> = {
@@ -35,6 +63,7 @@ const QUICK_REACTIONS: ReactionType[] = ["heart", "like", "laugh"];
 export const MessageBubble = ({
   messageId,
   content,
+  mentions,
   stickerUrl,
   audioUrl,
   audioDuration,
@@ -43,8 +72,27 @@ export const MessageBubble = ({
   timestamp,
   showAvatar,
   avatarUrl,
+  senderName,
   reactions = [],
   onToggleReaction,
+  isEdited = false,
+  isDeleted = false,
+  canEdit = false,
+  onEdit,
+  onDelete,
+  onViewHistory,
+  onReport,
+  quote,
+  onQuoteClick,
+  onReply,
+  isHighlighted = false,
+  isDisappearing = false,
+  attachments = [],
+  onOpenMedia,
+  seenBy = [],
+  sendStatus,
+  onRetrySend,
+  onDiscardSend,
 }: MessageBubbleProps) => {
   const [showReactionPicker, setShowReactionPicker] = useState(false);
 
@@ -55,9 +103,18 @@ export const MessageBubble = ({
     });
   };
 
-  const hasAudio = !!audioUrl;
-  const hasSticker = !!stickerUrl;
+  const hasAudio = !isDeleted && !!audioUrl;
+  const hasSticker = !isDeleted && !!stickerUrl;
+  const hasAttachments = !isDeleted && attachments.length > 0;
+  const canReact = !!onToggleReaction && !isDeleted && !sendStatus;
   const hasTextContent = !!content && content.trim().length > 0;
+  const messageText = (
+    <MentionText
+      text={content || ""}
+      mentions={mentions}
+      linkClassName={isOwn ? "text-primary-foreground underline" : undefined}
+    />
+  );
 
   const handleLongPress = () => {
     setShowReactionPicker(true);
@@ -68,6 +125,27 @@ export const MessageBubble = ({
     setShowReactionPicker(false);
   };
 
+  const handleAction = (action?: () => void) => {
+    setShowReactionPicker(false);
+    action?.();
+  };
+
+  // Queued messages only exist on this device, so the only actions are about sending them
+  const actions = (
+    sendStatus
+      ? [
+          sendStatus === "failed" && onRetrySend && { label: "Tentar novamente", icon: RotateCw, onClick: onRetrySend },
+          sendStatus === "failed" && onDiscardSend && { label: "Descartar", icon: Trash2, onClick: onDiscardSend, destructive: true },
+        ]
+      : [
+          !isDeleted && onReply && { label: "Responder", icon: Reply, onClick: onReply },
+          canEdit && onEdit && { label: "Editar", icon: Pencil, onClick: onEdit },
+          isEdited && onViewHistory && { label: "Ver edições", icon: History, onClick: onViewHistory },
+          !isOwn && !isDeleted && onReport && { label: "Denunciar", icon: Flag, onClick: onReport, destructive: true },
+          onDelete && { label: "Apagar", icon: Trash2, onClick: onDelete, destructive: true },
+        ]
+  ).filter(Boolean) as { label: string; icon: typeof Pencil; onClick: () => void; destructive?: boolean }[];
+
   return (
     <div className="relative group">
       <motion.div
@@ -76,7 +154,7 @@ export const MessageBubble = ({
         className={cn("flex items-end gap-2", isOwn ? "justify-end" : "justify-start")}
         onContextMenu={(e) => {
           e.preventDefault();
-          setShowReactionPicker(true);
+          if (canReact || actions.length > 0) setShowReactionPicker(true);
         }}
       >
         {!isOwn && showAvatar && (
@@ -89,7 +167,7 @@ export const MessageBubble = ({
 
         <div className="relative">
           {/* Quick reaction button on hover */}
-          {onToggleReaction && (
+          {canReact && (
             <motion.button
               initial={{ opacity: 0 }}
               whileHover={{ scale: 1.1 }}
@@ -107,13 +185,38 @@ export const MessageBubble = ({
           <div
             className={cn(
               "max-w-[75vw] rounded-2xl px-4 py-2",
+              hasAttachments && "px-1.5 pt-1.5 w-72",
               isOwn
                 ? "bg-primary text-primary-foreground rounded-br-sm"
                 : "bg-muted text-foreground rounded-bl-sm",
-              hasSticker && "bg-transparent px-0 py-0"
+              sendStatus === "pending" && "opacity-70",
+              hasSticker && !quote && "bg-transparent px-0 py-0",
+              isHighlighted && "ring-2 ring-primary ring-offset-2 ring-offset-background transition-shadow"
             )}
           >
-            {hasAudio ? (
+            {!isOwn && senderName && (
+              <p className="text-xs font-semibold text-primary mb-0.5">{senderName}</p>
+            )}
+            {quote && !isDeleted && (
+              <MessageQuote
+                senderName={quote.senderName}
+                text={quote.text}
+                onPrimary={isOwn}
+                onClick={onQuoteClick}
+                className="mb-1.5"
+              />
+            )}
+            {isDeleted ? (
+              <p
+                className={cn(
+                  "text-sm italic flex items-center gap-1.5",
+                  isOwn ? "text-primary-foreground/70" : "text-muted-foreground"
+                )}
+              >
+                <Ban className="w-3.5 h-3.5" />
+                {isOwn ? "Você apagou esta mensagem" : "Mensagem apagada"}
+              </p>
+            ) : hasAudio ? (
               <AudioMessage
                 audioUrl={audioUrl!}
                 duration={audioDuration || undefined}
@@ -126,8 +229,15 @@ export const MessageBubble = ({
                 className="w-28 h-28 object-contain"
                 whileTap={{ scale: 0.95 }}
               />
+            ) : hasAttachments ? (
+              <>
+                <MessageAttachments attachments={attachments} isOwn={isOwn} onOpenMedia={onOpenMedia} />
+                {hasTextContent && (
+                  <p className="text-sm whitespace-pre-wrap break-words px-2.5 pt-1.5">{messageText}</p>
+                )}
+              </>
             ) : hasTextContent ? (
-              <p className="text-sm whitespace-pre-wrap break-words">{content}</p>
+              <p className="text-sm whitespace-pre-wrap break-words">{messageText}</p>
             ) : (
               <p className="text-sm text-muted-foreground italic">Mensagem vazia</p>
             )}
@@ -136,9 +246,29 @@ export const MessageBubble = ({
               <div
                 className={cn(
                   "flex items-center gap-1 mt-1",
-                  isOwn ? "justify-end" : "justify-start"
+                  isOwn ? "justify-end" : "justify-start",
+                  hasAttachments && "px-2.5 pb-0.5"
                 )}
               >
+                {isEdited && !isDeleted && (
+                  <button
+                    onClick={onViewHistory}
+                    className={cn(
+                      "text-[10px] italic",
+                      isOwn ? "text-primary-foreground/70" : "text-muted-foreground"
+                    )}
+                  >
+                    editada
+                  </button>
+                )}
+                {isDisappearing && (
+                  <Timer
+                    className={cn(
+                      "w-3 h-3",
+                      isOwn ? "text-primary-foreground/70" : "text-muted-foreground"
+                    )}
+                  />
+                )}
                 <span
                   className={cn(
                     "text-[10px]",
@@ -149,7 +279,11 @@ export const MessageBubble = ({
                 </span>
                 {isOwn && (
                   <span className="text-primary-foreground/70">
-                    {isRead ? (
+                    {sendStatus === "failed" ? (
+                      <AlertCircle className="w-3.5 h-3.5" />
+                    ) : sendStatus === "pending" ? (
+                      <Clock className="w-3.5 h-3.5" />
+                    ) : isRead ? (
                       <CheckCheck className="w-3.5 h-3.5" />
                     ) : (
                       <Check className="w-3.5 h-3.5" />
@@ -191,7 +325,7 @@ export const MessageBubble = ({
             </motion.div>
           )}
 
-          {/* Reaction picker */}
+          {/* Reaction picker and message actions */}
           <AnimatePresence>
             {showReactionPicker && (
               <>
@@ -202,36 +336,65 @@ export const MessageBubble = ({
                   className="fixed inset-0 z-40"
                   onClick={() => setShowReactionPicker(false)}
                 />
-                <motion.div
-                  initial={{ scale: 0.8, opacity: 0, y: 10 }}
-                  animate={{ scale: 1, opacity: 1, y: 0 }}
-                  exit={{ scale: 0.8, opacity: 0, y: 10 }}
-                  transition={{ type: "spring", damping: 25, stiffness: 400 }}
-                  className={cn(
-                    "absolute z-50 flex items-center gap-1 p-2 rounded-2xl bg-background/95 backdrop-blur-xl border border-border shadow-xl",
-                    isOwn ? "right-0 -top-14" : "left-0 -top-14"
-                  )}
-                >
-                  {Object.entries(REACTION_EMOJIS).map(([type, emoji], index) => (
-                    <motion.button
-                      key={type}
-                      initial={{ scale: 0, y: 10 }}
-                      animate={{ scale: 1, y: 0 }}
-                      transition={{
-                        delay: index * 0.03,
-                        type: "spring",
-                        damping: 20,
-                        stiffness: 400,
-                      }}
-                      whileHover={{ scale: 1.3, y: -4 }}
-                      whileTap={{ scale: 0.9 }}
-                      onClick={() => handleReactionClick(type as ReactionType)}
-                      className="w-10 h-10 flex items-center justify-center text-xl hover:bg-muted rounded-full transition-colors"
-                    >
-                      {emoji}
-                    </motion.button>
-                  ))}
-                </motion.div>
+                {canReact && (
+                  <motion.div
+                    initial={{ scale: 0.8, opacity: 0, y: 10 }}
+                    animate={{ scale: 1, opacity: 1, y: 0 }}
+                    exit={{ scale: 0.8, opacity: 0, y: 10 }}
+                    transition={{ type: "spring", damping: 25, stiffness: 400 }}
+                    className={cn(
+                      "absolute z-50 flex items-center gap-1 p-2 rounded-2xl bg-background/95 backdrop-blur-xl border border-border shadow-xl",
+                      isOwn ? "right-0 -top-14" : "left-0 -top-14"
+                    )}
+                  >
+                    {Object.entries(REACTION_EMOJIS).map(([type, emoji], index) => (
+                      <motion.button
+                        key={type}
+                        initial={{ scale: 0, y: 10 }}
+                        animate={{ scale: 1, y: 0 }}
+                        transition={{
+                          delay: index * 0.03,
+                          type: "spring",
+                          damping: 20,
+                          stiffness: 400,
+                        }}
+                        whileHover={{ scale: 1.3, y: -4 }}
+                        whileTap={{ scale: 0.9 }}
+                        onClick={() => handleReactionClick(type as ReactionType)}
+                        className="w-10 h-10 flex items-center justify-center text-xl hover:bg-muted rounded-full transition-colors"
+                      >
+                        {emoji}
+                      </motion.button>
+                    ))}
+                  </motion.div>
+                )}
+
+                {actions.length > 0 && (
+                  <motion.div
+                    initial={{ scale: 0.9, opacity: 0, y: -10 }}
+                    animate={{ scale: 1, opacity: 1, y: 0 }}
+                    exit={{ scale: 0.9, opacity: 0, y: -10 }}
+                    transition={{ type: "spring", damping: 25, stiffness: 400 }}
+                    className={cn(
+                      "absolute z-50 top-full mt-2 min-w-[160px] p-1 rounded-2xl bg-background/95 backdrop-blur-xl border border-border shadow-xl",
+                      isOwn ? "right-0" : "left-0"
+                    )}
+                  >
+                    {actions.map((action) => (
+                      <button
+                        key={action.label}
+                        onClick={() => handleAction(action.onClick)}
+                        className={cn(
+                          "w-full flex items-center gap-2 px-3 py-2 text-sm rounded-xl hover:bg-muted transition-colors",
+                          action.destructive && "text-destructive"
+                        )}
+                      >
+                        <action.icon className="w-4 h-4" />
+                        {action.label}
+                      </button>
+                    ))}
+                  </motion.div>
+                )}
               </>
             )}
           </AnimatePresence>
@@ -240,6 +403,37 @@ export const MessageBubble = ({
 
       {/* Add spacing when reactions are shown */}
       {reactions.length > 0 && <div className="h-3" />}
+
+      {sendStatus === "failed" && (
+        <button
+          onClick={onRetrySend}
+          className="flex items-center justify-end gap-1 w-full mt-1 text-[11px] text-destructive"
+        >
+          <AlertCircle className="w-3 h-3" />
+          Não enviada · Toque para tentar novamente
+        </button>
+      )}
+
+      {/* Seen markers */}
+      {seenBy.length > 0 && (
+        <div
+          className={cn("flex items-center gap-1 mt-1", isOwn ? "justify-end" : "justify-start pl-8")}
+          title={`Visto por ${seenBy.map((reader) => reader.name).join(", ")}`}
+        >
+          <span className="text-[10px] text-muted-foreground">Visto</span>
+          <div className="flex -space-x-1.5">
+            {seenBy.slice(0, 5).map((reader) => (
+              <Avatar key={reader.id} className="w-4 h-4 border border-background">
+                <AvatarImage src={reader.avatarUrl || undefined} />
+                <AvatarFallback className="text-[8px]">{reader.name.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+            ))}
+          </div>
+          {seenBy.length > 5 && (
+            <span className="text-[10px] text-muted-foreground">+{seenBy.length - 5}</span>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Loader2 } from "lucide-react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import type { Message, MessageEdit } from "@/types/messages";
+
+interface MessageEditHistorySheetProps {
+  message: Message | null;
+  onOpenChange: (open: boolean) => void;
+  fetchEditHistory: (messageId: string) => Promise<MessageEdit[]>;
+}
+
+const formatWhen = (date: string) => format(new Date(date), "d MMM, HH:mm", { locale: ptBR });
+
+export const MessageEditHistorySheet = ({
+  message,
+  onOpenChange,
+  fetchEditHistory,
+}: MessageEditHistorySheetProps) => {
+  const [edits, setEdits] = useState<MessageEdit[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!message) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetchEditHistory(message.id).then((history) => {
+      if (cancelled) return;
+      setEdits(history);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message, fetchEditHistory]);
+
+  return (
+    <Sheet open={!!message} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[70vh] rounded-t-3xl flex flex-col">
+        <SheetHeader className="pb-2">
+          <div className="w-10 h-1 bg-muted-foreground/30 rounded-full mx-auto mb-3" />
+          <SheetTitle className="text-xl font-bold">Histórico de edições</SheetTitle>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto space-y-3 pb-8">
+            {message?.content && (
+              <div className="p-3 rounded-2xl bg-primary/10">
+                <p className="text-xs text-primary font-medium mb-1">
+                  Atual · {formatWhen(message.edited_at || message.created_at)}
+                </p>
+                <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+              </div>
+            )}
+            {edits.map((edit) => (
+              <div key={edit.id} className="p-3 rounded-2xl bg-muted/50">
+                <p className="text-xs text-muted-foreground mb-1">{formatWhen(edit.edited_at)}</p>
+                <p className="text-sm whitespace-pre-wrap break-words">{edit.previous_content}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
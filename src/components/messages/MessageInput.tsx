@@ -1,35 +1,75 @@
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Send, Smile, Image as ImageIcon, Loader2, Check, X, Sticker } from "lucide-react";
+import { Send, Smile, Image as ImageIcon, Loader2, Check, X, Sticker, Paperclip, FileText, Play, CalendarClock } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { AudioRecorder } from "./AudioRecorder";
 import { StickerPicker } from "./StickerPicker";
+import { MessageQuote } from "./MessageQuote";
+import { ScheduleMessageDialog } from "./ScheduleMessageDialog";
 import { useAudioRecorder } from "@/hooks/useAudioRecorder";
+import { useMentionAutocomplete } from "@/hooks/useMentionAutocomplete";
+import { MentionSuggestions } from "@/components/mentions/MentionSuggestions";
+import { getAttachmentKind } from "@/lib/messageAttachments";
+import { MAX_ATTACHMENTS_PER_MESSAGE } from "@/types/messages";
+import { toast } from "sonner";
 
 interface MessageInputProps {
   onSend: (message: string, stickerUrl?: string) => Promise<void>;
   onSendAudio: (audioBlob: Blob, duration: number) => Promise<void>;
+  onSendAttachments: (files: File[], caption: string, onProgress: (progress: number) => void) => Promise<void>;
   onTypingStart: () => void;
   onTypingStop: () => void;
   disabled?: boolean;
+  replyTo?: { senderName: string; text: string } | null;
+  onCancelReply?: () => void;
+  // Send later: resolves true once the message is scheduled
+  onScheduleMessage?: (message: string, scheduledFor: Date) => Promise<boolean>;
+  scheduledCount?: number;
+  onOpenScheduled?: () => void;
 }
 
 type SendingState = "idle" | "sending" | "success" | "error";
 
+interface PendingFile {
+  id: string;
+  file: File;
+  previewUrl: string | null;
+}
+
 export const MessageInput = ({
   onSend,
   onSendAudio,
+  onSendAttachments,
   onTypingStart,
   onTypingStop,
   disabled,
+  replyTo,
+  onCancelReply,
+  onScheduleMessage,
+  scheduledCount = 0,
+  onOpenScheduled,
 }: MessageInputProps) => {
   const [message, setMessage] = useState("");
   const [sendingState, setSendingState] = useState<SendingState>("idle");
   const [isSendingAudio, setIsSendingAudio] = useState(false);
   const [showStickerPicker, setShowStickerPicker] = useState(false);
+  const [pendingFiles, setPendingFiles] = useState<PendingFile[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [showScheduleDialog, setShowScheduleDialog] = useState(false);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const mediaInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const pendingFilesRef = useRef(pendingFiles);
+  pendingFilesRef.current = pendingFiles;
+
+  // Release local previews when the input goes away
+  useEffect(() => {
+    return () => {
+      pendingFilesRef.current.forEach((p) => p.previewUrl && URL.revokeObjectURL(p.previewUrl));
+    };
+  }, []);
 
   const {
     isRecording,
@@ -61,7 +101,68 @@ export const MessageInput = ({
     }
   };
 
+  const mention = useMentionAutocomplete(message, handleChange);
+
+  const handlePickFiles = (fileList: FileList | null) => {
+    const picked = Array.from(fileList || []);
+    if (picked.length === 0) return;
+
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - pendingFiles.length;
+    if (picked.length > room) {
+      toast.error(`Você pode enviar até ${MAX_ATTACHMENTS_PER_MESSAGE} arquivos por mensagem`);
+    }
+
+    setPendingFiles((prev) => [
+      ...prev,
+      ...picked.slice(0, Math.max(room, 0)).map((file) => ({
+        id: crypto.randomUUID(),
+        file,
+        previewUrl: getAttachmentKind(file) === "file" ? null : URL.createObjectURL(file),
+      })),
+    ]);
+  };
+
+  const removePendingFile = (id: string) => {
+    setPendingFiles((prev) => {
+      const removed = prev.find((p) => p.id === id);
+      if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter((p) => p.id !== id);
+    });
+  };
+
+  const handleSendAttachments = async () => {
+    const filesToSend = pendingFiles;
+    const caption = message.trim();
+
+    setSendingState("sending");
+    setUploadProgress(0);
+    onTypingStop();
+
+    try {
+      await onSendAttachments(
+        filesToSend.map((p) => p.file),
+        caption,
+        setUploadProgress
+      );
+      filesToSend.forEach((p) => p.previewUrl && URL.revokeObjectURL(p.previewUrl));
+      setPendingFiles([]);
+      setMessage("");
+      setSendingState("success");
+      setTimeout(() => setSendingState("idle"), 1500);
+    } catch (error) {
+      setSendingState("error");
+      setTimeout(() => setSendingState("idle"), 2000);
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
   const handleSend = async () => {
+    if (pendingFiles.length > 0) {
+      if (sendingState !== "sending" && !disabled) await handleSendAttachments();
+      return;
+    }
+
     if (!message.trim() || sendingState === "sending" || disabled) return;
 
     const messageToSend = message.trim();
@@ -84,6 +185,17 @@ export const MessageInput = ({
     }
   };
 
+  const handleSchedule = async (content: string, scheduledFor: Date) => {
+    if (!onScheduleMessage) return false;
+
+    const scheduled = await onScheduleMessage(content.trim(), scheduledFor);
+    if (scheduled) {
+      setMessage("");
+      onTypingStop();
+    }
+    return scheduled;
+  };
+
   const handleSendSticker = async (stickerUrl: string) => {
     setSendingState("sending");
     try {
@@ -166,6 +278,7 @@ export const MessageInput = ({
   };
 
   const showAudioRecorder = isRecording || audioUrl;
+  const canSend = !!message.trim() || pendingFiles.length > 0;
 
   return (
     <>
@@ -186,6 +299,86 @@ export const MessageInput = ({
           )}
         </AnimatePresence>
 
+        {/* Reply Preview */}
+        <AnimatePresence>
+          {replyTo && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: "auto" }}
+              exit={{ opacity: 0, height: 0 }}
+              className="mb-2 flex items-center gap-2"
+            >
+              <MessageQuote senderName={`Respondendo a ${replyTo.senderName}`} text={replyTo.text} />
+              <button
+                onClick={onCancelReply}
+                className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+                aria-label="Cancelar resposta"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Scheduled messages */}
+        {scheduledCount > 0 && (
+          <button
+            onClick={onOpenScheduled}
+            className="mb-2 flex items-center gap-1.5 text-xs text-primary hover:underline"
+          >
+            <CalendarClock className="w-3.5 h-3.5" />
+            {scheduledCount === 1 ? "1 mensagem programada" : `${scheduledCount} mensagens programadas`}
+          </button>
+        )}
+
+        {/* Pending attachments */}
+        {pendingFiles.length > 0 && !showAudioRecorder && (
+          <div className="mb-2 space-y-2">
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {pendingFiles.map((pending) => (
+                <div
+                  key={pending.id}
+                  className="relative w-16 h-16 flex-shrink-0 rounded-xl overflow-hidden bg-muted/50"
+                >
+                  {pending.previewUrl && pending.file.type.startsWith("image/") ? (
+                    <img src={pending.previewUrl} alt="" className="w-full h-full object-cover" />
+                  ) : pending.previewUrl ? (
+                    <>
+                      <video src={pending.previewUrl} muted className="w-full h-full object-cover" />
+                      <Play className="absolute bottom-1 left-1 w-3.5 h-3.5 text-white fill-white" />
+                    </>
+                  ) : (
+                    <div className="w-full h-full flex flex-col items-center justify-center gap-0.5 px-1">
+                      <FileText className="w-5 h-5 text-muted-foreground" />
+                      <span className="text-[9px] text-muted-foreground truncate w-full text-center">
+                        {pending.file.name}
+                      </span>
+                    </div>
+                  )}
+                  {sendingState !== "sending" && (
+                    <button
+                      onClick={() => removePendingFile(pending.id)}
+                      className="absolute top-0.5 right-0.5 p-0.5 rounded-full bg-black/60 text-white"
+                      aria-label="Remover anexo"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {uploadProgress !== null && (
+              <div className="h-1 rounded-full bg-muted/50 overflow-hidden">
+                <motion.div
+                  className="h-full bg-primary"
+                  animate={{ width: `${Math.round(uploadProgress * 100)}%` }}
+                  transition={{ ease: "linear", duration: 0.2 }}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
         <AnimatePresence mode="wait">
           {showAudioRecorder ? (
             <motion.div
@@ -224,25 +417,72 @@ export const MessageInput = ({
                 <Sticker className="w-5 h-5" />
               </motion.button>
               <button
+                onClick={() => mediaInputRef.current?.click()}
                 className="p-2 text-muted-foreground hover:text-foreground transition-colors"
-                disabled={disabled}
+                disabled={disabled || sendingState === "sending"}
+                aria-label="Enviar fotos ou vídeos"
               >
                 <ImageIcon className="w-5 h-5" />
               </button>
-
-              <Input
-                value={message}
-                onChange={(e) => handleChange(e.target.value)}
-                onKeyPress={handleKeyPress}
-                placeholder="Mensagem..."
-                className={cn(
-                  "flex-1 bg-muted/30 transition-all",
-                  sendingState === "error" && "border-destructive/50"
-                )}
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="p-2 -ml-2 text-muted-foreground hover:text-foreground transition-colors"
                 disabled={disabled || sendingState === "sending"}
+                aria-label="Enviar arquivo"
+              >
+                <Paperclip className="w-5 h-5" />
+              </button>
+              <input
+                ref={mediaInputRef}
+                type="file"
+                accept="image/*,video/*"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  handlePickFiles(e.target.files);
+                  e.target.value = "";
+                }}
+              />
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  handlePickFiles(e.target.files);
+                  e.target.value = "";
+                }}
               />
 
-              {message.trim() || sendingState !== "idle" ? (
+              <div className="relative flex-1">
+                <Input
+                  value={message}
+                  onChange={mention.handleChange}
+                  onKeyDown={mention.handleKeyDown}
+                  onKeyPress={handleKeyPress}
+                  onBlur={mention.closeSuggestions}
+                  placeholder={pendingFiles.length > 0 ? "Adicionar legenda..." : "Mensagem..."}
+                  className={cn(
+                    "bg-muted/30 transition-all",
+                    sendingState === "error" && "border-destructive/50"
+                  )}
+                  disabled={disabled || sendingState === "sending"}
+                />
+                <MentionSuggestions users={mention.suggestions} onSelect={mention.selectMention} />
+              </div>
+
+              {onScheduleMessage && !!message.trim() && pendingFiles.length === 0 && sendingState === "idle" && (
+                <button
+                  onClick={() => setShowScheduleDialog(true)}
+                  className="p-2 -mr-1 text-muted-foreground hover:text-primary transition-colors"
+                  disabled={disabled}
+                  aria-label="Programar envio"
+                >
+                  <CalendarClock className="w-5 h-5" />
+                </button>
+              )}
+
+              {canSend || sendingState !== "idle" ? (
                 <motion.div
                   initial={{ scale: 0.8 }}
                   animate={{ scale: 1 }}
@@ -253,7 +493,7 @@ export const MessageInput = ({
                     variant="neon"
                     onClick={handleSend}
                     disabled={
-                      (!message.trim() && sendingState === "idle") ||
+                      (!canSend && sendingState === "idle") ||
                       sendingState === "sending" ||
                       disabled
                     }
@@ -287,6 +527,13 @@ export const MessageInput = ({
         onClose={() => setShowStickerPicker(false)}
         onSelectSticker={handleSendSticker}
       />
+
+      <ScheduleMessageDialog
+        open={showScheduleDialog}
+        onOpenChange={setShowScheduleDialog}
+        content={message.trim()}
+        onConfirm={handleSchedule}
+      />
     </>
   );
 };
@@ -0,0 +1,35 @@
+import { cn } from "@/lib/utils";
+
+interface MessageQuoteProps {
+  senderName: string;
+  text: string;
+  // Inside your own (primary-colored) bubble
+  onPrimary?: boolean;
+  onClick?: () => void;
+  className?: string;
+}
+
+export const MessageQuote = ({ senderName, text, onPrimary = false, onClick, className }: MessageQuoteProps) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={!onClick}
+    className={cn(
+      "w-full text-left border-l-2 rounded-md px-2 py-1 min-w-0",
+      onPrimary ? "border-primary-foreground/60 bg-primary-foreground/10" : "border-primary bg-background/40",
+      className
+    )}
+  >
+    <p className={cn("text-xs font-semibold truncate", onPrimary ? "text-primary-foreground" : "text-primary")}>
+      {senderName}
+    </p>
+    <p
+      className={cn(
+        "text-xs truncate",
+        onPrimary ? "text-primary-foreground/80" : "text-muted-foreground"
+      )}
+    >
+      {text}
+    </p>
+  </button>
+);
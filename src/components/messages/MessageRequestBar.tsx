@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface MessageRequestBarProps {
+  displayName: string | null;
+  onAccept: () => Promise<void>;
+  onDelete: () => Promise<void>;
+  onBlock: () => Promise<void>;
+}
+
+// Replaces the input while a message request is pending
+export const MessageRequestBar = ({ displayName, onAccept, onDelete, onBlock }: MessageRequestBarProps) => {
+  const [pending, setPending] = useState<"accept" | "delete" | "block" | null>(null);
+
+  const run = async (action: "accept" | "delete" | "block", handler: () => Promise<void>) => {
+    setPending(action);
+    await handler();
+    setPending(null);
+  };
+
+  return (
+    <div className="glass-strong border-t border-white/5 px-4 py-4 safe-bottom space-y-3">
+      <div className="text-center">
+        <p className="text-sm font-medium">
+          {displayName || "Alguém"} quer te enviar uma mensagem
+        </p>
+        <p className="text-xs text-muted-foreground mt-1">
+          A pessoa só saberá que você viu depois que você aceitar.
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <Button
+          variant="ghost"
+          className="flex-1 text-destructive hover:text-destructive"
+          disabled={!!pending}
+          onClick={() => run("block", onBlock)}
+        >
+          {pending === "block" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Bloquear
+        </Button>
+        <Button
+          variant="ghost"
+          className="flex-1"
+          disabled={!!pending}
+          onClick={() => run("delete", onDelete)}
+        >
+          {pending === "delete" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Excluir
+        </Button>
+        <Button className="flex-1" disabled={!!pending} onClick={() => run("accept", onAccept)}>
+          {pending === "accept" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Aceitar
+        </Button>
+      </div>
+    </div>
+  );
+};
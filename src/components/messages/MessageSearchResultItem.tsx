@@ -0,0 +1,62 @@
+import { Fragment } from "react";
+import { format, isToday } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import type { MessageSearchResult } from "@/types/messages";
+
+interface MessageSearchResultItemProps {
+  result: MessageSearchResult;
+  title: string;
+  avatarUrl?: string | null;
+  // Shown before the snippet, e.g. the sender in a group
+  prefix?: string;
+  onClick: () => void;
+}
+
+// search_messages marks hits with <mark></mark>; render them as text, never as HTML
+const HighlightedSnippet = ({ snippet }: { snippet: string }) => (
+  <>
+    {snippet.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+      part.startsWith("<mark>") ? (
+        <mark key={index} className="bg-primary/25 text-foreground rounded px-0.5">
+          {part.slice(6, -7)}
+        </mark>
+      ) : (
+        <Fragment key={index}>{part}</Fragment>
+      )
+    )}
+  </>
+);
+
+const formatWhen = (date: string) =>
+  isToday(new Date(date))
+    ? format(new Date(date), "HH:mm")
+    : format(new Date(date), "d MMM yyyy", { locale: ptBR });
+
+export const MessageSearchResultItem = ({
+  result,
+  title,
+  avatarUrl,
+  prefix,
+  onClick,
+}: MessageSearchResultItemProps) => (
+  <button
+    onClick={onClick}
+    className="w-full flex items-start gap-3 p-3 rounded-2xl text-left hover:bg-muted/40 transition-colors"
+  >
+    <Avatar className="w-10 h-10 flex-shrink-0">
+      <AvatarImage src={avatarUrl || undefined} alt={title} className="object-cover" />
+      <AvatarFallback className="bg-muted font-semibold">{title[0]?.toUpperCase() || "?"}</AvatarFallback>
+    </Avatar>
+    <div className="flex-1 min-w-0">
+      <div className="flex items-baseline justify-between gap-2">
+        <p className="font-medium truncate">{title}</p>
+        <span className="text-xs text-muted-foreground flex-shrink-0">{formatWhen(result.created_at)}</span>
+      </div>
+      <p className="text-sm text-muted-foreground line-clamp-2 break-words">
+        {prefix && <span className="text-foreground/80">{prefix}: </span>}
+        <HighlightedSnippet snippet={result.snippet} />
+      </p>
+    </div>
+  </button>
+);
@@ -0,0 +1,82 @@
+import { useEffect } from "react";
+import { Loader2, Search, X } from "lucide-react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/useAuth";
+import { useMessageSearch } from "@/hooks/messages";
+import { MessageSearchResultItem } from "./MessageSearchResultItem";
+
+interface MessageSearchSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId: string;
+  onSelectMessage: (messageId: string) => void;
+}
+
+export const MessageSearchSheet = ({
+  open,
+  onOpenChange,
+  conversationId,
+  onSelectMessage,
+}: MessageSearchSheetProps) => {
+  const { user } = useAuth();
+  const { query, setQuery, results, isSearching, clearSearch } = useMessageSearch(conversationId);
+
+  useEffect(() => {
+    if (!open) clearSearch();
+  }, [open, clearSearch]);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="h-[85vh] rounded-t-3xl flex flex-col">
+        <SheetHeader className="pb-2">
+          <div className="w-10 h-1 bg-muted-foreground/30 rounded-full mx-auto mb-3" />
+          <SheetTitle className="text-xl font-bold">Buscar na conversa</SheetTitle>
+        </SheetHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Buscar mensagens"
+            className="pl-9 pr-8 rounded-xl bg-muted/50 border-transparent"
+            autoFocus
+          />
+          {query && (
+            <button onClick={clearSearch} className="absolute right-2 top-1/2 -translate-y-1/2">
+              <X className="w-3 h-3 text-muted-foreground" />
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-1 pb-8">
+          {isSearching ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : query.trim().length >= 2 && results.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-8">Nenhuma mensagem encontrada</p>
+          ) : (
+            results.map((result) => (
+              <MessageSearchResultItem
+                key={result.message_id}
+                result={result}
+                title={
+                  result.sender_id === user?.id
+                    ? "Você"
+                    : result.sender_display_name || result.sender_username || "Usuário"
+                }
+                avatarUrl={result.sender_avatar_url}
+                onClick={() => {
+                  onOpenChange(false);
+                  onSelectMessage(result.message_id);
+                }}
+              />
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -1,10 +1,12 @@
 import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
-import { X, Search, Loader2, Lock, BadgeCheck, MessageCircle } from "lucide-react";
+import { X, Search, Loader2, Lock, BadgeCheck, MessageCircle, Users, ArrowLeft } from "lucide-react";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { useUserSearch, useConversationActions } from "@/hooks/messages";
+import { useUserSearch, useConversationActions, useGroupActions } from "@/hooks/messages";
+import { UserMultiSelect } from "./UserMultiSelect";
 import { toast } from "sonner";
 import type { SearchableUser } from "@/types/messages";
 
@@ -21,16 +23,49 @@ export const NewConversationSheet = ({
 }: NewConversationSheetProps) => {
   const { query, setQuery, results, isSearching, clearSearch } = useUserSearch();
   const { createConversation } = useConversationActions();
+  const { createGroup } = useGroupActions();
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [mode, setMode] = useState<"direct" | "group">("direct");
+  const [groupTitle, setGroupTitle] = useState("");
+  const [groupMembers, setGroupMembers] = useState<SearchableUser[]>([]);
+  const [isCreatingGroup, setIsCreatingGroup] = useState(false);
 
   // Reset state when sheet closes
   useEffect(() => {
     if (!open) {
       clearSearch();
       setSelectedUserId(null);
+      setMode("direct");
+      setGroupTitle("");
+      setGroupMembers([]);
     }
   }, [open, clearSearch]);
 
+  const toggleGroupMember = (member: SearchableUser) => {
+    setGroupMembers((prev) =>
+      prev.some((u) => u.id === member.id)
+        ? prev.filter((u) => u.id !== member.id)
+        : [...prev, member]
+    );
+  };
+
+  const handleCreateGroup = async () => {
+    setIsCreatingGroup(true);
+
+    try {
+      const result = await createGroup(groupTitle, groupMembers.map((u) => u.id));
+
+      if (result.success && result.conversationId) {
+        onConversationCreated(result.conversationId);
+        onClose();
+      } else {
+        toast.error(result.error || "Erro ao criar grupo");
+      }
+    } finally {
+      setIsCreatingGroup(false);
+    }
+  };
+
   const handleSelectUser = async (selectedUser: SearchableUser) => {
     if (!selectedUser.can_message) {
       toast.error("Este usuário não aceita mensagens de você");
@@ -62,7 +97,19 @@ export const NewConversationSheet = ({
         <SheetHeader className="pb-4">
           <div className="w-10 h-1 bg-muted-foreground/30 rounded-full mx-auto mb-3" />
           <div className="flex items-center justify-between">
-            <SheetTitle className="text-xl font-bold">Nova Mensagem</SheetTitle>
+            <div className="flex items-center gap-2">
+              {mode === "group" && (
+                <button
+                  onClick={() => setMode("direct")}
+                  className="p-2 -ml-2 rounded-full hover:bg-muted transition-colors"
+                >
+                  <ArrowLeft className="w-5 h-5" />
+                </button>
+              )}
+              <SheetTitle className="text-xl font-bold">
+                {mode === "group" ? "Novo Grupo" : "Nova Mensagem"}
+              </SheetTitle>
+            </div>
             <button
               onClick={onClose}
               className="p-2 rounded-full hover:bg-muted transition-colors"
@@ -72,87 +119,122 @@ export const NewConversationSheet = ({
           </div>
         </SheetHeader>
 
-        {/* Search Input */}
-        <div className="relative mb-4">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-          <Input
-            value={query}
-            onChange={(e) => setQuery(e.target.value)}
-            placeholder="Buscar usuários..."
-            className="pl-10 bg-muted/50 border-0 rounded-xl h-12"
-            autoFocus
-          />
-        </div>
-
-        {/* Users List */}
-        <div className="flex-1 overflow-y-auto space-y-1 -mx-2 px-2">
-          {isSearching ? (
-            <div className="flex flex-col items-center justify-center py-12">
-              <Loader2 className="w-8 h-8 animate-spin text-primary mb-3" />
-              <p className="text-sm text-muted-foreground">Buscando usuários...</p>
-            </div>
-          ) : !query ? (
-            <div className="flex flex-col items-center justify-center py-16 text-center">
-              <div className="w-20 h-20 rounded-full bg-muted flex items-center justify-center mb-4">
-                <MessageCircle className="w-10 h-10 text-muted-foreground" />
+        {mode === "group" ? (
+          <div className="flex flex-col gap-4 h-[calc(85vh-120px)]">
+            <Input
+              value={groupTitle}
+              onChange={(e) => setGroupTitle(e.target.value)}
+              placeholder="Nome do grupo"
+              maxLength={100}
+              className="bg-muted/50 border-0 rounded-xl h-12"
+              autoFocus
+            />
+            <UserMultiSelect selected={groupMembers} onToggle={toggleGroupMember} />
+            <Button
+              onClick={handleCreateGroup}
+              disabled={isCreatingGroup || !groupTitle.trim() || groupMembers.length === 0}
+              className="rounded-xl h-12"
+            >
+              {isCreatingGroup && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Criar grupo ({groupMembers.length})
+            </Button>
+          </div>
+        ) : (
+          <>
+            {/* New group */}
+            <button
+              onClick={() => setMode("group")}
+              className="w-full flex items-center gap-3 p-3 mb-2 rounded-2xl hover:bg-muted/50 active:bg-muted transition-colors"
+            >
+              <div className="w-14 h-14 rounded-full bg-primary/15 flex items-center justify-center">
+                <Users className="w-6 h-6 text-primary" />
               </div>
-              <p className="text-muted-foreground font-medium">Buscar pessoas</p>
-              <p className="text-sm text-muted-foreground mt-1">
-                Digite o nome ou @username
-              </p>
-            </div>
-          ) : results.length === 0 ? (
-            <div className="flex flex-col items-center justify-center py-12 text-center">
-              <p className="text-muted-foreground">Nenhum usuário encontrado</p>
-              <p className="text-sm text-muted-foreground mt-1">
-                Tente outro nome ou username
-              </p>
+              <span className="font-semibold">Novo grupo</span>
+            </button>
+
+            {/* Search Input */}
+            <div className="relative mb-4">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Buscar usuários..."
+                className="pl-10 bg-muted/50 border-0 rounded-xl h-12"
+                autoFocus
+              />
             </div>
-          ) : (
-            results.map((u, index) => (
-              <motion.button
-                key={u.id}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.03, type: "spring", damping: 25, stiffness: 300 }}
-                onClick={() => handleSelectUser(u)}
-                disabled={selectedUserId !== null || !u.can_message}
-                className={`w-full flex items-center gap-3 p-3 rounded-2xl transition-all ${
-                  u.can_message 
-                    ? "hover:bg-muted/50 active:bg-muted active:scale-[0.98]" 
-                    : "opacity-50 cursor-not-allowed"
-                }`}
-              >
-                <Avatar className="w-14 h-14">
-                  <AvatarImage src={u.avatar_url || undefined} className="object-cover" />
-                  <AvatarFallback className="bg-secondary text-lg font-semibold">
-                    {(u.display_name || u.username || "U")[0].toUpperCase()}
-                  </AvatarFallback>
-                </Avatar>
-                <div className="flex-1 text-left">
-                  <p className="font-semibold flex items-center gap-1.5">
-                    {u.display_name || u.username || "Usuário"}
-                    {u.is_verified && (
-                      <BadgeCheck className="w-4 h-4 text-primary" />
-                    )}
+
+            {/* Users List */}
+            <div className="flex-1 overflow-y-auto space-y-1 -mx-2 px-2">
+              {isSearching ? (
+                <div className="flex flex-col items-center justify-center py-12">
+                  <Loader2 className="w-8 h-8 animate-spin text-primary mb-3" />
+                  <p className="text-sm text-muted-foreground">Buscando usuários...</p>
+                </div>
+              ) : !query ? (
+                <div className="flex flex-col items-center justify-center py-16 text-center">
+                  <div className="w-20 h-20 rounded-full bg-muted flex items-center justify-center mb-4">
+                    <MessageCircle className="w-10 h-10 text-muted-foreground" />
+                  </div>
+                  <p className="text-muted-foreground font-medium">Buscar pessoas</p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Digite o nome ou @username
                   </p>
-                  <p className="text-sm text-muted-foreground">
-                    @{u.username || "usuario"}
+                </div>
+              ) : results.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                  <p className="text-muted-foreground">Nenhum usuário encontrado</p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Tente outro nome ou username
                   </p>
                 </div>
-                {!u.can_message && (
-                  <div className="flex items-center gap-1.5 text-muted-foreground">
-                    <Lock className="w-4 h-4" />
-                    <span className="text-xs">Bloqueado</span>
-                  </div>
-                )}
-                {selectedUserId === u.id && (
-                  <Loader2 className="w-5 h-5 animate-spin text-primary" />
-                )}
-              </motion.button>
-            ))
-          )}
-        </div>
+              ) : (
+                results.map((u, index) => (
+                  <motion.button
+                    key={u.id}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: index * 0.03, type: "spring", damping: 25, stiffness: 300 }}
+                    onClick={() => handleSelectUser(u)}
+                    disabled={selectedUserId !== null || !u.can_message}
+                    className={`w-full flex items-center gap-3 p-3 rounded-2xl transition-all ${
+                      u.can_message 
+                        ? "hover:bg-muted/50 active:bg-muted active:scale-[0.98]" 
+                        : "opacity-50 cursor-not-allowed"
+                    }`}
+                  >
+                    <Avatar className="w-14 h-14">
+                      <AvatarImage src={u.avatar_url || undefined} className="object-cover" />
+                      <AvatarFallback className="bg-secondary text-lg font-semibold">
+                        {(u.display_name || u.username || "U")[0].toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 text-left">
+                      <p className="font-semibold flex items-center gap-1.5">
+                        {u.display_name || u.username || "Usuário"}
+                        {u.is_verified && (
+                          <BadgeCheck className="w-4 h-4 text-primary" />
+                        )}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        @{u.username || "usuario"}
+                      </p>
+                    </div>
+                    {!u.can_message && (
+                      <div className="flex items-center gap-1.5 text-muted-foreground">
+                        <Lock className="w-4 h-4" />
+                        <span className="text-xs">Bloqueado</span>
+                      </div>
+                    )}
+                    {selectedUserId === u.id && (
+                      <Loader2 className="w-5 h-5 animate-spin text-primary" />
+                    )}
+                  </motion.button>
+                ))
+              )}
+            </div>
+          </>
+        )}
       </SheetContent>
     </Sheet>
   );
@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { addHours, format, startOfHour } from "date-fns";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+// datetime-local inputs take local time without a zone
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+interface ScheduleMessageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  content: string;
+  // Set when editing an already scheduled message
+  scheduledFor?: string | null;
+  // Editing lets the text change too; scheduling from the input keeps what was typed
+  editableContent?: boolean;
+  onConfirm: (content: string, scheduledFor: Date) => Promise<boolean>;
+}
+
+export const ScheduleMessageDialog = ({
+  open,
+  onOpenChange,
+  content: initialContent,
+  scheduledFor,
+  editableContent = false,
+  onConfirm,
+}: ScheduleMessageDialogProps) => {
+  const [content, setContent] = useState("");
+  const [when, setWhen] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setContent(initialContent);
+    setWhen(toInputValue(scheduledFor ? new Date(scheduledFor) : startOfHour(addHours(new Date(), 2))));
+  }, [open, initialContent, scheduledFor]);
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    const saved = await onConfirm(content, new Date(when));
+    setIsSaving(false);
+
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>{scheduledFor ? "Editar mensagem programada" : "Programar envio"}</DialogTitle>
+          <DialogDescription>A mensagem será enviada automaticamente no horário escolhido.</DialogDescription>
+        </DialogHeader>
+
+        {editableContent ? (
+          <Textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            rows={4}
+            maxLength={2000}
+            className="resize-none rounded-xl"
+          />
+        ) : (
+          <p className="text-sm bg-muted/40 rounded-xl px-3 py-2 whitespace-pre-wrap break-words line-clamp-4">
+            {content}
+          </p>
+        )}
+
+        <Input
+          type="datetime-local"
+          value={when}
+          min={toInputValue(new Date())}
+          onChange={(e) => setWhen(e.target.value)}
+          className="rounded-xl"
+        />
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancelar
+          </Button>
+          <Button onClick={handleConfirm} disabled={isSaving || !content.trim() || !when}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {scheduledFor ? "Salvar" : "Programar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,76 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { CalendarClock, Loader2, Pencil, Trash2 } from "lucide-react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import type { ScheduledMessage } from "@/types/messages";
+
+interface ScheduledMessagesSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scheduledMessages: ScheduledMessage[];
+  isLoading: boolean;
+  onEdit: (message: ScheduledMessage) => void;
+  onCancel: (message: ScheduledMessage) => void;
+}
+
+export const ScheduledMessagesSheet = ({
+  open,
+  onOpenChange,
+  scheduledMessages,
+  isLoading,
+  onEdit,
+  onCancel,
+}: ScheduledMessagesSheetProps) => {
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="h-[70vh] rounded-t-3xl flex flex-col">
+        <SheetHeader className="pb-2">
+          <div className="w-10 h-1 bg-muted-foreground/30 rounded-full mx-auto mb-3" />
+          <SheetTitle className="text-xl font-bold">Mensagens programadas</SheetTitle>
+        </SheetHeader>
+
+        {isLoading && scheduledMessages.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : scheduledMessages.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-8">
+            Nenhuma mensagem programada nesta conversa
+          </p>
+        ) : (
+          <div className="flex-1 overflow-y-auto space-y-1 pb-8">
+            {scheduledMessages.map((scheduled) => (
+              <div key={scheduled.id} className="flex items-start gap-3 p-3 rounded-2xl hover:bg-muted/30 transition-colors">
+                <div className="w-11 h-11 flex-shrink-0 rounded-xl bg-primary/15 text-primary flex items-center justify-center">
+                  <CalendarClock className="w-5 h-5" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">
+                    {format(new Date(scheduled.scheduled_for), "d 'de' MMM 'às' HH:mm", { locale: ptBR })}
+                  </p>
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words line-clamp-3">
+                    {scheduled.content}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onEdit(scheduled)}
+                  className="p-2 text-muted-foreground hover:text-foreground transition-colors"
+                  aria-label="Editar mensagem programada"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onCancel(scheduled)}
+                  className="p-2 text-muted-foreground hover:text-destructive transition-colors"
+                  aria-label="Cancelar mensagem programada"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
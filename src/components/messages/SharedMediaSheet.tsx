@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Download, FileText, Loader2, Play } from "lucide-react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAttachmentUrls, useSharedMedia } from "@/hooks/messages";
+import { formatFileSize } from "@/lib/messageAttachments";
+import { MediaViewer } from "./MediaViewer";
+
+interface SharedMediaSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId: string;
+}
+
+export const SharedMediaSheet = ({ open, onOpenChange, conversationId }: SharedMediaSheetProps) => {
+  const { media, files, isLoading } = useSharedMedia(conversationId, open);
+  const urls = useAttachmentUrls([
+    ...media.map((m) => m.thumbnail_path),
+    ...files.map((f) => f.storage_path),
+  ]);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent side="bottom" className="h-[85vh] rounded-t-3xl flex flex-col">
+          <SheetHeader className="pb-2">
+            <div className="w-10 h-1 bg-muted-foreground/30 rounded-full mx-auto mb-3" />
+            <SheetTitle className="text-xl font-bold">Mídia compartilhada</SheetTitle>
+          </SheetHeader>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <Tabs defaultValue="media" className="flex-1 flex flex-col min-h-0">
+              <TabsList className="grid grid-cols-2 rounded-xl">
+                <TabsTrigger value="media" className="rounded-lg">
+                  Fotos e vídeos
+                </TabsTrigger>
+                <TabsTrigger value="files" className="rounded-lg">
+                  Arquivos
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="media" className="flex-1 overflow-y-auto pb-8">
+                {media.length === 0 ? (
+                  <p className="text-center text-sm text-muted-foreground py-8">
+                    Nenhuma foto ou vídeo nesta conversa
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-3 gap-1">
+                    {media.map((item, index) => {
+                      const thumbnailUrl = item.thumbnail_path ? urls[item.thumbnail_path] : undefined;
+
+                      return (
+                        <button
+                          key={item.id}
+                          onClick={() => setViewerIndex(index)}
+                          className="relative aspect-square bg-muted/40 overflow-hidden rounded-md"
+                        >
+                          {thumbnailUrl && (
+                            <img
+                              src={thumbnailUrl}
+                              alt={item.file_name}
+                              className="w-full h-full object-cover"
+                              loading="lazy"
+                            />
+                          )}
+                          {item.kind === "video" && (
+                            <Play className="absolute bottom-1.5 left-1.5 w-4 h-4 text-white fill-white drop-shadow" />
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </TabsContent>
+
+              <TabsContent value="files" className="flex-1 overflow-y-auto space-y-1 pb-8">
+                {files.length === 0 ? (
+                  <p className="text-center text-sm text-muted-foreground py-8">
+                    Nenhum arquivo nesta conversa
+                  </p>
+                ) : (
+                  files.map((file) => (
+                    <a
+                      key={file.id}
+                      href={urls[file.storage_path]}
+                      download={file.file_name}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="flex items-center gap-3 p-3 rounded-2xl hover:bg-muted/30 transition-colors"
+                    >
+                      <div className="w-11 h-11 rounded-xl bg-primary/15 text-primary flex items-center justify-center">
+                        <FileText className="w-5 h-5" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{file.file_name}</p>
+                        <p className="text-sm text-muted-foreground truncate">
+                          {formatFileSize(file.size_bytes)}
+                          {" · "}
+                          {format(new Date(file.created_at), "d MMM yyyy", { locale: ptBR })}
+                        </p>
+                      </div>
+                      <Download className="w-4 h-4 text-muted-foreground" />
+                    </a>
+                  ))
+                )}
+              </TabsContent>
+            </Tabs>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      <MediaViewer
+        media={media}
+        startIndex={viewerIndex ?? 0}
+        open={viewerIndex !== null}
+        onClose={() => setViewerIndex(null)}
+      />
+    </>
+  );
+};
@@ -0,0 +1,21 @@
+import { motion } from "framer-motion";
+
+interface SystemMessageProps {
+  text: string;
+}
+
+export const SystemMessage = ({ text }: SystemMessageProps) => {
+  if (!text) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="flex justify-center py-1"
+    >
+      <span className="max-w-[85%] text-center text-xs text-muted-foreground bg-muted/50 rounded-full px-3 py-1">
+        {text}
+      </span>
+    </motion.div>
+  );
+};
@@ -0,0 +1,108 @@
+import { Search, Loader2, Lock, BadgeCheck, Check, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useUserSearch } from "@/hooks/messages";
+import { cn } from "@/lib/utils";
+import type { SearchableUser } from "@/types/messages";
+
+interface UserMultiSelectProps {
+  selected: SearchableUser[];
+  onToggle: (user: SearchableUser) => void;
+  excludeIds?: string[];
+}
+
+export const UserMultiSelect = ({ selected, onToggle, excludeIds = [] }: UserMultiSelectProps) => {
+  const { query, setQuery, results, isSearching } = useUserSearch();
+
+  const visibleResults = results.filter((u) => !excludeIds.includes(u.id));
+  const isSelected = (id: string) => selected.some((u) => u.id === id);
+
+  return (
+    <div className="flex flex-col gap-3 min-h-0">
+      {/* Selected chips */}
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selected.map((u) => (
+            <button
+              key={u.id}
+              onClick={() => onToggle(u)}
+              className="flex items-center gap-1.5 pl-1 pr-2 py-1 rounded-full bg-primary/15 text-primary text-sm"
+            >
+              <Avatar className="w-6 h-6">
+                <AvatarImage src={u.avatar_url || undefined} className="object-cover" />
+                <AvatarFallback className="text-[10px]">
+                  {(u.display_name || u.username || "U")[0].toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              {u.display_name || u.username}
+              <X className="w-3.5 h-3.5" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Buscar usuários..."
+          className="pl-10 bg-muted/50 border-0 rounded-xl h-12"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-1 -mx-2 px-2">
+        {isSearching ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : query && visibleResults.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-8">
+            Nenhum usuário encontrado
+          </p>
+        ) : (
+          visibleResults.map((u) => (
+            <button
+              key={u.id}
+              onClick={() => u.can_message && onToggle(u)}
+              disabled={!u.can_message}
+              className={cn(
+                "w-full flex items-center gap-3 p-3 rounded-2xl transition-all",
+                u.can_message ? "hover:bg-muted/50 active:bg-muted" : "opacity-50 cursor-not-allowed"
+              )}
+            >
+              <Avatar className="w-12 h-12">
+                <AvatarImage src={u.avatar_url || undefined} className="object-cover" />
+                <AvatarFallback className="bg-secondary font-semibold">
+                  {(u.display_name || u.username || "U")[0].toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1 text-left">
+                <p className="font-semibold flex items-center gap-1.5">
+                  {u.display_name || u.username || "Usuário"}
+                  {u.is_verified && <BadgeCheck className="w-4 h-4 text-primary" />}
+                </p>
+                <p className="text-sm text-muted-foreground">@{u.username || "usuario"}</p>
+              </div>
+              {!u.can_message ? (
+                <div className="flex items-center gap-1.5 text-muted-foreground">
+                  <Lock className="w-4 h-4" />
+                  <span className="text-xs">Bloqueado</span>
+                </div>
+              ) : (
+                <div
+                  className={cn(
+                    "w-6 h-6 rounded-full border-2 flex items-center justify-center",
+                    isSelected(u.id) ? "bg-primary border-primary" : "border-muted-foreground/40"
+                  )}
+                >
+                  {isSelected(u.id) && <Check className="w-4 h-4 text-primary-foreground" />}
+                </div>
+              )}
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -7,6 +7,9 @@ import { Input } from "@/components/ui/input";
 import { useAuth } from "@/hooks/useAuth";
 import { useComments } from "@/hooks/useComments";
 import { supabase } from "@/integrations/supabase/client";
+import { MentionText } from "@/components/mentions/MentionText";
+import { toMentionRefs } from "@/lib/mentions";
+import { Json } from "@/integrations/supabase/types";
 import { cn } from "@/lib/utils";
 import { useNavigate } from "react-router-dom";
 import { formatDistanceToNow } from "date-fns";
@@ -18,6 +21,7 @@ interface PostModalProps {
     content_url: string | null;
     content_type: string;
     description: string | null;
+    mentions?: Json;
     likes_count: number;
     comments_count: number;
     created_at: string;
@@ -37,7 +41,7 @@ interface PostModalProps {
 export const PostModal = ({ post, isOpen, onClose }: PostModalProps) => {
   const navigate = useNavigate();
   const { user } = useAuth();
-  const { comments, isLoading: commentsLoading, addComment } = useComments(post.id);
+  const { comments, isLoading: commentsLoading, addComment, commentsDisabled } = useComments(post.id);
   const [isLiked, setIsLiked] = useState(false);
   const [isSaved, setIsSaved] = useState(false);
   const [likesCount, setLikesCount] = useState(post.likes_count || 0);
@@ -222,7 +226,7 @@ export const PostModal = ({ post, isOpen, onClose }: PostModalProps) => {
                         <span className="font-semibold mr-1">
                           {post.creator.username}
                         </span>
-                        {post.description}
+                        <MentionText text={post.description} mentions={toMentionRefs(post.mentions)} />
                       </p>
                     </div>
                   </div>
@@ -251,7 +255,7 @@ export const PostModal = ({ post, isOpen, onClose }: PostModalProps) => {
                           <span className="font-semibold mr-1">
                             {comment.user?.username}
                           </span>
-                          {comment.content}
+                          <MentionText text={comment.content} mentions={toMentionRefs(comment.mentions)} />
                         </p>
                         <p className="text-xs text-muted-foreground mt-1">
                           {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true, locale: ptBR })}
@@ -284,24 +288,28 @@ export const PostModal = ({ post, isOpen, onClose }: PostModalProps) => {
                 <p className="font-semibold text-sm">{likesCount} curtidas</p>
 
                 {/* Comment input */}
-                <div className="flex items-center gap-2">
-                  <Input
-                    value={commentText}
-                    onChange={(e) => setCommentText(e.target.value)}
-                    placeholder="Adicione um comentário..."
-                    className="flex-1 border-0 bg-transparent focus-visible:ring-0 px-0"
-                    onKeyPress={(e) => e.key === "Enter" && handleSubmitComment()}
-                  />
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={handleSubmitComment}
-                    disabled={!commentText.trim() || isSubmitting}
-                    className="text-primary font-semibold"
-                  >
-                    {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : "Publicar"}
-                  </Button>
-                </div>
+                {commentsDisabled ? (
+                  <p className="text-sm text-muted-foreground">Os comentários foram desativados</p>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={commentText}
+                      onChange={(e) => setCommentText(e.target.value)}
+                      placeholder="Adicione um comentário..."
+                      className="flex-1 border-0 bg-transparent focus-visible:ring-0 px-0"
+                      onKeyPress={(e) => e.key === "Enter" && handleSubmitComment()}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleSubmitComment}
+                      disabled={!commentText.trim() || isSubmitting}
+                      className="text-primary font-semibold"
+                    >
+                      {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : "Publicar"}
+                    </Button>
+                  </div>
+                )}
               </div>
             </div>
           </motion.div>
@@ -71,7 +71,7 @@ export const FollowersSheet = ({
   };
 
   const UserItem = ({ userItem }: { userItem: typeof followers[0] }) => {
-    const { isFollowing, toggleFollow, isLoading } = useFollow(userItem.id);
+    const { isFollowing, isRequested, toggleFollow, isLoading } = useFollow(userItem.id);
     const isOwnProfile = user?.id === userItem.id;
 
     return (
@@ -109,7 +109,7 @@ export const FollowersSheet = ({
 
         {!isOwnProfile && (
           <Button
-            variant={isFollowing ? "outline" : "default"}
+            variant={isFollowing || isRequested ? "outline" : "default"}
             size="sm"
             onClick={toggleFollow}
             disabled={isLoading}
@@ -118,6 +118,8 @@ export const FollowersSheet = ({
               <Loader2 className="w-4 h-4 animate-spin" />
             ) : isFollowing ? (
               "Seguindo"
+            ) : isRequested ? (
+              "Solicitado"
             ) : (
               "Seguir"
             )}
@@ -0,0 +1,19 @@
+import { Lock } from "lucide-react";
+
+interface PrivateAccountNoticeProps {
+  isRequested?: boolean;
+}
+
+export const PrivateAccountNotice = ({ isRequested }: PrivateAccountNoticeProps) => (
+  <div className="flex flex-col items-center justify-center py-12 text-center px-4 border-t border-border">
+    <div className="w-16 h-16 rounded-full border-2 border-foreground/80 flex items-center justify-center mb-4">
+      <Lock className="w-7 h-7" />
+    </div>
+    <p className="font-semibold text-foreground">Esta conta é privada</p>
+    <p className="text-sm text-muted-foreground mt-1">
+      {isRequested
+        ? "Sua solicitação foi enviada. Você verá as publicações quando ela for aceita."
+        : "Siga esta conta para ver as fotos e vídeos."}
+    </p>
+  </div>
+);
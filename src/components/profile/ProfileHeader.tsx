@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { BadgeCheck, Settings, Share2, Grid3X3, Bookmark, Heart, Camera, LogOut, MessageCircle } from "lucide-react";
+import { BadgeCheck, Settings, Share2, Grid3X3, Bookmark, Heart, Camera, LogOut, MessageCircle, Lock } from "lucide-react";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
@@ -20,6 +20,7 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { FollowersSheet } from "@/components/profile/FollowersSheet";
+import { PrivateAccountNotice } from "@/components/profile/PrivateAccountNotice";
 
 interface ProfileHeaderProps {
   userId?: string;
@@ -32,6 +33,7 @@ interface ProfileHeaderProps {
   followingCount: number;
   postsCount: number;
   isVerified?: boolean;
+  isPrivate?: boolean;
   verificationBadge?: "none" | "blue" | "gold" | "staff";
   isOwnProfile?: boolean;
   walletBalance?: number;
@@ -49,6 +51,7 @@ export const ProfileHeader = ({
   followingCount,
   postsCount,
   isVerified,
+  isPrivate = false,
   verificationBadge = "blue",
   isOwnProfile = true,
   walletBalance = 0,
@@ -56,7 +59,7 @@ export const ProfileHeader = ({
 }: ProfileHeaderProps) => {
   const navigate = useNavigate();
   const { user, profile: currentProfile, refreshProfile } = useAuth();
-  const { isFollowing, toggleFollow, isLoading: followLoading, followersCount: liveFollowers } = useFollow(userId);
+  const { isFollowing, isRequested, toggleFollow, isLoading: followLoading, followersCount: liveFollowers } = useFollow(userId);
   const { createConversation } = useMessages();
   const { canSendMessage } = useUserSettings();
   
@@ -73,6 +76,8 @@ export const ProfileHeader = ({
   const [isSendingMessage, setIsSendingMessage] = useState(false);
 
   const actualFollowers = isOwnProfile ? followersCount : (liveFollowers || followersCount);
+  // Private accounts keep their grid and follower lists to accepted followers
+  const isLocked = !isOwnProfile && isPrivate && !isFollowing;
 
   const formatNumber = (num: number) => {
     if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
@@ -98,7 +103,13 @@ export const ProfileHeader = ({
 
   const handleFollow = async () => {
     await toggleFollow();
-    toast.success(isFollowing ? "Deixou de seguir" : "Seguindo!");
+    if (isRequested) {
+      toast.success("Solicitação cancelada");
+    } else if (isFollowing) {
+      toast.success("Deixou de seguir");
+    } else {
+      toast.success(isPrivate ? "Solicitação enviada" : "Seguindo!");
+    }
   };
 
   const handleMessage = async () => {
@@ -291,6 +302,7 @@ export const ProfileHeader = ({
             <div className="flex-1 pb-2">
               <div className="flex items-center gap-2">
                 <h1 className="text-xl font-bold font-display">{displayName}</h1>
+                {isPrivate && <Lock className="w-4 h-4 text-muted-foreground" />}
               </div>
               <p className="text-muted-foreground">@{username}</p>
             </div>
@@ -302,10 +314,18 @@ export const ProfileHeader = ({
           {/* Stats - Clickable */}
           <div className="flex gap-6 mt-4">
             <StatItem label="Posts" value={formatNumber(postsCount)} />
-            <button onClick={() => openFollowersSheet("followers")} className="tap-highlight-none">
+            <button
+              onClick={() => openFollowersSheet("followers")}
+              disabled={isLocked}
+              className="tap-highlight-none"
+            >
               <StatItem label="Seguidores" value={formatNumber(actualFollowers)} />
             </button>
-            <button onClick={() => openFollowersSheet("following")} className="tap-highlight-none">
+            <button
+              onClick={() => openFollowersSheet("following")}
+              disabled={isLocked}
+              className="tap-highlight-none"
+            >
               <StatItem label="Seguindo" value={formatNumber(followingCount)} />
             </button>
           </div>
@@ -324,12 +344,12 @@ export const ProfileHeader = ({
             ) : (
               <>
                 <Button 
-                  variant={isFollowing ? "outline" : "gradient"} 
+                  variant={isFollowing || isRequested ? "outline" : "gradient"} 
                   className="flex-1"
                   onClick={handleFollow}
                   disabled={followLoading}
                 >
-                  {isFollowing ? "Seguindo" : "Seguir"}
+                  {isFollowing ? "Seguindo" : isRequested ? "Solicitado" : "Seguir"}
                 </Button>
                 <Button 
                   variant="outline" 
@@ -344,27 +364,33 @@ export const ProfileHeader = ({
           </div>
 
           {/* Tabs */}
-          <div className="flex mt-6 border-b border-border">
-            {tabs.map((tab) => (
-              <button
-                key={tab.id}
-                onClick={() => handleTabClick(tab.id)}
-                className={cn(
-                  "flex-1 flex items-center justify-center gap-2 py-3 relative transition-colors tap-highlight-none",
-                  activeTab === tab.id ? "text-primary" : "text-muted-foreground"
-                )}
-              >
-                <tab.icon className="w-5 h-5" />
-                <span className="text-sm font-medium">{tab.label}</span>
-                {activeTab === tab.id && (
-                  <motion.div
-                    layoutId="profile-tab-indicator"
-                    className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary"
-                  />
-                )}
-              </button>
-            ))}
-          </div>
+          {isLocked ? (
+            <div className="mt-6">
+              <PrivateAccountNotice isRequested={isRequested} />
+            </div>
+          ) : (
+            <div className="flex mt-6 border-b border-border">
+              {tabs.map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => handleTabClick(tab.id)}
+                  className={cn(
+                    "flex-1 flex items-center justify-center gap-2 py-3 relative transition-colors tap-highlight-none",
+                    activeTab === tab.id ? "text-primary" : "text-muted-foreground"
+                  )}
+                >
+                  <tab.icon className="w-5 h-5" />
+                  <span className="text-sm font-medium">{tab.label}</span>
+                  {activeTab === tab.id && (
+                    <motion.div
+                      layoutId="profile-tab-indicator"
+                      className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary"
+                    />
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,47 @@
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { REPORT_REASONS } from "@/hooks/useReports";
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (reason: string) => void;
+}
+
+export const ReportDialog = ({ open, onOpenChange, onSubmit }: ReportDialogProps) => {
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="rounded-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Por que você está denunciando?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Selecione o motivo da denúncia
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2 py-4">
+          {REPORT_REASONS.map((reason) => (
+            <button
+              key={reason}
+              onClick={() => onSubmit(reason)}
+              className="w-full p-3 text-left rounded-xl hover:bg-muted/50 active:bg-muted transition-colors"
+            >
+              {reason}
+            </button>
+          ))}
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel className="w-full rounded-xl">
+            Cancelar
+          </AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -0,0 +1,64 @@
+import { Loader2 } from "lucide-react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { useBlocks } from "@/hooks/useBlocks";
+
+interface BlockedAccountsSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const BlockedAccountsSheet = ({ open, onOpenChange }: BlockedAccountsSheetProps) => {
+  const { blockedUsers, isLoading, unblockUser } = useBlocks(open);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-3xl h-[80vh]">
+        <SheetHeader className="pb-4">
+          <SheetTitle>Contas bloqueadas</SheetTitle>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-40">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : blockedUsers.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-40 text-center">
+            <p className="text-muted-foreground mb-2">Nenhuma conta bloqueada</p>
+            <p className="text-sm text-muted-foreground">
+              Quem você bloqueia não vê seu perfil nem suas publicações e não pode te enviar mensagens
+            </p>
+          </div>
+        ) : (
+          <ScrollArea className="h-[calc(80vh-100px)]">
+            <div className="space-y-2 pb-8">
+              {blockedUsers.map((blocked) => (
+                <div key={blocked.id} className="flex items-center gap-3 p-3 rounded-xl bg-muted/50">
+                  <Avatar className="w-10 h-10">
+                    <AvatarImage src={blocked.avatar_url || ""} />
+                    <AvatarFallback>{blocked.display_name?.[0] || "?"}</AvatarFallback>
+                  </Avatar>
+
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{blocked.display_name || "Usuário"}</p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      @{blocked.username || "usuario"}
+                    </p>
+                  </div>
+
+                  <button
+                    onClick={() => unblockUser(blocked.id)}
+                    className="px-3 py-1.5 rounded-full text-sm bg-primary/10 text-primary hover:bg-primary/20 transition-colors"
+                  >
+                    Desbloquear
+                  </button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
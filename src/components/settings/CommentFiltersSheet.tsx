@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { Loader2, Plus, X } from "lucide-react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useCommentFilters } from "@/hooks/useCommentFilters";
+
+interface CommentFiltersSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const CommentFiltersSheet = ({ open, onOpenChange }: CommentFiltersSheetProps) => {
+  const { filters, isLoading, addFilter, removeFilter } = useCommentFilters(open);
+  const [keyword, setKeyword] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!keyword.trim() || isAdding) return;
+
+    setIsAdding(true);
+    const success = await addFilter(keyword);
+    if (success) setKeyword("");
+    setIsAdding(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-3xl h-[80vh]">
+        <SheetHeader className="pb-2">
+          <SheetTitle>Filtro de comentários</SheetTitle>
+        </SheetHeader>
+
+        <p className="text-sm text-muted-foreground pb-4">
+          Comentários nas suas publicações que contêm estas palavras ficam ocultos para os outros.
+          Você ainda pode vê-los e mostrá-los.
+        </p>
+
+        <form onSubmit={handleSubmit} className="flex items-center gap-2 pb-4">
+          <Input
+            value={keyword}
+            onChange={(e) => setKeyword(e.target.value)}
+            placeholder="Adicionar palavra ou frase..."
+            maxLength={100}
+          />
+          <Button type="submit" size="icon" disabled={!keyword.trim() || isAdding}>
+            {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-40">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : filters.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-40 text-center">
+            <p className="text-muted-foreground">Nenhuma palavra filtrada</p>
+          </div>
+        ) : (
+          <ScrollArea className="h-[calc(80vh-220px)]">
+            <div className="flex flex-wrap gap-2 pb-8">
+              {filters.map((filter) => (
+                <span
+                  key={filter.id}
+                  className="flex items-center gap-1 pl-3 pr-1.5 py-1.5 rounded-full text-sm bg-muted"
+                >
+                  {filter.keyword}
+                  <button
+                    onClick={() => removeFilter(filter.id)}
+                    className="p-0.5 rounded-full text-muted-foreground hover:text-foreground hover:bg-background/50"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
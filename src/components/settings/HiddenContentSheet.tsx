@@ -0,0 +1,103 @@
+import { Loader2, Hash, EyeOff, Undo2 } from "lucide-react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { useFeedFeedback, FeedFeedbackEntry } from "@/hooks/useFeedFeedback";
+
+interface HiddenContentSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const HiddenContentSheet = ({ open, onOpenChange }: HiddenContentSheetProps) => {
+  const { entries, isLoading, removeFeedback } = useFeedFeedback(open);
+
+  const creators = entries.filter((e) => e.feedback_type === "creator");
+  const tags = entries.filter((e) => e.feedback_type === "tag");
+  const posts = entries.filter((e) => e.feedback_type === "post");
+
+  const renderSection = (title: string, items: FeedFeedbackEntry[]) =>
+    items.length > 0 && (
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-muted-foreground px-1">{title}</p>
+        {items.map((entry) => (
+          <div key={entry.id} className="flex items-center gap-3 p-3 rounded-xl bg-muted/50">
+            {entry.feedback_type === "creator" ? (
+              <Avatar className="w-10 h-10">
+                <AvatarImage src={entry.creator?.avatar_url || ""} />
+                <AvatarFallback>{entry.creator?.display_name?.[0] || "?"}</AvatarFallback>
+              </Avatar>
+            ) : entry.feedback_type === "tag" ? (
+              <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center">
+                <Hash className="w-5 h-5 text-muted-foreground" />
+              </div>
+            ) : entry.post?.content_url ? (
+              <img
+                src={entry.post.content_url}
+                alt=""
+                className="w-10 h-10 rounded-lg object-cover"
+              />
+            ) : (
+              <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center">
+                <EyeOff className="w-5 h-5 text-muted-foreground" />
+              </div>
+            )}
+
+            <div className="flex-1 min-w-0">
+              <p className="font-medium truncate">
+                {entry.feedback_type === "creator"
+                  ? entry.creator?.display_name || "Usuário"
+                  : entry.feedback_type === "tag"
+                  ? `#${entry.tag}`
+                  : entry.post?.description || "Post"}
+              </p>
+              {entry.feedback_type === "creator" && (
+                <p className="text-sm text-muted-foreground truncate">
+                  @{entry.creator?.username || "usuario"}
+                </p>
+              )}
+            </div>
+
+            <button
+              onClick={() => removeFeedback(entry.id)}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-full text-sm bg-primary/10 text-primary hover:bg-primary/20 transition-colors"
+            >
+              <Undo2 className="w-4 h-4" />
+              Desfazer
+            </button>
+          </div>
+        ))}
+      </div>
+    );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-3xl h-[80vh]">
+        <SheetHeader className="pb-4">
+          <SheetTitle>Conteúdo oculto</SheetTitle>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-40">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-40 text-center">
+            <p className="text-muted-foreground mb-2">Nada oculto por enquanto</p>
+            <p className="text-sm text-muted-foreground">
+              Use "Não tenho interesse" nos posts para ajustar seu feed
+            </p>
+          </div>
+        ) : (
+          <ScrollArea className="h-[calc(80vh-100px)]">
+            <div className="space-y-6 pb-8">
+              {renderSection("Criadores", creators)}
+              {renderSection("Tags", tags)}
+              {renderSection("Posts", posts)}
+            </div>
+          </ScrollArea>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,119 @@
+import { AtSign, Heart, Loader2, MessageCircle, Moon, Send, UserPlus } from "lucide-react";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import {
+  useNotificationPreferences,
+  type NotificationPreferenceCategory,
+} from "@/hooks/useNotificationPreferences";
+
+interface NotificationPreferencesSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CATEGORIES: { key: NotificationPreferenceCategory; label: string; icon: React.ReactNode }[] = [
+  { key: "likes", label: "Curtidas", icon: <Heart className="w-5 h-5" /> },
+  { key: "comments", label: "Comentários e respostas", icon: <MessageCircle className="w-5 h-5" /> },
+  { key: "follows", label: "Novos seguidores", icon: <UserPlus className="w-5 h-5" /> },
+  { key: "mentions", label: "Menções", icon: <AtSign className="w-5 h-5" /> },
+  { key: "messages", label: "Mensagens", icon: <Send className="w-5 h-5" /> },
+];
+
+export const NotificationPreferencesSheet = ({ open, onOpenChange }: NotificationPreferencesSheetProps) => {
+  const { preferences, isLoading, updatePreferences } = useNotificationPreferences(open);
+
+  const quietHoursEnabled = !!preferences.quiet_hours_start && !!preferences.quiet_hours_end;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-3xl h-[80vh]">
+        <SheetHeader className="pb-4">
+          <SheetTitle>Notificações</SheetTitle>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-40">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <ScrollArea className="h-[calc(80vh-100px)]">
+            <div className="space-y-4 pb-8">
+              <div className="bg-muted/50 rounded-2xl overflow-hidden">
+                {CATEGORIES.map(({ key, label, icon }, index) => {
+                  const enabled = preferences[`${key}_enabled`];
+                  const followersOnly = preferences[`${key}_followers_only`];
+
+                  return (
+                    <div
+                      key={key}
+                      className={index < CATEGORIES.length - 1 ? "border-b border-border" : ""}
+                    >
+                      <div className="flex items-center gap-3 px-4 py-3.5">
+                        <span className="text-muted-foreground">{icon}</span>
+                        <span className="flex-1">{label}</span>
+                        <Switch
+                          checked={enabled}
+                          onCheckedChange={(value) => updatePreferences({ [`${key}_enabled`]: value })}
+                        />
+                      </div>
+                      {enabled && (
+                        <div className="flex items-center gap-3 pl-12 pr-4 pb-3.5 -mt-1">
+                          <span className="flex-1 text-sm text-muted-foreground">
+                            Apenas de quem eu sigo
+                          </span>
+                          <Switch
+                            checked={followersOnly}
+                            onCheckedChange={(value) => updatePreferences({ [`${key}_followers_only`]: value })}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="bg-muted/50 rounded-2xl overflow-hidden">
+                <div className="flex items-center gap-3 px-4 py-3.5">
+                  <span className="text-muted-foreground"><Moon className="w-5 h-5" /></span>
+                  <span className="flex-1">Horário silencioso</span>
+                  <Switch
+                    checked={quietHoursEnabled}
+                    onCheckedChange={(value) =>
+                      updatePreferences(
+                        value
+                          ? { quiet_hours_start: "22:00", quiet_hours_end: "07:00" }
+                          : { quiet_hours_start: null, quiet_hours_end: null }
+                      )
+                    }
+                  />
+                </div>
+                {quietHoursEnabled && (
+                  <div className="flex items-center gap-3 pl-12 pr-4 pb-3.5">
+                    <Input
+                      type="time"
+                      value={preferences.quiet_hours_start?.slice(0, 5) || ""}
+                      onChange={(e) => e.target.value && updatePreferences({ quiet_hours_start: e.target.value })}
+                    />
+                    <span className="text-sm text-muted-foreground">até</span>
+                    <Input
+                      type="time"
+                      value={preferences.quiet_hours_end?.slice(0, 5) || ""}
+                      onChange={(e) => e.target.value && updatePreferences({ quiet_hours_end: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <p className="text-sm text-muted-foreground px-1">
+                Notificações desativadas não são criadas. No horário silencioso elas chegam sem aviso,
+                mas continuam como não lidas. Pedidos para seguir você sempre aparecem.
+              </p>
+            </div>
+          </ScrollArea>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
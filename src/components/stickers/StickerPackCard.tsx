@@ -1,5 +1,5 @@
 import { motion } from "framer-motion";
-import { Package, Star, Crown, Check, Loader2 } from "lucide-react";
+import { Package, Star, Crown, Check, Loader2, Flag } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 
@@ -24,6 +24,7 @@ interface StickerPackCardProps {
   index: number;
   onPurchase: (packId: string) => void;
   isPurchasing: boolean;
+  onReport?: (packId: string) => void;
 }
 
 export const StickerPackCard = ({
@@ -31,6 +32,7 @@ export const StickerPackCard = ({
   index,
   onPurchase,
   isPurchasing,
+  onReport,
 }: StickerPackCardProps) => {
   const isFree = pack.price === 0;
   const isPopular = pack.sales_count >= 10;
@@ -106,7 +108,18 @@ export const StickerPackCard = ({
 
       {/* Info */}
       <div className="p-3">
-        <h3 className="font-semibold text-sm truncate">{pack.name}</h3>
+        <div className="flex items-center gap-1">
+          <h3 className="flex-1 font-semibold text-sm truncate">{pack.name}</h3>
+          {onReport && (
+            <button
+              onClick={() => onReport(pack.id)}
+              className="p-1 -mr-1 rounded-full text-muted-foreground hover:text-destructive"
+              aria-label="Denunciar pack"
+            >
+              <Flag className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
         
         {pack.creator && (
           <p className="text-xs text-muted-foreground truncate mt-0.5">
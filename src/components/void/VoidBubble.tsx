@@ -1,4 +1,5 @@
 import { motion } from "framer-motion";
+import { Flag } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 interface VoidBubbleProps {
@@ -9,6 +10,7 @@ interface VoidBubbleProps {
   expiresIn: string;
   type: "text" | "image" | "video";
   index: number;
+  onReport?: () => void;
 }
 
 export const VoidBubble = ({
@@ -18,6 +20,7 @@ export const VoidBubble = ({
   expiresIn,
   type,
   index,
+  onReport,
 }: VoidBubbleProps) => {
   return (
     <motion.div
@@ -80,6 +83,19 @@ export const VoidBubble = ({
         </>
       )}
       
+      {onReport && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onReport();
+          }}
+          className="absolute top-2 right-2 z-10 p-1.5 rounded-full glass text-muted-foreground hover:text-destructive"
+          aria-label="Denunciar"
+        >
+          <Flag className="w-3.5 h-3.5" />
+        </button>
+      )}
+
       {/* Glow Effect */}
       <div className="absolute inset-0 pointer-events-none opacity-30 bg-gradient-radial from-primary/20 via-transparent to-transparent" />
     </motion.div>
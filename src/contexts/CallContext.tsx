@@ -1,13 +1,13 @@
 import { createContext, useContext, ReactNode } from "react";
 import { useWebRTC } from "@/hooks/useWebRTC";
-import { ActiveCall, IncomingCall, CallMessage, CallType } from "@/types/calls";
+import { ActiveCall, IncomingCall, CallMessage, CallType, RecordingConsentRequest } from "@/types/calls";
 
 interface CallContextType {
   activeCall: ActiveCall | null;
   incomingCall: IncomingCall | null;
   callMessages: CallMessage[];
   isConnecting: boolean;
-  startCall: (conversationId: string, calleeId: string, callType: CallType) => Promise<void>;
+  startCall: (conversationId: string, callType: CallType) => Promise<void>;
   answerCall: () => Promise<void>;
   declineCall: () => Promise<void>;
   endCall: () => Promise<void>;
@@ -15,6 +15,8 @@ interface CallContextType {
   toggleVideo: () => void;
   toggleScreenShare: () => Promise<void>;
   toggleRecording?: () => Promise<void>;
+  recordingRequest: RecordingConsentRequest | null;
+  respondToRecording: (accepted: boolean) => Promise<void>;
   sendCallMessage: (content: string) => Promise<void>;
   switchCamera?: (deviceId: string) => Promise<void>;
   switchAudioDevice?: (deviceId: string) => Promise<void>;
@@ -4,3 +4,10 @@ export { useConversationActions } from "./useConversationActions";
 export { useConversationMessages } from "./useConversationMessages";
 export { useOtherParticipant } from "./useOtherParticipant";
 export { useUserSearch } from "./useUserSearch";
+export { useConversationDetails } from "./useConversationDetails";
+export { useGroupActions } from "./useGroupActions";
+export { useAttachmentUrls } from "./useAttachmentUrls";
+export { useSharedMedia } from "./useSharedMedia";
+export { useMessageSearch } from "./useMessageSearch";
+export { useReadReceipts } from "./useReadReceipts";
+export { useScheduledMessages } from "./useScheduledMessages";
@@ -0,0 +1,23 @@
+import { useEffect, useState } from "react";
+import { getSignedAttachmentUrls } from "@/lib/messageAttachments";
+
+// Resolves storage paths from the private attachments bucket to signed URLs
+export const useAttachmentUrls = (paths: (string | null | undefined)[]) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const key = paths.filter(Boolean).sort().join("|");
+
+  useEffect(() => {
+    if (!key) return;
+
+    let cancelled = false;
+    getSignedAttachmentUrls(key.split("|")).then((signed) => {
+      if (!cancelled) setUrls((prev) => ({ ...prev, ...signed }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return urls;
+};
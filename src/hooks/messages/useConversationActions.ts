@@ -1,7 +1,8 @@
 import { useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
-import type { CreateConversationResult } from "@/types/messages";
+import { MAX_PINNED_CONVERSATIONS } from "@/types/messages";
+import type { CreateConversationResult, MessageActionResult } from "@/types/messages";
 
 export const useConversationActions = () => {
   const { user } = useAuth();
@@ -24,6 +25,9 @@ export const useConversationActions = () => {
 
         if (error) {
           console.error("Error creating conversation:", error);
+          if (error.message?.includes("does not accept messages")) {
+            return { success: false, error: "Este usuário não aceita mensagens suas" };
+          }
           return { success: false, error: "Erro ao criar conversa" };
         }
 
@@ -64,8 +68,238 @@ export const useConversationActions = () => {
     [user]
   );
 
+  // Turn disappearing messages on (one of DISAPPEARING_TIMERS) or off (null)
+  const setDisappearingMessages = useCallback(
+    async (conversationId: string, seconds: number | null): Promise<MessageActionResult> => {
+      if (!user) {
+        return { success: false, error: "Usuário não autenticado" };
+      }
+
+      try {
+        const { error } = await supabase.rpc("set_disappearing_messages", {
+          p_conversation_id: conversationId,
+          p_seconds: seconds,
+        });
+
+        if (error) {
+          console.error("Error setting disappearing messages:", error);
+          if (error.message?.includes("Only group admins")) {
+            return { success: false, error: "Apenas admins podem fazer isso" };
+          }
+          return { success: false, error: "Erro ao alterar mensagens temporárias" };
+        }
+
+        return { success: true };
+      } catch (err) {
+        console.error("Error in setDisappearingMessages:", err);
+        return { success: false, error: "Erro inesperado ao alterar mensagens temporárias" };
+      }
+    },
+    [user]
+  );
+
+  // Per-user conversation state; each call only touches the caller's participation
+  const setPinned = useCallback(
+    async (conversationId: string, pinned: boolean): Promise<MessageActionResult> => {
+      if (!user) {
+        return { success: false, error: "Usuário não autenticado" };
+      }
+
+      try {
+        const { error } = await supabase.rpc("set_conversation_pinned", {
+          p_conversation_id: conversationId,
+          p_pinned: pinned,
+        });
+
+        if (error) {
+          console.error("Error pinning conversation:", error);
+          if (error.message?.includes("limited to")) {
+            return {
+              success: false,
+              error: `Você pode fixar até ${MAX_PINNED_CONVERSATIONS} conversas`,
+            };
+          }
+          return { success: false, error: "Erro ao fixar conversa" };
+        }
+
+        return { success: true };
+      } catch (err) {
+        console.error("Error in setPinned:", err);
+        return { success: false, error: "Erro inesperado ao fixar conversa" };
+      }
+    },
+    [user]
+  );
+
+  const setArchived = useCallback(
+    async (conversationId: string, archived: boolean): Promise<MessageActionResult> => {
+      if (!user) {
+        return { success: false, error: "Usuário não autenticado" };
+      }
+
+      try {
+        const { error } = await supabase.rpc("set_conversation_archived", {
+          p_conversation_id: conversationId,
+          p_archived: archived,
+        });
+
+        if (error) {
+          console.error("Error archiving conversation:", error);
+          return { success: false, error: "Erro ao arquivar conversa" };
+        }
+
+        return { success: true };
+      } catch (err) {
+        console.error("Error in setArchived:", err);
+        return { success: false, error: "Erro inesperado ao arquivar conversa" };
+      }
+    },
+    [user]
+  );
+
+  // mutedUntil comes from getMutedUntil; null turns notifications back on
+  const setMuted = useCallback(
+    async (conversationId: string, mutedUntil: string | null): Promise<MessageActionResult> => {
+      if (!user) {
+        return { success: false, error: "Usuário não autenticado" };
+      }
+
+      try {
+        const { error } = await supabase.rpc("set_conversation_muted", {
+          p_conversation_id: conversationId,
+          p_muted_until: mutedUntil,
+        });
+
+        if (error) {
+          console.error("Error muting conversation:", error);
+          return { success: false, error: "Erro ao silenciar conversa" };
+        }
+
+        return { success: true };
+      } catch (err) {
+        console.error("Error in setMuted:", err);
+        return { success: false, error: "Erro inesperado ao silenciar conversa" };
+      }
+    },
+    [user]
+  );
+
+  const setMarkedUnread = useCallback(
+    async (conversationId: string, unread: boolean): Promise<MessageActionResult> => {
+      if (!user) {
+        return { success: false, error: "Usuário não autenticado" };
+      }
+
+      try {
+        const { error } = await supabase.rpc("set_conversation_marked_unread", {
+          p_conversation_id: conversationId,
+          p_unread: unread,
+        });
+
+        if (error) {
+          console.error("Error marking conversation unread:", error);
+          return { success: false, error: "Erro ao marcar conversa" };
+        }
+
+        return { success: true };
+      } catch (err) {
+        console.error("Error in setMarkedUnread:", err);
+        return { success: false, error: "Erro inesperado ao marcar conversa" };
+      }
+    },
+    [user]
+  );
+
+  // "Marcar como lida" from the list, where the messages aren't loaded
+  const markConversationRead = useCallback(
+    async (conversationId: string, lastMessageId: string): Promise<MessageActionResult> => {
+      if (!user) {
+        return { success: false, error: "Usuário não autenticado" };
+      }
+
+      try {
+        const { error } = await supabase.rpc("mark_conversation_read", {
+          p_conversation_id: conversationId,
+          p_message_id: lastMessageId,
+        });
+
+        if (error) {
+          console.error("Error marking conversation read:", error);
+          return { success: false, error: "Erro ao marcar conversa" };
+        }
+
+        return { success: true };
+      } catch (err) {
+        console.error("Error in markConversationRead:", err);
+        return { success: false, error: "Erro inesperado ao marcar conversa" };
+      }
+    },
+    [user]
+  );
+
+  // Message requests: accepting moves the conversation to the inbox
+  const acceptMessageRequest = useCallback(
+    async (conversationId: string): Promise<MessageActionResult> => {
+      if (!user) {
+        return { success: false, error: "Usuário não autenticado" };
+      }
+
+      try {
+        const { error } = await supabase.rpc("accept_message_request", {
+          p_conversation_id: conversationId,
+        });
+
+        if (error) {
+          console.error("Error accepting message request:", error);
+          return { success: false, error: "Erro ao aceitar solicitação" };
+        }
+
+        return { success: true };
+      } catch (err) {
+        console.error("Error in acceptMessageRequest:", err);
+        return { success: false, error: "Erro inesperado ao aceitar solicitação" };
+      }
+    },
+    [user]
+  );
+
+  // Deleting leaves the conversation without telling the sender; block also blocks them
+  const declineMessageRequest = useCallback(
+    async (conversationId: string, block = false): Promise<MessageActionResult> => {
+      if (!user) {
+        return { success: false, error: "Usuário não autenticado" };
+      }
+
+      try {
+        const { error } = await supabase.rpc("decline_message_request", {
+          p_conversation_id: conversationId,
+          p_block: block,
+        });
+
+        if (error) {
+          console.error("Error declining message request:", error);
+          return { success: false, error: "Erro ao excluir solicitação" };
+        }
+
+        return { success: true };
+      } catch (err) {
+        console.error("Error in declineMessageRequest:", err);
+        return { success: false, error: "Erro inesperado ao excluir solicitação" };
+      }
+    },
+    [user]
+  );
+
   return {
     createConversation,
     checkCanMessage,
+    setDisappearingMessages,
+    setPinned,
+    setArchived,
+    setMuted,
+    setMarkedUnread,
+    markConversationRead,
+    acceptMessageRequest,
+    declineMessageRequest,
   };
 };
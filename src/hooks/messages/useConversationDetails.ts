@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { ConversationParticipant } from "@/types/messages";
+
+export interface ConversationDetails {
+  id: string;
+  isGroup: boolean;
+  title: string | null;
+  avatarUrl: string | null;
+  // Disappearing messages timer; null when off
+  disappearingSeconds: number | null;
+}
+
+export const useConversationDetails = (conversationId: string | null) => {
+  const { user } = useAuth();
+  const [details, setDetails] = useState<ConversationDetails | null>(null);
+  const [participants, setParticipants] = useState<ConversationParticipant[]>([]);
+  // The current user's mute and request state, from their own participation
+  const [mutedUntil, setMutedUntil] = useState<string | null>(null);
+  const [isPendingRequest, setIsPendingRequest] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchDetails = useCallback(async () => {
+    if (!user || !conversationId) {
+      setDetails(null);
+      setParticipants([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from("conversations")
+        .select(`
+          id,
+          is_group,
+          title,
+          avatar_url,
+          disappearing_seconds,
+          conversation_participants (
+            user_id,
+            role,
+            created_at,
+            muted_until,
+            is_request,
+            profiles:profiles!conversation_participants_user_id_fkey (
+              username,
+              display_name,
+              avatar_url,
+              is_verified,
+              verification_type
+            )
+          )
+        `)
+        .eq("id", conversationId)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching conversation details:", error);
+        return;
+      }
+
+      if (!data) {
+        // Conversation deleted or we are no longer a member
+        setDetails(null);
+        setParticipants([]);
+        return;
+      }
+
+      setDetails({
+        id: data.id,
+        isGroup: data.is_group,
+        title: data.title,
+        avatarUrl: data.avatar_url,
+        disappearingSeconds: data.disappearing_seconds,
+      });
+
+      const ownParticipation = data.conversation_participants?.find((p) => p.user_id === user.id);
+      setMutedUntil(ownParticipation?.muted_until ?? null);
+      setIsPendingRequest(ownParticipation?.is_request ?? false);
+
+      const sorted = [...(data.conversation_participants || [])].sort(
+        (a, b) => new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime()
+      );
+
+      setParticipants(
+        sorted.map((p) => ({
+          id: p.user_id,
+          username: p.profiles?.username ?? null,
+          display_name: p.profiles?.display_name ?? null,
+          avatar_url: p.profiles?.avatar_url ?? null,
+          is_verified: p.profiles?.is_verified ?? false,
+          verification_type: p.profiles?.verification_type ?? null,
+          role: p.role as ConversationParticipant["role"],
+        }))
+      );
+    } catch (err) {
+      console.error("Error in fetchDetails:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [conversationId, user]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchDetails();
+  }, [fetchDetails]);
+
+  const members = participants.filter((p) => p.id !== user?.id);
+  const currentParticipant = participants.find((p) => p.id === user?.id);
+
+  return {
+    details,
+    participants,
+    members,
+    otherUser: details && !details.isGroup ? members[0] ?? null : null,
+    isGroup: details?.isGroup ?? false,
+    isAdmin: currentParticipant?.role === "admin",
+    isMember: !!currentParticipant,
+    mutedUntil,
+    isPendingRequest,
+    isLoading,
+    refetch: fetchDetails,
+  };
+};
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
-import type { Conversation, Message } from "@/types/messages";
+import type { Conversation, ConversationParticipant, Message } from "@/types/messages";
 import { RealtimeChannel } from "@supabase/supabase-js";
 
 export const useConversationList = () => {
@@ -20,10 +20,10 @@ export const useConversationList = () => {
     try {
       setError(null);
 
-      // Step 1: Get user's conversation IDs
+      // Step 1: Get user's conversation IDs and their per-user state
       const { data: participantData, error: participantError } = await supabase
         .from("conversation_participants")
-        .select("conversation_id")
+        .select("conversation_id, pinned_at, is_archived, muted_until, is_marked_unread, is_request")
         .eq("user_id", user.id);
 
       if (participantError) {
@@ -40,6 +40,7 @@ export const useConversationList = () => {
       }
 
       const conversationIds = participantData.map((p) => p.conversation_id);
+      const participationById = new Map(participantData.map((p) => [p.conversation_id, p]));
 
       // Step 2: Fetch conversations with participants
       const { data: conversationsData, error: conversationsError } = await supabase
@@ -47,9 +48,14 @@ export const useConversationList = () => {
         .select(`
           id,
           updated_at,
+          is_group,
+          title,
+          avatar_url,
+          disappearing_seconds,
           conversation_participants (
             user_id,
-            profiles:user_id (
+            role,
+            profiles:profiles!conversation_participants_user_id_fkey (
               username,
               display_name,
               avatar_url,
@@ -68,44 +74,65 @@ export const useConversationList = () => {
         return;
       }
 
-      // Step 3: Fetch last messages and unread counts in parallel
+      // Step 3: Unread counts come from each participation's read marker
+      const { data: unreadData, error: unreadError } = await supabase.rpc("get_unread_counts");
+
+      if (unreadError) {
+        console.error("Error fetching unread counts:", unreadError);
+      }
+
+      const unreadCounts = new Map<string, number>(
+        (unreadData || []).map((row) => [row.conversation_id, Number(row.unread_count) || 0])
+      );
+
+      // Step 4: Fetch last messages in parallel
       const conversationsWithDetails = await Promise.all(
         (conversationsData || []).map(async (conv: any) => {
-          const [lastMessageResult, unreadCountResult] = await Promise.all([
-            supabase
-              .from("messages")
-              .select("*")
-              .eq("conversation_id", conv.id)
-              .order("created_at", { ascending: false })
-              .limit(1)
-              .maybeSingle(),
-            supabase
-              .from("messages")
-              .select("*", { count: "exact", head: true })
-              .eq("conversation_id", conv.id)
-              .eq("is_read", false)
-              .neq("sender_id", user.id),
-          ]);
-
-          const otherParticipant = conv.conversation_participants?.find(
-            (p: any) => p.user_id !== user.id
+          const lastMessageResult = await supabase
+            .from("messages")
+            .select("*, attachments:message_attachments (kind, file_name)")
+            .eq("conversation_id", conv.id)
+            .order("created_at", { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+          const members: ConversationParticipant[] = (conv.conversation_participants || [])
+            .filter((p) => p.user_id !== user.id)
+            .map((p) => ({
+              id: p.user_id,
+              username: p.profiles?.username ?? null,
+              display_name: p.profiles?.display_name ?? null,
+              avatar_url: p.profiles?.avatar_url ?? null,
+              is_verified: p.profiles?.is_verified ?? false,
+              verification_type: p.profiles?.verification_type ?? null,
+              role: p.role,
+            }));
+
+          const lastMessage = lastMessageResult.data as unknown as Message | null;
+          const lastSender = conv.conversation_participants?.find(
+            (p) => p.user_id === lastMessage?.sender_id
           );
 
+          const participation = participationById.get(conv.id);
+
           return {
             id: conv.id,
             updated_at: conv.updated_at,
-            otherUser: otherParticipant
-              ? {
-                  id: otherParticipant.user_id,
-                  username: otherParticipant.profiles?.username ?? null,
-                  display_name: otherParticipant.profiles?.display_name ?? null,
-                  avatar_url: otherParticipant.profiles?.avatar_url ?? null,
-                  is_verified: otherParticipant.profiles?.is_verified ?? false,
-                  verification_type: otherParticipant.profiles?.verification_type ?? null,
-                }
+            isGroup: conv.is_group ?? false,
+            title: conv.title,
+            avatarUrl: conv.avatar_url,
+            members,
+            otherUser: conv.is_group ? undefined : members[0],
+            lastMessage: lastMessage
+              ? { ...lastMessage, sender: lastSender?.profiles ?? undefined }
               : undefined,
-            lastMessage: lastMessageResult.data as Message | undefined,
-            unreadCount: unreadCountResult.count || 0,
+            unreadCount: unreadCounts.get(conv.id) ?? 0,
+            disappearingSeconds: conv.disappearing_seconds,
+            pinnedAt: participation?.pinned_at ?? null,
+            isArchived: participation?.is_archived ?? false,
+            mutedUntil: participation?.muted_until ?? null,
+            isMarkedUnread: participation?.is_marked_unread ?? false,
+            isRequest: participation?.is_request ?? false,
           } as Conversation;
         })
       );
@@ -153,6 +180,19 @@ export const useConversationList = () => {
           fetchConversations();
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "conversation_participants",
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          // Our read marker or conversation state changed (possibly from another device)
+          fetchConversations();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -1,17 +1,110 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
-import type { Message, SendMessageResult } from "@/types/messages";
+import {
+  ATTACHMENTS_BUCKET,
+  prepareAttachment,
+  uploadAttachmentFile,
+} from "@/lib/messageAttachments";
+import {
+  discardOutboxEntry,
+  enqueueMessage,
+  getOutboxEntries,
+  retryOutboxEntry,
+  startOutboxSync,
+  subscribeToOutbox,
+  type OutboxEntry,
+} from "@/lib/messageOutbox";
+import {
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_ATTACHMENT_SIZE_BYTES,
+  type Message,
+  type MessageActionResult,
+  type MessageAttachment,
+  type MessageEdit,
+  type QuotedMessage,
+  type SendMessageResult,
+} from "@/types/messages";
+
+const MESSAGE_SELECT = `
+  id,
+  conversation_id,
+  sender_id,
+  content,
+  mentions,
+  sticker_url,
+  audio_url,
+  audio_duration_seconds,
+  message_type,
+  metadata,
+  is_read,
+  created_at,
+  edited_at,
+  deleted_at,
+  reply_to_message_id,
+  expires_at,
+  attachments:message_attachments (*),
+  sender:sender_id (
+    username,
+    display_name,
+    avatar_url
+  )
+`;
+
+// Messages per page when scrolling back through history
+const PAGE_SIZE = 50;
+// Messages loaded before a search hit that is older than the loaded pages
+const CONTEXT_SIZE = 25;
+
+// Pages are keyed by (created_at, id) so messages sharing a timestamp are never skipped
+const compareMessages = (a: Message, b: Message) =>
+  a.created_at === b.created_at
+    ? a.id.localeCompare(b.id)
+    : new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+
+// PostgREST filter for messages strictly older than the cursor
+const olderThan = (cursor: Pick<Message, "created_at" | "id">) =>
+  `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`;
+
+const mergeMessages = (current: Message[], incoming: Message[]) => {
+  const known = new Set(current.map((m) => m.id));
+  return [...current, ...incoming.filter((m) => !known.has(m.id))].sort(compareMessages);
+};
+
+// Queued messages render like sent ones, flagged with their send status
+const outboxEntryToMessage = (entry: OutboxEntry): Message => ({
+  id: entry.id,
+  conversation_id: entry.conversation_id,
+  sender_id: entry.sender_id,
+  content: entry.content,
+  sticker_url: entry.sticker_url,
+  message_type: "text",
+  is_read: false,
+  created_at: entry.created_at,
+  reply_to_message_id: entry.reply_to_message_id,
+  attachments: [],
+  send_status: entry.status,
+});
 
 export const useConversationMessages = (conversationId: string | null) => {
   const { user } = useAuth();
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const loadingOlderRef = useRef(false);
+  // Quoted messages that are not part of the loaded list
+  const [externalQuotes, setExternalQuotes] = useState<Record<string, QuotedMessage | null>>({});
+  const requestedQuotesRef = useRef<Set<string>>(new Set());
+  // Messages in the offline outbox for this conversation
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
 
+  // Latest page; older pages come from loadOlderMessages
   const fetchMessages = useCallback(async () => {
     if (!conversationId) {
       setMessages([]);
+      setHasMore(false);
       setIsLoading(false);
       return;
     }
@@ -19,47 +112,206 @@ export const useConversationMessages = (conversationId: string | null) => {
     try {
       setError(null);
 
+      const { data, error: fetchError } = await supabase
+        .from("messages")
+        .select(MESSAGE_SELECT)
+        .eq("conversation_id", conversationId)
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (fetchError) {
+        console.error("Error fetching messages:", fetchError);
+        setError("Erro ao carregar mensagens");
+        return;
+      }
+
+      const page = (data as unknown as Message[]) || [];
+      setMessages([...page].sort(compareMessages));
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (err) {
+      console.error("Error in fetchMessages:", err);
+      setError("Erro inesperado ao carregar mensagens");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [conversationId]);
+
+  // Initial fetch
+  useEffect(() => {
+    setIsLoading(true);
+    setExternalQuotes({});
+    requestedQuotesRef.current = new Set();
+    fetchMessages();
+  }, [fetchMessages]);
+
+  // Load quoted messages that are not in the loaded list
+  useEffect(() => {
+    const loadedIds = new Set(messages.map((m) => m.id));
+    const missingIds = Array.from(
+      new Set(
+        messages
+          .map((m) => m.reply_to_message_id)
+          .filter((id): id is string => !!id && !loadedIds.has(id) && !requestedQuotesRef.current.has(id))
+      )
+    );
+
+    if (missingIds.length === 0) return;
+    missingIds.forEach((id) => requestedQuotesRef.current.add(id));
+
+    const loadQuotes = async () => {
       const { data, error: fetchError } = await supabase
         .from("messages")
         .select(`
           id,
-          conversation_id,
           sender_id,
           content,
           sticker_url,
           audio_url,
-          audio_duration_seconds,
-          is_read,
-          created_at,
+          deleted_at,
+          attachments:message_attachments (kind, file_name),
           sender:sender_id (
             username,
             display_name,
             avatar_url
           )
         `)
+        .in("id", missingIds);
+
+      if (fetchError) {
+        console.error("Error fetching quoted messages:", fetchError);
+        return;
+      }
+
+      setExternalQuotes((prev) => {
+        const next = { ...prev };
+        // Anything not returned was deleted for us or is otherwise unavailable
+        missingIds.forEach((id) => {
+          next[id] = null;
+        });
+        (data || []).forEach((quote) => {
+          next[quote.id] = quote as unknown as QuotedMessage;
+        });
+        return next;
+      });
+    };
+
+    loadQuotes();
+  }, [messages]);
+
+  // Loaded messages win so edits and deletes show up in quotes right away
+  const getQuotedMessage = useCallback(
+    (messageId: string): QuotedMessage | null =>
+      messages.find((m) => m.id === messageId) ?? externalQuotes[messageId] ?? null,
+    [messages, externalQuotes]
+  );
+
+  const loadOlderMessages = useCallback(async () => {
+    const oldest = messages[0];
+    if (!conversationId || !oldest || !hasMore || loadingOlderRef.current) return;
+
+    loadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from("messages")
+        .select(MESSAGE_SELECT)
         .eq("conversation_id", conversationId)
-        .order("created_at", { ascending: true });
+        .or(olderThan(oldest))
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(PAGE_SIZE);
 
       if (fetchError) {
-        console.error("Error fetching messages:", fetchError);
-        setError("Erro ao carregar mensagens");
+        console.error("Error fetching older messages:", fetchError);
         return;
       }
 
-      setMessages((data as Message[]) || []);
+      const page = (data as unknown as Message[]) || [];
+      setMessages((prev) => mergeMessages(prev, page));
+      setHasMore(page.length === PAGE_SIZE);
     } catch (err) {
-      console.error("Error in fetchMessages:", err);
-      setError("Erro inesperado ao carregar mensagens");
+      console.error("Error in loadOlderMessages:", err);
     } finally {
-      setIsLoading(false);
+      loadingOlderRef.current = false;
+      setIsLoadingOlder(false);
     }
-  }, [conversationId]);
+  }, [conversationId, messages, hasMore]);
 
-  // Initial fetch
+  // Make sure a message (e.g. a search hit) is loaded. Everything between it and the
+  // loaded pages comes along so the list never has gaps, plus a little context above it.
+  const loadMessageContext = useCallback(
+    async (messageId: string): Promise<boolean> => {
+      if (!conversationId) return false;
+      if (messages.some((m) => m.id === messageId)) return true;
+
+      const oldest = messages[0];
+
+      try {
+        const { data: target, error: targetError } = await supabase
+          .from("messages")
+          .select("id, created_at")
+          .eq("id", messageId)
+          .eq("conversation_id", conversationId)
+          .maybeSingle();
+
+        if (targetError || !target) {
+          if (targetError) console.error("Error fetching message:", targetError);
+          return false;
+        }
+
+        let between = supabase
+          .from("messages")
+          .select(MESSAGE_SELECT)
+          .eq("conversation_id", conversationId)
+          .gte("created_at", target.created_at);
+        if (oldest) between = between.or(olderThan(oldest));
+
+        const [before, gap] = await Promise.all([
+          supabase
+            .from("messages")
+            .select(MESSAGE_SELECT)
+            .eq("conversation_id", conversationId)
+            .or(olderThan(target))
+            .order("created_at", { ascending: false })
+            .order("id", { ascending: false })
+            .limit(CONTEXT_SIZE),
+          between.order("created_at", { ascending: true }),
+        ]);
+
+        if (before.error || gap.error) {
+          console.error("Error fetching message context:", before.error || gap.error);
+          return false;
+        }
+
+        const context = [...(before.data || []), ...(gap.data || [])] as unknown as Message[];
+        setMessages((prev) => mergeMessages(prev, context));
+        setHasMore((before.data || []).length === CONTEXT_SIZE);
+
+        return true;
+      } catch (err) {
+        console.error("Error in loadMessageContext:", err);
+        return false;
+      }
+    },
+    [conversationId, messages]
+  );
+
+  // Disappearing messages leave the list when they expire, before the cleanup job deletes them
   useEffect(() => {
-    setIsLoading(true);
-    fetchMessages();
-  }, [fetchMessages]);
+    const nextExpiry = Math.min(
+      ...messages.filter((m) => m.expires_at).map((m) => new Date(m.expires_at!).getTime())
+    );
+    if (!Number.isFinite(nextExpiry)) return;
+
+    const timeout = setTimeout(() => {
+      const now = Date.now();
+      setMessages((prev) => prev.filter((m) => !m.expires_at || new Date(m.expires_at).getTime() > now));
+    }, Math.max(nextExpiry - Date.now(), 0));
+
+    return () => clearTimeout(timeout);
+  }, [messages]);
 
   // Real-time subscription
   useEffect(() => {
@@ -76,25 +328,40 @@ export const useConversationMessages = (conversationId: string | null) => {
           filter: `conversation_id=eq.${conversationId}`,
         },
         async (payload) => {
-          // Fetch sender info for the new message
+          // Fetch sender info and attachments for the new message
           const newMsg = payload.new as any;
           
-          const { data: senderData } = await supabase
-            .from("profiles")
-            .select("username, display_name, avatar_url")
-            .eq("id", newMsg.sender_id)
-            .single();
+          const [{ data: senderData }, { data: attachmentsData }] = await Promise.all([
+            supabase
+              .from("profiles")
+              .select("username, display_name, avatar_url")
+              .eq("id", newMsg.sender_id)
+              .single(),
+            supabase
+              .from("message_attachments")
+              .select("*")
+              .eq("message_id", newMsg.id)
+              .order("position", { ascending: true }),
+          ]);
 
           const fullMessage: Message = {
             id: newMsg.id,
             conversation_id: newMsg.conversation_id,
             sender_id: newMsg.sender_id,
             content: newMsg.content,
+            mentions: newMsg.mentions,
             sticker_url: newMsg.sticker_url,
             audio_url: newMsg.audio_url,
             audio_duration_seconds: newMsg.audio_duration_seconds,
+            message_type: newMsg.message_type,
+            metadata: newMsg.metadata,
             is_read: newMsg.is_read,
             created_at: newMsg.created_at,
+            edited_at: newMsg.edited_at,
+            deleted_at: newMsg.deleted_at,
+            reply_to_message_id: newMsg.reply_to_message_id,
+            expires_at: newMsg.expires_at,
+            attachments: (attachmentsData as MessageAttachment[]) || [],
             sender: senderData || undefined,
           };
 
@@ -116,7 +383,12 @@ export const useConversationMessages = (conversationId: string | null) => {
           filter: `conversation_id=eq.${conversationId}`,
         },
         (payload) => {
+          // Covers read receipts, edits and "deleted for everyone" tombstones
           const updated = payload.new as any;
+          if (updated.is_hidden) {
+            setMessages((prev) => prev.filter((msg) => msg.id !== updated.id));
+            return;
+          }
           setMessages((prev) =>
             prev.map((msg) =>
               msg.id === updated.id ? { ...msg, ...updated } : msg
@@ -124,6 +396,20 @@ export const useConversationMessages = (conversationId: string | null) => {
           );
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "DELETE",
+          schema: "public",
+          table: "messages",
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const removed = payload.old as { id?: string };
+          if (!removed.id) return;
+          setMessages((prev) => prev.filter((msg) => msg.id !== removed.id));
+        }
+      )
       .subscribe();
 
     return () => {
@@ -131,8 +417,59 @@ export const useConversationMessages = (conversationId: string | null) => {
     };
   }, [conversationId]);
 
+  // Outbox: load queued messages and swap each one for the real row once it is sent
+  useEffect(() => {
+    if (!user || !conversationId) {
+      setOutbox([]);
+      return;
+    }
+
+    let active = true;
+    const loadOutbox = async () => {
+      try {
+        const entries = await getOutboxEntries(user.id, conversationId);
+        if (active) setOutbox(entries);
+      } catch (err) {
+        console.error("Error loading message outbox:", err);
+      }
+    };
+
+    loadOutbox();
+    startOutboxSync(user.id);
+
+    const unsubscribe = subscribeToOutbox(async (event) => {
+      if (event.type === "changed") {
+        loadOutbox();
+        return;
+      }
+      if (event.entry.conversation_id !== conversationId) return;
+
+      const { data } = await supabase
+        .from("messages")
+        .select(MESSAGE_SELECT)
+        .eq("id", event.entry.id)
+        .maybeSingle();
+
+      if (!active) return;
+      if (data) setMessages((prev) => mergeMessages(prev, [data as unknown as Message]));
+      setOutbox((prev) => prev.filter((e) => e.id !== event.entry.id));
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [user, conversationId]);
+
+  // Queued messages go after everything the server has, until the server has them too
+  const displayedMessages = useMemo(() => {
+    const pending = outbox.filter((entry) => !messages.some((m) => m.id === entry.id));
+    return pending.length > 0 ? [...messages, ...pending.map(outboxEntryToMessage)] : messages;
+  }, [messages, outbox]);
+
+  // Messages are queued first so they survive going offline; the outbox sends and retries them
   const sendMessage = useCallback(
-    async (content: string, stickerUrl?: string): Promise<SendMessageResult> => {
+    async (content: string, stickerUrl?: string, replyToMessageId?: string | null): Promise<SendMessageResult> => {
       if (!user) {
         return { success: false, error: "Usuário não autenticado" };
       }
@@ -146,24 +483,14 @@ export const useConversationMessages = (conversationId: string | null) => {
       }
 
       try {
-        const { error: insertError } = await supabase.from("messages").insert({
+        await enqueueMessage({
           conversation_id: conversationId,
           sender_id: user.id,
           content: content.trim() || null,
           sticker_url: stickerUrl || null,
+          reply_to_message_id: replyToMessageId || null,
         });
 
-        if (insertError) {
-          console.error("Error sending message:", insertError);
-          return { success: false, error: "Erro ao enviar mensagem" };
-        }
-
-        // Update conversation timestamp
-        await supabase
-          .from("conversations")
-          .update({ updated_at: new Date().toISOString() })
-          .eq("id", conversationId);
-
         return { success: true };
       } catch (err) {
         console.error("Error in sendMessage:", err);
@@ -173,8 +500,34 @@ export const useConversationMessages = (conversationId: string | null) => {
     [user, conversationId]
   );
 
+  const retryMessage = useCallback(
+    async (messageId: string) => {
+      const entry = outbox.find((e) => e.id === messageId);
+      if (!entry) return;
+
+      try {
+        await retryOutboxEntry(entry);
+      } catch (err) {
+        console.error("Error retrying message:", err);
+      }
+    },
+    [outbox]
+  );
+
+  const discardMessage = useCallback(async (messageId: string) => {
+    try {
+      await discardOutboxEntry(messageId);
+    } catch (err) {
+      console.error("Error discarding message:", err);
+    }
+  }, []);
+
   const sendAudioMessage = useCallback(
-    async (audioBlob: Blob, durationSeconds: number): Promise<SendMessageResult> => {
+    async (
+      audioBlob: Blob,
+      durationSeconds: number,
+      replyToMessageId?: string | null
+    ): Promise<SendMessageResult> => {
       if (!user) {
         return { success: false, error: "Usuário não autenticado" };
       }
@@ -209,6 +562,7 @@ export const useConversationMessages = (conversationId: string | null) => {
           sender_id: user.id,
           audio_url: urlData.publicUrl,
           audio_duration_seconds: durationSeconds,
+          reply_to_message_id: replyToMessageId || null,
         });
 
         if (insertError) {
@@ -231,27 +585,256 @@ export const useConversationMessages = (conversationId: string | null) => {
     [user, conversationId]
   );
 
+  const sendAttachments = useCallback(
+    async (
+      files: File[],
+      caption: string,
+      replyToMessageId?: string | null,
+      onProgress?: (progress: number) => void
+    ): Promise<SendMessageResult> => {
+      if (!user) {
+        return { success: false, error: "Usuário não autenticado" };
+      }
+
+      if (!conversationId) {
+        return { success: false, error: "Conversa não selecionada" };
+      }
+
+      if (files.length === 0 || files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+        return { success: false, error: `Envie de 1 a ${MAX_ATTACHMENTS_PER_MESSAGE} arquivos por vez` };
+      }
+
+      const uploadedPaths: string[] = [];
+
+      try {
+        const prepared = await Promise.all(files.map(prepareAttachment));
+
+        if (prepared.some((a) => a.file.size > MAX_ATTACHMENT_SIZE_BYTES)) {
+          return { success: false, error: "Arquivos podem ter no máximo 50 MB" };
+        }
+
+        // Progress is reported over the bytes of every file and thumbnail together
+        const totalBytes = prepared.reduce((sum, a) => sum + a.file.size + (a.thumbnail?.size || 0), 0);
+        const loadedBytes = new Map<string, number>();
+        const reportProgress = (path: string, loaded: number) => {
+          loadedBytes.set(path, loaded);
+          const sum = Array.from(loadedBytes.values()).reduce((a, b) => a + b, 0);
+          onProgress?.(totalBytes ? Math.min(sum / totalBytes, 1) : 1);
+        };
+
+        const folder = `${conversationId}/${user.id}`;
+        const rows = [];
+
+        for (const attachment of prepared) {
+          const id = crypto.randomUUID();
+          const extension = attachment.file_name.includes(".")
+            ? attachment.file_name.split(".").pop()
+            : "bin";
+          const path = `${folder}/${id}.${extension}`;
+
+          await uploadAttachmentFile(path, attachment.file, (loaded) => reportProgress(path, loaded));
+          uploadedPaths.push(path);
+
+          let thumbnailPath: string | null = null;
+          if (attachment.thumbnail) {
+            thumbnailPath = `${folder}/${id}_thumb.webp`;
+            await uploadAttachmentFile(thumbnailPath, attachment.thumbnail, (loaded) =>
+              reportProgress(thumbnailPath!, loaded)
+            );
+            uploadedPaths.push(thumbnailPath);
+          }
+
+          rows.push({
+            kind: attachment.kind,
+            storage_path: path,
+            thumbnail_path: thumbnailPath,
+            file_name: attachment.file_name,
+            mime_type: attachment.mime_type,
+            size_bytes: attachment.file.size,
+            width: attachment.width,
+            height: attachment.height,
+            duration_seconds: attachment.duration_seconds,
+          });
+        }
+
+        const { error: rpcError } = await supabase.rpc("send_message_with_attachments", {
+          p_conversation_id: conversationId,
+          p_content: caption.trim(),
+          p_attachments: rows,
+          p_reply_to_message_id: replyToMessageId || undefined,
+        });
+
+        if (rpcError) {
+          console.error("Error sending attachments:", rpcError);
+          await supabase.storage.from(ATTACHMENTS_BUCKET).remove(uploadedPaths);
+          return { success: false, error: "Erro ao enviar anexos" };
+        }
+
+        return { success: true };
+      } catch (err) {
+        console.error("Error in sendAttachments:", err);
+        if (uploadedPaths.length > 0) {
+          await supabase.storage.from(ATTACHMENTS_BUCKET).remove(uploadedPaths);
+        }
+        return { success: false, error: "Erro inesperado ao enviar anexos" };
+      }
+    },
+    [user, conversationId]
+  );
+
+  const editMessage = useCallback(
+    async (messageId: string, content: string): Promise<MessageActionResult> => {
+      if (!content.trim()) {
+        return { success: false, error: "Mensagem vazia" };
+      }
+
+      try {
+        const { error: rpcError } = await supabase.rpc("edit_message", {
+          p_message_id: messageId,
+          p_content: content.trim(),
+        });
+
+        if (rpcError) {
+          console.error("Error editing message:", rpcError);
+          if (rpcError.message?.includes("Edit window")) {
+            return { success: false, error: "O prazo para editar esta mensagem terminou" };
+          }
+          return { success: false, error: "Erro ao editar mensagem" };
+        }
+
+        // Realtime also delivers this; apply it now so the bubble updates immediately
+        setMessages((prev) =>
+          prev.map((msg) =>
+            msg.id === messageId
+              ? { ...msg, content: content.trim(), edited_at: new Date().toISOString() }
+              : msg
+          )
+        );
+
+        return { success: true };
+      } catch (err) {
+        console.error("Error in editMessage:", err);
+        return { success: false, error: "Erro inesperado ao editar" };
+      }
+    },
+    []
+  );
+
+  const deleteMessage = useCallback(
+    async (messageId: string, forEveryone: boolean): Promise<MessageActionResult> => {
+      if (!user) {
+        return { success: false, error: "Usuário não autenticado" };
+      }
+
+      try {
+        if (forEveryone) {
+          const attachmentPaths = (messages.find((m) => m.id === messageId)?.attachments || []).flatMap(
+            (a) => (a.thumbnail_path ? [a.storage_path, a.thumbnail_path] : [a.storage_path])
+          );
+
+          const { error: rpcError } = await supabase.rpc("delete_message_for_everyone", {
+            p_message_id: messageId,
+          });
+
+          if (rpcError) {
+            console.error("Error deleting message for everyone:", rpcError);
+            return { success: false, error: "Erro ao apagar mensagem" };
+          }
+
+          if (attachmentPaths.length > 0) {
+            const { error: removeError } = await supabase.storage
+              .from(ATTACHMENTS_BUCKET)
+              .remove(attachmentPaths);
+            if (removeError) console.error("Error removing attachment files:", removeError);
+          }
+
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === messageId
+                ? {
+                    ...msg,
+                    content: null,
+                    sticker_url: null,
+                    audio_url: null,
+                    audio_duration_seconds: null,
+                    attachments: [],
+                    deleted_at: new Date().toISOString(),
+                  }
+                : msg
+            )
+          );
+        } else {
+          const { error: insertError } = await supabase.from("message_deletions").insert({
+            message_id: messageId,
+            user_id: user.id,
+          });
+
+          if (insertError) {
+            console.error("Error deleting message for me:", insertError);
+            return { success: false, error: "Erro ao apagar mensagem" };
+          }
+
+          setMessages((prev) => prev.filter((msg) => msg.id !== messageId));
+        }
+
+        return { success: true };
+      } catch (err) {
+        console.error("Error in deleteMessage:", err);
+        return { success: false, error: "Erro inesperado ao apagar" };
+      }
+    },
+    [user, messages]
+  );
+
+  const fetchEditHistory = useCallback(async (messageId: string): Promise<MessageEdit[]> => {
+    const { data, error: fetchError } = await supabase
+      .from("message_edits")
+      .select("*")
+      .eq("message_id", messageId)
+      .order("edited_at", { ascending: false });
+
+    if (fetchError) {
+      console.error("Error fetching edit history:", fetchError);
+      return [];
+    }
+
+    return data || [];
+  }, []);
+
+  // Marks everything loaded as seen; ChatView uses useReadReceipts to mark what's on screen
   const markAsRead = useCallback(async () => {
-    if (!user || !conversationId) return;
+    const latest = messages[messages.length - 1];
+    if (!user || !conversationId || !latest) return;
 
     try {
-      await supabase
-        .from("messages")
-        .update({ is_read: true })
-        .eq("conversation_id", conversationId)
-        .neq("sender_id", user.id)
-        .eq("is_read", false);
+      const { error: rpcError } = await supabase.rpc("mark_conversation_read", {
+        p_conversation_id: conversationId,
+        p_message_id: latest.id,
+      });
+
+      if (rpcError) console.error("Error marking messages as read:", rpcError);
     } catch (err) {
       console.error("Error marking messages as read:", err);
     }
-  }, [user, conversationId]);
+  }, [user, conversationId, messages]);
 
   return {
-    messages,
+    messages: displayedMessages,
     isLoading,
+    isLoadingOlder,
+    hasMore,
     error,
     sendMessage,
+    retryMessage,
+    discardMessage,
     sendAudioMessage,
+    sendAttachments,
+    editMessage,
+    deleteMessage,
+    fetchEditHistory,
+    getQuotedMessage,
+    loadOlderMessages,
+    loadMessageContext,
     markAsRead,
     refetch: fetchMessages,
   };
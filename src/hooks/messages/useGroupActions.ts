@@ -0,0 +1,199 @@
+import { useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { CreateConversationResult, GroupActionResult } from "@/types/messages";
+
+// Translate the exceptions raised by the group functions into user-facing text
+const getGroupErrorMessage = (message: string | undefined, fallback: string) => {
+  if (!message) return fallback;
+  if (message.includes("does not accept messages")) {
+    return "Um dos usuários não aceita mensagens de você";
+  }
+  if (message.includes("limited to 50 members")) return "Grupos podem ter no máximo 50 membros";
+  if (message.includes("at least one admin")) return "O grupo precisa de pelo menos um admin";
+  if (message.includes("Only group admins")) return "Apenas admins podem fazer isso";
+  if (message.includes("Invalid group title")) return "Nome do grupo inválido";
+  if (message.includes("Account suspended")) return "Sua conta está suspensa";
+  return fallback;
+};
+
+export const useGroupActions = () => {
+  const { user } = useAuth();
+
+  const createGroup = useCallback(
+    async (title: string, memberIds: string[]): Promise<CreateConversationResult> => {
+      if (!user) {
+        return { success: false, error: "Usuário não autenticado" };
+      }
+
+      if (!title.trim()) {
+        return { success: false, error: "Dê um nome ao grupo" };
+      }
+
+      if (memberIds.length === 0) {
+        return { success: false, error: "Selecione pelo menos um membro" };
+      }
+
+      try {
+        const { data, error } = await supabase.rpc("create_group_conversation", {
+          p_title: title.trim(),
+          p_member_ids: memberIds,
+        });
+
+        if (error) {
+          console.error("Error creating group:", error);
+          return { success: false, error: getGroupErrorMessage(error.message, "Erro ao criar grupo") };
+        }
+
+        return { success: true, conversationId: data };
+      } catch (err) {
+        console.error("Error in createGroup:", err);
+        return { success: false, error: "Erro inesperado ao criar grupo" };
+      }
+    },
+    [user]
+  );
+
+  const addMembers = useCallback(
+    async (conversationId: string, memberIds: string[]): Promise<GroupActionResult> => {
+      if (!user) {
+        return { success: false, error: "Usuário não autenticado" };
+      }
+
+      try {
+        const { error } = await supabase.rpc("add_group_members", {
+          p_conversation_id: conversationId,
+          p_member_ids: memberIds,
+        });
+
+        if (error) {
+          console.error("Error adding group members:", error);
+          return { success: false, error: getGroupErrorMessage(error.message, "Erro ao adicionar membros") };
+        }
+
+        return { success: true };
+      } catch (err) {
+        console.error("Error in addMembers:", err);
+        return { success: false, error: "Erro inesperado ao adicionar membros" };
+      }
+    },
+    [user]
+  );
+
+  const removeMember = useCallback(
+    async (conversationId: string, memberId: string): Promise<GroupActionResult> => {
+      if (!user) {
+        return { success: false, error: "Usuário não autenticado" };
+      }
+
+      try {
+        const { error } = await supabase.rpc("remove_group_member", {
+          p_conversation_id: conversationId,
+          p_user_id: memberId,
+        });
+
+        if (error) {
+          console.error("Error removing group member:", error);
+          return { success: false, error: getGroupErrorMessage(error.message, "Erro ao remover membro") };
+        }
+
+        return { success: true };
+      } catch (err) {
+        console.error("Error in removeMember:", err);
+        return { success: false, error: "Erro inesperado ao remover membro" };
+      }
+    },
+    [user]
+  );
+
+  const leaveGroup = useCallback(
+    async (conversationId: string): Promise<GroupActionResult> => {
+      if (!user) {
+        return { success: false, error: "Usuário não autenticado" };
+      }
+      return removeMember(conversationId, user.id);
+    },
+    [user, removeMember]
+  );
+
+  const setAdmin = useCallback(
+    async (conversationId: string, memberId: string, isAdmin: boolean): Promise<GroupActionResult> => {
+      try {
+        const { error } = await supabase.rpc("set_group_admin", {
+          p_conversation_id: conversationId,
+          p_user_id: memberId,
+          p_is_admin: isAdmin,
+        });
+
+        if (error) {
+          console.error("Error updating group admin:", error);
+          return { success: false, error: getGroupErrorMessage(error.message, "Erro ao alterar permissões") };
+        }
+
+        return { success: true };
+      } catch (err) {
+        console.error("Error in setAdmin:", err);
+        return { success: false, error: "Erro inesperado ao alterar permissões" };
+      }
+    },
+    []
+  );
+
+  const updateGroup = useCallback(
+    async (
+      conversationId: string,
+      updates: { title?: string; avatarFile?: File }
+    ): Promise<GroupActionResult> => {
+      if (!user) {
+        return { success: false, error: "Usuário não autenticado" };
+      }
+
+      try {
+        let avatarUrl: string | undefined;
+
+        if (updates.avatarFile) {
+          const fileExt = updates.avatarFile.name.split(".").pop();
+          const fileName = `${user.id}/group-${conversationId}-${Date.now()}.${fileExt}`;
+
+          const { error: uploadError } = await supabase.storage
+            .from("avatars")
+            .upload(fileName, updates.avatarFile, { upsert: true });
+
+          if (uploadError) {
+            console.error("Error uploading group avatar:", uploadError);
+            return { success: false, error: "Erro ao enviar foto do grupo" };
+          }
+
+          const { data: urlData } = supabase.storage.from("avatars").getPublicUrl(fileName);
+          avatarUrl = urlData.publicUrl;
+        }
+
+        const { error } = await supabase.rpc("update_group_details", {
+          p_conversation_id: conversationId,
+          p_title: updates.title?.trim() || undefined,
+          p_avatar_url: avatarUrl,
+        });
+
+        if (error) {
+          console.error("Error updating group:", error);
+          return { success: false, error: getGroupErrorMessage(error.message, "Erro ao atualizar grupo") };
+        }
+
+        return { success: true };
+      } catch (err) {
+        console.error("Error in updateGroup:", err);
+        return { success: false, error: "Erro inesperado ao atualizar grupo" };
+      }
+    },
+    [user]
+  );
+
+  return {
+    createGroup,
+    addMembers,
+    removeMember,
+    leaveGroup,
+    setAdmin,
+    updateGroup,
+  };
+};
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { MessageSearchResult } from "@/types/messages";
+
+const MIN_QUERY_LENGTH = 2;
+
+// Full-text search over message history; pass a conversation to search only that one
+export const useMessageSearch = (conversationId: string | null = null) => {
+  const { user } = useAuth();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const searchMessages = useCallback(
+    async (searchQuery: string) => {
+      if (searchQuery.trim().length < MIN_QUERY_LENGTH || !user) {
+        setResults([]);
+        return;
+      }
+
+      setIsSearching(true);
+
+      try {
+        const { data, error } = await supabase.rpc("search_messages", {
+          p_query: searchQuery.trim(),
+          p_conversation_id: conversationId ?? undefined,
+        });
+
+        if (error) {
+          console.error("Error searching messages:", error);
+          setResults([]);
+          return;
+        }
+
+        setResults((data as MessageSearchResult[]) || []);
+      } catch (err) {
+        console.error("Error in searchMessages:", err);
+        setResults([]);
+      } finally {
+        setIsSearching(false);
+      }
+    },
+    [user, conversationId]
+  );
+
+  // Debounced search
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      searchMessages(query);
+    }, 300);
+
+    return () => clearTimeout(timeoutId);
+  }, [query, searchMessages]);
+
+  const clearSearch = useCallback(() => {
+    setQuery("");
+    setResults([]);
+  }, []);
+
+  return {
+    query,
+    setQuery,
+    results,
+    isSearching,
+    clearSearch,
+  };
+};
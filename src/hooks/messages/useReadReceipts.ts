@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Message, ReadMarker } from "@/types/messages";
+
+// Every participant's "seen up to" marker, kept live, plus a way to move our own
+export const useReadReceipts = (conversationId: string | null) => {
+  const { user } = useAuth();
+  const [markers, setMarkers] = useState<ReadMarker[]>([]);
+  // Newest message we've already asked the server to mark
+  const requestedRef = useRef<string | null>(null);
+
+  const fetchMarkers = useCallback(async () => {
+    if (!conversationId) {
+      setMarkers([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("conversation_participants")
+      .select("user_id, last_read_message_id, last_read_at")
+      .eq("conversation_id", conversationId);
+
+    if (error) {
+      console.error("Error fetching read markers:", error);
+      return;
+    }
+
+    setMarkers(data || []);
+  }, [conversationId]);
+
+  useEffect(() => {
+    requestedRef.current = null;
+    fetchMarkers();
+  }, [fetchMarkers]);
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    const channel = supabase
+      .channel(`read-receipts-${conversationId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "conversation_participants",
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        () => {
+          fetchMarkers();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, fetchMarkers]);
+
+  const ownMarker = markers.find((m) => m.user_id === user?.id);
+
+  const markAsRead = useCallback(
+    async (message: Pick<Message, "id" | "created_at">) => {
+      if (!user || !conversationId) return;
+      if (requestedRef.current === message.id) return;
+      if (ownMarker?.last_read_at && new Date(message.created_at) <= new Date(ownMarker.last_read_at)) return;
+
+      requestedRef.current = message.id;
+      setMarkers((prev) =>
+        prev.map((m) =>
+          m.user_id === user.id
+            ? { ...m, last_read_message_id: message.id, last_read_at: message.created_at }
+            : m
+        )
+      );
+
+      const { error } = await supabase.rpc("mark_conversation_read", {
+        p_conversation_id: conversationId,
+        p_message_id: message.id,
+      });
+
+      if (error) {
+        console.error("Error marking conversation as read:", error);
+        requestedRef.current = null;
+      }
+    },
+    [user, conversationId, ownMarker?.last_read_at]
+  );
+
+  return {
+    markers,
+    otherMarkers: markers.filter((m) => m.user_id !== user?.id),
+    markAsRead,
+  };
+};
@@ -0,0 +1,199 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { MessageActionResult, ScheduledMessage } from "@/types/messages";
+
+// Scheduled times must be at least this far ahead, so the message isn't due before it is saved
+const MIN_SCHEDULE_AHEAD_MS = 60 * 1000;
+
+const validateSchedule = (content: string, scheduledFor: Date) => {
+  if (!content.trim()) return "Mensagem vazia";
+  if (Number.isNaN(scheduledFor.getTime())) return "Data inválida";
+  if (scheduledFor.getTime() < Date.now() + MIN_SCHEDULE_AHEAD_MS) {
+    return "Escolha um horário pelo menos 1 minuto à frente";
+  }
+  return null;
+};
+
+// The current user's pending scheduled messages in a conversation, soonest first
+export const useScheduledMessages = (conversationId: string | null) => {
+  const { user } = useAuth();
+  const [scheduledMessages, setScheduledMessages] = useState<ScheduledMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchScheduledMessages = useCallback(async () => {
+    if (!user || !conversationId) {
+      setScheduledMessages([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("scheduled_messages")
+        .select("*")
+        .eq("conversation_id", conversationId)
+        .eq("sender_id", user.id)
+        .eq("status", "pending")
+        .order("scheduled_for", { ascending: true });
+
+      if (error) {
+        console.error("Error fetching scheduled messages:", error);
+        return;
+      }
+
+      setScheduledMessages((data as ScheduledMessage[]) || []);
+    } catch (err) {
+      console.error("Error in fetchScheduledMessages:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, conversationId]);
+
+  useEffect(() => {
+    fetchScheduledMessages();
+  }, [fetchScheduledMessages]);
+
+  // Released messages leave the list as the edge function sends them
+  useEffect(() => {
+    if (!user || !conversationId) return;
+
+    const channel = supabase
+      .channel(`scheduled-messages-${conversationId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "scheduled_messages",
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        () => {
+          fetchScheduledMessages();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, conversationId, fetchScheduledMessages]);
+
+  const scheduleMessage = useCallback(
+    async (content: string, scheduledFor: Date, replyToMessageId?: string | null): Promise<MessageActionResult> => {
+      if (!user) {
+        return { success: false, error: "Usuário não autenticado" };
+      }
+
+      if (!conversationId) {
+        return { success: false, error: "Conversa não selecionada" };
+      }
+
+      const invalid = validateSchedule(content, scheduledFor);
+      if (invalid) {
+        return { success: false, error: invalid };
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from("scheduled_messages")
+          .insert({
+            conversation_id: conversationId,
+            sender_id: user.id,
+            content: content.trim(),
+            reply_to_message_id: replyToMessageId || null,
+            scheduled_for: scheduledFor.toISOString(),
+          })
+          .select("*")
+          .single();
+
+        if (error) {
+          console.error("Error scheduling message:", error);
+          return { success: false, error: "Erro ao programar mensagem" };
+        }
+
+        setScheduledMessages((prev) =>
+          [...prev.filter((m) => m.id !== data.id), data as ScheduledMessage].sort((a, b) =>
+            a.scheduled_for.localeCompare(b.scheduled_for)
+          )
+        );
+        return { success: true };
+      } catch (err) {
+        console.error("Error in scheduleMessage:", err);
+        return { success: false, error: "Erro inesperado ao programar mensagem" };
+      }
+    },
+    [user, conversationId]
+  );
+
+  const updateScheduledMessage = useCallback(
+    async (id: string, content: string, scheduledFor: Date): Promise<MessageActionResult> => {
+      const invalid = validateSchedule(content, scheduledFor);
+      if (invalid) {
+        return { success: false, error: invalid };
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from("scheduled_messages")
+          .update({ content: content.trim(), scheduled_for: scheduledFor.toISOString() })
+          .eq("id", id)
+          .eq("status", "pending")
+          .select("*")
+          .maybeSingle();
+
+        if (error) {
+          console.error("Error updating scheduled message:", error);
+          return { success: false, error: "Erro ao editar mensagem programada" };
+        }
+
+        // No row back: it was sent or cancelled in the meantime
+        if (!data) {
+          fetchScheduledMessages();
+          return { success: false, error: "Esta mensagem já foi enviada" };
+        }
+
+        setScheduledMessages((prev) =>
+          prev
+            .map((m) => (m.id === id ? (data as ScheduledMessage) : m))
+            .sort((a, b) => a.scheduled_for.localeCompare(b.scheduled_for))
+        );
+        return { success: true };
+      } catch (err) {
+        console.error("Error in updateScheduledMessage:", err);
+        return { success: false, error: "Erro inesperado ao editar" };
+      }
+    },
+    [fetchScheduledMessages]
+  );
+
+  const cancelScheduledMessage = useCallback(async (id: string): Promise<MessageActionResult> => {
+    try {
+      const { error } = await supabase
+        .from("scheduled_messages")
+        .delete()
+        .eq("id", id)
+        .eq("status", "pending");
+
+      if (error) {
+        console.error("Error cancelling scheduled message:", error);
+        return { success: false, error: "Erro ao cancelar mensagem programada" };
+      }
+
+      setScheduledMessages((prev) => prev.filter((m) => m.id !== id));
+      return { success: true };
+    } catch (err) {
+      console.error("Error in cancelScheduledMessage:", err);
+      return { success: false, error: "Erro inesperado ao cancelar" };
+    }
+  }, []);
+
+  return {
+    scheduledMessages,
+    isLoading,
+    scheduleMessage,
+    updateScheduledMessage,
+    cancelScheduledMessage,
+    refetch: fetchScheduledMessages,
+  };
+};
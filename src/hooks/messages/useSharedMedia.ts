@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { MessageAttachment } from "@/types/messages";
+
+const SHARED_MEDIA_LIMIT = 200;
+
+// Photos, videos and files shared in a conversation, newest first
+export const useSharedMedia = (conversationId: string | null, enabled: boolean) => {
+  const [attachments, setAttachments] = useState<MessageAttachment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchAttachments = useCallback(async () => {
+    if (!conversationId) return;
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("message_attachments")
+        .select("*")
+        .eq("conversation_id", conversationId)
+        .order("created_at", { ascending: false })
+        .order("position", { ascending: true })
+        .limit(SHARED_MEDIA_LIMIT);
+
+      if (error) {
+        console.error("Error fetching shared media:", error);
+        return;
+      }
+
+      setAttachments((data as MessageAttachment[]) || []);
+    } catch (err) {
+      console.error("Error in fetchAttachments:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    if (enabled) fetchAttachments();
+  }, [enabled, fetchAttachments]);
+
+  return {
+    media: attachments.filter((a) => a.kind !== "file"),
+    files: attachments.filter((a) => a.kind === "file"),
+    isLoading,
+    refetch: fetchAttachments,
+  };
+};
@@ -11,6 +11,7 @@ interface Profile {
   avatar_url: string | null;
   banner_url: string | null;
   is_verified: boolean;
+  is_private: boolean;
   verification_type: "none" | "blue" | "gold" | "staff";
   wallet_balance: number;
   followers_count: number;
@@ -26,6 +27,7 @@ interface AuthContextType {
   profile: Profile | null;
   isLoading: boolean;
   isAdmin: boolean;
+  isModerator: boolean;
   signUp: (email: string, password: string, displayName?: string) => Promise<{ error: Error | null }>;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
@@ -41,6 +43,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isAdmin, setIsAdmin] = useState(false);
+  const [isModerator, setIsModerator] = useState(false);
 
   const fetchProfile = async (userId: string) => {
     const { data, error } = await supabase
@@ -56,15 +59,18 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     return data as Profile;
   };
 
-  const checkAdminRole = async (userId: string) => {
+  const checkStaffRoles = async (userId: string) => {
     const { data, error } = await supabase
       .from("user_roles")
       .select("role")
       .eq("user_id", userId)
-      .eq("role", "admin")
-      .single();
+      .in("role", ["admin", "moderator"]);
 
-    return !error && data !== null;
+    const roles = error ? [] : (data || []).map((r) => r.role);
+    return {
+      isAdmin: roles.includes("admin"),
+      isModerator: roles.includes("moderator"),
+    };
   };
 
   const refreshProfile = async () => {
@@ -88,13 +94,15 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
             if (profileData) {
               setProfile(profileData);
             }
-            const adminStatus = await checkAdminRole(session.user.id);
-            setIsAdmin(adminStatus);
+            const staffRoles = await checkStaffRoles(session.user.id);
+            setIsAdmin(staffRoles.isAdmin);
+            setIsModerator(staffRoles.isModerator);
             setIsLoading(false);
           }, 0);
         } else {
           setProfile(null);
           setIsAdmin(false);
+          setIsModerator(false);
           setIsLoading(false);
         }
       }
@@ -109,7 +117,10 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
           if (profileData) {
             setProfile(profileData);
           }
-          checkAdminRole(session.user.id).then(setIsAdmin);
+          checkStaffRoles(session.user.id).then((staffRoles) => {
+            setIsAdmin(staffRoles.isAdmin);
+            setIsModerator(staffRoles.isModerator);
+          });
           setIsLoading(false);
         });
       } else {
@@ -150,6 +161,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     await supabase.auth.signOut();
     setProfile(null);
     setIsAdmin(false);
+    setIsModerator(false);
   };
 
   const updateProfile = async (updates: Partial<Profile>) => {
@@ -175,6 +187,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         profile,
         isLoading,
         isAdmin,
+        isModerator,
         signUp,
         signIn,
         signOut,
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { toast } from "sonner";
+
+export interface BlockedUser {
+  id: string;
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+  blocked_at: string;
+}
+
+// Pass loadEntries to fetch the blocked-accounts list (e.g. for settings);
+// profile menus only need the mutations.
+export const useBlocks = (loadEntries: boolean = false) => {
+  const { user } = useAuth();
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
+  const [isLoading, setIsLoading] = useState(loadEntries);
+
+  const fetchBlockedUsers = useCallback(async () => {
+    if (!user || !loadEntries) return;
+
+    setIsLoading(true);
+
+    const { data, error } = await supabase.rpc("get_blocked_users");
+
+    if (error) {
+      console.error("Error fetching blocked users:", error);
+      setIsLoading(false);
+      return;
+    }
+
+    setBlockedUsers(data || []);
+    setIsLoading(false);
+  }, [user, loadEntries]);
+
+  useEffect(() => {
+    fetchBlockedUsers();
+  }, [fetchBlockedUsers]);
+
+  const blockUser = async (userId: string): Promise<boolean> => {
+    if (!user || userId === user.id) return false;
+
+    const { error } = await supabase.from("blocks").insert({
+      blocker_id: user.id,
+      blocked_id: userId,
+    });
+
+    // 23505: already blocked
+    if (error && error.code !== "23505") {
+      console.error("Error blocking user:", error);
+      toast.error("Erro ao bloquear usuário");
+      return false;
+    }
+
+    toast.success("Usuário bloqueado");
+    fetchBlockedUsers();
+    return true;
+  };
+
+  const unblockUser = async (userId: string): Promise<boolean> => {
+    if (!user) return false;
+
+    const { error } = await supabase
+      .from("blocks")
+      .delete()
+      .eq("blocker_id", user.id)
+      .eq("blocked_id", userId);
+
+    if (error) {
+      console.error("Error unblocking user:", error);
+      toast.error("Erro ao desbloquear usuário");
+      return false;
+    }
+
+    setBlockedUsers((prev) => prev.filter((u) => u.id !== userId));
+    return true;
+  };
+
+  return {
+    blockedUsers,
+    isLoading,
+    blockUser,
+    unblockUser,
+    refresh: fetchBlockedUsers,
+  };
+};
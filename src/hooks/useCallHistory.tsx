@@ -0,0 +1,92 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { getRecordingChunkPath } from "@/lib/callRecording";
+import type { CallHistoryEntry, CallRecording, CallStatus, CallType } from "@/types/calls";
+
+// Calls in a conversation, newest first, with any recordings made during them
+export const useCallHistory = (conversationId: string | null, enabled: boolean = true) => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<CallHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchHistory = useCallback(async () => {
+    if (!user || !conversationId || !enabled) return;
+
+    setIsLoading(true);
+
+    const { data, error } = await supabase
+      .from("call_sessions")
+      .select(`
+        *,
+        caller:profiles!call_sessions_caller_id_fkey(display_name, avatar_url),
+        callee:profiles!call_sessions_callee_id_fkey(display_name, avatar_url),
+        call_recordings(*)
+      `)
+      .eq("conversation_id", conversationId)
+      .order("created_at", { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error("Error fetching call history:", error);
+      setIsLoading(false);
+      return;
+    }
+
+    setEntries(
+      (data || []).map((row) => ({
+        id: row.id,
+        conversation_id: row.conversation_id,
+        caller_id: row.caller_id,
+        callee_id: row.callee_id,
+        call_type: row.call_type as CallType,
+        status: row.status as CallStatus,
+        started_at: row.started_at,
+        ended_at: row.ended_at,
+        duration_seconds: row.duration_seconds,
+        created_at: row.created_at,
+        caller_display_name: row.caller?.display_name ?? null,
+        caller_avatar_url: row.caller?.avatar_url ?? null,
+        callee_display_name: row.callee?.display_name ?? null,
+        callee_avatar_url: row.callee?.avatar_url ?? null,
+        is_group: row.is_group,
+        recordings: ((row.call_recordings || []) as CallRecording[])
+          .filter((r) => r.status === "completed")
+          .sort((a, b) => new Date(a.started_at).getTime() - new Date(b.started_at).getTime()),
+      }))
+    );
+    setIsLoading(false);
+  }, [user, conversationId, enabled]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  // Download every chunk in order and stitch them back into one playable file
+  const loadRecording = async (recording: CallRecording): Promise<string | null> => {
+    const bucket = supabase.storage.from("call-recordings");
+    const chunks: Blob[] = [];
+
+    for (let index = 0; index < recording.chunk_count; index++) {
+      const { data, error } = await bucket.download(
+        getRecordingChunkPath(recording.call_id, recording.id, index)
+      );
+
+      if (error || !data) {
+        console.error("Error downloading recording chunk:", error);
+        return null;
+      }
+
+      chunks.push(data);
+    }
+
+    return URL.createObjectURL(new Blob(chunks, { type: recording.mime_type }));
+  };
+
+  return {
+    entries,
+    isLoading,
+    loadRecording,
+    refetch: fetchHistory,
+  };
+};
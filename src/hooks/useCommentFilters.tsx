@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { toast } from "sonner";
+
+export interface CommentFilter {
+  id: string;
+  keyword: string;
+  created_at: string;
+}
+
+// Keywords that auto-hide comments on the user's posts (see apply_comment_filters)
+export const useCommentFilters = (enabled: boolean = true) => {
+  const { user } = useAuth();
+  const [filters, setFilters] = useState<CommentFilter[]>([]);
+  const [isLoading, setIsLoading] = useState(enabled);
+
+  const fetchFilters = useCallback(async () => {
+    if (!user || !enabled) return;
+
+    setIsLoading(true);
+
+    const { data, error } = await supabase
+      .from("comment_keyword_filters")
+      .select("id, keyword, created_at")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching comment filters:", error);
+      setIsLoading(false);
+      return;
+    }
+
+    setFilters(data || []);
+    setIsLoading(false);
+  }, [user, enabled]);
+
+  useEffect(() => {
+    fetchFilters();
+  }, [fetchFilters]);
+
+  const addFilter = async (keyword: string): Promise<boolean> => {
+    if (!user) return false;
+
+    const trimmed = keyword.trim();
+    if (!trimmed) return false;
+
+    const { data, error } = await supabase
+      .from("comment_keyword_filters")
+      .insert({ user_id: user.id, keyword: trimmed })
+      .select("id, keyword, created_at")
+      .single();
+
+    // 23505: the keyword is already on the list
+    if (error) {
+      if (error.code === "23505") {
+        toast.info("Essa palavra já está no filtro");
+      } else {
+        console.error("Error adding comment filter:", error);
+        toast.error("Erro ao adicionar palavra");
+      }
+      return false;
+    }
+
+    setFilters((prev) => [data, ...prev]);
+    return true;
+  };
+
+  const removeFilter = async (filterId: string): Promise<boolean> => {
+    if (!user) return false;
+
+    const { error } = await supabase
+      .from("comment_keyword_filters")
+      .delete()
+      .eq("id", filterId)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error removing comment filter:", error);
+      toast.error("Erro ao remover palavra");
+      return false;
+    }
+
+    setFilters((prev) => prev.filter((f) => f.id !== filterId));
+    return true;
+  };
+
+  return {
+    filters,
+    isLoading,
+    addFilter,
+    removeFilter,
+    refresh: fetchFilters,
+  };
+};
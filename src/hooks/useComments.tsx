@@ -1,13 +1,19 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
 import { useAuth } from "./useAuth";
+import { toast } from "sonner";
 
-interface Comment {
+export interface Comment {
   id: string;
   post_id: string;
   user_id: string;
   content: string;
+  // Stored by the set_mentions trigger; read with toMentionRefs
+  mentions: Json;
   parent_id: string | null;
+  // Hidden by the post author or their keyword filter; only they and the commenter see it
+  hidden_by_author: boolean;
   likes_count: number;
   created_at: string;
   user: {
@@ -18,26 +24,75 @@ interface Comment {
     verification_type: string;
   } | null;
   is_liked?: boolean;
+  // Top-level comments only: every reply in the thread, oldest first
   replies?: Comment[];
 }
 
+interface CommentsPost {
+  creator_id: string;
+  pinned_comment_id: string | null;
+  comments_disabled: boolean;
+}
+
+// Groups replies under their top-level comment, however deep they were nested;
+// parent_id still says which comment each reply answers. The pinned comment goes first
+const buildThreads = (all: Comment[], pinnedCommentId: string | null) => {
+  const byId = new Map(all.map((c) => [c.id, c]));
+
+  const rootOf = (comment: Comment) => {
+    let current = comment;
+    const seen = new Set<string>();
+    while (current.parent_id && byId.has(current.parent_id) && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = byId.get(current.parent_id) as Comment;
+    }
+    return current;
+  };
+
+  const threads = new Map<string, Comment[]>();
+  all.forEach((comment) => {
+    const root = rootOf(comment);
+    if (root.id === comment.id) return;
+    threads.set(root.id, [...(threads.get(root.id) || []), comment]);
+  });
+
+  const topLevel = all
+    .filter((c) => !c.parent_id || !byId.has(c.parent_id))
+    .map((c) => ({ ...c, replies: threads.get(c.id) || [] }))
+    .reverse();
+
+  return [
+    ...topLevel.filter((c) => c.id === pinnedCommentId),
+    ...topLevel.filter((c) => c.id !== pinnedCommentId),
+  ];
+};
+
 export const useComments = (postId: string) => {
   const { user } = useAuth();
   const [comments, setComments] = useState<Comment[]>([]);
+  const [post, setPost] = useState<CommentsPost | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   const fetchComments = useCallback(async () => {
     setIsLoading(true);
 
-    const { data, error } = await supabase
-      .from("comments")
-      .select(`
-        *,
-        user:profiles!comments_user_id_fkey(username, display_name, avatar_url, is_verified, verification_type)
-      `)
-      .eq("post_id", postId)
-      .is("parent_id", null)
-      .order("created_at", { ascending: false });
+    // The whole post's comments in one go; threads are assembled below.
+    // RLS leaves out comments the author hid, except for the author and the commenter
+    const [{ data, error }, { data: postData }] = await Promise.all([
+      supabase
+        .from("comments")
+        .select(`
+          *,
+          user:profiles!comments_user_id_fkey(username, display_name, avatar_url, is_verified, verification_type)
+        `)
+        .eq("post_id", postId)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("posts")
+        .select("creator_id, pinned_comment_id, comments_disabled")
+        .eq("id", postId)
+        .single(),
+    ]);
 
     if (error) {
       console.error("Error fetching comments:", error);
@@ -45,42 +100,24 @@ export const useComments = (postId: string) => {
       return;
     }
 
+    let likedCommentIds = new Set<string>();
+
     // Check if user has liked each comment
-    if (user && data) {
-      const commentIds = data.map((c) => c.id);
+    if (user && data && data.length > 0) {
       const { data: likes } = await supabase
         .from("comment_likes")
         .select("comment_id")
         .eq("user_id", user.id)
-        .in("comment_id", commentIds);
-
-      const likedCommentIds = new Set(likes?.map((l) => l.comment_id) || []);
+        .in("comment_id", data.map((c) => c.id));
 
-      data.forEach((comment: any) => {
-        comment.is_liked = likedCommentIds.has(comment.id);
-      });
+      likedCommentIds = new Set(likes?.map((l) => l.comment_id) || []);
     }
 
-    // Fetch replies for each comment
-    const commentsWithReplies = await Promise.all(
-      (data || []).map(async (comment: any) => {
-        const { data: replies } = await supabase
-          .from("comments")
-          .select(`
-            *,
-            user:profiles!comments_user_id_fkey(username, display_name, avatar_url, is_verified, verification_type)
-          `)
-          .eq("parent_id", comment.id)
-          .order("created_at", { ascending: true });
-
-        return {
-          ...comment,
-          replies: replies || [],
-        };
-      })
-    );
-
-    setComments(commentsWithReplies);
+    setPost(postData);
+    setComments(buildThreads(
+      (data || []).map((comment) => ({ ...comment, is_liked: likedCommentIds.has(comment.id) })),
+      postData?.pinned_comment_id || null
+    ));
     setIsLoading(false);
   }, [postId, user]);
 
@@ -102,6 +139,19 @@ export const useComments = (postId: string) => {
           fetchComments();
         }
       )
+      // Pinning and turning comments off change the post row
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "posts",
+          filter: `id=eq.${postId}`,
+        },
+        () => {
+          fetchComments();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -109,6 +159,9 @@ export const useComments = (postId: string) => {
     };
   }, [postId, fetchComments]);
 
+  const findComment = (commentId: string) =>
+    comments.flatMap((c) => [c, ...(c.replies || [])]).find((c) => c.id === commentId);
+
   const addComment = async (content: string, parentId?: string) => {
     if (!user) return { error: new Error("Not authenticated") };
 
@@ -123,32 +176,14 @@ export const useComments = (postId: string) => {
       .select()
       .single();
 
-    if (!error && data) {
-      // Increment comments_count on post
-      const { data: postData } = await supabase
-        .from("posts")
-        .select("comments_count, creator_id")
-        .eq("id", postId)
-        .single();
-
-      if (postData) {
-        await supabase
-          .from("posts")
-          .update({ comments_count: (postData.comments_count || 0) + 1 })
-          .eq("id", postId);
-
-        // Create notification if not own post
-        if (postData.creator_id !== user.id) {
-          await supabase.from("notifications").insert({
-            user_id: postData.creator_id,
-            type: "comment",
-            from_user_id: user.id,
-            post_id: postId,
-            comment_id: data.id,
-          });
-        }
-      }
+    // RLS refuses comments on posts of someone you're blocked with, or with comments turned off
+    if (error) {
+      console.error("Error adding comment:", error);
+      toast.error("Não foi possível comentar nesta publicação");
+    }
 
+    // Notifications (notify_new_comment) and comments_count are handled by triggers
+    if (!error) {
       fetchComments();
     }
 
@@ -158,7 +193,7 @@ export const useComments = (postId: string) => {
   const likeComment = async (commentId: string) => {
     if (!user) return;
 
-    const comment = comments.find((c) => c.id === commentId);
+    const comment = findComment(commentId);
     if (!comment) return;
 
     if (comment.is_liked) {
@@ -177,32 +212,59 @@ export const useComments = (postId: string) => {
     fetchComments();
   };
 
+  // RLS lets both the commenter and the post author delete
   const deleteComment = async (commentId: string) => {
     if (!user) return;
 
     const { error } = await supabase
       .from("comments")
       .delete()
-      .eq("id", commentId)
-      .eq("user_id", user.id);
+      .eq("id", commentId);
 
-    if (!error) {
-      // Decrement comments_count on post
-      const { data: postData } = await supabase
-        .from("posts")
-        .select("comments_count")
-        .eq("id", postId)
-        .single();
+    // Replies go with it through the parent_id cascade; comments_count is kept by a trigger
+    if (error) {
+      console.error("Error deleting comment:", error);
+      toast.error("Erro ao excluir comentário");
+      return;
+    }
 
-      if (postData) {
-        await supabase
-          .from("posts")
-          .update({ comments_count: Math.max(0, (postData.comments_count || 1) - 1) })
-          .eq("id", postId);
-      }
+    fetchComments();
+  };
 
-      fetchComments();
+  const hideComment = async (commentId: string, hidden: boolean) => {
+    if (!user) return;
+
+    const { data, error } = await supabase.rpc("set_comment_hidden", {
+      p_comment_id: commentId,
+      p_hidden: hidden,
+    });
+
+    if (error || !data) {
+      console.error("Error hiding comment:", error);
+      toast.error("Erro ao atualizar comentário");
+      return;
+    }
+
+    toast.success(hidden ? "Comentário oculto" : "Comentário visível novamente");
+    fetchComments();
+  };
+
+  // Pass null to unpin
+  const pinComment = async (commentId: string | null) => {
+    if (!user) return;
+
+    const { data, error } = await supabase.rpc("set_pinned_comment", {
+      p_post_id: postId,
+      p_comment_id: commentId,
+    });
+
+    if (error || !data) {
+      console.error("Error pinning comment:", error);
+      toast.error("Erro ao fixar comentário");
+      return;
     }
+
+    fetchComments();
   };
 
   return {
@@ -211,6 +273,11 @@ export const useComments = (postId: string) => {
     addComment,
     likeComment,
     deleteComment,
+    hideComment,
+    pinComment,
+    isPostAuthor: !!user && post?.creator_id === user.id,
+    pinnedCommentId: post?.pinned_comment_id || null,
+    commentsDisabled: post?.comments_disabled ?? false,
     refresh: fetchComments,
   };
 };
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
 import { useAuth } from "./useAuth";
 
 interface FeedPost {
@@ -8,7 +9,9 @@ interface FeedPost {
   content_url: string | null;
   content_type: "video" | "image" | "text";
   description: string | null;
+  mentions: Json;
   tags: string[] | null;
+  comments_disabled: boolean;
   likes_count: number;
   comments_count: number;
   shares_count: number;
@@ -131,20 +134,11 @@ export const useFeed = (limit: number = 20) => {
           user_id: user.id,
         });
 
+        // The creator's notification comes from the notify_post_like trigger
         await supabase
           .from("posts")
           .update({ likes_count: post.likes_count + 1 })
           .eq("id", postId);
-
-        // Create notification if not own post
-        if (post.creator_id !== user.id) {
-          await supabase.from("notifications").insert({
-            user_id: post.creator_id,
-            type: "like",
-            from_user_id: user.id,
-            post_id: postId,
-          });
-        }
       }
     } catch (error) {
       console.error("Error toggling like:", error);
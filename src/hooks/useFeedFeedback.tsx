@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { normalizeTag } from "@/lib/hashtags";
+import { toast } from "sonner";
+
+export type FeedFeedbackType = "post" | "creator" | "tag";
+
+export interface FeedFeedbackEntry {
+  id: string;
+  feedback_type: FeedFeedbackType;
+  post_id: string | null;
+  creator_id: string | null;
+  tag: string | null;
+  created_at: string;
+  post: {
+    id: string;
+    content_url: string | null;
+    description: string | null;
+  } | null;
+  creator: {
+    username: string | null;
+    display_name: string | null;
+    avatar_url: string | null;
+  } | null;
+}
+
+// Pass loadEntries to fetch the user's hides (e.g. for the settings list);
+// option sheets only need the mutations.
+export const useFeedFeedback = (loadEntries: boolean = false) => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<FeedFeedbackEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(loadEntries);
+
+  const fetchEntries = useCallback(async () => {
+    if (!user || !loadEntries) return;
+
+    setIsLoading(true);
+
+    const { data, error } = await supabase
+      .from("feed_feedback")
+      .select(`
+        *,
+        post:posts(id, content_url, description),
+        creator:profiles!feed_feedback_creator_id_fkey(username, display_name, avatar_url)
+      `)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching feed feedback:", error);
+      setIsLoading(false);
+      return;
+    }
+
+    setEntries((data || []) as unknown as FeedFeedbackEntry[]);
+    setIsLoading(false);
+  }, [user, loadEntries]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const addFeedback = async (
+    feedbackType: FeedFeedbackType,
+    target: { postId?: string; creatorId?: string; tag?: string }
+  ): Promise<boolean> => {
+    if (!user) {
+      toast.error("Faça login para personalizar seu feed");
+      return false;
+    }
+
+    const { error } = await supabase.from("feed_feedback").insert({
+      user_id: user.id,
+      feedback_type: feedbackType,
+      post_id: feedbackType === "post" ? target.postId : null,
+      creator_id: feedbackType === "creator" ? target.creatorId : null,
+      tag: feedbackType === "tag" && target.tag ? normalizeTag(target.tag) : null,
+    });
+
+    // 23505: already hidden, which is what the user asked for anyway
+    if (error && error.code !== "23505") {
+      console.error("Error saving feed feedback:", error);
+      toast.error("Erro ao salvar preferência");
+      return false;
+    }
+
+    toast.success("Preferência salva. Você verá menos conteúdos assim.");
+    fetchEntries();
+    return true;
+  };
+
+  const removeFeedback = async (entryId: string): Promise<boolean> => {
+    if (!user) return false;
+
+    const { error } = await supabase
+      .from("feed_feedback")
+      .delete()
+      .eq("id", entryId)
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error removing feed feedback:", error);
+      toast.error("Erro ao desfazer");
+      return false;
+    }
+
+    setEntries((prev) => prev.filter((e) => e.id !== entryId));
+    return true;
+  };
+
+  return {
+    entries,
+    isLoading,
+    hidePost: (postId: string) => addFeedback("post", { postId }),
+    hideCreator: (creatorId: string) => addFeedback("creator", { creatorId }),
+    hideTag: (tag: string) => addFeedback("tag", { tag }),
+    removeFeedback,
+    refresh: fetchEntries,
+  };
+};
@@ -1,10 +1,13 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "./useAuth";
+import { toast } from "sonner";
 
 export const useFollow = (targetUserId?: string) => {
   const { user } = useAuth();
   const [isFollowing, setIsFollowing] = useState(false);
+  // Waiting for a private account to approve
+  const [isRequested, setIsRequested] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [followersCount, setFollowersCount] = useState(0);
   const [followingCount, setFollowingCount] = useState(0);
@@ -14,12 +17,13 @@ export const useFollow = (targetUserId?: string) => {
 
     const { data } = await supabase
       .from("follows")
-      .select("id")
+      .select("status")
       .eq("follower_id", user.id)
       .eq("following_id", targetUserId)
       .maybeSingle();
 
-    setIsFollowing(!!data);
+    setIsFollowing(data?.status === "accepted");
+    setIsRequested(data?.status === "pending");
   }, [user, targetUserId]);
 
   const fetchCounts = useCallback(async () => {
@@ -29,11 +33,13 @@ export const useFollow = (targetUserId?: string) => {
       supabase
         .from("follows")
         .select("*", { count: "exact", head: true })
-        .eq("following_id", targetUserId),
+        .eq("following_id", targetUserId)
+        .eq("status", "accepted"),
       supabase
         .from("follows")
         .select("*", { count: "exact", head: true })
-        .eq("follower_id", targetUserId),
+        .eq("follower_id", targetUserId)
+        .eq("status", "accepted"),
     ]);
 
     setFollowersCount(followers || 0);
@@ -51,51 +57,49 @@ export const useFollow = (targetUserId?: string) => {
     setIsLoading(true);
 
     try {
-      if (isFollowing) {
-        // Unfollow
+      if (isRequested) {
+        // Cancel the pending request; it never touched the counts,
+        // and the notify_follow trigger takes the request notification back
         await supabase
           .from("follows")
           .delete()
           .eq("follower_id", user.id)
           .eq("following_id", targetUserId);
 
-        // Update counts
+        setIsRequested(false);
+      } else if (isFollowing) {
+        // Unfollow; the profile counters are kept by the update_follow_counts trigger
         await supabase
-          .from("profiles")
-          .update({ following_count: Math.max(0, followingCount - 1) })
-          .eq("id", user.id);
-
-        await supabase
-          .from("profiles")
-          .update({ followers_count: Math.max(0, followersCount - 1) })
-          .eq("id", targetUserId);
+          .from("follows")
+          .delete()
+          .eq("follower_id", user.id)
+          .eq("following_id", targetUserId);
 
         setIsFollowing(false);
         setFollowersCount((prev) => Math.max(0, prev - 1));
       } else {
-        // Follow
-        await supabase.from("follows").insert({
-          follower_id: user.id,
-          following_id: targetUserId,
-        });
-
-        // Update counts
-        await supabase
-          .from("profiles")
-          .update({ following_count: followingCount + 1 })
-          .eq("id", user.id);
-
-        await supabase
-          .from("profiles")
-          .update({ followers_count: followersCount + 1 })
-          .eq("id", targetUserId);
-
-        // Create notification
-        await supabase.from("notifications").insert({
-          user_id: targetUserId,
-          type: "follow",
-          from_user_id: user.id,
-        });
+        // Follow; RLS refuses it when either side blocked the other,
+        // and private accounts get it as a pending request.
+        // Either way the notify_follow trigger notifies them
+        const { data: follow, error: followError } = await supabase
+          .from("follows")
+          .insert({
+            follower_id: user.id,
+            following_id: targetUserId,
+          })
+          .select("status")
+          .single();
+
+        if (followError) {
+          console.error("Error following user:", followError);
+          toast.error("Não foi possível seguir este usuário");
+          return;
+        }
+
+        if (follow.status === "pending") {
+          setIsRequested(true);
+          return;
+        }
 
         setIsFollowing(true);
         setFollowersCount((prev) => prev + 1);
@@ -109,6 +113,7 @@ export const useFollow = (targetUserId?: string) => {
 
   return {
     isFollowing,
+    isRequested,
     isLoading,
     followersCount,
     followingCount,
@@ -25,7 +25,8 @@ export const useFollowersList = (userId?: string) => {
       const { data: followsData } = await supabase
         .from("follows")
         .select("follower_id")
-        .eq("following_id", userId);
+        .eq("following_id", userId)
+        .eq("status", "accepted");
 
       if (!followsData || followsData.length === 0) {
         setFollowers([]);
@@ -57,7 +58,8 @@ export const useFollowersList = (userId?: string) => {
       const { data: followsData } = await supabase
         .from("follows")
         .select("following_id")
-        .eq("follower_id", userId);
+        .eq("follower_id", userId)
+        .eq("status", "accepted");
 
       if (!followsData || followsData.length === 0) {
         setFollowing([]);
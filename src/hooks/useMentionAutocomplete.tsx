@@ -0,0 +1,53 @@
+import { useState, useEffect, type ChangeEvent, type KeyboardEvent } from "react";
+import { useSearch } from "./useSearch";
+import { getActiveMention, insertMention, type ActiveMention } from "@/lib/mentions";
+
+// Wires @username suggestions into a controlled input or textarea:
+// pass its value and setter, then use handleChange/handleKeyDown on the field.
+export const useMentionAutocomplete = (value: string, onChange: (value: string) => void) => {
+  const { users, searchUsers } = useSearch();
+  const [activeMention, setActiveMention] = useState<ActiveMention | null>(null);
+
+  const query = activeMention?.query || "";
+
+  useEffect(() => {
+    if (!query) return;
+
+    const timeout = setTimeout(() => searchUsers(query), 200);
+    return () => clearTimeout(timeout);
+  }, [query, searchUsers]);
+
+  const suggestions = query ? users.filter((u) => !!u.username) : [];
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const next = e.target.value;
+    onChange(next);
+    setActiveMention(getActiveMention(next, e.target.selectionStart ?? next.length));
+  };
+
+  const selectMention = (username: string) => {
+    if (!activeMention) return;
+    onChange(insertMention(value, activeMention, username));
+    setActiveMention(null);
+  };
+
+  // Enter/Tab pick the first suggestion instead of sending; Escape closes the list
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+
+    if ((e.key === "Enter" && !e.shiftKey) || e.key === "Tab") {
+      e.preventDefault();
+      selectMention(suggestions[0].username as string);
+    } else if (e.key === "Escape") {
+      setActiveMention(null);
+    }
+  };
+
+  return {
+    suggestions,
+    handleChange,
+    handleKeyDown,
+    selectMention,
+    closeSuggestions: () => setActiveMention(null),
+  };
+};
@@ -0,0 +1,57 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+// Current username per mentioned user id, shared by every mention on screen.
+// null means the profile is gone or hidden from us (e.g. blocked).
+const usernameCache = new Map<string, string | null>();
+const inFlight = new Map<string, Promise<void>>();
+
+const loadUsernames = (userIds: string[]) => {
+  const missing = userIds.filter((id) => !usernameCache.has(id) && !inFlight.has(id));
+
+  if (missing.length > 0) {
+    const request = (async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, username")
+        .in("id", missing);
+
+      if (error) {
+        console.error("Error fetching mentioned users:", error);
+      } else {
+        missing.forEach((id) => usernameCache.set(id, null));
+        data?.forEach((p) => usernameCache.set(p.id, p.username));
+      }
+      missing.forEach((id) => inFlight.delete(id));
+    })();
+
+    missing.forEach((id) => inFlight.set(id, request));
+  }
+
+  return Promise.all(userIds.map((id) => inFlight.get(id)).filter(Boolean));
+};
+
+const readCache = (userIds: string[]) =>
+  Object.fromEntries(userIds.map((id) => [id, usernameCache.get(id) ?? null]));
+
+export const useMentionUsernames = (userIds: string[]) => {
+  const key = [...new Set(userIds)].sort().join(",");
+  const [usernames, setUsernames] = useState<Record<string, string | null>>(() =>
+    readCache(key ? key.split(",") : [])
+  );
+
+  useEffect(() => {
+    const ids = key ? key.split(",") : [];
+    let cancelled = false;
+
+    loadUsernames(ids).then(() => {
+      if (!cancelled) setUsernames(readCache(ids));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return usernames;
+};
@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { toast } from "sonner";
+import type { ReportTargetType } from "./useReports";
+
+export type ReportStatus = "pending" | "reviewing" | "dismissed" | "actioned";
+export type ModerationAction = "triage" | "dismiss" | "hide_content" | "suspend_author";
+
+interface ReportProfile {
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+}
+
+export interface ModerationReport {
+  id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  target_owner_id: string | null;
+  target_preview: string | null;
+  reason: string;
+  details: string | null;
+  status: ReportStatus;
+  created_at: string;
+  reviewed_at: string | null;
+  reporter: ReportProfile | null;
+  target_owner: (ReportProfile & { suspended_until: string | null }) | null;
+}
+
+export interface ModerationLogEntry {
+  id: string;
+  report_id: string | null;
+  action: ModerationAction;
+  target_type: ReportTargetType;
+  target_id: string;
+  note: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+  moderator: ReportProfile | null;
+  target_owner: ReportProfile | null;
+}
+
+export const useModerationQueue = (statuses: ReportStatus[]) => {
+  const { user, isAdmin, isModerator } = useAuth();
+  const canModerate = isAdmin || isModerator;
+  const [reports, setReports] = useState<ModerationReport[]>([]);
+  const [auditLog, setAuditLog] = useState<ModerationLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isActing, setIsActing] = useState(false);
+
+  const statusKey = statuses.join(",");
+
+  const fetchQueue = useCallback(async () => {
+    if (!user || !canModerate) return;
+
+    setIsLoading(true);
+
+    const [reportsResult, logResult] = await Promise.all([
+      supabase
+        .from("reports")
+        .select(`
+          *,
+          reporter:profiles!reports_reporter_id_fkey(username, display_name, avatar_url),
+          target_owner:profiles!reports_target_owner_id_fkey(username, display_name, avatar_url, suspended_until)
+        `)
+        .in("status", statusKey.split(","))
+        .order("created_at", { ascending: true })
+        .limit(100),
+      supabase
+        .from("moderation_actions")
+        .select(`
+          *,
+          moderator:profiles!moderation_actions_moderator_id_fkey(username, display_name, avatar_url),
+          target_owner:profiles!moderation_actions_target_owner_id_fkey(username, display_name, avatar_url)
+        `)
+        .order("created_at", { ascending: false })
+        .limit(50),
+    ]);
+
+    if (reportsResult.error) {
+      console.error("Error fetching reports:", reportsResult.error);
+    } else {
+      setReports((reportsResult.data || []) as unknown as ModerationReport[]);
+    }
+
+    if (logResult.error) {
+      console.error("Error fetching moderation log:", logResult.error);
+    } else {
+      setAuditLog((logResult.data || []) as unknown as ModerationLogEntry[]);
+    }
+
+    setIsLoading(false);
+  }, [user, canModerate, statusKey]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const moderate = async (
+    reportId: string,
+    action: ModerationAction,
+    options: { note?: string; suspendDays?: number } = {}
+  ): Promise<boolean> => {
+    if (!canModerate) return false;
+
+    setIsActing(true);
+    try {
+      const { error } = await supabase.rpc("moderate_report", {
+        p_report_id: reportId,
+        p_action: action,
+        p_note: options.note || null,
+        p_suspend_days: options.suspendDays ?? 7,
+      });
+
+      if (error) {
+        console.error("Error moderating report:", error);
+        toast.error("Erro ao aplicar ação de moderação");
+        return false;
+      }
+
+      toast.success("Ação registrada");
+      await fetchQueue();
+      return true;
+    } catch (error) {
+      console.error("Error moderating report:", error);
+      toast.error("Erro ao aplicar ação de moderação");
+      return false;
+    } finally {
+      setIsActing(false);
+    }
+  };
+
+  return {
+    reports,
+    auditLog,
+    isLoading,
+    isActing,
+    moderate,
+    refresh: fetchQueue,
+  };
+};
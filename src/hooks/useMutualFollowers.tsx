@@ -27,7 +27,8 @@ export const useMutualFollowers = (targetUserId?: string) => {
       const { data: myFollowing } = await supabase
         .from("follows")
         .select("following_id")
-        .eq("follower_id", user.id);
+        .eq("follower_id", user.id)
+        .eq("status", "accepted");
 
       if (!myFollowing || myFollowing.length === 0) {
         setMutualFollowers([]);
@@ -42,6 +43,7 @@ export const useMutualFollowers = (targetUserId?: string) => {
         .from("follows")
         .select("follower_id")
         .eq("following_id", targetUserId)
+        .eq("status", "accepted")
         .in("follower_id", myFollowingIds);
 
       if (!targetFollowers || targetFollowers.length === 0) {
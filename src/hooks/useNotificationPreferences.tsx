@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { useAuth } from "./useAuth";
+import { toast } from "sonner";
+
+export type NotificationPreferences = Omit<Tables<"notification_preferences">, "user_id" | "updated_at">;
+
+export type NotificationPreferenceCategory = "likes" | "comments" | "follows" | "mentions" | "messages";
+
+// Same as the column defaults: users without a row get every notification
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  likes_enabled: true,
+  likes_followers_only: false,
+  comments_enabled: true,
+  comments_followers_only: false,
+  follows_enabled: true,
+  follows_followers_only: false,
+  mentions_enabled: true,
+  mentions_followers_only: false,
+  messages_enabled: true,
+  messages_followers_only: false,
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  timezone: "America/Sao_Paulo",
+};
+
+// Applied by the server when notifications are created (see apply_notification_preferences)
+export const useNotificationPreferences = (enabled: boolean = true) => {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_PREFERENCES);
+  const [isLoading, setIsLoading] = useState(enabled);
+
+  const fetchPreferences = useCallback(async () => {
+    if (!user || !enabled) return;
+
+    setIsLoading(true);
+
+    const { data, error } = await supabase
+      .from("notification_preferences")
+      .select("*")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching notification preferences:", error);
+      setIsLoading(false);
+      return;
+    }
+
+    if (data) {
+      const { user_id: _userId, updated_at: _updatedAt, ...prefs } = data;
+      setPreferences(prefs);
+    }
+    setIsLoading(false);
+  }, [user, enabled]);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [fetchPreferences]);
+
+  const updatePreferences = async (changes: TablesUpdate<"notification_preferences">): Promise<boolean> => {
+    if (!user) return false;
+
+    const previous = preferences;
+    // Quiet hours are read in the device's time zone
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone || previous.timezone;
+    const next = { ...previous, ...changes, timezone };
+    setPreferences(next);
+
+    const { error } = await supabase
+      .from("notification_preferences")
+      .upsert({ ...next, user_id: user.id });
+
+    if (error) {
+      console.error("Error updating notification preferences:", error);
+      toast.error("Erro ao salvar preferências");
+      setPreferences(previous);
+      return false;
+    }
+
+    return true;
+  };
+
+  return {
+    preferences,
+    isLoading,
+    updatePreferences,
+    refresh: fetchPreferences,
+  };
+};
@@ -1,61 +1,130 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "./useAuth";
+import { toast } from "sonner";
 
-interface Notification {
+const PAGE_SIZE = 20;
+
+export type NotificationType =
+  | "like"
+  | "comment"
+  | "reply"
+  | "follow"
+  | "follow_request"
+  | "follow_accepted"
+  | "mention"
+  | "message";
+
+export interface NotificationActor {
   id: string;
-  user_id: string;
-  type: "like" | "comment" | "follow" | "mention" | "message";
-  from_user_id: string | null;
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+}
+
+// Likes, comments and follows on the same post arrive as one group while each comes
+// within a day of the previous one; every other type is a group of one
+export interface NotificationGroup {
+  group_key: string;
+  type: NotificationType;
   post_id: string | null;
   comment_id: string | null;
+  latest_id: string;
+  notification_ids: string[];
+  actor_count: number;
+  actors: NotificationActor[];
   is_read: boolean;
-  created_at: string;
-  from_user?: {
-    username: string | null;
-    display_name: string | null;
-    avatar_url: string | null;
-  } | null;
+  latest_at: string;
 }
 
 export const useNotifications = () => {
   const { user } = useAuth();
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [groups, setGroups] = useState<NotificationGroup[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
 
-  const fetchNotifications = useCallback(async () => {
+  const fetchUnreadCount = useCallback(async () => {
     if (!user) return;
 
-    setIsLoading(true);
+    const { data, error } = await supabase.rpc("get_unread_notification_groups_count");
 
-    const { data, error } = await supabase
-      .from("notifications")
-      .select(`
-        *,
-        from_user:profiles!notifications_from_user_id_fkey(username, display_name, avatar_url)
-      `)
-      .eq("user_id", user.id)
-      .order("created_at", { ascending: false })
-      .limit(50);
+    if (error) {
+      console.error("Error fetching unread notifications count:", error);
+      return;
+    }
+
+    setUnreadCount(data || 0);
+  }, [user]);
+
+  const fetchPage = useCallback(async (before?: NotificationGroup) => {
+    const { data, error } = await supabase.rpc("get_notification_groups", {
+      p_limit: PAGE_SIZE,
+      p_before_at: before?.latest_at,
+      p_before_key: before?.group_key,
+    });
 
     if (error) {
       console.error("Error fetching notifications:", error);
-      setIsLoading(false);
-      return;
+      return null;
     }
 
-    setNotifications(data as Notification[]);
-    setUnreadCount(data?.filter((n) => !n.is_read).length || 0);
+    return (data || []).map((group) => ({
+      ...group,
+      type: group.type as NotificationType,
+      actors: (group.actors as unknown as NotificationActor[]) || [],
+    }));
+  }, []);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+
+    const [page] = await Promise.all([fetchPage(), fetchUnreadCount()]);
+
+    if (page) {
+      setGroups(page);
+      setHasMore(page.length === PAGE_SIZE);
+    }
     setIsLoading(false);
-  }, [user]);
+  }, [user, fetchPage, fetchUnreadCount]);
+
+  // New notifications land at the top or join a group already on screen: refetch the first
+  // page and keep whatever loadMore brought in below it
+  const refreshHead = useCallback(async () => {
+    if (!user) return;
+
+    const [page] = await Promise.all([fetchPage(), fetchUnreadCount()]);
+    if (!page) return;
+
+    if (page.length < PAGE_SIZE) {
+      setGroups(page);
+      setHasMore(false);
+      return;
+    }
+
+    const headKeys = new Set(page.map((g) => g.group_key));
+    const last = page[page.length - 1];
+    const lastAt = new Date(last.latest_at).getTime();
+
+    setGroups((prev) => [
+      ...page,
+      ...prev.filter((g) => {
+        if (headKeys.has(g.group_key)) return false;
+        const at = new Date(g.latest_at).getTime();
+        return at < lastAt || (at === lastAt && g.group_key < last.group_key);
+      }),
+    ]);
+    setHasMore(true);
+  }, [user, fetchPage, fetchUnreadCount]);
 
   useEffect(() => {
     fetchNotifications();
 
     if (!user) return;
 
-    // Subscribe to realtime updates
     const channel = supabase
       .channel(`notifications-${user.id}`)
       .on(
@@ -67,7 +136,7 @@ export const useNotifications = () => {
           filter: `user_id=eq.${user.id}`,
         },
         () => {
-          fetchNotifications();
+          refreshHead();
         }
       )
       .subscribe();
@@ -75,20 +144,34 @@ export const useNotifications = () => {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user, fetchNotifications]);
+  }, [user, fetchNotifications, refreshHead]);
 
-  const markAsRead = async (notificationId: string) => {
-    if (!user) return;
+  const loadMore = async () => {
+    if (!user || isLoadingMore || !hasMore || groups.length === 0) return;
+
+    setIsLoadingMore(true);
+
+    const page = await fetchPage(groups[groups.length - 1]);
+
+    if (page) {
+      setGroups((prev) => [...prev, ...page]);
+      setHasMore(page.length === PAGE_SIZE);
+    }
+    setIsLoadingMore(false);
+  };
+
+  const markAsRead = async (group: NotificationGroup) => {
+    if (!user || group.is_read) return;
 
     await supabase
       .from("notifications")
       .update({ is_read: true })
-      .eq("id", notificationId)
+      .in("id", group.notification_ids)
       .eq("user_id", user.id);
 
-    setNotifications((prev) =>
-      prev.map((n) =>
-        n.id === notificationId ? { ...n, is_read: true } : n
+    setGroups((prev) =>
+      prev.map((g) =>
+        g.group_key === group.group_key ? { ...g, is_read: true } : g
       )
     );
     setUnreadCount((prev) => Math.max(0, prev - 1));
@@ -103,36 +186,69 @@ export const useNotifications = () => {
       .eq("user_id", user.id)
       .eq("is_read", false);
 
-    setNotifications((prev) =>
-      prev.map((n) => ({ ...n, is_read: true }))
+    setGroups((prev) =>
+      prev.map((g) => ({ ...g, is_read: true }))
     );
     setUnreadCount(0);
   };
 
-  const deleteNotification = async (notificationId: string) => {
+  const deleteNotification = async (group: NotificationGroup) => {
     if (!user) return;
 
     await supabase
       .from("notifications")
       .delete()
-      .eq("id", notificationId)
+      .in("id", group.notification_ids)
       .eq("user_id", user.id);
 
-    const notification = notifications.find((n) => n.id === notificationId);
-    if (notification && !notification.is_read) {
+    if (!group.is_read) {
       setUnreadCount((prev) => Math.max(0, prev - 1));
     }
 
-    setNotifications((prev) => prev.filter((n) => n.id !== notificationId));
+    setGroups((prev) => prev.filter((g) => g.group_key !== group.group_key));
+  };
+
+  // Follow requests are never grouped, so the group's only actor is the requester.
+  // Either way the request notification is deleted; approving inserts a new "follow"
+  // notification, which may join an existing group, so the first page is fetched again
+  const respondToFollowRequest = async (group: NotificationGroup, approve: boolean): Promise<boolean> => {
+    const follower = group.actors[0];
+    if (!user || !follower) return false;
+
+    const { error } = await supabase.rpc("respond_to_follow_request", {
+      p_follower_id: follower.id,
+      p_approve: approve,
+    });
+
+    if (error) {
+      console.error("Error responding to follow request:", error);
+      toast.error("Não foi possível responder à solicitação");
+      return false;
+    }
+
+    if (!group.is_read) {
+      setUnreadCount((prev) => Math.max(0, prev - 1));
+    }
+
+    setGroups((prev) => prev.filter((g) => g.group_key !== group.group_key));
+
+    if (approve) {
+      await refreshHead();
+    }
+    return true;
   };
 
   return {
-    notifications,
+    groups,
     unreadCount,
     isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
     markAsRead,
     markAllAsRead,
     deleteNotification,
+    respondToFollowRequest,
     refresh: fetchNotifications,
   };
-};
\ No newline at end of file
+};
@@ -1,10 +1,12 @@
 import { useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "./useAuth";
+import { useReports } from "./useReports";
 import { toast } from "sonner";
 
 export const usePostActions = () => {
   const { user } = useAuth();
+  const { submitReport } = useReports();
   const [isLoading, setIsLoading] = useState(false);
 
   const deletePost = async (postId: string): Promise<boolean> => {
@@ -72,21 +74,45 @@ export const usePostActions = () => {
     }
   };
 
-  const reportPost = async (postId: string, reason: string): Promise<boolean> => {
+  const toggleComments = async (postId: string, currentlyDisabled: boolean): Promise<boolean> => {
     if (!user) {
-      toast.error("Faça login para denunciar");
+      toast.error("Faça login para alterar os comentários");
       return false;
     }
 
-    // For now, just show a success message
-    // In production, you would store reports in a separate table
-    toast.success("Denúncia enviada. Obrigado pelo feedback!");
-    return true;
+    setIsLoading(true);
+    try {
+      const { error } = await supabase
+        .from("posts")
+        .update({ comments_disabled: !currentlyDisabled })
+        .eq("id", postId)
+        .eq("creator_id", user.id);
+
+      if (error) {
+        console.error("Error toggling comments:", error);
+        toast.error("Erro ao alterar comentários");
+        return false;
+      }
+
+      toast.success(currentlyDisabled ? "Comentários ativados" : "Comentários desativados");
+      return true;
+    } catch (error) {
+      console.error("Error toggling comments:", error);
+      toast.error("Erro ao alterar comentários");
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const reportPost = async (postId: string, reason: string): Promise<boolean> => {
+    return submitReport("post", postId, reason);
   };
 
   return {
     deletePost,
     togglePrivacy,
+    toggleComments,
     reportPost,
     isLoading,
   };
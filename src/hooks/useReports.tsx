@@ -0,0 +1,69 @@
+import { useState, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "./useAuth";
+import { toast } from "sonner";
+
+export type ReportTargetType = "post" | "comment" | "message" | "profile" | "sticker_pack" | "void";
+
+export const REPORT_REASONS = [
+  "Spam ou golpe",
+  "Nudez ou atividade sexual",
+  "Discurso de ódio",
+  "Violência ou ameaças",
+  "Informação falsa",
+  "Outro",
+];
+
+export const useReports = () => {
+  const { user } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submitReport = useCallback(
+    async (
+      targetType: ReportTargetType,
+      targetId: string,
+      reason: string,
+      details?: string
+    ): Promise<boolean> => {
+      if (!user) {
+        toast.error("Faça login para denunciar");
+        return false;
+      }
+
+      setIsSubmitting(true);
+      try {
+        const { error } = await supabase.rpc("create_report", {
+          p_target_type: targetType,
+          p_target_id: targetId,
+          p_reason: reason,
+          p_details: details || null,
+        });
+
+        if (error) {
+          console.error("Error submitting report:", error);
+          if (error.message?.includes("your own content")) {
+            toast.error("Você não pode denunciar seu próprio conteúdo");
+          } else {
+            toast.error("Erro ao enviar denúncia");
+          }
+          return false;
+        }
+
+        toast.success("Denúncia enviada. Obrigado pelo feedback!");
+        return true;
+      } catch (error) {
+        console.error("Error submitting report:", error);
+        toast.error("Erro ao enviar denúncia");
+        return false;
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [user]
+  );
+
+  return {
+    submitReport,
+    isSubmitting,
+  };
+};
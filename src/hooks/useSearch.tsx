@@ -8,6 +8,7 @@ interface SearchUser {
   avatar_url: string | null;
   bio: string | null;
   is_verified: boolean;
+  is_private: boolean;
   verification_type: string;
   followers_count: number;
 }
@@ -38,7 +39,7 @@ export const useSearch = () => {
 
     const { data, error } = await supabase
       .from("profiles")
-      .select("id, username, display_name, avatar_url, bio, is_verified, verification_type, followers_count")
+      .select("id, username, display_name, avatar_url, bio, is_verified, is_private, verification_type, followers_count")
       .or(`username.ilike.%${searchQuery}%,display_name.ilike.%${searchQuery}%`)
       .limit(20);
 
@@ -56,6 +57,7 @@ export const useSearch = () => {
       return;
     }
 
+    // The posts policy leaves out private accounts the caller doesn't follow
     const { data, error } = await supabase
       .from("posts")
       .select(`
@@ -94,7 +96,7 @@ export const useSearch = () => {
 
     const { data, error } = await supabase
       .from("profiles")
-      .select("id, username, display_name, avatar_url, bio, is_verified, verification_type, followers_count")
+      .select("id, username, display_name, avatar_url, bio, is_verified, is_private, verification_type, followers_count")
       .not("username", "is", null)
       .order("followers_count", { ascending: false })
       .limit(10);
@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { useAuth } from "./useAuth";
+import { normalizeTag } from "@/lib/hashtags";
+
+export interface TagPost {
+  id: string;
+  creator_id: string;
+  content_url: string | null;
+  content_type: "video" | "image" | "text";
+  description: string | null;
+  mentions: Json;
+  likes_count: number;
+  comments_count: number;
+  created_at: string;
+  creator_username: string | null;
+  creator_display_name: string | null;
+  creator_avatar_url: string | null;
+  creator_is_verified: boolean;
+  creator_verification_type: "none" | "blue" | "gold" | "staff";
+}
+
+// Posts carrying a tag, in feed rank order
+export const useTagPosts = (tag: string, limit: number = 30) => {
+  const { user } = useAuth();
+  const [posts, setPosts] = useState<TagPost[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(true);
+
+  const normalizedTag = normalizeTag(tag);
+
+  const fetchPosts = useCallback(async (offset: number) => {
+    const { data, error } = await supabase.rpc("get_ranked_feed", {
+      p_user_id: user?.id || null,
+      p_limit: limit,
+      p_offset: offset,
+      p_tag: normalizedTag,
+    });
+
+    if (error) {
+      console.error("Error fetching tag posts:", error);
+      setIsLoading(false);
+      return;
+    }
+
+    setPosts((prev) => (offset === 0 ? data || [] : [...prev, ...(data || [])]));
+    setHasMore((data || []).length === limit);
+    setIsLoading(false);
+  }, [user?.id, limit, normalizedTag]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setPosts([]);
+    fetchPosts(0);
+  }, [fetchPosts]);
+
+  const loadMore = () => {
+    if (!isLoading && hasMore) {
+      setIsLoading(true);
+      fetchPosts(posts.length);
+    }
+  };
+
+  return {
+    tag: normalizedTag,
+    posts,
+    isLoading,
+    hasMore,
+    loadMore,
+  };
+};
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface TrendingTag {
+  tag: string;
+  recent_count: number;
+  previous_count: number;
+  velocity: number;
+}
+
+// Tags rising fastest over the last windowHours, compared to the window before it
+export const useTrendingTags = (windowHours: number = 24, limit: number = 10) => {
+  const [tags, setTags] = useState<TrendingTag[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchTags = useCallback(async () => {
+    const { data, error } = await supabase.rpc("get_trending_tags", {
+      p_window_hours: windowHours,
+      p_limit: limit,
+    });
+
+    if (error) {
+      console.error("Error fetching trending tags:", error);
+      setIsLoading(false);
+      return;
+    }
+
+    setTags(data || []);
+    setIsLoading(false);
+  }, [windowHours, limit]);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  return {
+    tags,
+    isLoading,
+    refresh: fetchTags,
+  };
+};
@@ -2,16 +2,18 @@ import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "./useAuth";
 
-export type MessagePrivacy = "everyone" | "followers" | "nobody";
+export type MessagePrivacy = "everyone" | "followers" | "requests" | "nobody";
 
 interface UserSettings {
   message_privacy: MessagePrivacy;
+  is_private: boolean;
 }
 
 export const useUserSettings = () => {
   const { user, profile, refreshProfile } = useAuth();
   const [settings, setSettings] = useState<UserSettings>({
     message_privacy: "everyone",
+    is_private: false,
   });
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -20,6 +22,7 @@ export const useUserSettings = () => {
     if (profile) {
       setSettings({
         message_privacy: (profile as any).message_privacy || "everyone",
+        is_private: profile.is_private ?? false,
       });
       setIsLoading(false);
     }
@@ -47,6 +50,29 @@ export const useUserSettings = () => {
     return true;
   }, [user, refreshProfile]);
 
+  // Going public again accepts every pending follow request (see accept_pending_follows_on_public)
+  const updateAccountPrivacy = useCallback(async (isPrivate: boolean) => {
+    if (!user) return false;
+
+    setIsSaving(true);
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({ is_private: isPrivate })
+      .eq("id", user.id);
+
+    if (error) {
+      console.error("Error updating account privacy:", error);
+      setIsSaving(false);
+      return false;
+    }
+
+    setSettings(prev => ({ ...prev, is_private: isPrivate }));
+    await refreshProfile();
+    setIsSaving(false);
+    return true;
+  }, [user, refreshProfile]);
+
   const canSendMessage = useCallback(async (targetUserId: string): Promise<boolean> => {
     if (!user) return false;
     
@@ -69,6 +95,7 @@ export const useUserSettings = () => {
     isLoading,
     isSaving,
     updateMessagePrivacy,
+    updateAccountPrivacy,
     canSendMessage,
   };
 };
@@ -0,0 +1,206 @@
+import { useState, useEffect, useLayoutEffect, useCallback, useRef, useMemo, type RefObject } from "react";
+
+interface UseVirtualListOptions {
+  count: number;
+  getKey: (index: number) => string;
+  // The scrolling element and the element the items are rendered in
+  scrollRef: RefObject<HTMLElement>;
+  listRef: RefObject<HTMLElement>;
+  estimateSize?: number;
+  // Extra pixels rendered above and below the viewport
+  overscan?: number;
+}
+
+export interface VirtualItem {
+  index: number;
+  key: string;
+}
+
+// Renders only the rows near the viewport of a variable-height list.
+// Rows are measured as they mount; spacers stand in for everything else.
+// Rows added at the top keep the visible content where it was.
+export const useVirtualList = ({
+  count,
+  getKey,
+  scrollRef,
+  listRef,
+  estimateSize = 72,
+  overscan = 600,
+}: UseVirtualListOptions) => {
+  const sizesRef = useRef(new Map<string, number>());
+  // Bumped after measuring so offsets are recomputed
+  const [, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const elementsRef = useRef(new Map<string, HTMLElement>());
+  const offsetsRef = useRef<number[]>([]);
+  const keysRef = useRef<string[]>([]);
+
+  const keys = useMemo(
+    () => Array.from({ length: count }, (_, index) => getKey(index)),
+    [count, getKey]
+  );
+
+  // offsets[i] is the top of row i; offsets[count] is the total height.
+  // Recomputed every render (cheap) so new measurements are always picked up.
+  const offsets = new Array<number>(keys.length + 1);
+  offsets[0] = 0;
+  keys.forEach((key, index) => {
+    offsets[index + 1] = offsets[index] + (sizesRef.current.get(key) ?? estimateSize);
+  });
+
+  offsetsRef.current = offsets;
+  keysRef.current = keys;
+
+  const getListTop = useCallback(() => {
+    const scroller = scrollRef.current;
+    const list = listRef.current;
+    if (!scroller || !list) return 0;
+    return list.getBoundingClientRect().top - scroller.getBoundingClientRect().top + scroller.scrollTop;
+  }, [scrollRef, listRef]);
+
+  const updateViewport = useCallback(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    setViewport({ top: scroller.scrollTop - getListTop(), height: scroller.clientHeight });
+  }, [scrollRef, getListTop]);
+
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+
+    // We correct the scroll position ourselves
+    scroller.style.overflowAnchor = "none";
+
+    let frame = 0;
+    const handleScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateViewport);
+    };
+
+    updateViewport();
+    scroller.addEventListener("scroll", handleScroll, { passive: true });
+    window.addEventListener("resize", handleScroll);
+    return () => {
+      cancelAnimationFrame(frame);
+      scroller.removeEventListener("scroll", handleScroll);
+      window.removeEventListener("resize", handleScroll);
+    };
+  }, [scrollRef, updateViewport]);
+
+  // Measure rows as they render; a row above the viewport changing size would shift the view
+  useEffect(() => {
+    const observer = new ResizeObserver((entries) => {
+      const scroller = scrollRef.current;
+      let changed = false;
+      let shift = 0;
+
+      entries.forEach((entry) => {
+        const key = (entry.target as HTMLElement).dataset.virtualKey;
+        if (!key) return;
+
+        const size = entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height;
+        const previous = sizesRef.current.get(key) ?? estimateSize;
+        if (Math.abs(previous - size) < 0.5) return;
+
+        const index = keysRef.current.indexOf(key);
+        const rowBottom = index >= 0 ? offsetsRef.current[index] + previous : Infinity;
+        if (scroller && rowBottom <= scroller.scrollTop - getListTop()) {
+          shift += size - previous;
+        }
+
+        sizesRef.current.set(key, size);
+        changed = true;
+      });
+
+      if (!changed) return;
+      if (scroller && shift) scroller.scrollTop += shift;
+      setMeasureVersion((v) => v + 1);
+    });
+
+    observerRef.current = observer;
+    elementsRef.current.forEach((element) => observer.observe(element));
+    return () => observer.disconnect();
+  }, [scrollRef, estimateSize, getListTop]);
+
+  // One stable callback per row so re-renders don't re-observe every element
+  const refCallbacksRef = useRef(new Map<string, (element: HTMLElement | null) => void>());
+  const measureRef = useCallback((key: string) => {
+    let callback = refCallbacksRef.current.get(key);
+    if (!callback) {
+      callback = (element: HTMLElement | null) => {
+        const previous = elementsRef.current.get(key);
+        if (previous) {
+          observerRef.current?.unobserve(previous);
+          elementsRef.current.delete(key);
+        }
+        if (element) {
+          element.dataset.virtualKey = key;
+          elementsRef.current.set(key, element);
+          observerRef.current?.observe(element);
+        } else {
+          refCallbacksRef.current.delete(key);
+        }
+      };
+      refCallbacksRef.current.set(key, callback);
+    }
+    return callback;
+  }, []);
+
+  // Rows prepended above the first one (older pages): keep the old first row in place
+  const firstKeyRef = useRef<string | null>(null);
+  useLayoutEffect(() => {
+    const previousFirst = firstKeyRef.current;
+    firstKeyRef.current = keys[0] ?? null;
+    if (!previousFirst || previousFirst === keys[0]) return;
+
+    const index = keys.indexOf(previousFirst);
+    const scroller = scrollRef.current;
+    if (index > 0 && scroller) {
+      scroller.scrollTop += offsetsRef.current[index];
+      updateViewport();
+    }
+  }, [keys, scrollRef, updateViewport]);
+
+  const total = offsets[keys.length] ?? 0;
+
+  let start = 0;
+  while (start < keys.length && offsets[start + 1] < viewport.top - overscan) start++;
+  let end = start;
+  while (end < keys.length && offsets[end] < viewport.top + viewport.height + overscan) end++;
+
+  const virtualItems: VirtualItem[] = [];
+  for (let index = start; index < end; index++) {
+    virtualItems.push({ index, key: keys[index] });
+  }
+
+  const scrollToIndex = useCallback(
+    (index: number, align: "start" | "center" | "end" = "center") => {
+      const scroller = scrollRef.current;
+      if (!scroller || index < 0 || index >= keysRef.current.length) return;
+
+      const top = offsetsRef.current[index];
+      const size = offsetsRef.current[index + 1] - top;
+      const listTop = getListTop();
+      const target =
+        align === "start"
+          ? top
+          : align === "end"
+            ? top + size - scroller.clientHeight
+            : top + size / 2 - scroller.clientHeight / 2;
+
+      scroller.scrollTop = listTop + target;
+      updateViewport();
+    },
+    [scrollRef, getListTop, updateViewport]
+  );
+
+  return {
+    virtualItems,
+    paddingTop: offsets[start] ?? 0,
+    paddingBottom: total - (offsets[end] ?? total),
+    totalSize: total,
+    measureRef,
+    scrollToIndex,
+  };
+};
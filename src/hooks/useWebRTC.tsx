@@ -1,23 +1,27 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
-import { 
-  CallSession, 
-  CallSignal, 
-  CallMessage, 
-  CallParticipant, 
-  ActiveCall, 
+import {
+  CallSession,
+  CallMessage,
+  CallParticipant,
+  CallPeer,
+  CallParticipantStatus,
+  ActiveCall,
   IncomingCall,
   ICE_SERVERS,
   CallType,
   SignalType,
   CallStats,
   ConnectionQuality,
-  DEFAULT_CONSTRAINTS
+  RecordingConsentRequest,
+  DEFAULT_CONSTRAINTS,
+  RECORDING_CHUNK_MS
 } from "@/types/calls";
 import { toast } from "sonner";
 import { RealtimeChannel } from "@supabase/supabase-js";
 import { Json } from "@/integrations/supabase/types";
+import { CallMixer, createCallMixer, getRecordingChunkPath } from "@/lib/callRecording";
 
 // Helper to safely convert data to RTCSessionDescriptionInit
 const toRTCSessionDescription = (data: Json): RTCSessionDescriptionInit => {
@@ -39,27 +43,87 @@ const toRTCIceCandidate = (data: Json): RTCIceCandidateInit => {
   };
 };
 
+// Helper to normalize a call_sessions row
+const toCallSession = (row: Record<string, unknown>): CallSession => ({
+  ...(row as unknown as CallSession),
+  call_type: row.call_type as CallType,
+  status: row.status as CallSession['status'],
+  is_group: (row.is_group as boolean) ?? false,
+});
+
+// Keep the 1:1 fields (remoteStream, otherParticipant) in sync with the peer list
+const withPeers = (call: ActiveCall, peers: CallPeer[]): ActiveCall => {
+  const firstPeer = peers.find(p => p.status === 'joined') || peers[0] || null;
+  return {
+    ...call,
+    peers,
+    remoteStream: firstPeer?.stream ?? null,
+    otherParticipant: firstPeer,
+  };
+};
+
+// A recording in progress; chunks upload one after another through `uploads`
+interface RecordingUpload {
+  id: string;
+  callId: string;
+  mimeType: string;
+  startedAt: number;
+  chunkIndex: number;
+  sizeBytes: number;
+  uploads: Promise<void>;
+  failed: boolean;
+}
+
+const uploadRecordingChunk = async (recording: RecordingUpload, index: number, chunk: Blob) => {
+  const { error } = await supabase.storage
+    .from('call-recordings')
+    .upload(getRecordingChunkPath(recording.callId, recording.id, index), chunk, {
+      contentType: recording.mimeType,
+    });
+
+  if (error) {
+    console.error('Error uploading recording chunk:', error);
+    recording.failed = true;
+    return;
+  }
+
+  recording.sizeBytes += chunk.size;
+  await supabase
+    .from('call_recordings')
+    .update({ chunk_count: index + 1, size_bytes: recording.sizeBytes })
+    .eq('id', recording.id);
+};
+
 export const useWebRTC = () => {
   const { user } = useAuth();
   const [activeCall, setActiveCall] = useState<ActiveCall | null>(null);
   const [incomingCall, setIncomingCall] = useState<IncomingCall | null>(null);
   const [callMessages, setCallMessages] = useState<CallMessage[]>([]);
   const [isConnecting, setIsConnecting] = useState(false);
-  
-  const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
+  const [recordingRequest, setRecordingRequest] = useState<RecordingConsentRequest | null>(null);
+
+  // One RTCPeerConnection per remote participant (mesh)
+  const peersRef = useRef<Map<string, RTCPeerConnection>>(new Map());
+  const pendingCandidatesRef = useRef<Map<string, RTCIceCandidateInit[]>>(new Map());
   const localStreamRef = useRef<MediaStream | null>(null);
   const screenStreamRef = useRef<MediaStream | null>(null);
   const channelRef = useRef<RealtimeChannel | null>(null);
   const statsIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const recordedChunksRef = useRef<Blob[]>([]);
+  const mixerRef = useRef<CallMixer | null>(null);
+  const recordingRef = useRef<RecordingUpload | null>(null);
+  // Peers whose answer to our recording request we are still waiting for
+  const consentPendingRef = useRef<Set<string> | null>(null);
+  const activeCallRef = useRef<ActiveCall | null>(null);
+  const isGroupCallRef = useRef(false);
+  const endCallRef = useRef<() => Promise<void>>(async () => {});
+  const finishRecordingRef = useRef<() => Promise<void>>(async () => {});
 
   // Clean up function
   const cleanup = useCallback(() => {
-    if (peerConnectionRef.current) {
-      peerConnectionRef.current.close();
-      peerConnectionRef.current = null;
-    }
+    peersRef.current.forEach(pc => pc.close());
+    peersRef.current.clear();
+    pendingCandidatesRef.current.clear();
     if (localStreamRef.current) {
       localStreamRef.current.getTracks().forEach(track => track.stop());
       localStreamRef.current = null;
@@ -76,30 +140,31 @@ export const useWebRTC = () => {
       clearInterval(statsIntervalRef.current);
       statsIntervalRef.current = null;
     }
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-      mediaRecorderRef.current.stop();
-    }
-    recordedChunksRef.current = [];
+    // Whatever was recorded so far is kept
+    finishRecordingRef.current();
+    consentPendingRef.current = null;
+    isGroupCallRef.current = false;
     setActiveCall(null);
     setCallMessages([]);
+    setRecordingRequest(null);
     setIsConnecting(false);
   }, []);
 
   // Get user media
   const getUserMedia = useCallback(async (
-    callType: CallType, 
+    callType: CallType,
     deviceId?: { video?: string; audio?: string }
   ): Promise<MediaStream> => {
     const audioConstraint: MediaTrackConstraints = {
       ...(DEFAULT_CONSTRAINTS.audio as MediaTrackConstraints),
       deviceId: deviceId?.audio ? { exact: deviceId.audio } : undefined
     };
-    
+
     const videoConstraint: MediaTrackConstraints = {
       ...(DEFAULT_CONSTRAINTS.video as MediaTrackConstraints),
       deviceId: deviceId?.video ? { exact: deviceId.video } : undefined
     };
-    
+
     const constraints: MediaStreamConstraints = {
       audio: deviceId?.audio ? audioConstraint : DEFAULT_CONSTRAINTS.audio,
       video: callType === 'video' ? (deviceId?.video ? videoConstraint : DEFAULT_CONSTRAINTS.video) : false,
@@ -134,44 +199,57 @@ export const useWebRTC = () => {
     }
   }, []);
 
-  // Insert call signal helper
+  // Insert call signal helper; recipientId null broadcasts to the whole call
   const insertCallSignal = useCallback(async (
-    callId: string, 
-    senderId: string, 
-    signalType: SignalType, 
-    signalData: unknown
+    callId: string,
+    senderId: string,
+    signalType: SignalType,
+    signalData: unknown,
+    recipientId: string | null = null
   ) => {
     const { error } = await supabase.from('call_signals').insert({
       call_id: callId,
       sender_id: senderId,
+      recipient_id: recipientId,
       signal_type: signalType,
       signal_data: JSON.parse(JSON.stringify(signalData)) as Json,
     });
     return { error };
   }, []);
 
+  // Swap the outgoing track of one kind on every peer connection
+  const replaceTrackOnPeers = useCallback(async (kind: 'audio' | 'video', track: MediaStreamTrack) => {
+    await Promise.all(
+      Array.from(peersRef.current.values()).map(async pc => {
+        const sender = pc.getSenders().find(s => s.track?.kind === kind);
+        if (sender) {
+          await sender.replaceTrack(track);
+        }
+      })
+    );
+  }, []);
+
   // Switch camera
   const switchCamera = useCallback(async (deviceId: string) => {
     if (!activeCall || !user) return;
 
     try {
-      const newStream = await getUserMedia(activeCall.session.call_type, { video: deviceId });
+      const newStream = await navigator.mediaDevices.getUserMedia({
+        video: { ...(DEFAULT_CONSTRAINTS.video as MediaTrackConstraints), deviceId: { exact: deviceId } },
+      });
       const videoTrack = newStream.getVideoTracks()[0];
-      
-      if (peerConnectionRef.current) {
-        const sender = peerConnectionRef.current.getSenders().find(s => s.track?.kind === 'video');
-        if (sender && sender.track) {
-          await sender.replaceTrack(videoTrack);
-          // Stop old track
-          const oldTracks = localStreamRef.current?.getVideoTracks() || [];
-          oldTracks.forEach(track => track.stop());
-          
-          // Update local stream
-          if (localStreamRef.current) {
-            oldTracks.forEach(track => localStreamRef.current?.removeTrack(track));
-            localStreamRef.current.addTrack(videoTrack);
-          }
-        }
+
+      // Keep sharing the screen if it is on; the new camera takes over when sharing stops
+      if (!screenStreamRef.current) {
+        await replaceTrackOnPeers('video', videoTrack);
+      }
+
+      // Stop old track and update local stream
+      const oldTracks = localStreamRef.current?.getVideoTracks() || [];
+      oldTracks.forEach(track => track.stop());
+      if (localStreamRef.current) {
+        oldTracks.forEach(track => localStreamRef.current?.removeTrack(track));
+        localStreamRef.current.addTrack(videoTrack);
       }
 
       await insertCallSignal(activeCall.session.id, user.id, 'camera-switch', { deviceId });
@@ -180,30 +258,27 @@ export const useWebRTC = () => {
       console.error('Error switching camera:', error);
       toast.error('Erro ao trocar câmera');
     }
-  }, [activeCall, user, getUserMedia, insertCallSignal]);
+  }, [activeCall, user, replaceTrackOnPeers, insertCallSignal]);
 
   // Switch audio device
   const switchAudioDevice = useCallback(async (deviceId: string) => {
     if (!activeCall || !user) return;
 
     try {
-      const newStream = await getUserMedia(activeCall.session.call_type, { audio: deviceId });
+      const newStream = await navigator.mediaDevices.getUserMedia({
+        audio: { ...(DEFAULT_CONSTRAINTS.audio as MediaTrackConstraints), deviceId: { exact: deviceId } },
+      });
       const audioTrack = newStream.getAudioTracks()[0];
-      
-      if (peerConnectionRef.current) {
-        const sender = peerConnectionRef.current.getSenders().find(s => s.track?.kind === 'audio');
-        if (sender && sender.track) {
-          await sender.replaceTrack(audioTrack);
-          // Stop old track
-          const oldTracks = localStreamRef.current?.getAudioTracks() || [];
-          oldTracks.forEach(track => track.stop());
-          
-          // Update local stream
-          if (localStreamRef.current) {
-            oldTracks.forEach(track => localStreamRef.current?.removeTrack(track));
-            localStreamRef.current.addTrack(audioTrack);
-          }
-        }
+      audioTrack.enabled = activeCall.isAudioEnabled;
+
+      await replaceTrackOnPeers('audio', audioTrack);
+
+      // Stop old track and update local stream
+      const oldTracks = localStreamRef.current?.getAudioTracks() || [];
+      oldTracks.forEach(track => track.stop());
+      if (localStreamRef.current) {
+        oldTracks.forEach(track => localStreamRef.current?.removeTrack(track));
+        localStreamRef.current.addTrack(audioTrack);
       }
 
       await insertCallSignal(activeCall.session.id, user.id, 'audio-switch', { deviceId });
@@ -212,29 +287,22 @@ export const useWebRTC = () => {
       console.error('Error switching audio device:', error);
       toast.error('Erro ao trocar dispositivo de áudio');
     }
-  }, [activeCall, user, getUserMedia, insertCallSignal]);
+  }, [activeCall, user, replaceTrackOnPeers, insertCallSignal]);
 
-  // Set volume
+  // Set volume; remote volume is applied by each participant tile
   const setVolume = useCallback((volume: number, isRemote: boolean = false) => {
-    if (!localStreamRef.current) return;
-
-    if (isRemote && activeCall?.remoteStream) {
-      const audioTracks = activeCall.remoteStream.getAudioTracks();
-      audioTracks.forEach(track => {
-        const audioEl = document.querySelector('audio') as HTMLAudioElement;
-        if (audioEl) {
-          audioEl.volume = volume / 100;
-        }
-      });
+    if (isRemote) {
       setActiveCall(prev => prev ? { ...prev, remoteVolume: volume } : null);
-    } else {
-      const audioTracks = localStreamRef.current.getAudioTracks();
-      audioTracks.forEach(track => {
-        (track as any).volume = volume / 100;
-      });
-      setActiveCall(prev => prev ? { ...prev, localVolume: volume } : null);
+      return;
     }
-  }, [activeCall?.remoteStream]);
+
+    if (!localStreamRef.current) return;
+    const audioTracks = localStreamRef.current.getAudioTracks();
+    audioTracks.forEach(track => {
+      (track as any).volume = volume / 100;
+    });
+    setActiveCall(prev => prev ? { ...prev, localVolume: volume } : null);
+  }, []);
 
   // Insert call message helper
   const insertCallMessage = useCallback(async (callId: string, senderId: string, content: string) => {
@@ -252,112 +320,354 @@ export const useWebRTC = () => {
     await insertCallMessage(activeCall.session.id, user.id, content);
   }, [activeCall, user, insertCallMessage]);
 
-  // Create peer connection
-  const createPeerConnection = useCallback((callId: string): RTCPeerConnection => {
+  // Local media plus every peer stream, for the recording mixer
+  const getCallStreams = useCallback((): MediaStream[] => {
+    const streams: MediaStream[] = [];
+    if (localStreamRef.current) streams.push(localStreamRef.current);
+    if (screenStreamRef.current) streams.push(screenStreamRef.current);
+    activeCallRef.current?.peers.forEach(peer => {
+      if (peer.stream) streams.push(peer.stream);
+    });
+    return streams;
+  }, []);
+
+  // Stop the recorder, wait for the last chunks to upload and close the recording
+  const finishRecording = useCallback(async () => {
+    const recording = recordingRef.current;
+    const recorder = mediaRecorderRef.current;
+    const mixer = mixerRef.current;
+    recordingRef.current = null;
+    mediaRecorderRef.current = null;
+    mixerRef.current = null;
+
+    if (recorder && recorder.state !== 'inactive') {
+      await new Promise<void>(resolve => {
+        recorder.addEventListener('stop', () => resolve(), { once: true });
+        recorder.stop();
+      });
+    }
+    mixer?.stop();
+
+    if (!recording) return;
+    await recording.uploads;
+
+    const { error } = await supabase
+      .from('call_recordings')
+      .update({
+        status: recording.failed || recording.chunkIndex === 0 ? 'failed' : 'completed',
+        ended_at: new Date().toISOString(),
+        duration_seconds: Math.round((Date.now() - recording.startedAt) / 1000),
+      })
+      .eq('id', recording.id);
+
+    if (error) {
+      console.error('Error finishing recording:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    finishRecordingRef.current = finishRecording;
+  }, [finishRecording]);
+
+  // Start mixing and uploading once everyone agreed
+  const beginRecording = useCallback(async () => {
+    const call = activeCallRef.current;
+    if (!call || !user) return;
+
+    const mixer = createCallMixer(getCallStreams(), call.session.call_type === 'video');
+
+    try {
+      const { data: row, error } = await supabase
+        .from('call_recordings')
+        .insert({
+          call_id: call.session.id,
+          recorded_by: user.id,
+          mime_type: mixer.mimeType,
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      const recording: RecordingUpload = {
+        id: row.id,
+        callId: call.session.id,
+        mimeType: mixer.mimeType,
+        startedAt: Date.now(),
+        chunkIndex: 0,
+        sizeBytes: 0,
+        uploads: Promise.resolve(),
+        failed: false,
+      };
+
+      const recorder = new MediaRecorder(mixer.stream, { mimeType: mixer.mimeType });
+      recorder.ondataavailable = (event) => {
+        if (event.data.size === 0) return;
+        const index = recording.chunkIndex++;
+        const chunk = event.data;
+        recording.uploads = recording.uploads.then(() => uploadRecordingChunk(recording, index, chunk));
+      };
+      recorder.start(RECORDING_CHUNK_MS);
+
+      mixerRef.current = mixer;
+      mediaRecorderRef.current = recorder;
+      recordingRef.current = recording;
+
+      setActiveCall(prev => prev ? { ...prev, isRecording: true, recordingStatus: 'recording' } : null);
+      toast.info('Gravação iniciada');
+    } catch (error) {
+      mixer.stop();
+      console.error('Error starting recording:', error);
+      toast.error('Erro ao gravar chamada');
+      setActiveCall(prev => prev ? { ...prev, isRecording: false, recordingStatus: 'idle' } : null);
+    }
+  }, [user, getCallStreams]);
+
+  // Handle a participant's answer to our recording request
+  const resolveRecordingConsent = useCallback(async (peerId: string, accepted: boolean) => {
+    const pending = consentPendingRef.current;
+    const call = activeCallRef.current;
+    if (!pending?.has(peerId) || !call || !user) return;
+
+    pending.delete(peerId);
+
+    if (!accepted) {
+      consentPendingRef.current = null;
+      const peer = call.peers.find(p => p.id === peerId);
+      toast.error(`${peer?.display_name || peer?.username || 'Um participante'} não autorizou a gravação`);
+      await insertCallSignal(call.session.id, user.id, 'recording-stop', {});
+      if (recordingRef.current) {
+        setActiveCall(prev => prev ? { ...prev, recordingStatus: 'saving' } : null);
+        await finishRecording();
+      }
+      setActiveCall(prev => prev ? { ...prev, isRecording: false, recordingStatus: 'idle' } : null);
+      return;
+    }
+
+    if (pending.size === 0 && !recordingRef.current) {
+      consentPendingRef.current = null;
+      await beginRecording();
+    }
+  }, [user, insertCallSignal, finishRecording, beginRecording]);
+
+  // Answer someone else's recording request
+  const respondToRecording = useCallback(async (accepted: boolean) => {
+    if (!recordingRequest || !user) return;
+
+    await insertCallSignal(
+      recordingRequest.callId,
+      user.id,
+      'recording-consent',
+      { accepted },
+      recordingRequest.requester.id
+    );
+    setRecordingRequest(null);
+  }, [recordingRequest, user, insertCallSignal]);
+
+  // Update a single peer in the active call
+  const updatePeer = useCallback((peerId: string, patch: Partial<CallPeer>) => {
+    setActiveCall(prev => {
+      if (!prev) return null;
+      const peers = prev.peers.map(p => (p.id === peerId ? { ...p, ...patch } : p));
+      return withPeers(prev, peers);
+    });
+  }, []);
+
+  // Close the connection to one peer
+  const closePeer = useCallback((peerId: string) => {
+    const pc = peersRef.current.get(peerId);
+    if (pc) {
+      pc.close();
+      peersRef.current.delete(peerId);
+    }
+    pendingCandidatesRef.current.delete(peerId);
+    updatePeer(peerId, { stream: null });
+  }, [updatePeer]);
+
+  // Load everyone in the call (except us) with their profiles
+  const loadPeers = useCallback(async (callId: string): Promise<CallPeer[]> => {
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('call_participants')
+      .select(`
+        user_id,
+        status,
+        profiles:user_id (
+          username,
+          display_name,
+          avatar_url
+        )
+      `)
+      .eq('call_id', callId)
+      .neq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading call participants:', error);
+      return [];
+    }
+
+    return (data || []).map(p => ({
+      id: p.user_id,
+      username: p.profiles?.username ?? null,
+      display_name: p.profiles?.display_name ?? null,
+      avatar_url: p.profiles?.avatar_url ?? null,
+      status: p.status as CallParticipantStatus,
+      stream: null,
+    }));
+  }, [user]);
+
+  // Aggregate connection stats over all peers
+  const monitorQuality = useCallback(() => {
+    if (statsIntervalRef.current) return;
+
+    statsIntervalRef.current = setInterval(async () => {
+      const connected = Array.from(peersRef.current.values()).filter(pc => pc.connectionState === 'connected');
+      if (connected.length === 0) return;
+
+      try {
+        const callStats: CallStats = {
+          timestamp: Date.now(),
+          bytesSent: 0,
+          bytesReceived: 0,
+          packetsSent: 0,
+          packetsReceived: 0,
+          packetsLost: 0,
+          jitter: 0,
+          rtt: 0,
+        };
+
+        for (const pc of connected) {
+          const stats = await pc.getStats();
+          stats.forEach(report => {
+            if (report.type === 'inbound-rtp') {
+              callStats.bytesReceived += report.bytesReceived || 0;
+              callStats.packetsReceived += report.packetsReceived || 0;
+              callStats.packetsLost += report.packetsLost || 0;
+              callStats.jitter = Math.max(callStats.jitter, report.jitter || 0);
+              if (report.kind === 'video' && report.framesPerSecond) {
+                callStats.frameRate = report.framesPerSecond;
+              }
+            } else if (report.type === 'outbound-rtp') {
+              callStats.bytesSent += report.bytesSent || 0;
+              callStats.packetsSent += report.packetsSent || 0;
+            } else if (report.type === 'candidate-pair' && report.nominated) {
+              callStats.rtt = Math.max(callStats.rtt, (report.currentRoundTripTime || 0) * 1000);
+            }
+          });
+        }
+
+        // Determine connection quality from the worst link
+        let quality: ConnectionQuality = 'excellent';
+        if (callStats.packetsLost > 10) quality = 'poor';
+        else if (callStats.packetsLost > 5) quality = 'fair';
+        else if (callStats.jitter > 30) quality = 'fair';
+        else if (callStats.rtt > 200) quality = 'fair';
+
+        setActiveCall(prev => prev ? {
+          ...prev,
+          stats: callStats,
+          connectionQuality: quality
+        } : null);
+      } catch (error) {
+        console.warn('Error collecting stats:', error);
+      }
+    }, 2000);
+  }, []);
+
+  // Create the peer connection to one remote participant
+  const createPeerConnection = useCallback((callId: string, peerId: string): RTCPeerConnection => {
+    const existing = peersRef.current.get(peerId);
+    if (existing) {
+      existing.close();
+    }
+
     const pc = new RTCPeerConnection(ICE_SERVERS);
 
     pc.onicecandidate = async (event) => {
       if (event.candidate && user) {
-        await insertCallSignal(callId, user.id, 'ice-candidate', event.candidate.toJSON());
+        await insertCallSignal(callId, user.id, 'ice-candidate', event.candidate.toJSON(), peerId);
       }
     };
 
     pc.ontrack = (event) => {
       const [remoteStream] = event.streams;
-      setActiveCall(prev => prev ? { ...prev, remoteStream } : null);
+      updatePeer(peerId, { stream: remoteStream, status: 'joined' });
     };
 
     pc.oniceconnectionstatechange = () => {
-      console.log('ICE Connection State:', pc.iceConnectionState);
-      if (pc.iceConnectionState === 'disconnected' || pc.iceConnectionState === 'failed') {
+      console.log(`ICE Connection State (${peerId}):`, pc.iceConnectionState);
+      if (isGroupCallRef.current) {
+        // In a group, a dropped link only removes that participant
+        if (pc.iceConnectionState === 'failed') {
+          closePeer(peerId);
+        }
+      } else if (pc.iceConnectionState === 'disconnected' || pc.iceConnectionState === 'failed') {
         toast.error('Conexão perdida');
-        endCall();
+        endCallRef.current();
       }
     };
 
-    // Connection quality monitoring
-    const monitorQuality = () => {
-      if (statsIntervalRef.current) clearInterval(statsIntervalRef.current);
-      
-      statsIntervalRef.current = setInterval(async () => {
-        if (!pc || pc.connectionState !== 'connected') return;
-        
-        try {
-          const stats = await pc.getStats();
-          let callStats: Partial<CallStats> = { timestamp: Date.now() };
-          
-          stats.forEach(report => {
-            if (report.type === 'inbound-rtp' && report.kind === 'video') {
-              callStats.bytesReceived = report.bytesReceived;
-              callStats.packetsReceived = report.packetsReceived;
-              callStats.packetsLost = report.packetsLost;
-              callStats.jitter = report.jitter;
-              callStats.frameRate = report.framesPerSecond;
-            } else if (report.type === 'inbound-rtp' && report.kind === 'audio') {
-              callStats.bytesReceived = report.bytesReceived;
-              callStats.packetsReceived = report.packetsReceived;
-              callStats.packetsLost = report.packetsLost;
-              callStats.jitter = report.jitter;
-            } else if (report.type === 'outbound-rtp') {
-              callStats.bytesSent = report.bytesSent;
-              callStats.packetsSent = report.packetsSent;
-            } else if (report.type === 'candidate-pair' && report.nominated) {
-              callStats.rtt = report.currentRoundTripTime * 1000;
-            }
-          });
-
-          // Determine connection quality
-          let quality: ConnectionQuality = 'excellent';
-          if (callStats.packetsLost && callStats.packetsLost > 10) quality = 'poor';
-          else if (callStats.packetsLost && callStats.packetsLost > 5) quality = 'fair';
-          else if (callStats.jitter && callStats.jitter > 30) quality = 'fair';
-          else if (callStats.rtt && callStats.rtt > 200) quality = 'fair';
-
-          setActiveCall(prev => prev ? { 
-            ...prev, 
-            stats: callStats as CallStats,
-            connectionQuality: quality 
-          } : null);
-        } catch (error) {
-          console.warn('Error collecting stats:', error);
-        }
-      }, 2000);
-    };
-
     pc.onconnectionstatechange = () => {
       if (pc.connectionState === 'connected') {
         monitorQuality();
       }
     };
 
-    peerConnectionRef.current = pc;
+    // Send our media; while screen sharing, peers get the screen instead of the camera
+    const stream = localStreamRef.current;
+    if (stream) {
+      stream.getTracks().forEach(track => {
+        const screenTrack = screenStreamRef.current?.getVideoTracks()[0];
+        pc.addTrack(track.kind === 'video' && screenTrack ? screenTrack : track, stream);
+      });
+    }
+
+    peersRef.current.set(peerId, pc);
     return pc;
-  }, [user, insertCallSignal]);
+  }, [user, insertCallSignal, updatePeer, closePeer, monitorQuality]);
+
+  // Apply ICE candidates that arrived before the remote description
+  const flushPendingCandidates = useCallback(async (peerId: string, pc: RTCPeerConnection) => {
+    const pending = pendingCandidatesRef.current.get(peerId) || [];
+    pendingCandidatesRef.current.delete(peerId);
+    for (const candidate of pending) {
+      await pc.addIceCandidate(new RTCIceCandidate(candidate));
+    }
+  }, []);
+
+  // Offer a connection to everyone already in the call (the newcomer always offers)
+  const connectToPeers = useCallback(async (callId: string, peers: CallPeer[]) => {
+    if (!user) return;
+
+    for (const peer of peers.filter(p => p.status === 'joined')) {
+      const pc = createPeerConnection(callId, peer.id);
+      const offer = await pc.createOffer();
+      await pc.setLocalDescription(offer);
+      await insertCallSignal(callId, user.id, 'offer', offer, peer.id);
+    }
+  }, [user, createPeerConnection, insertCallSignal]);
 
-  // End call
+  // End call (leave it; the server ends the session when appropriate)
   const endCall = useCallback(async () => {
     if (!activeCall || !user) return;
 
-    const endedAt = new Date();
-    const startedAt = activeCall.session.started_at ? new Date(activeCall.session.started_at) : endedAt;
-    const durationSeconds = Math.floor((endedAt.getTime() - startedAt.getTime()) / 1000);
-
     // Send hangup signal
     await insertCallSignal(activeCall.session.id, user.id, 'hangup', {});
 
-    // Update session
-    await supabase
-      .from('call_sessions')
-      .update({ 
-        status: 'ended',
-        ended_at: endedAt.toISOString(),
-        duration_seconds: durationSeconds,
-      })
-      .eq('id', activeCall.session.id);
+    const { error } = await supabase.rpc('leave_call', { p_call_id: activeCall.session.id });
+    if (error) {
+      console.error('Error leaving call:', error);
+    }
 
     cleanup();
   }, [activeCall, user, cleanup, insertCallSignal]);
 
+  useEffect(() => {
+    endCallRef.current = endCall;
+  }, [endCall]);
+
   // Setup realtime signaling
   const setupSignaling = useCallback((callId: string) => {
     const channel = supabase
@@ -371,29 +681,60 @@ export const useWebRTC = () => {
           filter: `call_id=eq.${callId}`,
         },
         async (payload) => {
-          const signal = payload.new as { signal_type: string; signal_data: Json; sender_id: string };
-          if (signal.sender_id === user?.id) return;
+          const signal = payload.new as {
+            signal_type: string;
+            signal_data: Json;
+            sender_id: string;
+            recipient_id: string | null;
+          };
+          if (!user || signal.sender_id === user.id) return;
+          if (signal.recipient_id && signal.recipient_id !== user.id) return;
 
-          const pc = peerConnectionRef.current;
-          if (!pc) return;
+          const peerId = signal.sender_id;
 
           try {
             if (signal.signal_type === 'offer') {
+              const pc = createPeerConnection(callId, peerId);
               await pc.setRemoteDescription(new RTCSessionDescription(toRTCSessionDescription(signal.signal_data)));
+              await flushPendingCandidates(peerId, pc);
               const answer = await pc.createAnswer();
               await pc.setLocalDescription(answer);
-              await insertCallSignal(callId, user!.id, 'answer', answer);
+              await insertCallSignal(callId, user.id, 'answer', answer, peerId);
             } else if (signal.signal_type === 'answer') {
+              const pc = peersRef.current.get(peerId);
+              if (!pc) return;
               await pc.setRemoteDescription(new RTCSessionDescription(toRTCSessionDescription(signal.signal_data)));
+              await flushPendingCandidates(peerId, pc);
             } else if (signal.signal_type === 'ice-candidate') {
-              await pc.addIceCandidate(new RTCIceCandidate(toRTCIceCandidate(signal.signal_data)));
+              const candidate = toRTCIceCandidate(signal.signal_data);
+              const pc = peersRef.current.get(peerId);
+              if (pc?.remoteDescription) {
+                await pc.addIceCandidate(new RTCIceCandidate(candidate));
+              } else {
+                const pending = pendingCandidatesRef.current.get(peerId) || [];
+                pendingCandidatesRef.current.set(peerId, [...pending, candidate]);
+              }
             } else if (signal.signal_type === 'hangup') {
-              toast.info('Chamada encerrada');
-              cleanup();
+              closePeer(peerId);
+              updatePeer(peerId, { status: 'left' });
+              resolveRecordingConsent(peerId, true);
+              if (!isGroupCallRef.current) {
+                toast.info('Chamada encerrada');
+                cleanup();
+              }
             } else if (signal.signal_type === 'recording-start') {
-              toast.info('Participante começou a gravar');
+              // Ask for consent before the requester records us
+              const requester = activeCallRef.current?.peers.find(p => p.id === peerId);
+              setRecordingRequest({
+                callId,
+                requester: requester || { id: peerId, username: null, display_name: null, avatar_url: null },
+              });
             } else if (signal.signal_type === 'recording-stop') {
+              setRecordingRequest(prev => (prev?.requester.id === peerId ? null : prev));
               toast.info('Participante parou de gravar');
+            } else if (signal.signal_type === 'recording-consent') {
+              const data = signal.signal_data as { accepted?: boolean };
+              await resolveRecordingConsent(peerId, !!data.accepted);
             } else if (signal.signal_type === 'camera-switch') {
               // Handle remote camera switch notification
               console.log('Remote participant switched camera');
@@ -432,23 +773,139 @@ export const useWebRTC = () => {
           filter: `id=eq.${callId}`,
         },
         (payload) => {
-          const session = payload.new as CallSession;
-          if (session.status === 'ended' || session.status === 'declined') {
+          const session = toCallSession(payload.new);
+          if (session.status === 'ended' || session.status === 'declined' || session.status === 'missed') {
             toast.info(session.status === 'declined' ? 'Chamada recusada' : 'Chamada encerrada');
             cleanup();
+            return;
           }
           setActiveCall(prev => prev ? { ...prev, session } : null);
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'call_participants',
+          filter: `call_id=eq.${callId}`,
+        },
+        (payload) => {
+          const row = payload.new as { user_id: string; status: CallParticipantStatus };
+          if (!row?.user_id || row.user_id === user?.id) return;
+
+          if (row.status === 'left' || row.status === 'declined') {
+            closePeer(row.user_id);
+            resolveRecordingConsent(row.user_id, true);
+          }
+
+          // Someone joining a call we are recording has to agree too
+          if (row.status === 'joined' && recordingRef.current && user) {
+            consentPendingRef.current = consentPendingRef.current || new Set();
+            consentPendingRef.current.add(row.user_id);
+            insertCallSignal(callId, user.id, 'recording-start', {}, row.user_id);
+          }
+
+          setActiveCall(prev => {
+            if (!prev) return null;
+            if (!prev.peers.some(p => p.id === row.user_id)) {
+              // Someone joined late; their profile arrives with the next roster load
+              loadPeers(callId).then(peers => {
+                setActiveCall(current => {
+                  if (!current) return null;
+                  const merged = peers.map(p => ({
+                    ...p,
+                    stream: current.peers.find(c => c.id === p.id)?.stream ?? null,
+                  }));
+                  return withPeers(current, merged);
+                });
+              });
+              return prev;
+            }
+            return withPeers(
+              prev,
+              prev.peers.map(p => (p.id === row.user_id ? { ...p, status: row.status } : p))
+            );
+          });
+        }
+      )
       .subscribe();
 
     channelRef.current = channel;
-  }, [user, cleanup, insertCallSignal]);
+  }, [user, cleanup, insertCallSignal, createPeerConnection, flushPendingCandidates, closePeer, updatePeer, loadPeers, setVolume, resolveRecordingConsent]);
+
+  // Build the active call state once media and roster are ready
+  const buildActiveCall = useCallback(async (
+    session: CallSession,
+    stream: MediaStream,
+    peers: CallPeer[]
+  ): Promise<ActiveCall> => {
+    const devices = await enumerateDevices();
+
+    let title: string | null = null;
+    if (session.is_group) {
+      const { data: conversation } = await supabase
+        .from('conversations')
+        .select('title')
+        .eq('id', session.conversation_id)
+        .maybeSingle();
+      title = conversation?.title ?? null;
+    }
+
+    return withPeers({
+      session,
+      localStream: stream,
+      remoteStream: null,
+      screenStream: null,
+      isAudioEnabled: true,
+      isVideoEnabled: session.call_type === 'video',
+      isScreenSharing: false,
+      isRecording: false,
+      recordingStatus: 'idle',
+      localVolume: 100,
+      remoteVolume: 100,
+      selectedCameraDeviceId: devices.cameras[0]?.deviceId || null,
+      selectedAudioDeviceId: devices.microphones[0]?.deviceId || null,
+      selectedOutputDeviceId: devices.speakers[0]?.deviceId || null,
+      availableCameras: devices.cameras,
+      availableMicrophones: devices.microphones,
+      availableSpeakers: devices.speakers,
+      connectionQuality: 'excellent',
+      stats: null,
+      peers: [],
+      title,
+      otherParticipant: null,
+    }, peers);
+  }, [enumerateDevices]);
+
+  // Join a call we were invited to: mark ourselves joined, then offer to everyone present
+  const joinSession = useCallback(async (session: CallSession, stream: MediaStream) => {
+    if (!user) return;
 
-  // Start a call
+    const { error } = await supabase.rpc('join_call', { p_call_id: session.id });
+    if (error) {
+      if (error.message?.includes('Call is full')) {
+        throw new Error('A chamada está cheia');
+      }
+      throw error;
+    }
+
+    isGroupCallRef.current = session.is_group;
+    setupSignaling(session.id);
+
+    const peers = await loadPeers(session.id);
+    setActiveCall(await buildActiveCall(
+      { ...session, status: 'connected', started_at: session.started_at || new Date().toISOString() },
+      stream,
+      peers
+    ));
+
+    await connectToPeers(session.id, peers);
+  }, [user, setupSignaling, loadPeers, buildActiveCall, connectToPeers]);
+
+  // Start a call (or join the group call already running in this conversation)
   const startCall = useCallback(async (
-    conversationId: string, 
-    calleeId: string, 
+    conversationId: string,
     callType: CallType
   ): Promise<void> => {
     if (!user) {
@@ -459,83 +916,59 @@ export const useWebRTC = () => {
     setIsConnecting(true);
 
     try {
-      // Enumerate devices first
-      const devices = await enumerateDevices();
-      
       // Get user media first
       const stream = await getUserMedia(callType);
 
-      // Create call session
-      const { data: session, error } = await supabase
-        .from('call_sessions')
-        .insert({
-          conversation_id: conversationId,
-          caller_id: user.id,
-          callee_id: calleeId,
-          call_type: callType,
-          status: 'ringing',
-        })
-        .select()
-        .single();
+      const { data: callId, error } = await supabase.rpc('start_call', {
+        p_conversation_id: conversationId,
+        p_call_type: callType,
+      });
 
-      if (error) throw error;
+      if (error) {
+        if (error.message?.includes('is blocked')) {
+          throw new Error('Não é possível ligar para este usuário');
+        }
+        throw error;
+      }
 
-      // Get callee info
-      const { data: callee } = await supabase
-        .from('profiles')
-        .select('id, username, display_name, avatar_url')
-        .eq('id', calleeId)
+      const { data: sessionRow, error: sessionError } = await supabase
+        .from('call_sessions')
+        .select('*')
+        .eq('id', callId)
         .single();
 
-      // Create peer connection
-      const pc = createPeerConnection(session.id);
-
-      // Add tracks to peer connection
-      stream.getTracks().forEach(track => {
-        pc.addTrack(track, stream);
-      });
+      if (sessionError) throw sessionError;
 
-      // Setup signaling
-      setupSignaling(session.id);
+      const session = toCallSession(sessionRow);
 
-      // Create and send offer
-      const offer = await pc.createOffer();
-      await pc.setLocalDescription(offer);
-      await insertCallSignal(session.id, user.id, 'offer', offer);
+      const { data: self } = await supabase
+        .from('call_participants')
+        .select('status')
+        .eq('call_id', session.id)
+        .eq('user_id', user.id)
+        .maybeSingle();
 
-      setActiveCall({
-        session: {
-          ...session,
-          call_type: session.call_type as CallType,
-          status: session.status as CallSession['status'],
-        },
-        localStream: stream,
-        remoteStream: null,
-        screenStream: null,
-        isAudioEnabled: true,
-        isVideoEnabled: callType === 'video',
-        isScreenSharing: false,
-        isRecording: false,
-        localVolume: 100,
-        remoteVolume: 100,
-        selectedCameraDeviceId: devices.cameras[0]?.deviceId || null,
-        selectedAudioDeviceId: devices.microphones[0]?.deviceId || null,
-        selectedOutputDeviceId: devices.speakers[0]?.deviceId || null,
-        availableCameras: devices.cameras,
-        availableMicrophones: devices.microphones,
-        availableSpeakers: devices.speakers,
-        connectionQuality: 'excellent',
-        stats: null,
-        otherParticipant: callee as CallParticipant,
-      });
+      if (self?.status !== 'joined') {
+        // An existing group call was returned
+        await joinSession(session, stream);
+      } else {
+        // We are the caller: wait for invitees to join and send us offers
+        isGroupCallRef.current = session.is_group;
+        setupSignaling(session.id);
+        const peers = await loadPeers(session.id);
+        setActiveCall(await buildActiveCall(session, stream, peers));
+      }
 
       setIsConnecting(false);
     } catch (error) {
       console.error('Error starting call:', error);
-      toast.error('Erro ao iniciar chamada');
+      toast.error(error instanceof Error
+        && (error.message === 'A chamada está cheia' || error.message === 'Não é possível ligar para este usuário')
+        ? error.message
+        : 'Erro ao iniciar chamada');
       cleanup();
     }
-  }, [user, getUserMedia, enumerateDevices, createPeerConnection, setupSignaling, cleanup, insertCallSignal]);
+  }, [user, getUserMedia, setupSignaling, loadPeers, buildActiveCall, joinSession, cleanup]);
 
   // Answer a call
   const answerCall = useCallback(async () => {
@@ -544,88 +977,29 @@ export const useWebRTC = () => {
     setIsConnecting(true);
 
     try {
-      // Enumerate devices
-      const devices = await enumerateDevices();
-      
       const stream = await getUserMedia(incomingCall.session.call_type);
-
-      // Update call status
-      await supabase
-        .from('call_sessions')
-        .update({ 
-          status: 'connected',
-          started_at: new Date().toISOString(),
-        })
-        .eq('id', incomingCall.session.id);
-
-      // Create peer connection
-      const pc = createPeerConnection(incomingCall.session.id);
-
-      // Add tracks
-      stream.getTracks().forEach(track => {
-        pc.addTrack(track, stream);
-      });
-
-      // Setup signaling
-      setupSignaling(incomingCall.session.id);
-
-      // Get the offer
-      const { data: signals } = await supabase
-        .from('call_signals')
-        .select('*')
-        .eq('call_id', incomingCall.session.id)
-        .eq('signal_type', 'offer')
-        .order('created_at', { ascending: false })
-        .limit(1);
-
-      if (signals && signals.length > 0) {
-        const offerSignal = signals[0];
-        await pc.setRemoteDescription(new RTCSessionDescription(toRTCSessionDescription(offerSignal.signal_data)));
-        
-        const answer = await pc.createAnswer();
-        await pc.setLocalDescription(answer);
-        await insertCallSignal(incomingCall.session.id, user.id, 'answer', answer);
-      }
-
-      setActiveCall({
-        session: { ...incomingCall.session, status: 'connected' },
-        localStream: stream,
-        remoteStream: null,
-        screenStream: null,
-        isAudioEnabled: true,
-        isVideoEnabled: incomingCall.session.call_type === 'video',
-        isScreenSharing: false,
-        isRecording: false,
-        localVolume: 100,
-        remoteVolume: 100,
-        selectedCameraDeviceId: devices.cameras[0]?.deviceId || null,
-        selectedAudioDeviceId: devices.microphones[0]?.deviceId || null,
-        selectedOutputDeviceId: devices.speakers[0]?.deviceId || null,
-        availableCameras: devices.cameras,
-        availableMicrophones: devices.microphones,
-        availableSpeakers: devices.speakers,
-        connectionQuality: 'excellent',
-        stats: null,
-        otherParticipant: incomingCall.caller,
-      });
+      await joinSession(incomingCall.session, stream);
 
       setIncomingCall(null);
       setIsConnecting(false);
     } catch (error) {
       console.error('Error answering call:', error);
-      toast.error('Erro ao atender chamada');
+      toast.error(error instanceof Error && error.message === 'A chamada está cheia'
+        ? error.message
+        : 'Erro ao atender chamada');
+      setIncomingCall(null);
       cleanup();
     }
-  }, [incomingCall, user, getUserMedia, enumerateDevices, createPeerConnection, setupSignaling, cleanup, insertCallSignal]);
+  }, [incomingCall, user, getUserMedia, joinSession, cleanup]);
 
   // Decline a call
   const declineCall = useCallback(async () => {
     if (!incomingCall) return;
 
-    await supabase
-      .from('call_sessions')
-      .update({ status: 'declined' })
-      .eq('id', incomingCall.session.id);
+    const { error } = await supabase.rpc('decline_call', { p_call_id: incomingCall.session.id });
+    if (error) {
+      console.error('Error declining call:', error);
+    }
 
     setIncomingCall(null);
   }, [incomingCall]);
@@ -654,7 +1028,7 @@ export const useWebRTC = () => {
 
   // Toggle screen sharing
   const toggleScreenShare = useCallback(async () => {
-    if (!activeCall || !peerConnectionRef.current || !user) return;
+    if (!activeCall || !user) return;
 
     if (activeCall.isScreenSharing) {
       // Stop screen sharing
@@ -664,14 +1038,9 @@ export const useWebRTC = () => {
       }
 
       // Replace with camera track
-      if (localStreamRef.current) {
-        const videoTrack = localStreamRef.current.getVideoTracks()[0];
-        if (videoTrack) {
-          const sender = peerConnectionRef.current.getSenders().find(s => s.track?.kind === 'video');
-          if (sender) {
-            await sender.replaceTrack(videoTrack);
-          }
-        }
+      const videoTrack = localStreamRef.current?.getVideoTracks()[0];
+      if (videoTrack) {
+        await replaceTrackOnPeers('video', videoTrack);
       }
 
       await insertCallSignal(activeCall.session.id, user.id, 'screen-share-stop', {});
@@ -687,11 +1056,7 @@ export const useWebRTC = () => {
         screenStreamRef.current = screenStream;
 
         const screenTrack = screenStream.getVideoTracks()[0];
-        const sender = peerConnectionRef.current.getSenders().find(s => s.track?.kind === 'video');
-        
-        if (sender) {
-          await sender.replaceTrack(screenTrack);
-        }
+        await replaceTrackOnPeers('video', screenTrack);
 
         screenTrack.onended = () => {
           toggleScreenShare();
@@ -704,85 +1069,64 @@ export const useWebRTC = () => {
         toast.error('Erro ao compartilhar tela');
       }
     }
-  }, [activeCall, user, insertCallSignal]);
+  }, [activeCall, user, replaceTrackOnPeers, insertCallSignal]);
 
-  // Toggle recording
+  // Toggle recording: ask everyone in the call first, record once all of them agree
   const toggleRecording = useCallback(async () => {
     if (!activeCall || !user) return;
 
-    try {
-      if (activeCall.isRecording) {
-        // Stop recording
-        if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-          mediaRecorderRef.current.stop();
-        }
-        await insertCallSignal(activeCall.session.id, user.id, 'recording-stop', {});
-        setActiveCall(prev => prev ? { ...prev, isRecording: false } : null);
-        
-        // Save recording
-        if (recordedChunksRef.current.length > 0) {
-          const blob = new Blob(recordedChunksRef.current, { type: 'video/webm' });
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = `call-recording-${new Date().toISOString()}.webm`;
-          a.click();
-          URL.revokeObjectURL(url);
-          recordedChunksRef.current = [];
-          toast.success('Gravação salva com sucesso!');
-        }
-      } else {
-        // Start recording
-        if (!localStreamRef.current) return;
-        
-        recordedChunksRef.current = [];
-        const recorder = new MediaRecorder(localStreamRef.current, {
-          mimeType: 'video/webm;codecs=vp9,opus'
-        });
-        
-        recorder.ondataavailable = (event) => {
-          if (event.data.size > 0) {
-            recordedChunksRef.current.push(event.data);
-          }
-        };
-        
-        recorder.start(1000); // Collect data every second
-        mediaRecorderRef.current = recorder;
-        
-        await insertCallSignal(activeCall.session.id, user.id, 'recording-start', {});
-        setActiveCall(prev => prev ? { ...prev, isRecording: true } : null);
-        toast.info('Gravação iniciada');
-      }
-    } catch (error) {
-      console.error('Error toggling recording:', error);
+    const callId = activeCall.session.id;
+
+    if (activeCall.recordingStatus === 'recording') {
+      setActiveCall(prev => prev ? { ...prev, recordingStatus: 'saving' } : null);
+      consentPendingRef.current = null;
+      await insertCallSignal(callId, user.id, 'recording-stop', {});
+      await finishRecording();
+      setActiveCall(prev => prev ? { ...prev, isRecording: false, recordingStatus: 'idle' } : null);
+      toast.success('Gravação salva no histórico de chamadas');
+      return;
+    }
+
+    if (activeCall.recordingStatus === 'awaiting-consent') {
+      consentPendingRef.current = null;
+      await insertCallSignal(callId, user.id, 'recording-stop', {});
+      setActiveCall(prev => prev ? { ...prev, recordingStatus: 'idle' } : null);
+      return;
+    }
+
+    if (activeCall.recordingStatus !== 'idle') return;
+
+    const joinedPeers = activeCall.peers.filter(p => p.status === 'joined').map(p => p.id);
+    if (joinedPeers.length === 0) {
+      toast.error('Aguarde alguém entrar na chamada para gravar');
+      return;
+    }
+
+    consentPendingRef.current = new Set(joinedPeers);
+    setActiveCall(prev => prev ? { ...prev, recordingStatus: 'awaiting-consent' } : null);
+
+    const { error } = await insertCallSignal(callId, user.id, 'recording-start', {});
+    if (error) {
+      console.error('Error requesting recording:', error);
+      consentPendingRef.current = null;
+      setActiveCall(prev => prev ? { ...prev, recordingStatus: 'idle' } : null);
       toast.error('Erro ao gravar chamada');
+      return;
     }
-  }, [activeCall, user, insertCallSignal]);
 
-  // Add toggleRecording to return object
-  return {
-    activeCall,
-    incomingCall,
-    callMessages,
-    isConnecting,
-    startCall,
-    answerCall,
-    declineCall,
-    endCall,
-    toggleAudio,
-    toggleVideo,
-    toggleScreenShare,
-    toggleRecording,
-    sendCallMessage,
-    switchCamera,
-    switchAudioDevice,
-    setVolume,
-    enumerateDevices,
-  };
+    toast.info('Aguardando autorização dos participantes');
+  }, [activeCall, user, insertCallSignal, finishRecording]);
 
+  useEffect(() => {
+    activeCallRef.current = activeCall;
+  }, [activeCall]);
 
+  // Mix in (or drop) peers that join or leave while recording
+  useEffect(() => {
+    mixerRef.current?.sync(getCallStreams());
+  }, [activeCall?.peers, activeCall?.screenStream, getCallStreams]);
 
-  // Listen for incoming calls
+  // Listen for incoming calls (we get a call_participants row when invited)
   useEffect(() => {
     if (!user) return;
 
@@ -793,24 +1137,24 @@ export const useWebRTC = () => {
         {
           event: 'INSERT',
           schema: 'public',
-          table: 'call_sessions',
-          filter: `callee_id=eq.${user.id}`,
+          table: 'call_participants',
+          filter: `user_id=eq.${user.id}`,
         },
         async (payload) => {
-          const session = payload.new as { 
-            id: string; 
-            status: string; 
-            caller_id: string; 
-            callee_id: string;
-            call_type: string;
-            conversation_id: string;
-            started_at: string | null;
-            ended_at: string | null;
-            duration_seconds: number | null;
-            created_at: string;
-          };
-          
-          if (session.status !== 'ringing') return;
+          const participant = payload.new as { call_id: string; status: string };
+          if (participant.status !== 'invited') return;
+
+          const { data: sessionRow } = await supabase
+            .from('call_sessions')
+            .select('*')
+            .eq('id', participant.call_id)
+            .maybeSingle();
+
+          if (!sessionRow || !['ringing', 'connected'].includes(sessionRow.status)) return;
+          // Calling into a running group call ourselves also creates an invited row
+          if (sessionRow.caller_id === user.id) return;
+
+          const session = toCallSession(sessionRow);
 
           // Get caller info
           const { data: caller } = await supabase
@@ -819,14 +1163,21 @@ export const useWebRTC = () => {
             .eq('id', session.caller_id)
             .single();
 
+          let groupTitle: string | null = null;
+          if (session.is_group) {
+            const { data: conversation } = await supabase
+              .from('conversations')
+              .select('title')
+              .eq('id', session.conversation_id)
+              .maybeSingle();
+            groupTitle = conversation?.title ?? null;
+          }
+
           if (caller) {
             setIncomingCall({
-              session: {
-                ...session,
-                call_type: session.call_type as CallType,
-                status: session.status as CallSession['status'],
-              },
+              session,
               caller: caller as CallParticipant,
+              groupTitle,
             });
           }
         }
@@ -838,6 +1189,34 @@ export const useWebRTC = () => {
     };
   }, [user]);
 
+  // Stop ringing if the call ends before we answer
+  useEffect(() => {
+    if (!incomingCall) return;
+
+    const channel = supabase
+      .channel(`incoming-call:${incomingCall.session.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'call_sessions',
+          filter: `id=eq.${incomingCall.session.id}`,
+        },
+        (payload) => {
+          const status = (payload.new as { status: string }).status;
+          if (!['ringing', 'connected'].includes(status)) {
+            setIncomingCall(null);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [incomingCall]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -857,6 +1236,9 @@ export const useWebRTC = () => {
     toggleAudio,
     toggleVideo,
     toggleScreenShare,
+    toggleRecording,
+    recordingRequest,
+    respondToRecording,
     sendCallMessage,
     switchCamera,
     switchAudioDevice,
@@ -14,6 +14,42 @@ export type Database = {
   }
   public: {
     Tables: {
+      blocks: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blocks_blocked_id_fkey"
+            columns: ["blocked_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blocks_blocker_id_fkey"
+            columns: ["blocker_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       call_messages: {
         Row: {
           call_id: string
@@ -53,40 +89,145 @@ export type Database = {
           },
         ]
       }
+      call_participants: {
+        Row: {
+          call_id: string
+          created_at: string
+          id: string
+          joined_at: string | null
+          left_at: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          call_id: string
+          created_at?: string
+          id?: string
+          joined_at?: string | null
+          left_at?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          call_id?: string
+          created_at?: string
+          id?: string
+          joined_at?: string | null
+          left_at?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "call_participants_call_id_fkey"
+            columns: ["call_id"]
+            isOneToOne: false
+            referencedRelation: "call_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "call_participants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      call_recordings: {
+        Row: {
+          call_id: string
+          chunk_count: number
+          created_at: string
+          duration_seconds: number | null
+          ended_at: string | null
+          id: string
+          mime_type: string
+          recorded_by: string
+          size_bytes: number
+          started_at: string
+          status: string
+        }
+        Insert: {
+          call_id: string
+          chunk_count?: number
+          created_at?: string
+          duration_seconds?: number | null
+          ended_at?: string | null
+          id?: string
+          mime_type: string
+          recorded_by: string
+          size_bytes?: number
+          started_at?: string
+          status?: string
+        }
+        Update: {
+          call_id?: string
+          chunk_count?: number
+          created_at?: string
+          duration_seconds?: number | null
+          ended_at?: string | null
+          id?: string
+          mime_type?: string
+          recorded_by?: string
+          size_bytes?: number
+          started_at?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "call_recordings_call_id_fkey"
+            columns: ["call_id"]
+            isOneToOne: false
+            referencedRelation: "call_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "call_recordings_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       call_sessions: {
         Row: {
           call_type: string
-          callee_id: string
+          callee_id: string | null
           caller_id: string
           conversation_id: string
           created_at: string
           duration_seconds: number | null
           ended_at: string | null
           id: string
+          is_group: boolean
           started_at: string | null
           status: string
         }
         Insert: {
           call_type?: string
-          callee_id: string
+          callee_id?: string | null
           caller_id: string
           conversation_id: string
           created_at?: string
           duration_seconds?: number | null
           ended_at?: string | null
           id?: string
+          is_group?: boolean
           started_at?: string | null
           status?: string
         }
         Update: {
           call_type?: string
-          callee_id?: string
+          callee_id?: string | null
           caller_id?: string
           conversation_id?: string
           created_at?: string
           duration_seconds?: number | null
           ended_at?: string | null
           id?: string
+          is_group?: boolean
           started_at?: string | null
           status?: string
         }
@@ -119,6 +260,7 @@ export type Database = {
           call_id: string
           created_at: string
           id: string
+          recipient_id: string | null
           sender_id: string
           signal_data: Json
           signal_type: string
@@ -127,6 +269,7 @@ export type Database = {
           call_id: string
           created_at?: string
           id?: string
+          recipient_id?: string | null
           sender_id: string
           signal_data: Json
           signal_type: string
@@ -135,6 +278,7 @@ export type Database = {
           call_id?: string
           created_at?: string
           id?: string
+          recipient_id?: string | null
           sender_id?: string
           signal_data?: Json
           signal_type?: string
@@ -147,6 +291,13 @@ export type Database = {
             referencedRelation: "call_sessions"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "call_signals_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "call_signals_sender_id_fkey"
             columns: ["sender_id"]
@@ -156,6 +307,35 @@ export type Database = {
           },
         ]
       }
+      comment_keyword_filters: {
+        Row: {
+          created_at: string
+          id: string
+          keyword: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          keyword: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          keyword?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_keyword_filters_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       comment_likes: {
         Row: {
           comment_id: string
@@ -196,8 +376,11 @@ export type Database = {
         Row: {
           content: string
           created_at: string
+          hidden_by_author: boolean
           id: string
+          is_hidden: boolean | null
           likes_count: number | null
+          mentions: Json
           parent_id: string | null
           post_id: string
           updated_at: string
@@ -206,8 +389,11 @@ export type Database = {
         Insert: {
           content: string
           created_at?: string
+          hidden_by_author?: boolean
           id?: string
+          is_hidden?: boolean | null
           likes_count?: number | null
+          mentions?: Json
           parent_id?: string | null
           post_id: string
           updated_at?: string
@@ -216,8 +402,11 @@ export type Database = {
         Update: {
           content?: string
           created_at?: string
+          hidden_by_author?: boolean
           id?: string
+          is_hidden?: boolean | null
           likes_count?: number | null
+          mentions?: Json
           parent_id?: string | null
           post_id?: string
           updated_at?: string
@@ -252,21 +441,45 @@ export type Database = {
           conversation_id: string
           created_at: string | null
           id: string
+          is_archived: boolean
+          is_marked_unread: boolean
+          is_request: boolean
           last_read_at: string | null
+          last_read_message_id: string | null
+          muted_until: string | null
+          pinned_at: string | null
+          requested_by: string | null
+          role: string
           user_id: string
         }
         Insert: {
           conversation_id: string
           created_at?: string | null
           id?: string
+          is_archived?: boolean
+          is_marked_unread?: boolean
+          is_request?: boolean
           last_read_at?: string | null
+          last_read_message_id?: string | null
+          muted_until?: string | null
+          pinned_at?: string | null
+          requested_by?: string | null
+          role?: string
           user_id: string
         }
         Update: {
           conversation_id?: string
           created_at?: string | null
           id?: string
+          is_archived?: boolean
+          is_marked_unread?: boolean
+          is_request?: boolean
           last_read_at?: string | null
+          last_read_message_id?: string | null
+          muted_until?: string | null
+          pinned_at?: string | null
+          requested_by?: string | null
+          role?: string
           user_id?: string
         }
         Relationships: [
@@ -277,6 +490,20 @@ export type Database = {
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "conversation_participants_last_read_message_id_fkey"
+            columns: ["last_read_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_participants_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "conversation_participants_user_id_fkey"
             columns: ["user_id"]
@@ -288,21 +515,44 @@ export type Database = {
       }
       conversations: {
         Row: {
+          avatar_url: string | null
           created_at: string | null
+          created_by: string | null
+          disappearing_seconds: number | null
           id: string
+          is_group: boolean
+          title: string | null
           updated_at: string | null
         }
         Insert: {
+          avatar_url?: string | null
           created_at?: string | null
+          created_by?: string | null
+          disappearing_seconds?: number | null
           id?: string
+          is_group?: boolean
+          title?: string | null
           updated_at?: string | null
         }
         Update: {
+          avatar_url?: string | null
           created_at?: string | null
+          created_by?: string | null
+          disappearing_seconds?: number | null
           id?: string
+          is_group?: boolean
+          title?: string | null
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "conversations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       ephemeral_content: {
         Row: {
@@ -313,6 +563,7 @@ export type Database = {
           duration_hours: number
           expires_at: string
           id: string
+          is_hidden: boolean | null
           text_content: string | null
           views_count: number | null
         }
@@ -324,6 +575,7 @@ export type Database = {
           duration_hours?: number
           expires_at: string
           id?: string
+          is_hidden?: boolean | null
           text_content?: string | null
           views_count?: number | null
         }
@@ -335,6 +587,7 @@ export type Database = {
           duration_hours?: number
           expires_at?: string
           id?: string
+          is_hidden?: boolean | null
           text_content?: string | null
           views_count?: number | null
         }
@@ -348,24 +601,79 @@ export type Database = {
           },
         ]
       }
+      feed_feedback: {
+        Row: {
+          created_at: string
+          creator_id: string | null
+          feedback_type: string
+          id: string
+          post_id: string | null
+          tag: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          creator_id?: string | null
+          feedback_type: string
+          id?: string
+          post_id?: string | null
+          tag?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          creator_id?: string | null
+          feedback_type?: string
+          id?: string
+          post_id?: string | null
+          tag?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feed_feedback_creator_id_fkey"
+            columns: ["creator_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feed_feedback_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feed_feedback_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       follows: {
         Row: {
           created_at: string | null
           follower_id: string
           following_id: string
           id: string
+          status: string
         }
         Insert: {
           created_at?: string | null
           follower_id: string
           following_id: string
           id?: string
+          status?: string
         }
         Update: {
           created_at?: string | null
           follower_id?: string
           following_id?: string
           id?: string
+          status?: string
         }
         Relationships: [
           {
@@ -398,12 +706,150 @@ export type Database = {
           name: string
         }
         Update: {
-          created_at?: string | null
-          icon?: string | null
+          created_at?: string | null
+          icon?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      message_attachments: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          duration_seconds: number | null
+          file_name: string
+          height: number | null
+          id: string
+          kind: string
+          message_id: string
+          mime_type: string
+          position: number
+          size_bytes: number
+          storage_path: string
+          thumbnail_path: string | null
+          uploader_id: string
+          width: number | null
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          duration_seconds?: number | null
+          file_name: string
+          height?: number | null
+          id?: string
+          kind: string
+          message_id: string
+          mime_type: string
+          position?: number
+          size_bytes: number
+          storage_path: string
+          thumbnail_path?: string | null
+          uploader_id: string
+          width?: number | null
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          duration_seconds?: number | null
+          file_name?: string
+          height?: number | null
+          id?: string
+          kind?: string
+          message_id?: string
+          mime_type?: string
+          position?: number
+          size_bytes?: number
+          storage_path?: string
+          thumbnail_path?: string | null
+          uploader_id?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_attachments_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_attachments_uploader_id_fkey"
+            columns: ["uploader_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_deletions: {
+        Row: {
+          created_at: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_deletions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_deletions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_edits: {
+        Row: {
+          edited_at: string
+          id: string
+          message_id: string
+          previous_content: string
+        }
+        Insert: {
+          edited_at?: string
+          id?: string
+          message_id: string
+          previous_content: string
+        }
+        Update: {
+          edited_at?: string
           id?: string
-          name?: string
+          message_id?: string
+          previous_content?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "message_edits_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       message_reactions: {
         Row: {
@@ -444,8 +890,17 @@ export type Database = {
           content: string | null
           conversation_id: string
           created_at: string | null
+          deleted_at: string | null
+          edited_at: string | null
+          expires_at: string | null
           id: string
+          is_hidden: boolean | null
           is_read: boolean | null
+          mentions: Json
+          message_type: string
+          metadata: Json | null
+          reply_to_message_id: string | null
+          search_vector: unknown | null
           sender_id: string
           sticker_url: string | null
         }
@@ -455,8 +910,17 @@ export type Database = {
           content?: string | null
           conversation_id: string
           created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
+          expires_at?: string | null
           id?: string
+          is_hidden?: boolean | null
           is_read?: boolean | null
+          mentions?: Json
+          message_type?: string
+          metadata?: Json | null
+          reply_to_message_id?: string | null
+          search_vector?: unknown | null
           sender_id: string
           sticker_url?: string | null
         }
@@ -466,8 +930,17 @@ export type Database = {
           content?: string | null
           conversation_id?: string
           created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
+          expires_at?: string | null
           id?: string
+          is_hidden?: boolean | null
           is_read?: boolean | null
+          mentions?: Json
+          message_type?: string
+          metadata?: Json | null
+          reply_to_message_id?: string | null
+          search_vector?: unknown | null
           sender_id?: string
           sticker_url?: string | null
         }
@@ -479,6 +952,13 @@ export type Database = {
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_reply_to_message_id_fkey"
+            columns: ["reply_to_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "messages_sender_id_fkey"
             columns: ["sender_id"]
@@ -488,6 +968,129 @@ export type Database = {
           },
         ]
       }
+      moderation_actions: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          metadata: Json
+          moderator_id: string
+          note: string | null
+          report_id: string | null
+          target_id: string
+          target_owner_id: string | null
+          target_type: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          metadata?: Json
+          moderator_id: string
+          note?: string | null
+          report_id?: string | null
+          target_id: string
+          target_owner_id?: string | null
+          target_type: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          metadata?: Json
+          moderator_id?: string
+          note?: string | null
+          report_id?: string | null
+          target_id?: string
+          target_owner_id?: string | null
+          target_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_actions_moderator_id_fkey"
+            columns: ["moderator_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "moderation_actions_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "moderation_actions_target_owner_id_fkey"
+            columns: ["target_owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          comments_enabled: boolean
+          comments_followers_only: boolean
+          follows_enabled: boolean
+          follows_followers_only: boolean
+          likes_enabled: boolean
+          likes_followers_only: boolean
+          mentions_enabled: boolean
+          mentions_followers_only: boolean
+          messages_enabled: boolean
+          messages_followers_only: boolean
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          timezone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          comments_enabled?: boolean
+          comments_followers_only?: boolean
+          follows_enabled?: boolean
+          follows_followers_only?: boolean
+          likes_enabled?: boolean
+          likes_followers_only?: boolean
+          mentions_enabled?: boolean
+          mentions_followers_only?: boolean
+          messages_enabled?: boolean
+          messages_followers_only?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          comments_enabled?: boolean
+          comments_followers_only?: boolean
+          follows_enabled?: boolean
+          follows_followers_only?: boolean
+          likes_enabled?: boolean
+          likes_followers_only?: boolean
+          mentions_enabled?: boolean
+          mentions_followers_only?: boolean
+          messages_enabled?: boolean
+          messages_followers_only?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           comment_id: string | null
@@ -496,6 +1099,7 @@ export type Database = {
           id: string
           is_read: boolean | null
           post_id: string | null
+          silent: boolean
           type: string
           user_id: string
         }
@@ -506,6 +1110,7 @@ export type Database = {
           id?: string
           is_read?: boolean | null
           post_id?: string | null
+          silent?: boolean
           type: string
           user_id: string
         }
@@ -516,6 +1121,7 @@ export type Database = {
           id?: string
           is_read?: boolean | null
           post_id?: string | null
+          silent?: boolean
           type?: string
           user_id?: string
         }
@@ -589,6 +1195,7 @@ export type Database = {
       posts: {
         Row: {
           comments_count: number | null
+          comments_disabled: boolean
           content_type: Database["public"]["Enums"]["content_type"]
           content_url: string | null
           created_at: string | null
@@ -596,8 +1203,11 @@ export type Database = {
           description: string | null
           engagement_score: number | null
           id: string
+          is_hidden: boolean | null
           is_private: boolean | null
           likes_count: number | null
+          mentions: Json
+          pinned_comment_id: string | null
           saves_count: number | null
           shares_count: number | null
           tags: string[] | null
@@ -605,6 +1215,7 @@ export type Database = {
         }
         Insert: {
           comments_count?: number | null
+          comments_disabled?: boolean
           content_type?: Database["public"]["Enums"]["content_type"]
           content_url?: string | null
           created_at?: string | null
@@ -612,8 +1223,11 @@ export type Database = {
           description?: string | null
           engagement_score?: number | null
           id?: string
+          is_hidden?: boolean | null
           is_private?: boolean | null
           likes_count?: number | null
+          mentions?: Json
+          pinned_comment_id?: string | null
           saves_count?: number | null
           shares_count?: number | null
           tags?: string[] | null
@@ -621,6 +1235,7 @@ export type Database = {
         }
         Update: {
           comments_count?: number | null
+          comments_disabled?: boolean
           content_type?: Database["public"]["Enums"]["content_type"]
           content_url?: string | null
           created_at?: string | null
@@ -628,8 +1243,11 @@ export type Database = {
           description?: string | null
           engagement_score?: number | null
           id?: string
+          is_hidden?: boolean | null
           is_private?: boolean | null
           likes_count?: number | null
+          mentions?: Json
+          pinned_comment_id?: string | null
           saves_count?: number | null
           shares_count?: number | null
           tags?: string[] | null
@@ -643,6 +1261,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "posts_pinned_comment_id_fkey"
+            columns: ["pinned_comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -655,11 +1280,13 @@ export type Database = {
           followers_count: number | null
           following_count: number | null
           id: string
+          is_private: boolean
           is_verified: boolean | null
           message_privacy: string | null
           onboarding_completed: boolean | null
           onboarding_step: number | null
           posts_count: number | null
+          suspended_until: string | null
           updated_at: string | null
           username: string | null
           verification_type:
@@ -676,11 +1303,13 @@ export type Database = {
           followers_count?: number | null
           following_count?: number | null
           id: string
+          is_private?: boolean
           is_verified?: boolean | null
           message_privacy?: string | null
           onboarding_completed?: boolean | null
           onboarding_step?: number | null
           posts_count?: number | null
+          suspended_until?: string | null
           updated_at?: string | null
           username?: string | null
           verification_type?:
@@ -697,11 +1326,13 @@ export type Database = {
           followers_count?: number | null
           following_count?: number | null
           id?: string
+          is_private?: boolean
           is_verified?: boolean | null
           message_privacy?: string | null
           onboarding_completed?: boolean | null
           onboarding_step?: number | null
           posts_count?: number | null
+          suspended_until?: string | null
           updated_at?: string | null
           username?: string | null
           verification_type?:
@@ -711,6 +1342,76 @@ export type Database = {
         }
         Relationships: []
       }
+      reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reporter_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          target_id: string
+          target_owner_id: string | null
+          target_preview: string | null
+          target_type: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: string
+          reporter_id: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          target_id: string
+          target_owner_id?: string | null
+          target_preview?: string | null
+          target_type: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason?: string
+          reporter_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          target_id?: string
+          target_owner_id?: string | null
+          target_preview?: string | null
+          target_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_target_owner_id_fkey"
+            columns: ["target_owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       saved_posts: {
         Row: {
           created_at: string
@@ -747,6 +1448,77 @@ export type Database = {
           },
         ]
       }
+      scheduled_messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          failure_reason: string | null
+          id: string
+          reply_to_message_id: string | null
+          scheduled_for: string
+          sender_id: string
+          sent_message_id: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          reply_to_message_id?: string | null
+          scheduled_for: string
+          sender_id: string
+          sent_message_id?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          failure_reason?: string | null
+          id?: string
+          reply_to_message_id?: string | null
+          scheduled_for?: string
+          sender_id?: string
+          sent_message_id?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_messages_reply_to_message_id_fkey"
+            columns: ["reply_to_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_messages_sent_message_id_fkey"
+            columns: ["sent_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sticker_packs: {
         Row: {
           cover_url: string | null
@@ -1016,10 +1788,23 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_message_request: {
+        Args: { p_conversation_id: string }
+        Returns: undefined
+      }
+      add_group_members: {
+        Args: { p_conversation_id: string; p_member_ids: string[] }
+        Returns: number
+      }
+      can_moderate: { Args: { _user_id: string }; Returns: boolean }
       can_send_message: {
         Args: { receiver_id: string; sender_id: string }
         Returns: boolean
       }
+      can_view_posts_of: {
+        Args: { _owner_id: string; _viewer_id: string }
+        Returns: boolean
+      }
       check_username_available: {
         Args: { p_username: string }
         Returns: boolean
@@ -1028,11 +1813,72 @@ export type Database = {
         Args: { other_user_id: string }
         Returns: string
       }
+      create_group_conversation: {
+        Args: { p_member_ids: string[]; p_title: string }
+        Returns: string
+      }
+      create_report: {
+        Args: {
+          p_details?: string
+          p_reason: string
+          p_target_id: string
+          p_target_type: string
+        }
+        Returns: string
+      }
+      decline_call: {
+        Args: { p_call_id: string }
+        Returns: undefined
+      }
+      decline_message_request: {
+        Args: { p_block?: boolean; p_conversation_id: string }
+        Returns: undefined
+      }
+      delete_message_for_everyone: {
+        Args: { p_message_id: string }
+        Returns: undefined
+      }
       delete_user_post: { Args: { post_id: string }; Returns: boolean }
+      edit_message: {
+        Args: { p_content: string; p_message_id: string }
+        Returns: undefined
+      }
+      extract_mentions: { Args: { _text: string }; Returns: Json }
+      get_blocked_users: {
+        Args: never
+        Returns: {
+          avatar_url: string
+          blocked_at: string
+          display_name: string
+          id: string
+          username: string
+        }[]
+      }
+      get_notification_groups: {
+        Args: {
+          p_before_at?: string
+          p_before_key?: string
+          p_limit?: number
+          p_window_hours?: number
+        }
+        Returns: {
+          actor_count: number
+          actors: Json
+          comment_id: string
+          group_key: string
+          is_read: boolean
+          latest_at: string
+          latest_id: string
+          notification_ids: string[]
+          post_id: string
+          type: string
+        }[]
+      }
       get_ranked_feed: {
-        Args: { p_limit?: number; p_offset?: number; p_user_id?: string }
+        Args: { p_limit?: number; p_offset?: number; p_tag?: string; p_user_id?: string }
         Returns: {
           comments_count: number
+          comments_disabled: boolean
           content_type: Database["public"]["Enums"]["content_type"]
           content_url: string
           created_at: string
@@ -1046,12 +1892,33 @@ export type Database = {
           engagement_score: number
           id: string
           likes_count: number
+          mentions: Json
           rank_score: number
           saves_count: number
           shares_count: number
           tags: string[]
         }[]
       }
+      get_trending_tags: {
+        Args: { p_limit?: number; p_window_hours?: number }
+        Returns: {
+          previous_count: number
+          recent_count: number
+          tag: string
+          velocity: number
+        }[]
+      }
+      get_unread_counts: {
+        Args: never
+        Returns: {
+          conversation_id: string
+          unread_count: number
+        }[]
+      }
+      get_unread_notification_groups_count: {
+        Args: { p_window_hours?: number }
+        Returns: number
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1059,10 +1926,163 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_blocked: {
+        Args: { _user_a: string; _user_b: string }
+        Returns: boolean
+      }
+      is_call_participant: {
+        Args: { p_call_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_conversation_admin: {
+        Args: { p_conversation_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_conversation_blocked: {
+        Args: { _conversation_id: string; _user_id: string }
+        Returns: boolean
+      }
       is_conversation_participant: {
         Args: { p_conversation_id: string; p_user_id: string }
         Returns: boolean
       }
+      is_hidden_message_file: { Args: { _path: string }; Returns: boolean }
+      is_message_request: {
+        Args: { _receiver_id: string; _sender_id: string }
+        Returns: boolean
+      }
+      is_post_author: {
+        Args: { _post_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_user_suspended: { Args: { _user_id: string }; Returns: boolean }
+      is_valid_timezone: { Args: { _tz: string }; Returns: boolean }
+      join_call: {
+        Args: { p_call_id: string }
+        Returns: undefined
+      }
+      leave_call: {
+        Args: { p_call_id: string }
+        Returns: undefined
+      }
+      mark_conversation_read: {
+        Args: { p_conversation_id: string; p_message_id: string }
+        Returns: undefined
+      }
+      moderate_report: {
+        Args: {
+          p_action: string
+          p_note?: string
+          p_report_id: string
+          p_suspend_days?: number
+        }
+        Returns: boolean
+      }
+      new_mentions: { Args: { _new: Json; _old: Json }; Returns: string[] }
+      notification_group_keys: {
+        Args: { p_window_hours?: number }
+        Returns: {
+          group_key: string
+          id: string
+        }[]
+      }
+      post_system_message: {
+        Args: {
+          p_actor_id: string
+          p_conversation_id: string
+          p_event: string
+          p_extra?: Json
+          p_target_id?: string
+        }
+        Returns: undefined
+      }
+      release_scheduled_messages: {
+        Args: { p_limit?: number }
+        Returns: number
+      }
+      remove_group_member: {
+        Args: { p_conversation_id: string; p_user_id: string }
+        Returns: undefined
+      }
+      respond_to_follow_request: {
+        Args: { p_approve: boolean; p_follower_id: string }
+        Returns: undefined
+      }
+      search_messages: {
+        Args: {
+          p_conversation_id?: string
+          p_limit?: number
+          p_query: string
+        }
+        Returns: {
+          conversation_id: string
+          created_at: string
+          message_id: string
+          rank: number
+          sender_avatar_url: string
+          sender_display_name: string
+          sender_id: string
+          sender_username: string
+          snippet: string
+        }[]
+      }
+      send_message_with_attachments: {
+        Args: {
+          p_attachments: Json
+          p_content: string
+          p_conversation_id: string
+          p_reply_to_message_id?: string
+        }
+        Returns: string
+      }
+      set_comment_hidden: {
+        Args: { p_comment_id: string; p_hidden: boolean }
+        Returns: boolean
+      }
+      set_conversation_archived: {
+        Args: { p_conversation_id: string; p_archived: boolean }
+        Returns: undefined
+      }
+      set_conversation_marked_unread: {
+        Args: { p_conversation_id: string; p_unread: boolean }
+        Returns: undefined
+      }
+      set_conversation_muted: {
+        Args: { p_conversation_id: string; p_muted_until: string | null }
+        Returns: undefined
+      }
+      set_conversation_pinned: {
+        Args: { p_conversation_id: string; p_pinned: boolean }
+        Returns: undefined
+      }
+      set_disappearing_messages: {
+        Args: { p_conversation_id: string; p_seconds: number | null }
+        Returns: undefined
+      }
+      set_group_admin: {
+        Args: {
+          p_conversation_id: string
+          p_is_admin: boolean
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      set_pinned_comment: {
+        Args: { p_comment_id: string; p_post_id: string }
+        Returns: boolean
+      }
+      start_call: {
+        Args: { p_call_type: string; p_conversation_id: string }
+        Returns: string
+      }
+      update_group_details: {
+        Args: {
+          p_avatar_url?: string
+          p_conversation_id: string
+          p_title?: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
@@ -0,0 +1,130 @@
+// Mixes every stream in a call into one MediaStream that a MediaRecorder can consume.
+// Audio is summed through Web Audio; video (for video calls) is tiled onto a canvas.
+
+export interface CallMixer {
+  stream: MediaStream;
+  mimeType: string;
+  // Pass the current set of streams (local first); new ones are mixed in, gone ones dropped
+  sync: (streams: MediaStream[]) => void;
+  stop: () => void;
+}
+
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+const AUDIO_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm'];
+
+const pickMimeType = (candidates: string[]) =>
+  candidates.find(type => MediaRecorder.isTypeSupported(type)) || candidates[candidates.length - 1];
+
+const CANVAS_WIDTH = 1280;
+const CANVAS_HEIGHT = 720;
+const FRAME_RATE = 30;
+
+export const createCallMixer = (streams: MediaStream[], withVideo: boolean): CallMixer => {
+  const audioContext = new AudioContext();
+  const destination = audioContext.createMediaStreamDestination();
+  const audioSources = new Map<string, MediaStreamAudioSourceNode>();
+  const videoElements = new Map<string, HTMLVideoElement>();
+
+  let canvas: HTMLCanvasElement | null = null;
+  let frameTimer: ReturnType<typeof setInterval> | null = null;
+
+  const sync = (current: MediaStream[]) => {
+    const ids = new Set(current.map(s => s.id));
+
+    current.forEach(stream => {
+      if (!audioSources.has(stream.id) && stream.getAudioTracks().length > 0) {
+        const source = audioContext.createMediaStreamSource(stream);
+        source.connect(destination);
+        audioSources.set(stream.id, source);
+      }
+
+      if (withVideo && !videoElements.has(stream.id) && stream.getVideoTracks().length > 0) {
+        const video = document.createElement('video');
+        video.muted = true;
+        video.playsInline = true;
+        video.srcObject = stream;
+        video.play().catch(() => {});
+        videoElements.set(stream.id, video);
+      }
+    });
+
+    audioSources.forEach((source, id) => {
+      if (!ids.has(id)) {
+        source.disconnect();
+        audioSources.delete(id);
+      }
+    });
+
+    videoElements.forEach((video, id) => {
+      if (!ids.has(id)) {
+        video.srcObject = null;
+        videoElements.delete(id);
+      }
+    });
+  };
+
+  const drawFrame = () => {
+    const ctx = canvas?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    const videos = Array.from(videoElements.values());
+    if (videos.length === 0) return;
+
+    const cols = Math.ceil(Math.sqrt(videos.length));
+    const rows = Math.ceil(videos.length / cols);
+    const tileWidth = CANVAS_WIDTH / cols;
+    const tileHeight = CANVAS_HEIGHT / rows;
+
+    videos.forEach((video, index) => {
+      if (!video.videoWidth) return;
+      const x = (index % cols) * tileWidth;
+      const y = Math.floor(index / cols) * tileHeight;
+      // Cover the tile without stretching
+      const scale = Math.max(tileWidth / video.videoWidth, tileHeight / video.videoHeight);
+      const sw = tileWidth / scale;
+      const sh = tileHeight / scale;
+      const sx = (video.videoWidth - sw) / 2;
+      const sy = (video.videoHeight - sh) / 2;
+      ctx.drawImage(video, sx, sy, sw, sh, x, y, tileWidth, tileHeight);
+    });
+  };
+
+  const tracks: MediaStreamTrack[] = [...destination.stream.getAudioTracks()];
+
+  if (withVideo) {
+    canvas = document.createElement('canvas');
+    canvas.width = CANVAS_WIDTH;
+    canvas.height = CANVAS_HEIGHT;
+    // setInterval keeps drawing while the tab is in the background, unlike requestAnimationFrame
+    frameTimer = setInterval(drawFrame, 1000 / FRAME_RATE);
+    tracks.push(...canvas.captureStream(FRAME_RATE).getVideoTracks());
+  }
+
+  sync(streams);
+
+  const stop = () => {
+    if (frameTimer) clearInterval(frameTimer);
+    audioSources.forEach(source => source.disconnect());
+    audioSources.clear();
+    videoElements.forEach(video => {
+      video.srcObject = null;
+    });
+    videoElements.clear();
+    tracks.forEach(track => track.stop());
+    audioContext.close();
+  };
+
+  return {
+    stream: new MediaStream(tracks),
+    mimeType: pickMimeType(withVideo ? VIDEO_MIME_TYPES : AUDIO_MIME_TYPES),
+    sync,
+    stop,
+  };
+};
+
+// Storage path for one chunk; zero-padded so a plain listing sorts in recording order
+export const getRecordingChunkPath = (callId: string, recordingId: string, index: number) =>
+  `${callId}/${recordingId}/${String(index).padStart(6, '0')}.webm`;
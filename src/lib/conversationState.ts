@@ -0,0 +1,14 @@
+import { addHours } from "date-fns";
+
+// Postgres stores "mute forever" as the infinity timestamp
+export const MUTED_FOREVER = "infinity";
+
+// Value for set_conversation_muted from one of MUTE_DURATIONS
+export const getMutedUntil = (hours: number | null) =>
+  hours === null ? MUTED_FOREVER : addHours(new Date(), hours).toISOString();
+
+export const isConversationMuted = (mutedUntil?: string | null) => {
+  if (!mutedUntil) return false;
+  if (mutedUntil === MUTED_FOREVER) return true;
+  return new Date(mutedUntil).getTime() > Date.now();
+};
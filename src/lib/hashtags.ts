@@ -0,0 +1,44 @@
+export type HashtagPart =
+  | { type: "text"; value: string }
+  | { type: "hashtag"; tag: string };
+
+const MAX_TAGS = 30;
+const MAX_TAG_LENGTH = 50;
+
+// "#" not glued to a preceding word character; letters with accents count ("#verão")
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_])#([\p{L}\p{N}_]+)/gu;
+
+export const normalizeTag = (tag: string) =>
+  tag.replace(/^#/, "").trim().toLocaleLowerCase("pt-BR");
+
+// Lowercased, unique tags in the order they first appear, as stored in posts.tags
+export const extractHashtags = (text: string): string[] => {
+  const tags = new Set<string>();
+
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    const tag = normalizeTag(match[2]);
+    if (tag.length <= MAX_TAG_LENGTH) tags.add(tag);
+    if (tags.size === MAX_TAGS) break;
+  }
+
+  return [...tags];
+};
+
+export const splitHashtags = (text: string): HashtagPart[] => {
+  const parts: HashtagPart[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    const start = (match.index ?? 0) + match[1].length;
+    if (start > lastIndex) {
+      parts.push({ type: "text", value: text.slice(lastIndex, start) });
+    }
+    parts.push({ type: "hashtag", tag: match[2] });
+    lastIndex = start + match[2].length + 1;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ type: "text", value: text.slice(lastIndex) });
+  }
+  return parts;
+};
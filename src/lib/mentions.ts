@@ -0,0 +1,58 @@
+// A mention as stored on posts, comments and messages by the set_mentions trigger
+export interface MentionRef {
+  user_id: string;
+  // Lowercased handle as it was typed, without the "@"
+  handle: string;
+}
+
+export type MentionPart =
+  | { type: "text"; value: string }
+  | { type: "mention"; handle: string };
+
+// The @handle being typed right before the caret
+export interface ActiveMention {
+  start: number;
+  end: number;
+  query: string;
+}
+
+// Same rule as extract_mentions: "@" not glued to a preceding word character
+const MENTION_PATTERN = /(^|[^a-zA-Z0-9_])@([a-zA-Z0-9_]+)/g;
+const ACTIVE_MENTION_PATTERN = /(?:^|[^a-zA-Z0-9_])@([a-zA-Z0-9_]*)$/;
+
+export const splitMentions = (text: string): MentionPart[] => {
+  const parts: MentionPart[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const start = (match.index ?? 0) + match[1].length;
+    if (start > lastIndex) {
+      parts.push({ type: "text", value: text.slice(lastIndex, start) });
+    }
+    parts.push({ type: "mention", handle: match[2] });
+    lastIndex = start + match[2].length + 1;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ type: "text", value: text.slice(lastIndex) });
+  }
+  return parts;
+};
+
+export const getActiveMention = (text: string, caret: number): ActiveMention | null => {
+  const match = ACTIVE_MENTION_PATTERN.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[1].length - 1, end: caret, query: match[1] };
+};
+
+export const insertMention = (text: string, mention: ActiveMention, username: string) =>
+  `${text.slice(0, mention.start)}@${username} ${text.slice(mention.end).replace(/^\s/, "")}`;
+
+// The mentions column comes back as untyped JSON
+export const toMentionRefs = (value: unknown): MentionRef[] =>
+  Array.isArray(value)
+    ? value.filter(
+        (m): m is MentionRef =>
+          !!m && typeof m.user_id === "string" && typeof m.handle === "string"
+      )
+    : [];
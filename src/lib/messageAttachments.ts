@@ -0,0 +1,218 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { AttachmentKind } from "@/types/messages";
+
+export const ATTACHMENTS_BUCKET = "message-attachments";
+
+const IMAGE_MAX_DIMENSION = 1920;
+const THUMBNAIL_MAX_DIMENSION = 480;
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+// Everything send_message_with_attachments needs to know about an uploaded file
+export interface PreparedAttachment {
+  kind: AttachmentKind;
+  file: Blob;
+  thumbnail: Blob | null;
+  file_name: string;
+  mime_type: string;
+  width: number | null;
+  height: number | null;
+  duration_seconds: number | null;
+}
+
+export const getAttachmentKind = (file: File): AttachmentKind => {
+  if (file.type.startsWith("image/")) return "image";
+  if (file.type.startsWith("video/")) return "video";
+  return "file";
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const loadImage = (file: Blob) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not decode image"));
+    };
+    img.src = url;
+  });
+
+const drawToBlob = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  maxDimension: number,
+  quality: number
+) =>
+  new Promise<{ blob: Blob | null; width: number; height: number }>((resolve) => {
+    const ratio = Math.min(1, maxDimension / width, maxDimension / height);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    canvas.getContext("2d")?.drawImage(source, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(
+      (blob) => resolve({ blob, width: canvas.width, height: canvas.height }),
+      "image/webp",
+      quality
+    );
+  });
+
+const loadVideoFrame = (file: Blob) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement("video");
+    video.preload = "metadata";
+    video.muted = true;
+    video.playsInline = true;
+    video.onloadedmetadata = () => {
+      // The very first frame is often black
+      video.currentTime = Math.min(0.5, video.duration / 2 || 0);
+    };
+    video.onseeked = () => {
+      URL.revokeObjectURL(url);
+      resolve(video);
+    };
+    video.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not decode video"));
+    };
+    video.src = url;
+  });
+
+// Shrinks photos before upload and builds thumbnails for photos and videos.
+// Anything the browser can't decode is sent as-is, without a thumbnail.
+export const prepareAttachment = async (file: File): Promise<PreparedAttachment> => {
+  const kind = getAttachmentKind(file);
+  const base: PreparedAttachment = {
+    kind,
+    file,
+    thumbnail: null,
+    file_name: file.name,
+    mime_type: file.type || "application/octet-stream",
+    width: null,
+    height: null,
+    duration_seconds: null,
+  };
+
+  try {
+    if (kind === "image") {
+      const img = await loadImage(file);
+      const thumbnail = await drawToBlob(img, img.width, img.height, THUMBNAIL_MAX_DIMENSION, 0.7);
+
+      // Re-encoding a GIF would drop its animation
+      if (file.type === "image/gif") {
+        return { ...base, thumbnail: thumbnail.blob, width: img.width, height: img.height };
+      }
+
+      const compressed = await drawToBlob(img, img.width, img.height, IMAGE_MAX_DIMENSION, 0.82);
+      const useCompressed = compressed.blob && compressed.blob.size < file.size;
+
+      return {
+        ...base,
+        file: useCompressed ? compressed.blob! : file,
+        thumbnail: thumbnail.blob,
+        file_name: useCompressed ? file.name.replace(/\.[^.]+$/, "") + ".webp" : file.name,
+        mime_type: useCompressed ? "image/webp" : base.mime_type,
+        width: useCompressed ? compressed.width : img.width,
+        height: useCompressed ? compressed.height : img.height,
+      };
+    }
+
+    if (kind === "video") {
+      const video = await loadVideoFrame(file);
+      const thumbnail = await drawToBlob(
+        video,
+        video.videoWidth,
+        video.videoHeight,
+        THUMBNAIL_MAX_DIMENSION,
+        0.7
+      );
+
+      return {
+        ...base,
+        thumbnail: thumbnail.blob,
+        width: video.videoWidth || null,
+        height: video.videoHeight || null,
+        duration_seconds: Number.isFinite(video.duration) ? Math.round(video.duration) : null,
+      };
+    }
+  } catch (err) {
+    console.error("Error preparing attachment:", err);
+  }
+
+  return base;
+};
+
+// supabase-js uploads don't report progress, so PUT to a signed upload URL ourselves
+export const uploadAttachmentFile = async (
+  path: string,
+  file: Blob,
+  onProgress?: (loaded: number) => void
+) => {
+  const { data, error } = await supabase.storage.from(ATTACHMENTS_BUCKET).createSignedUploadUrl(path);
+  if (error || !data) throw error || new Error("Could not create upload URL");
+
+  const body = new FormData();
+  body.append("cacheControl", "3600");
+  body.append("", file);
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", data.signedUrl);
+    xhr.setRequestHeader("x-upsert", "false");
+    xhr.upload.onprogress = (event) => onProgress?.(event.loaded);
+    xhr.onload = () =>
+      xhr.status >= 200 && xhr.status < 300
+        ? resolve()
+        : reject(new Error(`Upload failed with status ${xhr.status}`));
+    xhr.onerror = () => reject(new Error("Upload failed"));
+    xhr.send(body);
+  });
+};
+
+const signedUrlCache = new Map<string, { url: string; expiresAt: number }>();
+
+// Signed URLs are cached until shortly before they expire so lists don't re-sign on every render
+export const getSignedAttachmentUrls = async (paths: string[]): Promise<Record<string, string>> => {
+  const now = Date.now();
+  const result: Record<string, string> = {};
+  const missing: string[] = [];
+
+  Array.from(new Set(paths)).forEach((path) => {
+    const cached = signedUrlCache.get(path);
+    if (cached && cached.expiresAt > now) {
+      result[path] = cached.url;
+    } else {
+      missing.push(path);
+    }
+  });
+
+  if (missing.length === 0) return result;
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrls(missing, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error("Error signing attachment URLs:", error);
+    return result;
+  }
+
+  const expiresAt = now + (SIGNED_URL_TTL_SECONDS - 60) * 1000;
+  (data || []).forEach((item) => {
+    if (!item.path || !item.signedUrl) return;
+    signedUrlCache.set(item.path, { url: item.signedUrl, expiresAt });
+    result[item.path] = item.signedUrl;
+  });
+
+  return result;
+};
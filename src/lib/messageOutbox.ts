@@ -0,0 +1,265 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// A text or sticker message waiting to reach the server. The entry id is used as the
+// message id, so a retry after a lost response hits the primary key instead of posting twice.
+export interface OutboxEntry {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string | null;
+  sticker_url: string | null;
+  reply_to_message_id: string | null;
+  created_at: string;
+  status: "pending" | "failed";
+  attempts: number;
+  // Epoch ms before which the entry is not retried
+  next_attempt_at: number;
+}
+
+export type OutboxEvent = { type: "changed" } | { type: "sent"; entry: OutboxEntry };
+
+const DB_NAME = "breyky-outbox";
+const STORE_NAME = "messages";
+
+// Retries back off from 2s up to a minute; after this many the entry waits for a manual retry
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+// Used when IndexedDB is unavailable (some private browsing modes); lasts for the session only
+const memoryStore = new Map<string, OutboxEntry>();
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("Error opening message outbox:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = <T>(db: IDBDatabase, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const readEntries = async (): Promise<OutboxEntry[]> => {
+  const db = await openDb();
+  if (!db) return Array.from(memoryStore.values());
+  return runRequest<OutboxEntry[]>(db, "readonly", (store) => store.getAll());
+};
+
+const writeEntry = async (entry: OutboxEntry) => {
+  const db = await openDb();
+  if (!db) {
+    memoryStore.set(entry.id, entry);
+    return;
+  }
+  await runRequest(db, "readwrite", (store) => store.put(entry));
+};
+
+const removeEntry = async (id: string) => {
+  const db = await openDb();
+  if (!db) {
+    memoryStore.delete(id);
+    return;
+  }
+  await runRequest(db, "readwrite", (store) => store.delete(id));
+};
+
+const listeners = new Set<(event: OutboxEvent) => void>();
+
+export const subscribeToOutbox = (listener: (event: OutboxEvent) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const emit = (event: OutboxEvent) => {
+  listeners.forEach((listener) => listener(event));
+};
+
+const byCreatedAt = (a: OutboxEntry, b: OutboxEntry) => a.created_at.localeCompare(b.created_at);
+
+// The user's queued messages, oldest first
+export const getOutboxEntries = async (userId: string, conversationId?: string) => {
+  const entries = await readEntries();
+  return entries
+    .filter((e) => e.sender_id === userId && (!conversationId || e.conversation_id === conversationId))
+    .sort(byCreatedAt);
+};
+
+// No error code means the request never got an answer (offline, DNS, timeout)
+const isNetworkError = (error: { code?: string }) => !error.code;
+
+type SendOutcome = "sent" | "retry" | "failed";
+
+const sendEntry = async (entry: OutboxEntry): Promise<SendOutcome> => {
+  try {
+    const { error } = await supabase.from("messages").insert({
+      id: entry.id,
+      conversation_id: entry.conversation_id,
+      sender_id: entry.sender_id,
+      content: entry.content,
+      sticker_url: entry.sticker_url,
+      reply_to_message_id: entry.reply_to_message_id,
+    });
+
+    // 23505: an earlier attempt went through but its response was lost
+    if (error && error.code !== "23505") {
+      console.error("Error sending queued message:", error);
+      return isNetworkError(error) ? "retry" : "failed";
+    }
+
+    // Update conversation timestamp
+    await supabase
+      .from("conversations")
+      .update({ updated_at: new Date().toISOString() })
+      .eq("id", entry.conversation_id);
+
+    return "sent";
+  } catch (err) {
+    console.error("Error sending queued message:", err);
+    return "retry";
+  }
+};
+
+let flushing = false;
+let flushRequested = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Sends every due entry in order. A conversation stops at its first unsent entry so
+// messages never arrive out of order.
+export const flushOutbox = async (userId: string, ignoreBackoff = false) => {
+  if (flushing) {
+    flushRequested = true;
+    return;
+  }
+
+  flushing = true;
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  try {
+    if (!navigator.onLine) return;
+
+    const entries = await getOutboxEntries(userId);
+    const blocked = new Set<string>();
+
+    for (const entry of entries) {
+      if (entry.status !== "pending" || blocked.has(entry.conversation_id)) continue;
+      if (!ignoreBackoff && entry.next_attempt_at > Date.now()) {
+        blocked.add(entry.conversation_id);
+        continue;
+      }
+
+      const outcome = await sendEntry(entry);
+
+      if (outcome === "sent") {
+        await removeEntry(entry.id);
+        emit({ type: "sent", entry });
+        continue;
+      }
+
+      const attempts = entry.attempts + 1;
+      const failed = outcome === "failed" || attempts >= MAX_ATTEMPTS;
+      await writeEntry({
+        ...entry,
+        attempts,
+        status: failed ? "failed" : "pending",
+        next_attempt_at: Date.now() + Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS),
+      });
+      blocked.add(entry.conversation_id);
+      emit({ type: "changed" });
+    }
+  } catch (err) {
+    console.error("Error flushing message outbox:", err);
+  } finally {
+    flushing = false;
+  }
+
+  if (flushRequested) {
+    flushRequested = false;
+    flushOutbox(userId);
+    return;
+  }
+
+  scheduleRetry(userId);
+};
+
+const scheduleRetry = async (userId: string) => {
+  const entries = await getOutboxEntries(userId);
+  const nextAttempt = Math.min(
+    ...entries.filter((e) => e.status === "pending").map((e) => e.next_attempt_at)
+  );
+  if (!Number.isFinite(nextAttempt) || retryTimer) return;
+
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox(userId);
+  }, Math.max(nextAttempt - Date.now(), 0));
+};
+
+let syncedUserId: string | null = null;
+const handleOnline = () => {
+  if (syncedUserId) flushOutbox(syncedUserId, true);
+};
+
+// Starts sending the user's queue, now and whenever connectivity returns
+export const startOutboxSync = (userId: string) => {
+  if (syncedUserId !== userId) {
+    syncedUserId = userId;
+    window.removeEventListener("online", handleOnline);
+    window.addEventListener("online", handleOnline);
+  }
+  flushOutbox(userId);
+};
+
+export const enqueueMessage = async (
+  message: Pick<OutboxEntry, "conversation_id" | "sender_id" | "content" | "sticker_url" | "reply_to_message_id">
+) => {
+  const entry: OutboxEntry = {
+    ...message,
+    id: crypto.randomUUID(),
+    created_at: new Date().toISOString(),
+    status: "pending",
+    attempts: 0,
+    next_attempt_at: 0,
+  };
+
+  await writeEntry(entry);
+  emit({ type: "changed" });
+  flushOutbox(entry.sender_id);
+  return entry;
+};
+
+// Puts a failed entry back in the queue with a fresh backoff
+export const retryOutboxEntry = async (entry: OutboxEntry) => {
+  await writeEntry({ ...entry, status: "pending", attempts: 0, next_attempt_at: 0 });
+  emit({ type: "changed" });
+  flushOutbox(entry.sender_id, true);
+};
+
+export const discardOutboxEntry = async (id: string) => {
+  await removeEntry(id);
+  emit({ type: "changed" });
+};
@@ -0,0 +1,20 @@
+import type { QuotedMessage } from "@/types/messages";
+
+// One-line summary of a message for quotes and reply previews
+export const getMessagePreview = (message: QuotedMessage | null | undefined) => {
+  if (!message) return "Mensagem indisponível";
+  if (message.deleted_at) return "Mensagem apagada";
+  if (message.audio_url) return "Mensagem de áudio";
+  if (message.sticker_url) return "Sticker";
+  if (message.content) return message.content;
+
+  const attachments = message.attachments || [];
+  if (attachments.length === 0) return "";
+  if (attachments.every((a) => a.kind === "image")) {
+    return attachments.length > 1 ? `${attachments.length} fotos` : "Foto";
+  }
+  if (attachments.length === 1) {
+    return attachments[0].kind === "video" ? "Vídeo" : attachments[0].file_name;
+  }
+  return `${attachments.length} anexos`;
+};
@@ -0,0 +1,42 @@
+import type { Message } from "@/types/messages";
+
+// "1 hora", "24 horas", "7 dias"
+export const formatDisappearingTimer = (seconds: number) => {
+  if (seconds % (24 * 60 * 60) === 0 && seconds > 24 * 60 * 60) return `${seconds / (24 * 60 * 60)} dias`;
+  const hours = Math.round(seconds / (60 * 60));
+  return hours === 1 ? "1 hora" : `${hours} horas`;
+};
+
+// Human-readable text for conversation events stored as system messages
+export const getSystemMessageText = (message: Message, currentUserId?: string) => {
+  const metadata = message.metadata;
+  if (!metadata) return "";
+
+  const actor =
+    message.sender_id === currentUserId
+      ? "Você"
+      : message.sender?.display_name || message.sender?.username || "Alguém";
+  const target =
+    metadata.target_id && metadata.target_id === currentUserId
+      ? "você"
+      : metadata.target_name || "um usuário";
+
+  switch (metadata.event) {
+    case "group_created":
+      return `${actor} criou o grupo "${metadata.title || ""}"`;
+    case "member_added":
+      return `${actor} adicionou ${target}`;
+    case "member_removed":
+      return `${actor} removeu ${target}`;
+    case "member_left":
+      return `${actor} saiu do grupo`;
+    case "group_renamed":
+      return `${actor} mudou o nome do grupo para "${metadata.title || ""}"`;
+    case "disappearing_changed":
+      return metadata.seconds
+        ? `${actor} ativou as mensagens temporárias: novas mensagens somem após ${formatDisappearingTimer(metadata.seconds)}`
+        : `${actor} desativou as mensagens temporárias`;
+    default:
+      return "";
+  }
+};
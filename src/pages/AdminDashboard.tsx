@@ -23,6 +23,7 @@ import {
   RefreshCw,
   TrendingUp,
   UserCheck,
+  Flag,
   Image as ImageIcon
 } from "lucide-react";
 import {
@@ -40,6 +41,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { ModerationQueue } from "@/components/admin/ModerationQueue";
 
 interface UserProfile {
   id: string;
@@ -72,8 +74,11 @@ interface Transaction {
 
 const AdminDashboard = () => {
   const navigate = useNavigate();
-  const { user, isAdmin, isLoading: authLoading } = useAuth();
-  const [activeTab, setActiveTab] = useState<"users" | "finances" | "withdrawals" | "stats">("users");
+  const { user, isAdmin, isModerator, isLoading: authLoading } = useAuth();
+  const canModerate = isAdmin || isModerator;
+  const [activeTab, setActiveTab] = useState<"users" | "finances" | "withdrawals" | "moderation" | "stats">(
+    isAdmin ? "users" : "moderation"
+  );
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [pendingWithdrawals, setPendingWithdrawals] = useState<Transaction[]>([]);
@@ -88,17 +93,20 @@ const AdminDashboard = () => {
   const [userModalOpen, setUserModalOpen] = useState(false);
 
   useEffect(() => {
-    if (!authLoading && !isAdmin) {
+    if (!authLoading && !canModerate) {
       toast.error("Acesso não autorizado");
       navigate("/");
     }
-  }, [isAdmin, authLoading, navigate]);
+  }, [canModerate, authLoading, navigate]);
 
   useEffect(() => {
     if (isAdmin) {
       fetchData();
+    } else if (isModerator) {
+      setActiveTab("moderation");
+      setIsLoading(false);
     }
-  }, [isAdmin]);
+  }, [isAdmin, isModerator]);
 
   const fetchData = async () => {
     setIsLoading(true);
@@ -272,7 +280,7 @@ const AdminDashboard = () => {
     );
   }
 
-  if (!isAdmin) {
+  if (!canModerate) {
     return null;
   }
 
@@ -302,70 +310,77 @@ const AdminDashboard = () => {
       </header>
 
       {/* Stats Cards */}
-      <div className="p-4 grid grid-cols-2 gap-3">
-        <motion.div
-          initial={{ opacity: 0, y: 10 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="glass-strong rounded-xl p-4 border border-white/10"
-        >
-          <div className="flex items-center gap-2 text-muted-foreground mb-2">
-            <Users className="w-4 h-4" />
-            <span className="text-xs">Total Usuários</span>
-          </div>
-          <p className="text-2xl font-bold">{totalUsers}</p>
-        </motion.div>
-
-        <motion.div
-          initial={{ opacity: 0, y: 10 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.05 }}
-          className="glass-strong rounded-xl p-4 border border-white/10"
-        >
-          <div className="flex items-center gap-2 text-muted-foreground mb-2">
-            <ImageIcon className="w-4 h-4" />
-            <span className="text-xs">Total Posts</span>
-          </div>
-          <p className="text-2xl font-bold">{totalPosts}</p>
-        </motion.div>
-
-        <motion.div
-          initial={{ opacity: 0, y: 10 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.1 }}
-          className="glass-strong rounded-xl p-4 border border-white/10"
-        >
-          <div className="flex items-center gap-2 text-muted-foreground mb-2">
-            <DollarSign className="w-4 h-4" />
-            <span className="text-xs">Receita Total</span>
-          </div>
-          <p className="text-2xl font-bold text-green-500">
-            R$ {totalRevenue.toFixed(2)}
-          </p>
-        </motion.div>
-
-        <motion.div
-          initial={{ opacity: 0, y: 10 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.15 }}
-          className="glass-strong rounded-xl p-4 border border-white/10"
-        >
-          <div className="flex items-center gap-2 text-muted-foreground mb-2">
-            <Wallet className="w-4 h-4" />
-            <span className="text-xs">Comissões</span>
-          </div>
-          <p className="text-2xl font-bold text-primary">
-            R$ {totalCommissions.toFixed(2)}
-          </p>
-        </motion.div>
-      </div>
+      {isAdmin && (
+        <div className="p-4 grid grid-cols-2 gap-3">
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="glass-strong rounded-xl p-4 border border-white/10"
+          >
+            <div className="flex items-center gap-2 text-muted-foreground mb-2">
+              <Users className="w-4 h-4" />
+              <span className="text-xs">Total Usuários</span>
+            </div>
+            <p className="text-2xl font-bold">{totalUsers}</p>
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.05 }}
+            className="glass-strong rounded-xl p-4 border border-white/10"
+          >
+            <div className="flex items-center gap-2 text-muted-foreground mb-2">
+              <ImageIcon className="w-4 h-4" />
+              <span className="text-xs">Total Posts</span>
+            </div>
+            <p className="text-2xl font-bold">{totalPosts}</p>
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+            className="glass-strong rounded-xl p-4 border border-white/10"
+          >
+            <div className="flex items-center gap-2 text-muted-foreground mb-2">
+              <DollarSign className="w-4 h-4" />
+              <span className="text-xs">Receita Total</span>
+            </div>
+            <p className="text-2xl font-bold text-green-500">
+              R$ {totalRevenue.toFixed(2)}
+            </p>
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.15 }}
+            className="glass-strong rounded-xl p-4 border border-white/10"
+          >
+            <div className="flex items-center gap-2 text-muted-foreground mb-2">
+              <Wallet className="w-4 h-4" />
+              <span className="text-xs">Comissões</span>
+            </div>
+            <p className="text-2xl font-bold text-primary">
+              R$ {totalCommissions.toFixed(2)}
+            </p>
+          </motion.div>
+        </div>
+      )}
 
       {/* Tabs */}
-      <div className="px-4 mb-4 overflow-x-auto">
+      <div className={`px-4 mb-4 overflow-x-auto ${isAdmin ? "" : "pt-4"}`}>
         <div className="flex gap-2 min-w-max">
           {[
-            { id: "users", label: "Usuários", icon: Users },
-            { id: "finances", label: "Financeiro", icon: DollarSign },
-            { id: "withdrawals", label: `Saques (${pendingWithdrawals.length})`, icon: Wallet },
+            ...(isAdmin
+              ? [
+                  { id: "users", label: "Usuários", icon: Users },
+                  { id: "finances", label: "Financeiro", icon: DollarSign },
+                  { id: "withdrawals", label: `Saques (${pendingWithdrawals.length})`, icon: Wallet },
+                ]
+              : []),
+            { id: "moderation", label: "Moderação", icon: Flag },
           ].map((tab) => (
             <button
               key={tab.id}
@@ -601,6 +616,8 @@ const AdminDashboard = () => {
             )}
           </div>
         )}
+
+        {activeTab === "moderation" && <ModerationQueue />}
       </div>
 
       {/* User Details Modal */}
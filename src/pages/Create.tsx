@@ -7,6 +7,9 @@ import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
 import { useVoid } from "@/hooks/useVoid";
+import { useMentionAutocomplete } from "@/hooks/useMentionAutocomplete";
+import { extractHashtags } from "@/lib/hashtags";
+import { MentionSuggestions } from "@/components/mentions/MentionSuggestions";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 
@@ -50,6 +53,7 @@ const Create = () => {
   const [voidDuration, setVoidDuration] = useState(24);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [step, setStep] = useState<"select" | "edit">("select");
+  const mention = useMentionAutocomplete(description, setDescription);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -120,6 +124,7 @@ const Create = () => {
           content_url: urlData.publicUrl,
           content_type: contentType,
           description: description || null,
+          tags: extractHashtags(description),
         });
 
         if (postError) throw postError;
@@ -268,12 +273,21 @@ const Create = () => {
                   autoFocus
                 />
               ) : (
-                <textarea
-                  value={description}
-                  onChange={(e) => setDescription(e.target.value)}
-                  placeholder="Adicione uma legenda..."
-                  className="w-full h-24 p-4 rounded-2xl bg-secondary text-foreground placeholder:text-muted-foreground resize-none focus:outline-none focus:ring-2 focus:ring-primary/50"
-                />
+                <div className="relative">
+                  <textarea
+                    value={description}
+                    onChange={mention.handleChange}
+                    onKeyDown={mention.handleKeyDown}
+                    onBlur={mention.closeSuggestions}
+                    placeholder="Adicione uma legenda..."
+                    className="w-full h-24 p-4 rounded-2xl bg-secondary text-foreground placeholder:text-muted-foreground resize-none focus:outline-none focus:ring-2 focus:ring-primary/50"
+                  />
+                  <MentionSuggestions
+                    users={mention.suggestions}
+                    onSelect={mention.selectMention}
+                    placement="below"
+                  />
+                </div>
               )}
 
               {/* Void Duration Selector */}
@@ -2,10 +2,11 @@ import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { motion } from "framer-motion";
-import { Search, X, Loader2, BadgeCheck, TrendingUp } from "lucide-react";
+import { Search, X, Loader2, BadgeCheck, TrendingUp, Lock, Flame } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { useAuth } from "@/hooks/useAuth";
 import { useSearch } from "@/hooks/useSearch";
+import { useTrendingTags } from "@/hooks/useTrendingTags";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { cn } from "@/lib/utils";
 
@@ -13,6 +14,7 @@ const Discover = () => {
   const navigate = useNavigate();
   const { user, isLoading: authLoading } = useAuth();
   const { users, isLoading, query, search, getSuggestedUsers, clear } = useSearch();
+  const { tags: trendingTags } = useTrendingTags();
   const [searchValue, setSearchValue] = useState("");
 
   useEffect(() => {
@@ -91,6 +93,32 @@ const Discover = () => {
 
       {/* Content */}
       <div className="px-4 py-4 pb-24">
+        {!query && trendingTags.length > 0 && (
+          <div className="mb-6">
+            <div className="flex items-center gap-2 mb-3">
+              <Flame className="w-5 h-5 text-primary" />
+              <span className="text-sm font-medium text-muted-foreground">Em alta</span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {trendingTags.map((trending, index) => (
+                <motion.button
+                  key={trending.tag}
+                  initial={{ opacity: 0, scale: 0.95 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  transition={{ delay: index * 0.03 }}
+                  onClick={() => navigate(`/tag/${encodeURIComponent(trending.tag)}`)}
+                  className="ios-list-item px-3 py-2 rounded-xl text-left"
+                >
+                  <span className="font-semibold text-foreground">#{trending.tag}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {trending.recent_count} {trending.recent_count === 1 ? "publicação" : "publicações"}
+                  </span>
+                </motion.button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {!query && (
           <div className="flex items-center gap-2 mb-4">
             <TrendingUp className="w-5 h-5 text-primary" />
@@ -135,6 +163,9 @@ const Discover = () => {
                     {profile.is_verified && (
                       <BadgeCheck className={cn("w-4 h-4 flex-shrink-0", getBadgeColor(profile.verification_type))} />
                     )}
+                    {profile.is_private && (
+                      <Lock className="w-3.5 h-3.5 flex-shrink-0 text-muted-foreground" />
+                    )}
                   </div>
                   <span className="text-sm text-muted-foreground truncate block">
                     @{profile.username || "unknown"}
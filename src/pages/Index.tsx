@@ -9,6 +9,8 @@ import { Loader2, Bell, Search, RefreshCw, Users, Sparkles, TrendingUp } from "l
 import { Button } from "@/components/ui/button";
 import { useNotifications } from "@/hooks/useNotifications";
 import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { toMentionRefs } from "@/lib/mentions";
 import { cn } from "@/lib/utils";
 
 // --- Interfaces ---
@@ -17,6 +19,9 @@ interface FeedPost {
   content_url: string | null;
   content_type: string;
   description: string | null;
+  mentions?: Json;
+  tags?: string[] | null;
+  comments_disabled?: boolean;
   likes_count: number;
   comments_count: number | null;
   shares_count: number | null;
@@ -64,7 +69,8 @@ const Index = () => {
       const { data: follows } = await supabase
         .from("follows")
         .select("following_id")
-        .eq("follower_id", user.id);
+        .eq("follower_id", user.id)
+        .eq("status", "accepted");
 
       if (!follows?.length) {
         setFollowingPosts([]);
@@ -281,6 +287,7 @@ const Index = () => {
                 displayName={post.creator_display_name || "Usuário"}
                 avatar={post.creator_avatar_url || ""}
                 description={post.description || ""}
+                mentions={toMentionRefs(post.mentions)}
                 likes={post.likes_count}
                 comments={post.comments_count || 0}
                 shares={post.shares_count || 0}
@@ -289,7 +296,10 @@ const Index = () => {
                 thumbnailUrl={post.content_url || ""}
                 isLiked={post.is_liked || false}
                 onLike={() => handleLikePost(post.id)}
+                tags={post.tags}
+                commentsDisabled={post.comments_disabled}
                 onDeleted={() => refresh()}
+                onHidden={() => refresh()}
               />
             ))
           )}
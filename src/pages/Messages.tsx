@@ -5,29 +5,52 @@ import { AppLayout } from "@/components/layout/AppLayout";
 import { ChatPreview } from "@/components/messages/ChatPreview";
 import { ChatView } from "@/components/messages/ChatView";
 import { NewConversationSheet } from "@/components/messages/NewConversationSheet";
+import { MessageSearchResultItem } from "@/components/messages/MessageSearchResultItem";
+import { ConversationActionsSheet } from "@/components/messages/ConversationActionsSheet";
 import { useAuth } from "@/hooks/useAuth";
 import { useMessages } from "@/hooks/useMessages";
 import { usePresence } from "@/hooks/usePresence";
+import { useConversationActions, useMessageSearch } from "@/hooks/messages";
+import { getSystemMessageText } from "@/lib/systemMessages";
+import { getMessagePreview } from "@/lib/messagePreview";
+import { isConversationMuted } from "@/lib/conversationState";
+import type { Conversation } from "@/types/messages";
+import { toast } from "sonner";
 import { 
   Loader2, 
   Search, 
   X,
   SquarePen,
+  Archive,
   ChevronLeft // Importante para o botão de voltar no mobile
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
 
+// Which section of the list a conversation belongs to
+const getListView = (conv: Conversation) =>
+  conv.isRequest ? "requests" : conv.isArchived ? "archived" : "inbox";
+
 const Messages = () => {
   const navigate = useNavigate();
   const { user, isLoading: authLoading } = useAuth();
-  const { conversations, isLoading: messagesLoading } = useMessages();
+  const { conversations, isLoading: messagesLoading, fetchConversations } = useMessages();
+  const { setPinned, setArchived, setMuted, setMarkedUnread, markConversationRead } = useConversationActions();
   const { onlineUsers } = usePresence();
   
   const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
   const [showNewConversation, setShowNewConversation] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  // Requests and archived conversations each get their own view
+  const [listView, setListView] = useState<"inbox" | "archived" | "requests">("inbox");
+  const [actionsConversation, setActionsConversation] = useState<Conversation | null>(null);
+  const {
+    setQuery: setMessageQuery,
+    results: messageResults,
+    isSearching: isSearchingMessages,
+  } = useMessageSearch();
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -40,27 +63,95 @@ const Messages = () => {
     setShowNewConversation(false);
   };
 
-  // Filtros e Ordenação
+  const archivedCount = useMemo(
+    () => conversations.filter((conv) => getListView(conv) === "archived").length,
+    [conversations]
+  );
+  const requestCount = useMemo(
+    () => conversations.filter((conv) => getListView(conv) === "requests").length,
+    [conversations]
+  );
+
+  // Filtros e Ordenação: a busca cobre todas menos solicitações; sem busca, cada seção tem sua lista
   const filteredConversations = useMemo(() => {
-    let result = [...conversations];
+    let result = searchQuery.trim()
+      ? conversations.filter((conv) => !conv.isRequest)
+      : conversations.filter((conv) => getListView(conv) === listView);
     if (searchQuery.trim()) {
       const query = searchQuery.toLowerCase();
       result = result.filter(conv => 
-        conv.otherUser?.display_name?.toLowerCase().includes(query) ||
-        conv.otherUser?.username?.toLowerCase().includes(query)
+        conv.title?.toLowerCase().includes(query) ||
+        conv.members.some(member =>
+          member.display_name?.toLowerCase().includes(query) ||
+          member.username?.toLowerCase().includes(query)
+        )
       );
     }
+    const isUnread = (conv: Conversation) => conv.unreadCount > 0 || !!conv.isMarkedUnread;
     result.sort((a, b) => {
-      if (a.unreadCount > 0 && b.unreadCount === 0) return -1;
-      if (a.unreadCount === 0 && b.unreadCount > 0) return 1;
+      if (a.pinnedAt && !b.pinnedAt) return -1;
+      if (!a.pinnedAt && b.pinnedAt) return 1;
+      if (a.pinnedAt && b.pinnedAt) {
+        return new Date(b.pinnedAt).getTime() - new Date(a.pinnedAt).getTime();
+      }
+      if (isUnread(a) && !isUnread(b)) return -1;
+      if (!isUnread(a) && isUnread(b)) return 1;
       return new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime();
     });
     return result;
-  }, [conversations, searchQuery]);
+  }, [conversations, searchQuery, listView]);
+
+  const getConversationTitle = (conversation: Conversation) =>
+    conversation.isGroup
+      ? conversation.title || "Grupo"
+      : conversation.otherUser?.display_name || conversation.otherUser?.username || "Usuário";
+
+  // Opening a conversation clears a manual "não lida"
+  const openConversation = (conversation: Conversation) => {
+    setSelectedConversationId(conversation.id);
+    if (conversation.isMarkedUnread) {
+      setMarkedUnread(conversation.id, false);
+    }
+  };
+
+  const applyConversationAction = async (action: Promise<{ success: boolean; error?: string }>) => {
+    const result = await action;
+    if (!result.success) {
+      toast.error(result.error);
+      return;
+    }
+    fetchConversations();
+  };
+
+  const handleTogglePinned = (conversation: Conversation) =>
+    applyConversationAction(setPinned(conversation.id, !conversation.pinnedAt));
+
+  const handleToggleArchived = (conversation: Conversation) =>
+    applyConversationAction(setArchived(conversation.id, !conversation.isArchived));
+
+  const handleMute = (conversation: Conversation, mutedUntil: string | null) =>
+    applyConversationAction(setMuted(conversation.id, mutedUntil));
+
+  const handleToggleUnread = (conversation: Conversation) => {
+    if (conversation.unreadCount > 0 && conversation.lastMessage) {
+      return applyConversationAction(markConversationRead(conversation.id, conversation.lastMessage.id));
+    }
+    return applyConversationAction(setMarkedUnread(conversation.id, !conversation.isMarkedUnread));
+  };
+
+  const handleSearchChange = (value: string) => {
+    setSearchQuery(value);
+    setMessageQuery(value);
+  };
+
+  const openSearchResult = (conversationId: string, messageId: string) => {
+    setFocusMessageId(messageId);
+    setSelectedConversationId(conversationId);
+  };
 
   const stats = useMemo(() => {
     return {
-      online: conversations.filter(c => c.otherUser && onlineUsers.includes(c.otherUser.id)).length,
+      online: conversations.filter(c => !c.isRequest && c.otherUser && onlineUsers.includes(c.otherUser.id)).length,
     };
   }, [conversations, onlineUsers]);
 
@@ -101,7 +192,11 @@ const Messages = () => {
                   Se ele não tiver botão de voltar, podemos adicionar um Header falso aqui se precisar */}
               <ChatView
                 conversationId={selectedConversationId}
-                onBack={() => setSelectedConversationId(null)}
+                focusMessageId={focusMessageId}
+                onBack={() => {
+                  setSelectedConversationId(null);
+                  setFocusMessageId(null);
+                }}
               />
             </motion.div>
           ) : (
@@ -118,9 +213,21 @@ const Messages = () => {
               {/* Header Fixo */}
               <header className="sticky top-0 z-10 bg-background/80 backdrop-blur-md border-b border-border/40 shrink-0">
                 <div className="flex items-center justify-between px-4 h-14">
-                  <h1 className="text-xl font-bold tracking-tight cursor-pointer flex items-center gap-1">
-                    {user?.username || "Direct"}
-                  </h1>
+                  {listView !== "inbox" ? (
+                    <button
+                      onClick={() => setListView("inbox")}
+                      className="flex items-center gap-1 -ml-2"
+                    >
+                      <ChevronLeft className="w-6 h-6" />
+                      <h1 className="text-xl font-bold tracking-tight">
+                        {listView === "archived" ? "Arquivadas" : "Solicitações"}
+                      </h1>
+                    </button>
+                  ) : (
+                    <h1 className="text-xl font-bold tracking-tight cursor-pointer flex items-center gap-1">
+                      {user?.username || "Direct"}
+                    </h1>
+                  )}
                   <Button
                     variant="ghost"
                     size="icon"
@@ -140,13 +247,13 @@ const Messages = () => {
                       <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                       <Input
                         value={searchQuery}
-                        onChange={(e) => setSearchQuery(e.target.value)}
+                        onChange={(e) => handleSearchChange(e.target.value)}
                         placeholder="Pesquisar"
                         className="pl-9 pr-8 rounded-xl bg-muted/50 border-transparent h-9 text-sm focus-visible:ring-1"
                       />
                       {searchQuery && (
                         <button
-                          onClick={() => setSearchQuery("")}
+                          onClick={() => handleSearchChange("")}
                           className="absolute right-2 top-1/2 -translate-y-1/2"
                         >
                           <X className="w-3 h-3 text-muted-foreground" />
@@ -156,7 +263,7 @@ const Messages = () => {
                   </div>
 
                   {/* Stories / Online */}
-                  {stats.online > 0 && !searchQuery && (
+                  {stats.online > 0 && !searchQuery && listView === "inbox" && (
                     <div className="mb-6">
                       <ScrollArea className="w-full whitespace-nowrap">
                         <div className="flex px-4 gap-4 w-max">
@@ -168,11 +275,11 @@ const Messages = () => {
                           </div>
 
                           {conversations
-                            .filter(c => c.otherUser && onlineUsers.includes(c.otherUser.id))
+                            .filter(c => !c.isRequest && c.otherUser && onlineUsers.includes(c.otherUser.id))
                             .map(conv => (
                               <button
                                 key={conv.id}
-                                onClick={() => setSelectedConversationId(conv.id)}
+                                onClick={() => openConversation(conv)}
                                 className="flex flex-col items-center gap-1.5 min-w-[64px]"
                               >
                                 <div className="relative">
@@ -200,44 +307,140 @@ const Messages = () => {
                   )}
 
                   {/* Lista de Mensagens */}
-                  <div className="px-4 flex justify-between items-center mb-2">
-                    <span className="text-base font-semibold">Mensagens</span>
-                    <span className="text-xs text-muted-foreground">Solicitações</span>
-                  </div>
+                  {listView === "inbox" && (
+                    <div className="px-4 flex justify-between items-center mb-2">
+                      <span className="text-base font-semibold">Mensagens</span>
+                      <button
+                        onClick={() => setListView("requests")}
+                        className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+                      >
+                        Solicitações{requestCount > 0 && ` (${requestCount})`}
+                      </button>
+                    </div>
+                  )}
+
+                  {listView === "requests" && !searchQuery.trim() && (
+                    <p className="px-4 mb-3 text-xs text-muted-foreground">
+                      Mensagens de quem você não segue. Quem enviou não sabe se você viu até você aceitar.
+                    </p>
+                  )}
+
+                  {archivedCount > 0 && listView === "inbox" && !searchQuery.trim() && (
+                    <button
+                      onClick={() => setListView("archived")}
+                      className="w-[calc(100%-1rem)] mx-2 mb-1 flex items-center gap-3 p-3 rounded-2xl hover:bg-muted/50 transition-colors"
+                    >
+                      <div className="w-14 h-14 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
+                        <Archive className="w-6 h-6 text-muted-foreground" />
+                      </div>
+                      <span className="flex-1 text-left font-semibold">Arquivadas</span>
+                      <span className="text-xs text-muted-foreground">{archivedCount}</span>
+                    </button>
+                  )}
 
                   <div className="px-2 space-y-1">
                     {messagesLoading ? (
                       <div className="flex justify-center py-8"><Loader2 className="animate-spin" /></div>
                     ) : filteredConversations.length === 0 ? (
-                      <div className="text-center py-10 text-muted-foreground text-sm">Nenhuma conversa encontrada.</div>
+                      <div className="text-center py-10 text-muted-foreground text-sm">
+                        {listView === "archived"
+                          ? "Nenhuma conversa arquivada."
+                          : listView === "requests"
+                            ? "Nenhuma solicitação de mensagem."
+                            : "Nenhuma conversa encontrada."}
+                      </div>
                     ) : (
                       filteredConversations.map((conversation) => (
                         <div key={conversation.id} className="rounded-xl hover:bg-muted/40 transition-colors">
                           <ChatPreview
                             id={conversation.id}
-                            displayName={conversation.otherUser?.display_name || null}
-                            username={conversation.otherUser?.username || null}
-                            avatarUrl={conversation.otherUser?.avatar_url || null}
-                            lastMessage={conversation.lastMessage?.content || null}
+                            displayName={conversation.isGroup ? conversation.title || "Grupo" : conversation.otherUser?.display_name || null}
+                            username={conversation.isGroup ? null : conversation.otherUser?.username || null}
+                            avatarUrl={conversation.isGroup ? conversation.avatarUrl || null : conversation.otherUser?.avatar_url || null}
+                            lastMessage={
+                              conversation.lastMessage?.message_type === "system"
+                                ? getSystemMessageText(conversation.lastMessage, user?.id)
+                                : conversation.lastMessage
+                                  ? getMessagePreview(conversation.lastMessage) || null
+                                  : null
+                            }
                             lastMessageTime={conversation.lastMessage?.created_at || conversation.updated_at}
                             unreadCount={conversation.unreadCount}
                             isOnline={conversation.otherUser ? onlineUsers.includes(conversation.otherUser.id) : false}
                             isVerified={conversation.otherUser?.is_verified || false}
                             verificationBadge={conversation.otherUser?.verification_type || "none"}
+                            isDisappearing={!!conversation.disappearingSeconds}
+                            isPinned={!!conversation.pinnedAt}
+                            isMuted={isConversationMuted(conversation.mutedUntil)}
+                            isMarkedUnread={conversation.isMarkedUnread}
                             isAudioMessage={!!conversation.lastMessage?.audio_url}
                             isStickerMessage={!!conversation.lastMessage?.sticker_url}
-                            onClick={() => setSelectedConversationId(conversation.id)}
+                            onClick={() => openConversation(conversation)}
+                            onLongPress={conversation.isRequest ? undefined : () => setActionsConversation(conversation)}
                           />
                         </div>
                       ))
                     )}
                   </div>
+
+                  {/* Resultados em mensagens */}
+                  {searchQuery.trim().length >= 2 && (
+                    <>
+                      <div className="px-4 mt-6 mb-2">
+                        <span className="text-base font-semibold">Em mensagens</span>
+                      </div>
+                      <div className="px-2 space-y-1">
+                        {isSearchingMessages ? (
+                          <div className="flex justify-center py-6"><Loader2 className="animate-spin" /></div>
+                        ) : messageResults.length === 0 ? (
+                          <div className="text-center py-6 text-muted-foreground text-sm">Nenhuma mensagem encontrada.</div>
+                        ) : (
+                          messageResults.map((result) => {
+                            const conversation = conversations.find((c) => c.id === result.conversation_id);
+                            const senderName =
+                              result.sender_id === user?.id
+                                ? "Você"
+                                : result.sender_display_name || result.sender_username || "Usuário";
+
+                            return (
+                              <MessageSearchResultItem
+                                key={result.message_id}
+                                result={result}
+                                title={
+                                  conversation?.isGroup
+                                    ? conversation.title || "Grupo"
+                                    : conversation?.otherUser?.display_name || senderName
+                                }
+                                avatarUrl={
+                                  conversation?.isGroup
+                                    ? conversation.avatarUrl
+                                    : conversation?.otherUser?.avatar_url
+                                }
+                                prefix={conversation?.isGroup || result.sender_id === user?.id ? senderName : undefined}
+                                onClick={() => openSearchResult(result.conversation_id, result.message_id)}
+                              />
+                            );
+                          })
+                        )}
+                      </div>
+                    </>
+                  )}
                 </div>
               </ScrollArea>
             </motion.div>
           )}
         </AnimatePresence>
 
+        <ConversationActionsSheet
+          conversation={actionsConversation}
+          title={actionsConversation ? getConversationTitle(actionsConversation) : ""}
+          onOpenChange={(open) => !open && setActionsConversation(null)}
+          onTogglePinned={handleTogglePinned}
+          onToggleArchived={handleToggleArchived}
+          onMute={handleMute}
+          onToggleUnread={handleToggleUnread}
+        />
+
         <NewConversationSheet
           open={showNewConversation}
           onClose={() => setShowNewConversation(false)}
@@ -2,11 +2,11 @@ import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { motion } from "framer-motion";
-import { Bell, Heart, MessageCircle, UserPlus, AtSign, Loader2, Check, CheckCheck } from "lucide-react";
+import { Bell, Heart, MessageCircle, UserPlus, UserCheck, AtSign, Loader2, Check, CheckCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { useAuth } from "@/hooks/useAuth";
-import { useNotifications } from "@/hooks/useNotifications";
+import { useNotifications, type NotificationGroup } from "@/hooks/useNotifications";
 import { formatDistanceToNow } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { cn } from "@/lib/utils";
@@ -14,7 +14,17 @@ import { cn } from "@/lib/utils";
 const Notifications = () => {
   const navigate = useNavigate();
   const { user, isLoading: authLoading } = useAuth();
-  const { notifications, unreadCount, isLoading, markAsRead, markAllAsRead } = useNotifications();
+  const {
+    groups,
+    unreadCount,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
+    markAsRead,
+    markAllAsRead,
+    respondToFollowRequest,
+  } = useNotifications();
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -27,9 +37,13 @@ const Notifications = () => {
       case "like":
         return <Heart className="w-5 h-5 text-destructive" />;
       case "comment":
+      case "reply":
         return <MessageCircle className="w-5 h-5 text-blue-500" />;
       case "follow":
+      case "follow_request":
         return <UserPlus className="w-5 h-5 text-green-500" />;
+      case "follow_accepted":
+        return <UserCheck className="w-5 h-5 text-green-500" />;
       case "mention":
         return <AtSign className="w-5 h-5 text-primary" />;
       case "message":
@@ -39,18 +53,48 @@ const Notifications = () => {
     }
   };
 
-  const getNotificationText = (type: string, fromUser: string) => {
-    switch (type) {
+  // "ana", "ana e joão", "ana, joão e mais 48"
+  const getActorsLabel = (group: NotificationGroup) => {
+    const names = group.actors.map((actor) => actor.display_name || actor.username || "Alguém");
+    if (names.length === 0) return <strong>Alguém</strong>;
+
+    const others = group.actor_count - names.length;
+    if (others > 0) {
+      return (
+        <>
+          {names.map((name, i) => (
+            <span key={i}>{i > 0 && ", "}<strong>{name}</strong></span>
+          ))}
+          {" "}e mais {others}
+        </>
+      );
+    }
+
+    if (names.length === 1) return <strong>{names[0]}</strong>;
+    return <><strong>{names[0]}</strong> e <strong>{names[1]}</strong></>;
+  };
+
+  const getNotificationText = (group: NotificationGroup) => {
+    const actors = getActorsLabel(group);
+    const plural = group.actor_count > 1;
+
+    switch (group.type) {
       case "like":
-        return <span><strong>{fromUser}</strong> curtiu sua publicação</span>;
+        return <span>{actors} {plural ? "curtiram" : "curtiu"} sua publicação</span>;
       case "comment":
-        return <span><strong>{fromUser}</strong> comentou em sua publicação</span>;
+        return <span>{actors} {plural ? "comentaram" : "comentou"} em sua publicação</span>;
+      case "reply":
+        return <span>{actors} respondeu ao seu comentário</span>;
       case "follow":
-        return <span><strong>{fromUser}</strong> começou a seguir você</span>;
+        return <span>{actors} {plural ? "começaram" : "começou"} a seguir você</span>;
+      case "follow_request":
+        return <span>{actors} pediu para seguir você</span>;
+      case "follow_accepted":
+        return <span>{actors} aceitou sua solicitação para seguir</span>;
       case "mention":
-        return <span><strong>{fromUser}</strong> mencionou você</span>;
+        return <span>{actors} mencionou você</span>;
       case "message":
-        return <span><strong>{fromUser}</strong> enviou uma mensagem</span>;
+        return <span>{actors} enviou uma mensagem</span>;
       default:
         return <span>Nova notificação</span>;
     }
@@ -91,7 +135,7 @@ const Notifications = () => {
 
       {/* Notifications List */}
       <div className="px-4 py-4 pb-24">
-        {notifications.length === 0 ? (
+        {groups.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-20 text-center">
             <Bell className="w-12 h-12 text-muted-foreground mb-4" />
             <p className="text-muted-foreground mb-2">Nenhuma notificação</p>
@@ -100,57 +144,96 @@ const Notifications = () => {
             </p>
           </div>
         ) : (
-          <div className="space-y-2">
-            {notifications.map((notification, index) => (
-              <motion.button
-                key={notification.id}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.03 }}
-                onClick={() => {
-                  if (!notification.is_read) {
-                    markAsRead(notification.id);
-                  }
-                  if (notification.from_user_id) {
-                    navigate(`/user/${notification.from_user_id}`);
-                  }
-                }}
-                className={cn(
-                  "w-full ios-list-item flex items-start gap-3 p-3 rounded-xl text-left transition-colors",
-                  !notification.is_read && "bg-primary/5 border-l-2 border-primary"
-                )}
-              >
-                <Avatar className="w-10 h-10">
-                  <AvatarImage src={notification.from_user?.avatar_url || ""} />
-                  <AvatarFallback>
-                    {notification.from_user?.display_name?.[0] || "?"}
-                  </AvatarFallback>
-                </Avatar>
+          <>
+            <div className="space-y-2">
+              {groups.map((group, index) => (
+                <motion.div
+                  key={group.group_key}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: Math.min(index, 20) * 0.03 }}
+                  className={cn(
+                    "w-full ios-list-item flex items-start gap-3 p-3 rounded-xl transition-colors",
+                    !group.is_read && "bg-primary/5 border-l-2 border-primary"
+                  )}
+                >
+                  <button
+                    onClick={() => {
+                      markAsRead(group);
+                      if (group.actors[0]) {
+                        navigate(`/user/${group.actors[0].id}`);
+                      }
+                    }}
+                    className="flex-1 min-w-0 flex items-start gap-3 text-left"
+                  >
+                    <div className="relative w-10 h-10 shrink-0">
+                      {group.actors.length > 1 ? (
+                        <>
+                          <Avatar className="absolute top-0 left-0 w-7 h-7">
+                            <AvatarImage src={group.actors[1].avatar_url || ""} />
+                            <AvatarFallback>{group.actors[1].display_name?.[0] || "?"}</AvatarFallback>
+                          </Avatar>
+                          <Avatar className="absolute bottom-0 right-0 w-7 h-7 ring-2 ring-background">
+                            <AvatarImage src={group.actors[0].avatar_url || ""} />
+                            <AvatarFallback>{group.actors[0].display_name?.[0] || "?"}</AvatarFallback>
+                          </Avatar>
+                        </>
+                      ) : (
+                        <Avatar className="w-10 h-10">
+                          <AvatarImage src={group.actors[0]?.avatar_url || ""} />
+                          <AvatarFallback>
+                            {group.actors[0]?.display_name?.[0] || "?"}
+                          </AvatarFallback>
+                        </Avatar>
+                      )}
+                    </div>
 
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm text-foreground">
-                    {getNotificationText(
-                      notification.type,
-                      notification.from_user?.display_name || notification.from_user?.username || "Alguém"
-                    )}
-                  </p>
-                  <p className="text-xs text-muted-foreground mt-1">
-                    {formatDistanceToNow(new Date(notification.created_at), {
-                      addSuffix: true,
-                      locale: ptBR,
-                    })}
-                  </p>
-                </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-foreground">
+                        {getNotificationText(group)}
+                      </p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {formatDistanceToNow(new Date(group.latest_at), {
+                          addSuffix: true,
+                          locale: ptBR,
+                        })}
+                      </p>
+                    </div>
+                  </button>
 
-                <div className="flex items-center gap-2">
-                  {getNotificationIcon(notification.type)}
-                  {!notification.is_read && (
-                    <div className="w-2 h-2 rounded-full bg-primary" />
+                  {group.type === "follow_request" ? (
+                    <div className="flex items-center gap-2 self-center">
+                      <Button size="sm" onClick={() => respondToFollowRequest(group, true)}>
+                        Confirmar
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => respondToFollowRequest(group, false)}
+                      >
+                        Excluir
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      {getNotificationIcon(group.type)}
+                      {!group.is_read && (
+                        <div className="w-2 h-2 rounded-full bg-primary" />
+                      )}
+                    </div>
                   )}
-                </div>
-              </motion.button>
-            ))}
-          </div>
+                </motion.div>
+              ))}
+            </div>
+
+            {hasMore && (
+              <div className="flex justify-center py-4">
+                <Button variant="ghost" size="sm" onClick={loadMore} disabled={isLoadingMore}>
+                  {isLoadingMore ? <Loader2 className="w-4 h-4 animate-spin" /> : "Ver mais"}
+                </Button>
+              </div>
+            )}
+          </>
         )}
       </div>
     </AppLayout>
@@ -180,6 +180,7 @@ const Profile = () => {
           followingCount={profile.following_count || 0}
           postsCount={profile.posts_count || posts.length}
           isVerified={profile.is_verified || false}
+          isPrivate={profile.is_private}
           verificationBadge={profile.verification_type || "none"}
           isOwnProfile={true}
           walletBalance={profile.wallet_balance || 0}
@@ -13,7 +13,10 @@ import {
   LogOut,
   ChevronRight,
   Loader2,
-  Check
+  Check,
+  EyeOff,
+  Ban,
+  Filter
 } from "lucide-react";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { Switch } from "@/components/ui/switch";
@@ -26,12 +29,20 @@ import {
   SheetHeader, 
   SheetTitle 
 } from "@/components/ui/sheet";
+import { HiddenContentSheet } from "@/components/settings/HiddenContentSheet";
+import { BlockedAccountsSheet } from "@/components/settings/BlockedAccountsSheet";
+import { CommentFiltersSheet } from "@/components/settings/CommentFiltersSheet";
+import { NotificationPreferencesSheet } from "@/components/settings/NotificationPreferencesSheet";
 
 const Settings = () => {
   const navigate = useNavigate();
   const { user, profile, signOut, isLoading: authLoading } = useAuth();
-  const { settings, updateMessagePrivacy, isSaving } = useUserSettings();
+  const { settings, updateMessagePrivacy, updateAccountPrivacy, isSaving } = useUserSettings();
   const [messagePrivacySheet, setMessagePrivacySheet] = useState(false);
+  const [hiddenContentSheet, setHiddenContentSheet] = useState(false);
+  const [blockedAccountsSheet, setBlockedAccountsSheet] = useState(false);
+  const [commentFiltersSheet, setCommentFiltersSheet] = useState(false);
+  const [notificationsSheet, setNotificationsSheet] = useState(false);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -44,6 +55,15 @@ const Settings = () => {
     navigate("/auth");
   };
 
+  const handleAccountPrivacyChange = async (isPrivate: boolean) => {
+    const success = await updateAccountPrivacy(isPrivate);
+    if (success) {
+      toast.success(isPrivate ? "Sua conta agora é privada" : "Sua conta agora é pública");
+    } else {
+      toast.error("Erro ao atualizar configuração");
+    }
+  };
+
   const handleMessagePrivacyChange = async (privacy: MessagePrivacy) => {
     const success = await updateMessagePrivacy(privacy);
     if (success) {
@@ -60,6 +80,8 @@ const Settings = () => {
         return "Todos";
       case "followers":
         return "Seguidores";
+      case "requests":
+        return "Solicitações";
       case "nobody":
         return "Ninguém";
     }
@@ -137,12 +159,20 @@ const Settings = () => {
           <SettingsItem 
             icon={<Bell className="w-5 h-5" />}
             label="Notificações"
-            onClick={() => {}}
+            onClick={() => setNotificationsSheet(true)}
           />
           <SettingsItem 
             icon={<Lock className="w-5 h-5" />}
-            label="Privacidade"
+            label="Conta privada"
             onClick={() => {}}
+            toggle
+            toggleValue={settings.is_private}
+            onToggle={handleAccountPrivacyChange}
+          />
+          <SettingsItem 
+            icon={<Ban className="w-5 h-5" />}
+            label="Contas bloqueadas"
+            onClick={() => setBlockedAccountsSheet(true)}
             isLast
           />
         </motion.div>
@@ -184,6 +214,16 @@ const Settings = () => {
             value="Sistema"
             onClick={() => {}}
           />
+          <SettingsItem 
+            icon={<EyeOff className="w-5 h-5" />}
+            label="Conteúdo oculto"
+            onClick={() => setHiddenContentSheet(true)}
+          />
+          <SettingsItem 
+            icon={<Filter className="w-5 h-5" />}
+            label="Filtro de comentários"
+            onClick={() => setCommentFiltersSheet(true)}
+          />
           <SettingsItem 
             icon={<Shield className="w-5 h-5" />}
             label="Segurança"
@@ -237,6 +277,13 @@ const Settings = () => {
               onClick={() => handleMessagePrivacyChange("followers")}
               disabled={isSaving}
             />
+            <PrivacyOption
+              label="Solicitações"
+              description="Quem você não segue cai em Solicitações até você aceitar"
+              selected={settings.message_privacy === "requests"}
+              onClick={() => handleMessagePrivacyChange("requests")}
+              disabled={isSaving}
+            />
             <PrivacyOption
               label="Ninguém"
               description="Ninguém pode te enviar mensagens"
@@ -247,6 +294,30 @@ const Settings = () => {
           </div>
         </SheetContent>
       </Sheet>
+
+      {/* Hidden Content Sheet */}
+      <HiddenContentSheet
+        open={hiddenContentSheet}
+        onOpenChange={setHiddenContentSheet}
+      />
+
+      {/* Blocked Accounts Sheet */}
+      <BlockedAccountsSheet
+        open={blockedAccountsSheet}
+        onOpenChange={setBlockedAccountsSheet}
+      />
+
+      {/* Comment Filters Sheet */}
+      <CommentFiltersSheet
+        open={commentFiltersSheet}
+        onOpenChange={setCommentFiltersSheet}
+      />
+
+      {/* Notification Preferences Sheet */}
+      <NotificationPreferencesSheet
+        open={notificationsSheet}
+        onOpenChange={setNotificationsSheet}
+      />
     </AppLayout>
   );
 };
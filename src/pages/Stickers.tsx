@@ -21,6 +21,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { CreateStickerPackSheet } from "@/components/stickers/CreateStickerPackSheet";
 import { StickerPackCard } from "@/components/stickers/StickerPackCard";
 import { MyStickerPacks } from "@/components/stickers/MyStickerPacks";
+import { ReportDialog } from "@/components/reports/ReportDialog";
+import { useReports } from "@/hooks/useReports";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 
@@ -31,6 +33,8 @@ const Stickers = () => {
   const [activeTab, setActiveTab] = useState("store");
   const [showCreateSheet, setShowCreateSheet] = useState(false);
   const [purchasingPackId, setPurchasingPackId] = useState<string | null>(null);
+  const [reportingPackId, setReportingPackId] = useState<string | null>(null);
+  const { submitReport } = useReports();
 
   // Combine my packs and owned packs for "my stickers" tab
   const allMyStickers = useMemo(() => {
@@ -77,6 +81,13 @@ const Stickers = () => {
     }
   };
 
+  const handleReport = async (reason: string) => {
+    if (!reportingPackId) return;
+    const packId = reportingPackId;
+    setReportingPackId(null);
+    await submitReport("sticker_pack", packId, reason);
+  };
+
   const handlePackCreated = () => {
     refreshMy();
     setShowCreateSheet(false);
@@ -169,6 +180,7 @@ const Stickers = () => {
                     index={index}
                     onPurchase={handlePurchase}
                     isPurchasing={purchasingPackId === pack.id}
+                    onReport={pack.creator_id !== user?.id ? setReportingPackId : undefined}
                   />
                 ))}
               </div>
@@ -269,6 +281,13 @@ const Stickers = () => {
         onClose={() => setShowCreateSheet(false)}
         onCreated={handlePackCreated}
       />
+
+      {/* Report Dialog */}
+      <ReportDialog
+        open={!!reportingPackId}
+        onOpenChange={(open) => !open && setReportingPackId(null)}
+        onSubmit={handleReport}
+      />
     </AppLayout>
   );
 };
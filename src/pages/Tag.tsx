@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { motion } from "framer-motion";
+import { ArrowLeft, Hash, Heart, Loader2, MessageCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useTagPosts, type TagPost } from "@/hooks/useTagPosts";
+import { PostModal } from "@/components/post/PostModal";
+
+const Tag = () => {
+  const navigate = useNavigate();
+  const { name } = useParams<{ name: string }>();
+  const { user, isLoading: authLoading } = useAuth();
+  const { tag, posts, isLoading, hasMore, loadMore } = useTagPosts(name || "");
+  const [selectedPost, setSelectedPost] = useState<TagPost | null>(null);
+  const [postModalOpen, setPostModalOpen] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  const openPostModal = (post: TagPost) => {
+    setSelectedPost(post);
+    setPostModalOpen(true);
+  };
+
+  if (authLoading) {
+    return (
+      <div className="h-screen w-full flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <AppLayout>
+      {/* Header */}
+      <header className="sticky top-0 z-40 safe-top">
+        <div className="glass-strong px-4 py-3">
+          <div className="flex items-center gap-3">
+            <button onClick={() => navigate(-1)} className="tap-highlight-none">
+              <ArrowLeft className="w-6 h-6" />
+            </button>
+            <h1 className="text-xl font-bold font-display truncate">#{tag}</h1>
+          </div>
+        </div>
+      </header>
+
+      {/* Posts */}
+      <div className="pb-24">
+        {isLoading && posts.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : posts.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-center px-4">
+            <Hash className="w-12 h-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">Nenhuma publicação com #{tag}</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-0.5">
+              {posts.map((post, index) => (
+                <motion.div
+                  key={post.id}
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ delay: Math.min(index, 20) * 0.03 }}
+                  onClick={() => openPostModal(post)}
+                  className="aspect-square bg-muted relative cursor-pointer group"
+                >
+                  {post.content_url ? (
+                    post.content_type === "video" ? (
+                      <video src={post.content_url} className="w-full h-full object-cover" muted />
+                    ) : (
+                      <img src={post.content_url} alt="" className="w-full h-full object-cover" />
+                    )
+                  ) : (
+                    <p className="p-2 text-xs text-muted-foreground line-clamp-6">{post.description}</p>
+                  )}
+                  {/* Overlay on hover */}
+                  <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-4">
+                    <div className="flex items-center gap-1 text-white">
+                      <Heart className="w-5 h-5 fill-white" />
+                      <span className="font-semibold">{post.likes_count || 0}</span>
+                    </div>
+                    <div className="flex items-center gap-1 text-white">
+                      <MessageCircle className="w-5 h-5 fill-white" />
+                      <span className="font-semibold">{post.comments_count || 0}</span>
+                    </div>
+                  </div>
+                </motion.div>
+              ))}
+            </div>
+
+            {hasMore && (
+              <div className="flex justify-center py-4">
+                <Button variant="ghost" size="sm" onClick={loadMore} disabled={isLoading}>
+                  {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Ver mais"}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Post Modal */}
+      {selectedPost && (
+        <PostModal
+          isOpen={postModalOpen}
+          onClose={() => setPostModalOpen(false)}
+          post={{
+            ...selectedPost,
+            creator: {
+              id: selectedPost.creator_id,
+              username: selectedPost.creator_username,
+              display_name: selectedPost.creator_display_name,
+              avatar_url: selectedPost.creator_avatar_url,
+              is_verified: selectedPost.creator_is_verified,
+              verification_type: selectedPost.creator_verification_type,
+            },
+          }}
+        />
+      )}
+    </AppLayout>
+  );
+};
+
+export default Tag;
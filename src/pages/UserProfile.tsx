@@ -2,19 +2,40 @@ import { useEffect, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { motion } from "framer-motion";
-import { ArrowLeft, Loader2, BadgeCheck, Grid3X3, Bookmark, Settings, MessageCircle, Heart, Lock } from "lucide-react";
+import { ArrowLeft, Loader2, BadgeCheck, Grid3X3, Bookmark, Settings, MessageCircle, Heart, Lock, MoreHorizontal } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useAuth } from "@/hooks/useAuth";
 import { useFollow } from "@/hooks/useFollow";
 import { useMessages } from "@/hooks/useMessages";
 import { useUserSettings } from "@/hooks/useUserSettings";
+import { useBlocks } from "@/hooks/useBlocks";
+import { useReports } from "@/hooks/useReports";
 import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
 import { cn } from "@/lib/utils";
 import { MutualFollowers } from "@/components/profile/MutualFollowers";
 import { FollowersSheet } from "@/components/profile/FollowersSheet";
 import { PostModal } from "@/components/post/PostModal";
+import { PrivateAccountNotice } from "@/components/profile/PrivateAccountNotice";
+import { ReportDialog } from "@/components/reports/ReportDialog";
 import { toast } from "sonner";
 
 interface UserProfile {
@@ -25,6 +46,7 @@ interface UserProfile {
   banner_url: string | null;
   bio: string | null;
   is_verified: boolean;
+  is_private: boolean;
   verification_type: string;
   followers_count: number;
   following_count: number;
@@ -36,6 +58,7 @@ interface Post {
   content_url: string | null;
   content_type: string;
   description: string | null;
+  mentions: Json;
   likes_count: number;
   comments_count: number;
   created_at: string;
@@ -56,7 +79,11 @@ const UserProfile = () => {
   const [postModalOpen, setPostModalOpen] = useState(false);
   const [isSendingMessage, setIsSendingMessage] = useState(false);
   const [canMessage, setCanMessage] = useState(true);
-  const { isFollowing, isLoading: followLoading, followersCount, followingCount, toggleFollow } = useFollow(userId);
+  const { isFollowing, isRequested, isLoading: followLoading, followersCount, followingCount, toggleFollow } = useFollow(userId);
+  const { blockUser } = useBlocks();
+  const [confirmBlock, setConfirmBlock] = useState(false);
+  const { submitReport } = useReports();
+  const [showReportDialog, setShowReportDialog] = useState(false);
 
   const isOwnProfile = user?.id === userId;
 
@@ -98,7 +125,7 @@ const UserProfile = () => {
 
       const { data: postsData } = await supabase
         .from("posts")
-        .select("id, content_url, content_type, description, likes_count, comments_count, created_at")
+        .select("id, content_url, content_type, description, mentions, likes_count, comments_count, created_at")
         .eq("creator_id", userId)
         .order("created_at", { ascending: false });
 
@@ -140,6 +167,21 @@ const UserProfile = () => {
     setIsSendingMessage(false);
   };
 
+  // Their profile disappears for us once blocked, so leave the page
+  const handleBlock = async () => {
+    if (!userId) return;
+    setConfirmBlock(false);
+    if (await blockUser(userId)) {
+      navigate(-1);
+    }
+  };
+
+  const handleReport = async (reason: string) => {
+    if (!userId) return;
+    setShowReportDialog(false);
+    await submitReport("profile", userId, reason);
+  };
+
   const openFollowersSheet = (tab: "followers" | "following") => {
     setFollowersSheetTab(tab);
     setFollowersSheetOpen(true);
@@ -172,6 +214,10 @@ const UserProfile = () => {
     );
   }
 
+  // The posts policy already returns nothing here; this keeps the grid, counts and lists closed
+  const isLocked = !isOwnProfile && profile.is_private && !isFollowing;
+  const postsCount = isLocked ? profile.posts_count : posts.length;
+
   return (
     <AppLayout>
       {/* Header */}
@@ -192,14 +238,33 @@ const UserProfile = () => {
                   )}
                 </div>
                 <span className="text-sm text-muted-foreground">
-                  {posts.length} publicações
+                  {postsCount} publicações
                 </span>
               </div>
             </div>
-            {isOwnProfile && (
+            {isOwnProfile ? (
               <button onClick={() => navigate("/profile")} className="tap-highlight-none">
                 <Settings className="w-6 h-6" />
               </button>
+            ) : (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button className="tap-highlight-none" aria-label="Mais opções">
+                    <MoreHorizontal className="w-6 h-6" />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => setShowReportDialog(true)}>
+                    Denunciar
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => setConfirmBlock(true)}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    Bloquear
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             )}
           </div>
         </div>
@@ -241,7 +306,7 @@ const UserProfile = () => {
                 )}
               </Button>
               <Button
-                variant={isFollowing ? "outline" : "neon"}
+                variant={isFollowing || isRequested ? "outline" : "neon"}
                 size="sm"
                 onClick={toggleFollow}
                 disabled={followLoading}
@@ -250,6 +315,8 @@ const UserProfile = () => {
                   <Loader2 className="w-4 h-4 animate-spin" />
                 ) : isFollowing ? (
                   "Seguindo"
+                ) : isRequested ? (
+                  "Solicitado"
                 ) : (
                   "Seguir"
                 )}
@@ -266,6 +333,7 @@ const UserProfile = () => {
             {profile.is_verified && (
               <BadgeCheck className={cn("w-5 h-5", getBadgeColor(profile.verification_type))} />
             )}
+            {profile.is_private && <Lock className="w-4 h-4 text-muted-foreground" />}
           </div>
           <p className="text-muted-foreground">@{profile.username || "unknown"}</p>
           {profile.bio && <p className="text-foreground">{profile.bio}</p>}
@@ -277,11 +345,12 @@ const UserProfile = () => {
         {/* Stats - Clickable */}
         <div className="flex gap-6 mb-6">
           <div className="text-center">
-            <span className="font-bold">{posts.length}</span>
+            <span className="font-bold">{postsCount}</span>
             <span className="text-sm text-muted-foreground ml-1">posts</span>
           </div>
           <button 
             onClick={() => openFollowersSheet("followers")}
+            disabled={isLocked}
             className="text-center tap-highlight-none"
           >
             <span className="font-bold">{followersCount}</span>
@@ -289,6 +358,7 @@ const UserProfile = () => {
           </button>
           <button 
             onClick={() => openFollowersSheet("following")}
+            disabled={isLocked}
             className="text-center tap-highlight-none"
           >
             <span className="font-bold">{followingCount}</span>
@@ -298,66 +368,70 @@ const UserProfile = () => {
       </div>
 
       {/* Posts Grid */}
-      <Tabs defaultValue="posts" className="w-full">
-        <TabsList className="w-full grid grid-cols-2 glass-strong rounded-none border-y border-white/10">
-          <TabsTrigger value="posts" className="data-[state=active]:bg-primary/20">
-            <Grid3X3 className="w-5 h-5" />
-          </TabsTrigger>
-          <TabsTrigger value="saved" className="data-[state=active]:bg-primary/20">
-            <Bookmark className="w-5 h-5" />
-          </TabsTrigger>
-        </TabsList>
-
-        <TabsContent value="posts" className="pb-24">
-          {posts.length === 0 ? (
-            <div className="flex flex-col items-center justify-center py-12 text-center px-4">
-              <Grid3X3 className="w-12 h-12 text-muted-foreground mb-4" />
-              <p className="text-muted-foreground">Nenhuma publicação ainda</p>
-            </div>
-          ) : (
-            <div className="grid grid-cols-3 gap-0.5">
-              {posts.map((post, index) => (
-                <motion.div
-                  key={post.id}
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  transition={{ delay: index * 0.05 }}
-                  onClick={() => openPostModal(post)}
-                  className="aspect-square bg-muted relative cursor-pointer group"
-                >
-                  {post.content_url && (
-                    <img
-                      src={post.content_url}
-                      alt=""
-                      className="w-full h-full object-cover"
-                    />
-                  )}
-                  {/* Overlay on hover */}
-                  <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-4">
-                    <div className="flex items-center gap-1 text-white">
-                      <Heart className="w-5 h-5 fill-white" />
-                      <span className="font-semibold">{post.likes_count || 0}</span>
-                    </div>
-                    <div className="flex items-center gap-1 text-white">
-                      <MessageCircle className="w-5 h-5 fill-white" />
-                      <span className="font-semibold">{post.comments_count || 0}</span>
+      {isLocked ? (
+        <PrivateAccountNotice isRequested={isRequested} />
+      ) : (
+        <Tabs defaultValue="posts" className="w-full">
+          <TabsList className="w-full grid grid-cols-2 glass-strong rounded-none border-y border-white/10">
+            <TabsTrigger value="posts" className="data-[state=active]:bg-primary/20">
+              <Grid3X3 className="w-5 h-5" />
+            </TabsTrigger>
+            <TabsTrigger value="saved" className="data-[state=active]:bg-primary/20">
+              <Bookmark className="w-5 h-5" />
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="posts" className="pb-24">
+            {posts.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center px-4">
+                <Grid3X3 className="w-12 h-12 text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">Nenhuma publicação ainda</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-3 gap-0.5">
+                {posts.map((post, index) => (
+                  <motion.div
+                    key={post.id}
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    transition={{ delay: index * 0.05 }}
+                    onClick={() => openPostModal(post)}
+                    className="aspect-square bg-muted relative cursor-pointer group"
+                  >
+                    {post.content_url && (
+                      <img
+                        src={post.content_url}
+                        alt=""
+                        className="w-full h-full object-cover"
+                      />
+                    )}
+                    {/* Overlay on hover */}
+                    <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-4">
+                      <div className="flex items-center gap-1 text-white">
+                        <Heart className="w-5 h-5 fill-white" />
+                        <span className="font-semibold">{post.likes_count || 0}</span>
+                      </div>
+                      <div className="flex items-center gap-1 text-white">
+                        <MessageCircle className="w-5 h-5 fill-white" />
+                        <span className="font-semibold">{post.comments_count || 0}</span>
+                      </div>
                     </div>
-                  </div>
-                </motion.div>
-              ))}
+                  </motion.div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="saved" className="pb-24">
+            <div className="flex flex-col items-center justify-center py-12 text-center px-4">
+              <Bookmark className="w-12 h-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">
+                {isOwnProfile ? "Suas publicações salvas aparecerão aqui" : "Posts salvos são privados"}
+              </p>
             </div>
-          )}
-        </TabsContent>
-
-        <TabsContent value="saved" className="pb-24">
-          <div className="flex flex-col items-center justify-center py-12 text-center px-4">
-            <Bookmark className="w-12 h-12 text-muted-foreground mb-4" />
-            <p className="text-muted-foreground">
-              {isOwnProfile ? "Suas publicações salvas aparecerão aqui" : "Posts salvos são privados"}
-            </p>
-          </div>
-        </TabsContent>
-      </Tabs>
+          </TabsContent>
+        </Tabs>
+      )}
 
       {/* Followers Sheet */}
       <FollowersSheet
@@ -386,6 +460,35 @@ const UserProfile = () => {
           }}
         />
       )}
+
+      <ReportDialog
+        open={showReportDialog}
+        onOpenChange={setShowReportDialog}
+        onSubmit={handleReport}
+      />
+
+      <AlertDialog open={confirmBlock} onOpenChange={setConfirmBlock}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Bloquear {profile.display_name || profile.username || "usuário"}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Essa pessoa não poderá ver seu perfil e suas publicações, te enviar mensagens, te ligar
+              ou comentar nas suas publicações. Vocês deixam de se seguir. Ela não será avisada.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleBlock}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Bloquear
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </AppLayout>
   );
 };
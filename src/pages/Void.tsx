@@ -8,12 +8,16 @@ import { Clock, Sparkles, Loader2, Plus } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useVoid } from "@/hooks/useVoid";
 import { Button } from "@/components/ui/button";
+import { ReportDialog } from "@/components/reports/ReportDialog";
+import { useReports } from "@/hooks/useReports";
 
 const Void = () => {
   const navigate = useNavigate();
   const { user, isLoading: authLoading } = useAuth();
   const { content, isLoading, getTimeRemaining } = useVoid();
   const [showCreateSheet, setShowCreateSheet] = useState(false);
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const { submitReport } = useReports();
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -21,6 +25,13 @@ const Void = () => {
     }
   }, [user, authLoading, navigate]);
 
+  const handleReport = async (reason: string) => {
+    if (!reportingId) return;
+    const contentId = reportingId;
+    setReportingId(null);
+    await submitReport("void", contentId, reason);
+  };
+
   if (authLoading || isLoading) {
     return (
       <div className="h-screen w-full flex items-center justify-center bg-background">
@@ -117,6 +128,7 @@ const Void = () => {
                   expiresIn={getTimeRemaining(item.expires_at)}
                   type={item.content_type as "text" | "image"}
                   index={index}
+                  onReport={item.creator_id !== user?.id ? () => setReportingId(item.id) : undefined}
                 />
               ))}
             </motion.div>
@@ -142,6 +154,13 @@ const Void = () => {
 
       {/* Create Sheet */}
       <CreateVoidSheet open={showCreateSheet} onClose={() => setShowCreateSheet(false)} />
+
+      {/* Report Dialog */}
+      <ReportDialog
+        open={!!reportingId}
+        onOpenChange={(open) => !open && setReportingId(null)}
+        onSubmit={handleReport}
+      />
     </AppLayout>
   );
 };
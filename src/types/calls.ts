@@ -2,17 +2,22 @@
 
 export type CallStatus = 'pending' | 'ringing' | 'connected' | 'ended' | 'missed' | 'declined' | 'busy';
 export type CallType = 'audio' | 'video';
-export type SignalType = 'offer' | 'answer' | 'ice-candidate' | 'hangup' | 'screen-share-start' | 'screen-share-stop' | 'recording-start' | 'recording-stop' | 'volume-control' | 'camera-switch' | 'audio-switch';
-export type RecordingStatus = 'idle' | 'recording' | 'paused' | 'saving';
+export type SignalType = 'offer' | 'answer' | 'ice-candidate' | 'hangup' | 'screen-share-start' | 'screen-share-stop' | 'recording-start' | 'recording-stop' | 'recording-consent' | 'volume-control' | 'camera-switch' | 'audio-switch';
+export type RecordingStatus = 'idle' | 'awaiting-consent' | 'recording' | 'paused' | 'saving';
 export type ConnectionQuality = 'excellent' | 'good' | 'fair' | 'poor' | 'disconnected';
+export type CallParticipantStatus = 'invited' | 'joined' | 'left' | 'declined';
+
+// Mesh calls: every participant keeps one RTCPeerConnection per peer
+export const MAX_CALL_PARTICIPANTS = 8;
 
 export interface CallSession {
   id: string;
   conversation_id: string;
   caller_id: string;
-  callee_id: string;
+  callee_id: string | null;
   status: CallStatus;
   call_type: CallType;
+  is_group: boolean;
   started_at: string | null;
   ended_at: string | null;
   duration_seconds: number | null;
@@ -23,6 +28,7 @@ export interface CallSignal {
   id: string;
   call_id: string;
   sender_id: string;
+  recipient_id: string | null;
   signal_type: SignalType;
   signal_data: RTCSessionDescriptionInit | RTCIceCandidateInit | Record<string, unknown>;
   created_at: string;
@@ -43,6 +49,11 @@ export interface CallParticipant {
   avatar_url: string | null;
 }
 
+export interface CallPeer extends CallParticipant {
+  status: CallParticipantStatus;
+  stream: MediaStream | null;
+}
+
 export interface ActiveCall {
   session: CallSession;
   localStream: MediaStream | null;
@@ -52,6 +63,7 @@ export interface ActiveCall {
   isVideoEnabled: boolean;
   isScreenSharing: boolean;
   isRecording: boolean;
+  recordingStatus: RecordingStatus;
   localVolume: number; // 0-100
   remoteVolume: number; // 0-100
   selectedCameraDeviceId: string | null;
@@ -62,12 +74,35 @@ export interface ActiveCall {
   availableSpeakers: MediaDeviceInfo[];
   connectionQuality: ConnectionQuality;
   stats: CallStats | null;
+  // Everyone else in the call; remoteStream/otherParticipant mirror the first peer for 1:1 views
+  peers: CallPeer[];
+  title: string | null;
   otherParticipant: CallParticipant | null;
 }
 
 export interface IncomingCall {
   session: CallSession;
   caller: CallParticipant;
+  groupTitle: string | null;
+}
+
+// Someone in the call asked to record it and is waiting for our answer
+export interface RecordingConsentRequest {
+  callId: string;
+  requester: CallParticipant;
+}
+
+export interface CallRecording {
+  id: string;
+  call_id: string;
+  recorded_by: string;
+  mime_type: string;
+  status: 'recording' | 'completed' | 'failed';
+  chunk_count: number;
+  size_bytes: number;
+  duration_seconds: number | null;
+  started_at: string;
+  ended_at: string | null;
 }
 
 export interface CallStats {
@@ -89,7 +124,7 @@ export interface CallHistoryEntry {
   id: string;
   conversation_id: string;
   caller_id: string;
-  callee_id: string;
+  callee_id: string | null;
   call_type: CallType;
   status: CallStatus;
   started_at: string | null;
@@ -100,8 +135,13 @@ export interface CallHistoryEntry {
   caller_avatar_url: string | null;
   callee_display_name: string | null;
   callee_avatar_url: string | null;
+  is_group: boolean;
+  recordings: CallRecording[];
 }
 
+// Recordings are uploaded every few seconds so a dropped tab loses little
+export const RECORDING_CHUNK_MS = 5000;
+
 // ICE Server configuration
 export const ICE_SERVERS: RTCConfiguration = {
   iceServers: [
@@ -1,22 +1,124 @@
 // Centralized message types for the messaging system
 
+import type { MentionRef } from "@/lib/mentions";
+
 export interface MessageSender {
   username: string | null;
   display_name: string | null;
   avatar_url: string | null;
 }
 
+export type SystemMessageEvent =
+  | "group_created"
+  | "member_added"
+  | "member_removed"
+  | "member_left"
+  | "group_renamed"
+  | "disappearing_changed";
+
+export interface SystemMessageMetadata {
+  event: SystemMessageEvent;
+  target_id?: string | null;
+  target_name?: string | null;
+  title?: string;
+  // disappearing_changed: the new timer, null when turned off
+  seconds?: number | null;
+}
+
 export interface Message {
   id: string;
   conversation_id: string;
   sender_id: string;
   content: string | null;
+  // Set server-side from the @handles in content
+  mentions?: MentionRef[];
   sticker_url: string | null;
   audio_url?: string | null;
   audio_duration_seconds?: number | null;
+  message_type?: "text" | "system";
+  metadata?: SystemMessageMetadata | null;
   is_read: boolean;
   created_at: string;
+  edited_at?: string | null;
+  // Set when the sender deleted the message for everyone; content is gone
+  deleted_at?: string | null;
+  reply_to_message_id?: string | null;
+  // Set when the conversation had disappearing messages on at send time
+  expires_at?: string | null;
+  attachments?: MessageAttachment[];
   sender?: MessageSender;
+  // Client-side only: set while the message waits in the offline outbox
+  send_status?: "pending" | "failed";
+}
+
+export type AttachmentKind = "image" | "video" | "file";
+
+export interface MessageAttachment {
+  id: string;
+  message_id: string;
+  conversation_id: string;
+  uploader_id: string;
+  kind: AttachmentKind;
+  // Paths in the private message-attachments bucket; resolve with signed URLs
+  storage_path: string;
+  thumbnail_path: string | null;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+  duration_seconds: number | null;
+  position: number;
+  created_at: string;
+}
+
+// Mirrors send_message_with_attachments and the bucket's file size limit
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+export const MAX_ATTACHMENT_SIZE_BYTES = 50 * 1024 * 1024;
+
+// Disappearing message timers in seconds (mirrors set_disappearing_messages)
+export const DISAPPEARING_TIMERS = [60 * 60, 24 * 60 * 60, 7 * 24 * 60 * 60] as const;
+
+// Mute options in hours; null mutes until turned back on
+export const MUTE_DURATIONS = [
+  { label: "8 horas", hours: 8 },
+  { label: "1 semana", hours: 7 * 24 },
+  { label: "Sempre", hours: null },
+] as const;
+
+// Pinned conversations per user (mirrors set_conversation_pinned)
+export const MAX_PINNED_CONVERSATIONS = 3;
+
+// Just enough of a message to render it as a quote
+export type QuotedMessage = Pick<
+  Message,
+  "id" | "sender_id" | "content" | "sticker_url" | "audio_url" | "deleted_at" | "attachments" | "sender"
+>;
+
+export interface MessageEdit {
+  id: string;
+  message_id: string;
+  previous_content: string;
+  edited_at: string;
+}
+
+// Senders can edit text messages for this long after sending (mirrors edit_message)
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+// A message written now and delivered by the scheduled-messages edge function.
+// Only pending ones can be edited or cancelled.
+export interface ScheduledMessage {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string;
+  reply_to_message_id: string | null;
+  scheduled_for: string;
+  status: "pending" | "sent" | "failed";
+  sent_message_id: string | null;
+  failure_reason: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface ConversationParticipant {
@@ -26,14 +128,49 @@ export interface ConversationParticipant {
   avatar_url: string | null;
   is_verified: boolean;
   verification_type?: "none" | "blue" | "gold" | "staff" | null;
+  role?: "admin" | "member";
+}
+
+// A participant's "seen up to" marker; messages created at or before last_read_at are seen
+export interface ReadMarker {
+  user_id: string;
+  last_read_message_id: string | null;
+  last_read_at: string | null;
 }
 
 export interface Conversation {
   id: string;
   updated_at: string;
+  isGroup: boolean;
+  title?: string | null;
+  avatarUrl?: string | null;
+  // Everyone except the current user; for 1:1 chats this is just otherUser
+  members: ConversationParticipant[];
   otherUser?: ConversationParticipant;
   lastMessage?: Message;
   unreadCount: number;
+  disappearingSeconds?: number | null;
+  // The current user's own state for this conversation
+  pinnedAt?: string | null;
+  isArchived?: boolean;
+  // "infinity" when muted until turned back on
+  mutedUntil?: string | null;
+  isMarkedUnread?: boolean;
+  // Waiting in "Solicitações" until the current user accepts it
+  isRequest?: boolean;
+}
+
+// A search_messages hit; snippet wraps matched terms in <mark></mark>
+export interface MessageSearchResult {
+  message_id: string;
+  conversation_id: string;
+  sender_id: string;
+  sender_username: string | null;
+  sender_display_name: string | null;
+  sender_avatar_url: string | null;
+  snippet: string;
+  created_at: string;
+  rank: number;
 }
 
 export interface SearchableUser {
@@ -55,3 +192,13 @@ export type CreateConversationResult = {
   conversationId?: string;
   error?: string;
 };
+
+export type MessageActionResult = {
+  success: boolean;
+  error?: string;
+};
+
+export type GroupActionResult = {
+  success: boolean;
+  error?: string;
+};
@@ -0,0 +1,119 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Messages deleted per run; the rest go on the next one
+const BATCH_SIZE = 500;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log("Starting disappearing messages cleanup...");
+
+    // Get expired messages with their files
+    const { data: expiredMessages, error: fetchError } = await supabase
+      .from("messages")
+      .select("id, audio_url, message_attachments (storage_path, thumbnail_path)")
+      .lt("expires_at", new Date().toISOString())
+      .limit(BATCH_SIZE);
+
+    if (fetchError) {
+      console.error("Error fetching expired messages:", fetchError);
+      throw fetchError;
+    }
+
+    if (!expiredMessages || expiredMessages.length === 0) {
+      console.log("No expired messages found");
+      return new Response(
+        JSON.stringify({ message: "No expired messages to clean up", deleted: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log(`Found ${expiredMessages.length} expired messages to delete`);
+
+    // Voice messages are stored by public URL; attachments by path
+    const audioPaths: string[] = [];
+    const attachmentPaths: string[] = [];
+
+    for (const message of expiredMessages) {
+      if (message.audio_url) {
+        const urlParts = message.audio_url.split("/storage/v1/object/public/audio-messages/");
+        if (urlParts.length > 1) audioPaths.push(urlParts[1]);
+      }
+
+      for (const attachment of message.message_attachments || []) {
+        attachmentPaths.push(attachment.storage_path);
+        if (attachment.thumbnail_path) attachmentPaths.push(attachment.thumbnail_path);
+      }
+    }
+
+    let deletedFiles = 0;
+
+    if (audioPaths.length > 0) {
+      const { error: audioError } = await supabase.storage.from("audio-messages").remove(audioPaths);
+      if (audioError) {
+        console.error("Error deleting audio files:", audioError);
+      } else {
+        deletedFiles += audioPaths.length;
+        console.log(`Deleted ${audioPaths.length} audio files`);
+      }
+    }
+
+    if (attachmentPaths.length > 0) {
+      const { error: attachmentError } = await supabase.storage
+        .from("message-attachments")
+        .remove(attachmentPaths);
+      if (attachmentError) {
+        console.error("Error deleting attachment files:", attachmentError);
+      } else {
+        deletedFiles += attachmentPaths.length;
+        console.log(`Deleted ${attachmentPaths.length} attachment files`);
+      }
+    }
+
+    // Delete rows from database; reactions, edits and attachment rows cascade
+    const expiredIds = expiredMessages.map((message) => message.id);
+    const { error: deleteError, count } = await supabase
+      .from("messages")
+      .delete({ count: "exact" })
+      .in("id", expiredIds);
+
+    if (deleteError) {
+      console.error("Error deleting expired messages:", deleteError);
+      throw deleteError;
+    }
+
+    const deletedRows = count || expiredIds.length;
+    console.log(`Deleted ${deletedRows} messages from database`);
+
+    return new Response(
+      JSON.stringify({
+        message: "Disappearing messages cleanup completed",
+        deletedFiles,
+        deletedRows,
+        timestamp: new Date().toISOString(),
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Disappearing messages cleanup error:", error);
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,63 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Meant to run every minute from a scheduler; each run delivers whatever is due
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log("Releasing scheduled messages...");
+
+    // Claiming and inserting happen in one transaction, so overlapping runs can't double-send
+    const { data: released, error: releaseError } = await supabase.rpc("release_scheduled_messages");
+
+    if (releaseError) {
+      console.error("Error releasing scheduled messages:", releaseError);
+      throw releaseError;
+    }
+
+    console.log(`Released ${released || 0} scheduled messages`);
+
+    // Anything left pending and overdue means the batch limit was hit
+    const { count: overdue, error: countError } = await supabase
+      .from("scheduled_messages")
+      .select("id", { count: "exact", head: true })
+      .eq("status", "pending")
+      .lte("scheduled_for", new Date().toISOString());
+
+    if (countError) {
+      console.error("Error counting overdue messages:", countError);
+    } else if (overdue) {
+      console.log(`${overdue} scheduled messages still due; they go out on the next run`);
+    }
+
+    return new Response(
+      JSON.stringify({
+        message: "Scheduled messages released",
+        released: released || 0,
+        overdue: overdue || 0,
+        timestamp: new Date().toISOString(),
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Scheduled messages error:", error);
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,395 @@
+-- Moderation flags on reportable content
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN DEFAULT false;
+ALTER TABLE public.comments ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN DEFAULT false;
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN DEFAULT false;
+ALTER TABLE public.ephemeral_content ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN DEFAULT false;
+
+-- Account suspension
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS suspended_until TIMESTAMPTZ DEFAULT NULL;
+
+-- Admins and moderators share the moderation queue
+CREATE OR REPLACE FUNCTION public.can_moderate(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin') OR public.has_role(_user_id, 'moderator')
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_user_suspended(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = _user_id
+    AND suspended_until IS NOT NULL
+    AND suspended_until > now()
+  )
+$$;
+
+-- Create reports table
+CREATE TABLE public.reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reporter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  target_type TEXT NOT NULL CHECK (target_type IN ('post', 'comment', 'message', 'profile', 'sticker_pack', 'void')),
+  target_id UUID NOT NULL,
+  target_owner_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  target_preview TEXT,
+  reason TEXT NOT NULL,
+  details TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'reviewing', 'dismissed', 'actioned')),
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (reporter_id, target_type, target_id)
+);
+
+-- Audit trail for every moderation decision
+CREATE TABLE public.moderation_actions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+  moderator_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('triage', 'dismiss', 'hide_content', 'suspend_author')),
+  target_type TEXT NOT NULL,
+  target_id UUID NOT NULL,
+  target_owner_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  note TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.moderation_actions ENABLE ROW LEVEL SECURITY;
+
+-- Reports are created and resolved through the functions below
+CREATE POLICY "Users can view their own reports"
+ON public.reports FOR SELECT
+USING (auth.uid() = reporter_id);
+
+CREATE POLICY "Moderators can view all reports"
+ON public.reports FOR SELECT
+USING (public.can_moderate(auth.uid()));
+
+CREATE POLICY "Moderators can view moderation actions"
+ON public.moderation_actions FOR SELECT
+USING (public.can_moderate(auth.uid()));
+
+-- Hidden content is only visible to its author and to moderators
+DROP POLICY IF EXISTS "Anyone can view posts" ON public.posts;
+CREATE POLICY "Anyone can view posts" ON public.posts
+FOR SELECT USING (
+  is_hidden = false OR auth.uid() = creator_id OR public.can_moderate(auth.uid())
+);
+
+DROP POLICY IF EXISTS "Anyone can view comments" ON public.comments;
+CREATE POLICY "Anyone can view comments" ON public.comments
+FOR SELECT USING (
+  is_hidden = false OR auth.uid() = user_id OR public.can_moderate(auth.uid())
+);
+
+DROP POLICY IF EXISTS "Anyone can view non-expired void content" ON public.ephemeral_content;
+CREATE POLICY "Anyone can view non-expired void content" ON public.ephemeral_content
+FOR SELECT USING (
+  expires_at > NOW() AND (is_hidden = false OR auth.uid() = creator_id)
+);
+
+DROP POLICY IF EXISTS "Users can view messages in their conversations" ON public.messages;
+CREATE POLICY "Users can view messages in their conversations"
+ON public.messages
+FOR SELECT
+USING (public.is_conversation_participant(conversation_id, auth.uid()) AND is_hidden = false);
+
+-- Suspended accounts cannot publish
+DROP POLICY IF EXISTS "Users can create their own posts" ON public.posts;
+CREATE POLICY "Users can create their own posts" ON public.posts
+FOR INSERT WITH CHECK (auth.uid() = creator_id AND NOT public.is_user_suspended(auth.uid()));
+
+DROP POLICY IF EXISTS "Users can create comments" ON public.comments;
+CREATE POLICY "Users can create comments" ON public.comments
+FOR INSERT WITH CHECK (auth.uid() = user_id AND NOT public.is_user_suspended(auth.uid()));
+
+DROP POLICY IF EXISTS "Users can send messages" ON public.messages;
+CREATE POLICY "Users can send messages" ON public.messages
+FOR INSERT WITH CHECK (auth.uid() = sender_id AND NOT public.is_user_suspended(auth.uid()));
+
+DROP POLICY IF EXISTS "Users can create void content" ON public.ephemeral_content;
+CREATE POLICY "Users can create void content" ON public.ephemeral_content
+FOR INSERT WITH CHECK (auth.uid() = creator_id AND NOT public.is_user_suspended(auth.uid()));
+
+-- File a report; the owner and a preview are resolved server-side
+CREATE OR REPLACE FUNCTION public.create_report(
+  p_target_type text,
+  p_target_id uuid,
+  p_reason text,
+  p_details text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid;
+  owner_id uuid;
+  preview text;
+  report_id uuid;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'Report reason is required';
+  END IF;
+
+  CASE p_target_type
+    WHEN 'post' THEN
+      SELECT creator_id, COALESCE(description, content_url) INTO owner_id, preview
+      FROM public.posts WHERE id = p_target_id;
+    WHEN 'comment' THEN
+      SELECT user_id, content INTO owner_id, preview
+      FROM public.comments WHERE id = p_target_id;
+    WHEN 'message' THEN
+      SELECT sender_id, COALESCE(content, sticker_url, audio_url) INTO owner_id, preview
+      FROM public.messages
+      WHERE id = p_target_id
+      AND public.is_conversation_participant(conversation_id, current_user_id);
+    WHEN 'profile' THEN
+      SELECT id, COALESCE(username, display_name) INTO owner_id, preview
+      FROM public.profiles WHERE id = p_target_id;
+    WHEN 'sticker_pack' THEN
+      SELECT creator_id, name INTO owner_id, preview
+      FROM public.sticker_packs WHERE id = p_target_id;
+    WHEN 'void' THEN
+      SELECT creator_id, COALESCE(text_content, content_url) INTO owner_id, preview
+      FROM public.ephemeral_content WHERE id = p_target_id;
+    ELSE
+      RAISE EXCEPTION 'Invalid report target type';
+  END CASE;
+
+  IF owner_id IS NULL THEN
+    RAISE EXCEPTION 'Report target not found';
+  END IF;
+
+  IF owner_id = current_user_id THEN
+    RAISE EXCEPTION 'Cannot report your own content';
+  END IF;
+
+  INSERT INTO public.reports (reporter_id, target_type, target_id, target_owner_id, target_preview, reason, details)
+  VALUES (current_user_id, p_target_type, p_target_id, owner_id, left(preview, 500), p_reason, p_details)
+  ON CONFLICT (reporter_id, target_type, target_id) DO UPDATE
+    SET reason = EXCLUDED.reason,
+        details = EXCLUDED.details,
+        -- Reporting again after a dismissal puts the report back in the queue
+        status = CASE WHEN reports.status = 'dismissed' THEN 'pending' ELSE reports.status END,
+        reviewed_by = CASE WHEN reports.status = 'dismissed' THEN NULL ELSE reports.reviewed_by END,
+        reviewed_at = CASE WHEN reports.status = 'dismissed' THEN NULL ELSE reports.reviewed_at END,
+        updated_at = now()
+  RETURNING id INTO report_id;
+
+  RETURN report_id;
+END;
+$$;
+
+-- Apply a moderation decision and record it in the audit trail
+CREATE OR REPLACE FUNCTION public.moderate_report(
+  p_report_id uuid,
+  p_action text,
+  p_note text DEFAULT NULL,
+  p_suspend_days integer DEFAULT 7
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid;
+  report_row public.reports%ROWTYPE;
+  action_metadata jsonb := '{}'::jsonb;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL OR NOT public.can_moderate(current_user_id) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  SELECT * INTO report_row FROM public.reports WHERE id = p_report_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  PERFORM set_config('app.moderation_change', 'on', true);
+
+  CASE p_action
+    WHEN 'triage' THEN
+      UPDATE public.reports
+      SET status = 'reviewing', updated_at = now()
+      WHERE id = p_report_id;
+
+    WHEN 'dismiss' THEN
+      UPDATE public.reports
+      SET status = 'dismissed', reviewed_by = current_user_id, reviewed_at = now(), updated_at = now()
+      WHERE id = p_report_id;
+
+    WHEN 'hide_content' THEN
+      CASE report_row.target_type
+        WHEN 'post' THEN
+          UPDATE public.posts SET is_hidden = true WHERE id = report_row.target_id;
+        WHEN 'comment' THEN
+          UPDATE public.comments SET is_hidden = true WHERE id = report_row.target_id;
+        WHEN 'message' THEN
+          UPDATE public.messages SET is_hidden = true WHERE id = report_row.target_id;
+        WHEN 'void' THEN
+          UPDATE public.ephemeral_content SET is_hidden = true WHERE id = report_row.target_id;
+        WHEN 'sticker_pack' THEN
+          UPDATE public.sticker_packs SET is_public = false, is_approved = false WHERE id = report_row.target_id;
+        WHEN 'profile' THEN
+          UPDATE public.profiles SET avatar_url = NULL, banner_url = NULL, bio = NULL WHERE id = report_row.target_id;
+      END CASE;
+
+      -- Every open report on the same target is resolved by this decision
+      UPDATE public.reports
+      SET status = 'actioned', reviewed_by = current_user_id, reviewed_at = now(), updated_at = now()
+      WHERE target_type = report_row.target_type
+      AND target_id = report_row.target_id
+      AND status IN ('pending', 'reviewing');
+
+    WHEN 'suspend_author' THEN
+      IF report_row.target_owner_id IS NULL THEN
+        RAISE EXCEPTION 'Report has no author to suspend';
+      END IF;
+
+      IF p_suspend_days IS NULL OR p_suspend_days < 1 THEN
+        RAISE EXCEPTION 'Invalid suspension length';
+      END IF;
+
+      UPDATE public.profiles
+      SET suspended_until = GREATEST(COALESCE(suspended_until, now()), now()) + make_interval(days => p_suspend_days)
+      WHERE id = report_row.target_owner_id;
+
+      action_metadata := jsonb_build_object('suspend_days', p_suspend_days);
+
+      UPDATE public.reports
+      SET status = 'actioned', reviewed_by = current_user_id, reviewed_at = now(), updated_at = now()
+      WHERE id = p_report_id;
+
+    ELSE
+      RAISE EXCEPTION 'Invalid moderation action';
+  END CASE;
+
+  INSERT INTO public.moderation_actions (report_id, moderator_id, action, target_type, target_id, target_owner_id, note, metadata)
+  VALUES (p_report_id, current_user_id, p_action, report_row.target_type, report_row.target_id, report_row.target_owner_id, p_note, action_metadata);
+
+  PERFORM set_config('app.moderation_change', 'off', true);
+
+  RETURN true;
+END;
+$$;
+
+-- Owners keep their UPDATE policies, but hiding and suspensions only change through moderate_report
+CREATE OR REPLACE FUNCTION public.protect_moderation_flags()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(current_setting('app.moderation_change', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'profiles' THEN
+    IF NEW.suspended_until IS DISTINCT FROM OLD.suspended_until THEN
+      RAISE EXCEPTION 'Suspensions can only be changed by moderators';
+    END IF;
+  ELSIF NEW.is_hidden IS DISTINCT FROM OLD.is_hidden THEN
+    RAISE EXCEPTION 'Hidden content can only be changed by moderators';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_moderation
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_moderation_flags();
+
+CREATE TRIGGER protect_post_moderation
+BEFORE UPDATE ON public.posts
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_moderation_flags();
+
+CREATE TRIGGER protect_comment_moderation
+BEFORE UPDATE ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_moderation_flags();
+
+CREATE TRIGGER protect_void_moderation
+BEFORE UPDATE ON public.ephemeral_content
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_moderation_flags();
+
+-- Hidden posts no longer rank in the feed
+CREATE OR REPLACE FUNCTION public.get_ranked_feed(p_user_id uuid DEFAULT NULL::uuid, p_limit integer DEFAULT 20, p_offset integer DEFAULT 0)
+ RETURNS TABLE(id uuid, creator_id uuid, content_url text, content_type content_type, description text, tags text[], likes_count integer, comments_count integer, shares_count integer, saves_count integer, engagement_score numeric, created_at timestamp with time zone, creator_username text, creator_display_name text, creator_avatar_url text, creator_is_verified boolean, creator_verification_type verification_type, rank_score numeric)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.creator_id,
+    p.content_url,
+    p.content_type,
+    p.description,
+    p.tags,
+    p.likes_count,
+    p.comments_count,
+    p.shares_count,
+    p.saves_count,
+    p.engagement_score,
+    p.created_at,
+    pr.username AS creator_username,
+    pr.display_name AS creator_display_name,
+    pr.avatar_url AS creator_avatar_url,
+    pr.is_verified AS creator_is_verified,
+    pr.verification_type AS creator_verification_type,
+    (
+      (p.likes_count * 2 + p.comments_count * 5 + p.shares_count * 10 + p.saves_count * 15) /
+      POWER(EXTRACT(EPOCH FROM (NOW() - p.created_at)) / 3600 + 2, 1.5)
+    ) * (CASE WHEN pr.is_verified THEN 1.5 ELSE 1.0 END) AS rank_score
+  FROM public.posts p
+  JOIN public.profiles pr ON p.creator_id = pr.id
+  WHERE (p.is_private = false OR p.creator_id = p_user_id)
+  AND p.is_hidden = false
+  ORDER BY rank_score DESC, p.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$function$;
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_reports_updated_at
+BEFORE UPDATE ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Indexes for the moderation queue
+CREATE INDEX idx_reports_status ON public.reports(status, created_at DESC);
+CREATE INDEX idx_reports_target ON public.reports(target_type, target_id);
+CREATE INDEX idx_moderation_actions_report ON public.moderation_actions(report_id);
+CREATE INDEX idx_moderation_actions_created ON public.moderation_actions(created_at DESC);
@@ -0,0 +1,91 @@
+-- Create feed_feedback table for "Não tenho interesse"
+CREATE TABLE public.feed_feedback (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  feedback_type TEXT NOT NULL CHECK (feedback_type IN ('post', 'creator', 'tag')),
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE,
+  creator_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  tag TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT feed_feedback_target_check CHECK (
+    (feedback_type = 'post' AND post_id IS NOT NULL) OR
+    (feedback_type = 'creator' AND creator_id IS NOT NULL) OR
+    (feedback_type = 'tag' AND tag IS NOT NULL AND length(tag) > 0)
+  )
+);
+
+-- Enable RLS
+ALTER TABLE public.feed_feedback ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Users can view their feed feedback" ON public.feed_feedback
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create feed feedback" ON public.feed_feedback
+FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their feed feedback" ON public.feed_feedback
+FOR DELETE USING (auth.uid() = user_id);
+
+-- One row per hidden post, creator and tag
+CREATE UNIQUE INDEX idx_feed_feedback_post ON public.feed_feedback(user_id, post_id) WHERE feedback_type = 'post';
+CREATE UNIQUE INDEX idx_feed_feedback_creator ON public.feed_feedback(user_id, creator_id) WHERE feedback_type = 'creator';
+CREATE UNIQUE INDEX idx_feed_feedback_tag ON public.feed_feedback(user_id, lower(tag)) WHERE feedback_type = 'tag';
+
+-- Hidden posts and creators are excluded, hidden tags are down-ranked
+CREATE OR REPLACE FUNCTION public.get_ranked_feed(p_user_id uuid DEFAULT NULL::uuid, p_limit integer DEFAULT 20, p_offset integer DEFAULT 0)
+ RETURNS TABLE(id uuid, creator_id uuid, content_url text, content_type content_type, description text, tags text[], likes_count integer, comments_count integer, shares_count integer, saves_count integer, engagement_score numeric, created_at timestamp with time zone, creator_username text, creator_display_name text, creator_avatar_url text, creator_is_verified boolean, creator_verification_type verification_type, rank_score numeric)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.creator_id,
+    p.content_url,
+    p.content_type,
+    p.description,
+    p.tags,
+    p.likes_count,
+    p.comments_count,
+    p.shares_count,
+    p.saves_count,
+    p.engagement_score,
+    p.created_at,
+    pr.username AS creator_username,
+    pr.display_name AS creator_display_name,
+    pr.avatar_url AS creator_avatar_url,
+    pr.is_verified AS creator_is_verified,
+    pr.verification_type AS creator_verification_type,
+    (
+      (p.likes_count * 2 + p.comments_count * 5 + p.shares_count * 10 + p.saves_count * 15) /
+      POWER(EXTRACT(EPOCH FROM (NOW() - p.created_at)) / 3600 + 2, 1.5)
+    ) * (CASE WHEN pr.is_verified THEN 1.5 ELSE 1.0 END)
+      * (CASE WHEN EXISTS (
+          SELECT 1 FROM public.feed_feedback ff
+          WHERE ff.user_id = p_user_id
+          AND ff.feedback_type = 'tag'
+          AND lower(ff.tag) IN (SELECT lower(t) FROM unnest(p.tags) AS t)
+        ) THEN 0.2 ELSE 1.0 END) AS rank_score
+  FROM public.posts p
+  JOIN public.profiles pr ON p.creator_id = pr.id
+  WHERE (p.is_private = false OR p.creator_id = p_user_id)
+  AND p.is_hidden = false
+  AND NOT EXISTS (
+    SELECT 1 FROM public.feed_feedback ff
+    WHERE ff.user_id = p_user_id
+    AND (
+      (ff.feedback_type = 'post' AND ff.post_id = p.id) OR
+      (ff.feedback_type = 'creator' AND ff.creator_id = p.creator_id)
+    )
+  )
+  ORDER BY rank_score DESC, p.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$function$;
+
+-- Create index for faster lookups
+CREATE INDEX idx_feed_feedback_user_id ON public.feed_feedback(user_id);
@@ -0,0 +1,422 @@
+-- Group conversations: name, avatar and admin roles
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS is_group boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS title text,
+ADD COLUMN IF NOT EXISTS avatar_url text,
+ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.conversation_participants
+ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member'));
+
+-- System messages (group created, member added/removed/left, group renamed)
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS message_type text NOT NULL DEFAULT 'text' CHECK (message_type IN ('text', 'system')),
+ADD COLUMN IF NOT EXISTS metadata jsonb;
+
+-- Check if a user is an admin of a conversation
+CREATE OR REPLACE FUNCTION public.is_conversation_admin(p_conversation_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = p_conversation_id
+    AND user_id = p_user_id
+    AND role = 'admin'
+  )
+$$;
+
+-- Insert a system message; only called from the group functions below
+CREATE OR REPLACE FUNCTION public.post_system_message(
+  p_conversation_id uuid,
+  p_actor_id uuid,
+  p_event text,
+  p_target_id uuid DEFAULT NULL,
+  p_extra jsonb DEFAULT '{}'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_name text;
+BEGIN
+  IF p_target_id IS NOT NULL THEN
+    SELECT COALESCE(display_name, username) INTO target_name
+    FROM public.profiles
+    WHERE id = p_target_id;
+  END IF;
+
+  INSERT INTO public.messages (conversation_id, sender_id, message_type, metadata, is_read)
+  VALUES (
+    p_conversation_id,
+    p_actor_id,
+    'system',
+    jsonb_build_object('event', p_event, 'target_id', p_target_id, 'target_name', target_name) || p_extra,
+    false
+  );
+
+  UPDATE public.conversations SET updated_at = now() WHERE id = p_conversation_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_system_message(uuid, uuid, text, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Create a group conversation; every invitee must accept messages from the creator
+CREATE OR REPLACE FUNCTION public.create_group_conversation(p_title text, p_member_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid;
+  new_conv_id uuid;
+  clean_title text;
+  member_id uuid;
+  member_ids uuid[];
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF public.is_user_suspended(current_user_id) THEN
+    RAISE EXCEPTION 'Account suspended';
+  END IF;
+
+  clean_title := NULLIF(btrim(p_title), '');
+  IF clean_title IS NULL OR length(clean_title) > 100 THEN
+    RAISE EXCEPTION 'Invalid group title';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT m), '{}') INTO member_ids
+  FROM unnest(p_member_ids) AS m
+  WHERE m IS NOT NULL AND m <> current_user_id;
+
+  IF cardinality(member_ids) = 0 THEN
+    RAISE EXCEPTION 'A group needs at least one other member';
+  END IF;
+
+  IF cardinality(member_ids) + 1 > 50 THEN
+    RAISE EXCEPTION 'Groups are limited to 50 members';
+  END IF;
+
+  FOREACH member_id IN ARRAY member_ids LOOP
+    IF NOT public.can_send_message(current_user_id, member_id) THEN
+      RAISE EXCEPTION 'User % does not accept messages from you', member_id;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.conversations (is_group, title, created_by)
+  VALUES (true, clean_title, current_user_id)
+  RETURNING id INTO new_conv_id;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id, role)
+  VALUES (new_conv_id, current_user_id, 'admin');
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id, role)
+  SELECT new_conv_id, m, 'member' FROM unnest(member_ids) AS m;
+
+  PERFORM public.post_system_message(new_conv_id, current_user_id, 'group_created', NULL, jsonb_build_object('title', clean_title));
+
+  RETURN new_conv_id;
+END;
+$$;
+
+-- Add members to a group (admins only); returns how many were added
+CREATE OR REPLACE FUNCTION public.add_group_members(p_conversation_id uuid, p_member_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid;
+  member_id uuid;
+  member_count integer;
+  added integer := 0;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF NOT EXISTS (SELECT 1 FROM public.conversations WHERE id = p_conversation_id AND is_group = true) THEN
+    RAISE EXCEPTION 'Conversation is not a group';
+  END IF;
+
+  IF NOT public.is_conversation_admin(p_conversation_id, current_user_id) THEN
+    RAISE EXCEPTION 'Only group admins can add members';
+  END IF;
+
+  SELECT count(*) INTO member_count
+  FROM public.conversation_participants
+  WHERE conversation_id = p_conversation_id;
+
+  FOR member_id IN
+    SELECT DISTINCT m FROM unnest(p_member_ids) AS m
+    WHERE m IS NOT NULL
+    AND NOT public.is_conversation_participant(p_conversation_id, m)
+  LOOP
+    IF member_count + added >= 50 THEN
+      RAISE EXCEPTION 'Groups are limited to 50 members';
+    END IF;
+
+    IF NOT public.can_send_message(current_user_id, member_id) THEN
+      RAISE EXCEPTION 'User % does not accept messages from you', member_id;
+    END IF;
+
+    INSERT INTO public.conversation_participants (conversation_id, user_id, role)
+    VALUES (p_conversation_id, member_id, 'member');
+
+    PERFORM public.post_system_message(p_conversation_id, current_user_id, 'member_added', member_id);
+    added := added + 1;
+  END LOOP;
+
+  RETURN added;
+END;
+$$;
+
+-- Remove a member (admins) or leave the group (anyone, passing their own id)
+CREATE OR REPLACE FUNCTION public.remove_group_member(p_conversation_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid;
+  next_admin_id uuid;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF NOT EXISTS (SELECT 1 FROM public.conversations WHERE id = p_conversation_id AND is_group = true) THEN
+    RAISE EXCEPTION 'Conversation is not a group';
+  END IF;
+
+  IF NOT public.is_conversation_participant(p_conversation_id, p_user_id) THEN
+    RAISE EXCEPTION 'User is not a member of this group';
+  END IF;
+
+  IF p_user_id <> current_user_id AND NOT public.is_conversation_admin(p_conversation_id, current_user_id) THEN
+    RAISE EXCEPTION 'Only group admins can remove members';
+  END IF;
+
+  DELETE FROM public.conversation_participants
+  WHERE conversation_id = p_conversation_id AND user_id = p_user_id;
+
+  -- Last one out closes the group
+  IF NOT EXISTS (SELECT 1 FROM public.conversation_participants WHERE conversation_id = p_conversation_id) THEN
+    DELETE FROM public.conversations WHERE id = p_conversation_id;
+    RETURN;
+  END IF;
+
+  IF p_user_id = current_user_id THEN
+    PERFORM public.post_system_message(p_conversation_id, current_user_id, 'member_left');
+  ELSE
+    PERFORM public.post_system_message(p_conversation_id, current_user_id, 'member_removed', p_user_id);
+  END IF;
+
+  -- Never leave a group without an admin: promote the longest-standing member
+  IF NOT EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = p_conversation_id AND role = 'admin'
+  ) THEN
+    SELECT user_id INTO next_admin_id
+    FROM public.conversation_participants
+    WHERE conversation_id = p_conversation_id
+    ORDER BY created_at ASC
+    LIMIT 1;
+
+    UPDATE public.conversation_participants
+    SET role = 'admin'
+    WHERE conversation_id = p_conversation_id AND user_id = next_admin_id;
+  END IF;
+END;
+$$;
+
+-- Promote or demote a group member (admins only)
+CREATE OR REPLACE FUNCTION public.set_group_admin(p_conversation_id uuid, p_user_id uuid, p_is_admin boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_conversation_admin(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only group admins can change roles';
+  END IF;
+
+  IF NOT public.is_conversation_participant(p_conversation_id, p_user_id) THEN
+    RAISE EXCEPTION 'User is not a member of this group';
+  END IF;
+
+  IF NOT p_is_admin AND (
+    SELECT count(*) FROM public.conversation_participants
+    WHERE conversation_id = p_conversation_id AND role = 'admin'
+  ) <= 1 THEN
+    RAISE EXCEPTION 'A group needs at least one admin';
+  END IF;
+
+  UPDATE public.conversation_participants
+  SET role = CASE WHEN p_is_admin THEN 'admin' ELSE 'member' END
+  WHERE conversation_id = p_conversation_id AND user_id = p_user_id;
+END;
+$$;
+
+-- Rename a group or change its avatar (admins only)
+CREATE OR REPLACE FUNCTION public.update_group_details(
+  p_conversation_id uuid,
+  p_title text DEFAULT NULL,
+  p_avatar_url text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_title text;
+  clean_title text;
+BEGIN
+  IF NOT public.is_conversation_admin(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only group admins can edit the group';
+  END IF;
+
+  SELECT title INTO current_title
+  FROM public.conversations
+  WHERE id = p_conversation_id AND is_group = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conversation is not a group';
+  END IF;
+
+  clean_title := NULLIF(btrim(p_title), '');
+  IF clean_title IS NOT NULL AND length(clean_title) > 100 THEN
+    RAISE EXCEPTION 'Invalid group title';
+  END IF;
+
+  UPDATE public.conversations
+  SET
+    title = COALESCE(clean_title, title),
+    avatar_url = COALESCE(p_avatar_url, avatar_url),
+    updated_at = now()
+  WHERE id = p_conversation_id;
+
+  IF clean_title IS NOT NULL AND clean_title IS DISTINCT FROM current_title THEN
+    PERFORM public.post_system_message(p_conversation_id, auth.uid(), 'group_renamed', NULL, jsonb_build_object('title', clean_title));
+  END IF;
+END;
+$$;
+
+-- Members can still bump updated_at, but group identity only changes through the functions above
+CREATE OR REPLACE FUNCTION public.protect_group_details()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_group IS DISTINCT FROM OLD.is_group OR NEW.created_by IS DISTINCT FROM OLD.created_by THEN
+    RAISE EXCEPTION 'Conversation type cannot be changed';
+  END IF;
+
+  IF (NEW.title IS DISTINCT FROM OLD.title OR NEW.avatar_url IS DISTINCT FROM OLD.avatar_url)
+    AND NOT public.is_conversation_admin(NEW.id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only group admins can edit the group';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_group_details
+BEFORE UPDATE ON public.conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_group_details();
+
+-- 1:1 lookup must not pick up a group both users happen to share
+CREATE OR REPLACE FUNCTION public.create_conversation_with_participants(other_user_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_conv_id uuid;
+  existing_conv_id uuid;
+  current_user_id uuid;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF current_user_id = other_user_id THEN
+    RAISE EXCEPTION 'Cannot create conversation with yourself';
+  END IF;
+
+  -- Check for existing conversation between these users
+  SELECT cp1.conversation_id INTO existing_conv_id
+  FROM conversation_participants cp1
+  INNER JOIN conversation_participants cp2 ON cp1.conversation_id = cp2.conversation_id
+  INNER JOIN conversations c ON c.id = cp1.conversation_id
+  WHERE cp1.user_id = current_user_id AND cp2.user_id = other_user_id
+  AND c.is_group = false
+  LIMIT 1;
+
+  IF existing_conv_id IS NOT NULL THEN
+    RETURN existing_conv_id;
+  END IF;
+
+  -- Create new conversation
+  INSERT INTO conversations DEFAULT VALUES
+  RETURNING id INTO new_conv_id;
+
+  -- Add both participants
+  INSERT INTO conversation_participants (conversation_id, user_id)
+  VALUES
+    (new_conv_id, current_user_id),
+    (new_conv_id, other_user_id);
+
+  RETURN new_conv_id;
+END;
+$$;
+
+-- Participants are only added through the security definer functions
+DROP POLICY IF EXISTS "Authenticated users can add participants" ON public.conversation_participants;
+
+-- Leaving a group goes through remove_group_member so admins and system messages stay consistent
+DROP POLICY IF EXISTS "Users can leave conversations" ON public.conversation_participants;
+CREATE POLICY "Users can leave conversations"
+ON public.conversation_participants
+FOR DELETE
+TO authenticated
+USING (
+  user_id = auth.uid()
+  AND NOT EXISTS (SELECT 1 FROM public.conversations c WHERE c.id = conversation_id AND c.is_group = true)
+);
+
+-- Only admins can delete a group
+DROP POLICY IF EXISTS "Users can delete their conversations" ON public.conversations;
+CREATE POLICY "Users can delete their conversations"
+ON public.conversations
+FOR DELETE
+TO authenticated
+USING (
+  public.is_conversation_participant(id, auth.uid())
+  AND (is_group = false OR public.is_conversation_admin(id, auth.uid()))
+);
+
+-- Only current members can send, and system messages are server-generated
+DROP POLICY IF EXISTS "Users can send messages" ON public.messages;
+CREATE POLICY "Users can send messages" ON public.messages
+FOR INSERT WITH CHECK (
+  auth.uid() = sender_id
+  AND NOT public.is_user_suspended(auth.uid())
+  AND public.is_conversation_participant(conversation_id, auth.uid())
+  AND message_type = 'text'
+);
@@ -0,0 +1,302 @@
+-- Group calls: calls can have many participants, signals can target a single peer
+ALTER TABLE public.call_sessions
+ALTER COLUMN callee_id DROP NOT NULL,
+ADD COLUMN IF NOT EXISTS is_group boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.call_sessions DROP CONSTRAINT IF EXISTS call_sessions_status_check;
+ALTER TABLE public.call_sessions ADD CONSTRAINT call_sessions_status_check
+CHECK (status IN ('pending', 'ringing', 'connected', 'ended', 'missed', 'declined', 'busy'));
+
+-- recipient_id NULL means the signal is for everyone in the call
+ALTER TABLE public.call_signals
+ADD COLUMN IF NOT EXISTS recipient_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE;
+
+ALTER TABLE public.call_signals DROP CONSTRAINT IF EXISTS call_signals_signal_type_check;
+ALTER TABLE public.call_signals ADD CONSTRAINT call_signals_signal_type_check
+CHECK (signal_type IN (
+  'offer', 'answer', 'ice-candidate', 'hangup',
+  'screen-share-start', 'screen-share-stop',
+  'recording-start', 'recording-stop',
+  'volume-control', 'camera-switch', 'audio-switch'
+));
+
+-- Create call_participants table
+CREATE TABLE public.call_participants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_id uuid NOT NULL REFERENCES public.call_sessions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'invited' CHECK (status IN ('invited', 'joined', 'left', 'declined')),
+  joined_at timestamptz,
+  left_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (call_id, user_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.call_participants ENABLE ROW LEVEL SECURITY;
+
+-- Check if a user belongs to a call (invited or joined at some point)
+CREATE OR REPLACE FUNCTION public.is_call_participant(p_call_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.call_participants
+    WHERE call_id = p_call_id AND user_id = p_user_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.call_sessions
+    WHERE id = p_call_id AND (caller_id = p_user_id OR callee_id = p_user_id)
+  )
+$$;
+
+-- RLS policies for call_participants
+CREATE POLICY "Participants can view call participants"
+ON public.call_participants FOR SELECT
+USING (public.is_call_participant(call_id, auth.uid()));
+
+-- call_sessions: visible to everyone in the call, created only by conversation members
+DROP POLICY IF EXISTS "Users can view their calls" ON public.call_sessions;
+CREATE POLICY "Users can view their calls"
+ON public.call_sessions FOR SELECT
+USING (public.is_call_participant(id, auth.uid()));
+
+DROP POLICY IF EXISTS "Users can create calls" ON public.call_sessions;
+CREATE POLICY "Users can create calls"
+ON public.call_sessions FOR INSERT
+WITH CHECK (
+  auth.uid() = caller_id
+  AND public.is_conversation_participant(conversation_id, auth.uid())
+);
+
+DROP POLICY IF EXISTS "Participants can update calls" ON public.call_sessions;
+CREATE POLICY "Participants can update calls"
+ON public.call_sessions FOR UPDATE
+USING (public.is_call_participant(id, auth.uid()));
+
+-- call_signals: broadcast signals go to everyone, targeted ones only to sender and recipient
+DROP POLICY IF EXISTS "Participants can view signals" ON public.call_signals;
+CREATE POLICY "Participants can view signals"
+ON public.call_signals FOR SELECT
+USING (
+  public.is_call_participant(call_id, auth.uid())
+  AND (recipient_id IS NULL OR recipient_id = auth.uid() OR sender_id = auth.uid())
+);
+
+DROP POLICY IF EXISTS "Participants can send signals" ON public.call_signals;
+CREATE POLICY "Participants can send signals"
+ON public.call_signals FOR INSERT
+WITH CHECK (
+  auth.uid() = sender_id
+  AND public.is_call_participant(call_id, auth.uid())
+  AND (recipient_id IS NULL OR public.is_call_participant(call_id, recipient_id))
+);
+
+-- call_messages: same audience as the call
+DROP POLICY IF EXISTS "Participants can view call messages" ON public.call_messages;
+CREATE POLICY "Participants can view call messages"
+ON public.call_messages FOR SELECT
+USING (public.is_call_participant(call_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Participants can send call messages" ON public.call_messages;
+CREATE POLICY "Participants can send call messages"
+ON public.call_messages FOR INSERT
+WITH CHECK (
+  auth.uid() = sender_id
+  AND public.is_call_participant(call_id, auth.uid())
+);
+
+-- Start a call in a conversation; every other member is invited.
+-- Returns the call id; the caller is already joined unless an existing group call was returned.
+CREATE OR REPLACE FUNCTION public.start_call(p_conversation_id uuid, p_call_type text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid;
+  conv_is_group boolean;
+  other_user_id uuid;
+  new_call_id uuid;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF NOT public.is_conversation_participant(p_conversation_id, current_user_id) THEN
+    RAISE EXCEPTION 'Not a member of this conversation';
+  END IF;
+
+  SELECT is_group INTO conv_is_group
+  FROM public.conversations
+  WHERE id = p_conversation_id;
+
+  -- A group has at most one live call; calling again joins it
+  IF conv_is_group THEN
+    SELECT id INTO new_call_id
+    FROM public.call_sessions
+    WHERE conversation_id = p_conversation_id
+    AND is_group = true
+    AND status IN ('ringing', 'connected')
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF new_call_id IS NOT NULL THEN
+      INSERT INTO public.call_participants (call_id, user_id, status)
+      VALUES (new_call_id, current_user_id, 'invited')
+      ON CONFLICT (call_id, user_id) DO NOTHING;
+
+      RETURN new_call_id;
+    END IF;
+  ELSE
+    SELECT user_id INTO other_user_id
+    FROM public.conversation_participants
+    WHERE conversation_id = p_conversation_id AND user_id <> current_user_id
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO public.call_sessions (conversation_id, caller_id, callee_id, call_type, status, is_group)
+  VALUES (p_conversation_id, current_user_id, other_user_id, p_call_type, 'ringing', conv_is_group)
+  RETURNING id INTO new_call_id;
+
+  INSERT INTO public.call_participants (call_id, user_id, status, joined_at)
+  VALUES (new_call_id, current_user_id, 'joined', now());
+
+  INSERT INTO public.call_participants (call_id, user_id, status)
+  SELECT new_call_id, user_id, 'invited'
+  FROM public.conversation_participants
+  WHERE conversation_id = p_conversation_id AND user_id <> current_user_id;
+
+  RETURN new_call_id;
+END;
+$$;
+
+-- Join (or rejoin) a call; mesh calls are capped at 8 people
+CREATE OR REPLACE FUNCTION public.join_call(p_call_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid;
+  call_status text;
+  joined_count integer;
+BEGIN
+  current_user_id := auth.uid();
+
+  SELECT status INTO call_status
+  FROM public.call_sessions
+  WHERE id = p_call_id;
+
+  IF call_status IS NULL OR call_status IN ('ended', 'missed', 'declined') THEN
+    RAISE EXCEPTION 'Call is no longer active';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.call_participants
+    WHERE call_id = p_call_id AND user_id = current_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not invited to this call';
+  END IF;
+
+  SELECT count(*) INTO joined_count
+  FROM public.call_participants
+  WHERE call_id = p_call_id AND status = 'joined' AND user_id <> current_user_id;
+
+  IF joined_count >= 8 THEN
+    RAISE EXCEPTION 'Call is full';
+  END IF;
+
+  UPDATE public.call_participants
+  SET status = 'joined', joined_at = now(), left_at = NULL
+  WHERE call_id = p_call_id AND user_id = current_user_id;
+
+  UPDATE public.call_sessions
+  SET status = 'connected', started_at = COALESCE(started_at, now())
+  WHERE id = p_call_id AND status IN ('pending', 'ringing');
+END;
+$$;
+
+-- Leave a call; 1:1 calls end when either side leaves, group calls when the last person leaves
+CREATE OR REPLACE FUNCTION public.leave_call(p_call_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  session_row public.call_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO session_row
+  FROM public.call_sessions
+  WHERE id = p_call_id;
+
+  IF NOT FOUND OR NOT public.is_call_participant(p_call_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this call';
+  END IF;
+
+  UPDATE public.call_participants
+  SET status = 'left', left_at = now()
+  WHERE call_id = p_call_id AND user_id = auth.uid() AND status = 'joined';
+
+  IF session_row.status IN ('ended', 'missed', 'declined') THEN
+    RETURN;
+  END IF;
+
+  IF NOT session_row.is_group OR NOT EXISTS (
+    SELECT 1 FROM public.call_participants
+    WHERE call_id = p_call_id AND status = 'joined'
+  ) THEN
+    UPDATE public.call_sessions
+    SET
+      status = CASE WHEN session_row.started_at IS NULL THEN 'missed' ELSE 'ended' END,
+      ended_at = now(),
+      duration_seconds = CASE
+        WHEN session_row.started_at IS NULL THEN NULL
+        ELSE EXTRACT(EPOCH FROM (now() - session_row.started_at))::integer
+      END
+    WHERE id = p_call_id;
+  END IF;
+END;
+$$;
+
+-- Decline an invitation; the call is declined once nobody is left to answer it
+CREATE OR REPLACE FUNCTION public.decline_call(p_call_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.call_participants
+  SET status = 'declined'
+  WHERE call_id = p_call_id AND user_id = auth.uid() AND status = 'invited';
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.call_sessions
+  SET status = 'declined', ended_at = now()
+  WHERE id = p_call_id
+  AND status = 'ringing'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.call_participants
+    WHERE call_id = p_call_id AND status = 'invited'
+  );
+END;
+$$;
+
+-- Enable realtime for participants
+ALTER PUBLICATION supabase_realtime ADD TABLE public.call_participants;
+
+-- Indexes for performance
+CREATE INDEX idx_call_participants_call ON public.call_participants(call_id);
+CREATE INDEX idx_call_participants_user ON public.call_participants(user_id);
+CREATE INDEX idx_call_signals_recipient ON public.call_signals(recipient_id);
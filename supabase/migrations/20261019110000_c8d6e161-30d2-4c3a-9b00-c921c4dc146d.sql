@@ -0,0 +1,96 @@
+-- Call recordings: mixed call audio/video uploaded in chunks to private storage
+CREATE TABLE public.call_recordings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_id uuid NOT NULL REFERENCES public.call_sessions(id) ON DELETE CASCADE,
+  recorded_by uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  mime_type text NOT NULL,
+  status text NOT NULL DEFAULT 'recording' CHECK (status IN ('recording', 'completed', 'failed')),
+  chunk_count integer NOT NULL DEFAULT 0,
+  size_bytes bigint NOT NULL DEFAULT 0,
+  duration_seconds integer,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  ended_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.call_recordings ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for call_recordings
+CREATE POLICY "Call participants can view recordings"
+ON public.call_recordings FOR SELECT
+USING (public.is_call_participant(call_id, auth.uid()));
+
+CREATE POLICY "Call participants can start recordings"
+ON public.call_recordings FOR INSERT
+WITH CHECK (
+  auth.uid() = recorded_by
+  AND public.is_call_participant(call_id, auth.uid())
+);
+
+CREATE POLICY "Recorders can update their recordings"
+ON public.call_recordings FOR UPDATE
+USING (auth.uid() = recorded_by);
+
+CREATE POLICY "Recorders can delete their recordings"
+ON public.call_recordings FOR DELETE
+USING (auth.uid() = recorded_by);
+
+-- Consent replies travel as targeted signals back to whoever asked to record
+ALTER TABLE public.call_signals DROP CONSTRAINT IF EXISTS call_signals_signal_type_check;
+ALTER TABLE public.call_signals ADD CONSTRAINT call_signals_signal_type_check
+CHECK (signal_type IN (
+  'offer', 'answer', 'ice-candidate', 'hangup',
+  'screen-share-start', 'screen-share-stop',
+  'recording-start', 'recording-stop', 'recording-consent',
+  'volume-control', 'camera-switch', 'audio-switch'
+));
+
+-- Private bucket; objects live at <call_id>/<recording_id>/<chunk>.webm
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('call-recordings', 'call-recordings', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Call participants can upload recording chunks"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'call-recordings'
+  AND EXISTS (
+    SELECT 1 FROM public.call_recordings
+    WHERE id::text = (storage.foldername(name))[2]
+    AND call_id::text = (storage.foldername(name))[1]
+    AND recorded_by = auth.uid()
+    AND status = 'recording'
+  )
+);
+
+CREATE POLICY "Call participants can view recording chunks"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'call-recordings'
+  AND EXISTS (
+    SELECT 1 FROM public.call_recordings
+    WHERE id::text = (storage.foldername(name))[2]
+    AND public.is_call_participant(call_id, auth.uid())
+  )
+);
+
+CREATE POLICY "Recorders can delete their recording chunks"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'call-recordings'
+  AND EXISTS (
+    SELECT 1 FROM public.call_recordings
+    WHERE id::text = (storage.foldername(name))[2]
+    AND recorded_by = auth.uid()
+  )
+);
+
+-- Indexes for performance
+CREATE INDEX idx_call_recordings_call ON public.call_recordings(call_id);
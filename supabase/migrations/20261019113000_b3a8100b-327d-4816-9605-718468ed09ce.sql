@@ -0,0 +1,209 @@
+-- Message editing and deletion
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS edited_at timestamptz,
+ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+-- Create message_edits table (previous versions of edited messages)
+CREATE TABLE public.message_edits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  previous_content text NOT NULL,
+  edited_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Create message_deletions table ("delete for me")
+CREATE TABLE public.message_deletions (
+  message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.message_edits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_deletions ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for message_edits (written only by edit_message)
+CREATE POLICY "Participants can view message edits"
+ON public.message_edits FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_edits.message_id
+    AND public.is_conversation_participant(m.conversation_id, auth.uid())
+  )
+);
+
+-- RLS policies for message_deletions
+CREATE POLICY "Users can view their own deletions"
+ON public.message_deletions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete messages for themselves"
+ON public.message_deletions FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_deletions.message_id
+    AND public.is_conversation_participant(m.conversation_id, auth.uid())
+  )
+);
+
+-- Messages deleted "for me" disappear only for that user
+DROP POLICY IF EXISTS "Users can view messages in their conversations" ON public.messages;
+CREATE POLICY "Users can view messages in their conversations"
+ON public.messages
+FOR SELECT
+USING (
+  public.is_conversation_participant(conversation_id, auth.uid())
+  AND is_hidden = false
+  AND NOT EXISTS (
+    SELECT 1 FROM public.message_deletions d
+    WHERE d.message_id = messages.id AND d.user_id = auth.uid()
+  )
+);
+
+-- Participants may still flip is_read, but content only changes through the RPCs below
+CREATE OR REPLACE FUNCTION public.protect_message_content()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- The type, system metadata and moderation state are set by the server, and other
+  -- participants may only mark the message as read
+  IF COALESCE(current_setting('app.message_change', true), '') <> 'on'
+    AND COALESCE(current_setting('app.moderation_change', true), '') <> 'on' THEN
+    IF NEW.message_type IS DISTINCT FROM OLD.message_type
+      OR NEW.metadata IS DISTINCT FROM OLD.metadata
+      OR NEW.is_hidden IS DISTINCT FROM OLD.is_hidden THEN
+      RAISE EXCEPTION 'Message type, metadata and moderation state cannot be changed';
+    END IF;
+
+    -- search_vector is generated (not yet computed here); reply_to_message_id is checked below
+    IF OLD.sender_id IS DISTINCT FROM auth.uid()
+      AND (to_jsonb(NEW) - 'is_read' - 'search_vector' - 'reply_to_message_id')
+        IS DISTINCT FROM (to_jsonb(OLD) - 'is_read' - 'search_vector' - 'reply_to_message_id') THEN
+      RAISE EXCEPTION 'Only the sender can change this message';
+    END IF;
+  END IF;
+
+  IF (
+    NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.sticker_url IS DISTINCT FROM OLD.sticker_url
+    OR NEW.audio_url IS DISTINCT FROM OLD.audio_url
+    OR NEW.edited_at IS DISTINCT FROM OLD.edited_at
+    OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+    OR NEW.sender_id IS DISTINCT FROM OLD.sender_id
+    OR NEW.conversation_id IS DISTINCT FROM OLD.conversation_id
+  ) AND COALESCE(current_setting('app.message_change', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Messages can only be changed with edit_message or delete_message_for_everyone';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_message_content
+BEFORE UPDATE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_message_content();
+
+-- Edit a text message; senders have 15 minutes after sending
+CREATE OR REPLACE FUNCTION public.edit_message(p_message_id uuid, p_content text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  msg public.messages%ROWTYPE;
+  new_content text;
+BEGIN
+  SELECT * INTO msg
+  FROM public.messages
+  WHERE id = p_message_id;
+
+  IF NOT FOUND OR msg.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the sender can edit this message';
+  END IF;
+
+  IF msg.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Message was deleted';
+  END IF;
+
+  IF msg.message_type <> 'text' OR msg.content IS NULL THEN
+    RAISE EXCEPTION 'Only text messages can be edited';
+  END IF;
+
+  IF msg.created_at < now() - interval '15 minutes' THEN
+    RAISE EXCEPTION 'Edit window has passed';
+  END IF;
+
+  new_content := btrim(p_content);
+
+  IF new_content IS NULL OR new_content = '' THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF new_content = msg.content THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.message_edits (message_id, previous_content, edited_at)
+  VALUES (p_message_id, msg.content, COALESCE(msg.edited_at, msg.created_at));
+
+  PERFORM set_config('app.message_change', 'on', true);
+
+  UPDATE public.messages
+  SET content = new_content, edited_at = now()
+  WHERE id = p_message_id;
+
+  PERFORM set_config('app.message_change', 'off', true);
+END;
+$$;
+
+-- Delete a message for everyone; the row stays as a tombstone
+CREATE OR REPLACE FUNCTION public.delete_message_for_everyone(p_message_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  msg public.messages%ROWTYPE;
+BEGIN
+  SELECT * INTO msg
+  FROM public.messages
+  WHERE id = p_message_id;
+
+  IF NOT FOUND OR msg.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the sender can delete this message for everyone';
+  END IF;
+
+  IF msg.deleted_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  -- Earlier versions go with the content
+  DELETE FROM public.message_edits WHERE message_id = p_message_id;
+
+  PERFORM set_config('app.message_change', 'on', true);
+
+  UPDATE public.messages
+  SET
+    content = NULL,
+    sticker_url = NULL,
+    audio_url = NULL,
+    audio_duration_seconds = NULL,
+    deleted_at = now()
+  WHERE id = p_message_id;
+
+  PERFORM set_config('app.message_change', 'off', true);
+END;
+$$;
+
+-- Indexes for performance
+CREATE INDEX idx_message_edits_message ON public.message_edits(message_id);
+CREATE INDEX idx_message_deletions_user ON public.message_deletions(user_id);
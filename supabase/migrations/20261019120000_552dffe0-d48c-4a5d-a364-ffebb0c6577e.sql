@@ -0,0 +1,77 @@
+-- Replies: a message can quote an earlier message from the same conversation
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS reply_to_message_id uuid REFERENCES public.messages(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.validate_message_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.reply_to_message_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.messages
+    WHERE id = NEW.reply_to_message_id
+    AND conversation_id = NEW.conversation_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must quote a message from the same conversation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_message_reply
+BEFORE INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_message_reply();
+
+-- The quoted message is fixed once sent
+CREATE OR REPLACE FUNCTION public.protect_message_content()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- The type, system metadata and moderation state are set by the server, and other
+  -- participants may only mark the message as read
+  IF COALESCE(current_setting('app.message_change', true), '') <> 'on'
+    AND COALESCE(current_setting('app.moderation_change', true), '') <> 'on' THEN
+    IF NEW.message_type IS DISTINCT FROM OLD.message_type
+      OR NEW.metadata IS DISTINCT FROM OLD.metadata
+      OR NEW.is_hidden IS DISTINCT FROM OLD.is_hidden THEN
+      RAISE EXCEPTION 'Message type, metadata and moderation state cannot be changed';
+    END IF;
+
+    -- search_vector is generated (not yet computed here); reply_to_message_id is checked below
+    IF OLD.sender_id IS DISTINCT FROM auth.uid()
+      AND (to_jsonb(NEW) - 'is_read' - 'search_vector' - 'reply_to_message_id')
+        IS DISTINCT FROM (to_jsonb(OLD) - 'is_read' - 'search_vector' - 'reply_to_message_id') THEN
+      RAISE EXCEPTION 'Only the sender can change this message';
+    END IF;
+  END IF;
+
+  IF (
+    NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.sticker_url IS DISTINCT FROM OLD.sticker_url
+    OR NEW.audio_url IS DISTINCT FROM OLD.audio_url
+    OR NEW.edited_at IS DISTINCT FROM OLD.edited_at
+    OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+    OR NEW.sender_id IS DISTINCT FROM OLD.sender_id
+    OR NEW.conversation_id IS DISTINCT FROM OLD.conversation_id
+  ) AND COALESCE(current_setting('app.message_change', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Messages can only be changed with edit_message or delete_message_for_everyone';
+  END IF;
+
+  -- ON DELETE SET NULL clears it when the original is removed
+  IF NEW.reply_to_message_id IS NOT NULL
+    AND NEW.reply_to_message_id IS DISTINCT FROM OLD.reply_to_message_id THEN
+    RAISE EXCEPTION 'The quoted message cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Indexes for performance
+CREATE INDEX idx_messages_reply_to ON public.messages(reply_to_message_id);
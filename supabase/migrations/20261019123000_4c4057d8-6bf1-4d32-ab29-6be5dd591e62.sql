@@ -0,0 +1,196 @@
+-- Create message_attachments table (photos, videos and files sent in conversations)
+CREATE TABLE public.message_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  uploader_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('image', 'video', 'file')),
+  storage_path text NOT NULL,
+  thumbnail_path text,
+  file_name text NOT NULL,
+  mime_type text NOT NULL,
+  size_bytes bigint NOT NULL CHECK (size_bytes >= 0),
+  width integer,
+  height integer,
+  duration_seconds integer,
+  position smallint NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.message_attachments ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for message_attachments (written only by send_message_with_attachments)
+CREATE POLICY "Participants can view message attachments"
+ON public.message_attachments FOR SELECT
+USING (
+  public.is_conversation_participant(conversation_id, auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = message_attachments.message_id
+    AND (NOT m.is_hidden OR public.can_moderate(auth.uid()))
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.message_deletions d
+    WHERE d.message_id = message_attachments.message_id
+    AND d.user_id = auth.uid()
+  )
+);
+
+-- The attachments RLS above hides these rows, so the storage policy goes through this
+CREATE OR REPLACE FUNCTION public.is_hidden_message_file(_path text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.message_attachments a
+    JOIN public.messages m ON m.id = a.message_id
+    WHERE (a.storage_path = _path OR a.thumbnail_path = _path)
+    AND m.is_hidden
+  )
+$$;
+
+-- Private bucket; objects live at <conversation_id>/<uploader_id>/<file>
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('message-attachments', 'message-attachments', false, 52428800)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Participants can upload message attachments"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'message-attachments'
+  AND (storage.foldername(name))[2] = auth.uid()::text
+  AND public.is_conversation_participant(((storage.foldername(name))[1])::uuid, auth.uid())
+);
+
+CREATE POLICY "Participants can view message attachments"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'message-attachments'
+  AND public.is_conversation_participant(((storage.foldername(name))[1])::uuid, auth.uid())
+  AND (NOT public.is_hidden_message_file(name) OR public.can_moderate(auth.uid()))
+);
+
+CREATE POLICY "Uploaders can delete their message attachments"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'message-attachments'
+  AND (storage.foldername(name))[2] = auth.uid()::text
+);
+
+-- Send a message and its attachments in one go so realtime never sees one without the other
+CREATE OR REPLACE FUNCTION public.send_message_with_attachments(
+  p_conversation_id uuid,
+  p_content text,
+  p_attachments jsonb,
+  p_reply_to_message_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_message_id uuid;
+  path_prefix text := p_conversation_id::text || '/' || auth.uid()::text || '/';
+BEGIN
+  IF auth.uid() IS NULL OR public.is_user_suspended(auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to send messages';
+  END IF;
+
+  IF NOT public.is_conversation_participant(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  IF jsonb_typeof(p_attachments) <> 'array'
+    OR jsonb_array_length(p_attachments) NOT BETWEEN 1 AND 10 THEN
+    RAISE EXCEPTION 'A message takes between 1 and 10 attachments';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_attachments) a
+    WHERE left(a->>'storage_path', length(path_prefix)) <> path_prefix
+    OR (a->>'thumbnail_path' IS NOT NULL AND left(a->>'thumbnail_path', length(path_prefix)) <> path_prefix)
+  ) THEN
+    RAISE EXCEPTION 'Attachments must be uploaded to your folder in this conversation';
+  END IF;
+
+  INSERT INTO public.messages (conversation_id, sender_id, content, reply_to_message_id)
+  VALUES (p_conversation_id, auth.uid(), NULLIF(btrim(p_content), ''), p_reply_to_message_id)
+  RETURNING id INTO new_message_id;
+
+  INSERT INTO public.message_attachments (
+    message_id, conversation_id, uploader_id, kind, storage_path, thumbnail_path,
+    file_name, mime_type, size_bytes, width, height, duration_seconds, position
+  )
+  SELECT
+    new_message_id, p_conversation_id, auth.uid(), a.kind, a.storage_path, a.thumbnail_path,
+    a.file_name, a.mime_type, a.size_bytes, a.width, a.height, a.duration_seconds, (a.ord - 1)::smallint
+  FROM jsonb_to_recordset(p_attachments) WITH ORDINALITY AS a(
+    kind text, storage_path text, thumbnail_path text, file_name text, mime_type text,
+    size_bytes bigint, width integer, height integer, duration_seconds integer, ord bigint
+  );
+
+  UPDATE public.conversations
+  SET updated_at = now()
+  WHERE id = p_conversation_id;
+
+  RETURN new_message_id;
+END;
+$$;
+
+-- Deleting for everyone also drops the attachment rows; the sender removes the files
+CREATE OR REPLACE FUNCTION public.delete_message_for_everyone(p_message_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  msg public.messages%ROWTYPE;
+BEGIN
+  SELECT * INTO msg
+  FROM public.messages
+  WHERE id = p_message_id;
+
+  IF NOT FOUND OR msg.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the sender can delete this message for everyone';
+  END IF;
+
+  IF msg.deleted_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  -- Earlier versions go with the content
+  DELETE FROM public.message_edits WHERE message_id = p_message_id;
+  DELETE FROM public.message_attachments WHERE message_id = p_message_id;
+
+  PERFORM set_config('app.message_change', 'on', true);
+
+  UPDATE public.messages
+  SET
+    content = NULL,
+    sticker_url = NULL,
+    audio_url = NULL,
+    audio_duration_seconds = NULL,
+    deleted_at = now()
+  WHERE id = p_message_id;
+
+  PERFORM set_config('app.message_change', 'off', true);
+END;
+$$;
+
+-- Indexes for performance
+CREATE INDEX idx_message_attachments_message ON public.message_attachments(message_id);
+CREATE INDEX idx_message_attachments_conversation ON public.message_attachments(conversation_id, created_at DESC);
+CREATE INDEX idx_message_attachments_storage_path ON public.message_attachments(storage_path);
@@ -0,0 +1,67 @@
+-- Full-text search over message content
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (to_tsvector('portuguese'::regconfig, coalesce(content, ''))) STORED;
+
+-- Ranked matches with highlighted snippets, limited to the caller's conversations.
+-- Pass p_conversation_id to search a single conversation.
+CREATE OR REPLACE FUNCTION public.search_messages(
+  p_query text,
+  p_conversation_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 30
+)
+RETURNS TABLE (
+  message_id uuid,
+  conversation_id uuid,
+  sender_id uuid,
+  sender_username text,
+  sender_display_name text,
+  sender_avatar_url text,
+  snippet text,
+  created_at timestamptz,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('portuguese'::regconfig, p_query) AS query
+  )
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.sender_id,
+    p.username,
+    p.display_name,
+    p.avatar_url,
+    ts_headline(
+      'portuguese'::regconfig,
+      m.content,
+      q.query,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=6, MaxWords=20, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    m.created_at,
+    ts_rank_cd(m.search_vector, q.query)
+  FROM public.messages m
+  CROSS JOIN q
+  LEFT JOIN public.profiles p ON p.id = m.sender_id
+  WHERE auth.uid() IS NOT NULL
+    AND m.search_vector @@ q.query
+    AND m.message_type = 'text'
+    AND m.deleted_at IS NULL
+    AND m.is_hidden = false
+    AND (p_conversation_id IS NULL OR m.conversation_id = p_conversation_id)
+    AND public.is_conversation_participant(m.conversation_id, auth.uid())
+    AND NOT EXISTS (
+      SELECT 1 FROM public.message_deletions d
+      WHERE d.message_id = m.id
+      AND d.user_id = auth.uid()
+    )
+  ORDER BY ts_rank_cd(m.search_vector, q.query) DESC, m.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+-- Indexes for performance
+CREATE INDEX idx_messages_search_vector ON public.messages USING GIN (search_vector);
@@ -0,0 +1,92 @@
+-- Read receipts: each participant has a "seen up to" marker.
+-- last_read_at is the created_at of last_read_message_id, so a message is
+-- seen by a participant when created_at <= their last_read_at.
+ALTER TABLE public.conversation_participants
+ADD COLUMN IF NOT EXISTS last_read_message_id uuid REFERENCES public.messages(id) ON DELETE SET NULL;
+
+-- Start markers from the old per-message flag
+UPDATE public.conversation_participants cp
+SET
+  last_read_message_id = latest.id,
+  last_read_at = latest.created_at
+FROM LATERAL (
+  SELECT m.id, m.created_at
+  FROM public.messages m
+  WHERE m.conversation_id = cp.conversation_id
+  AND (m.sender_id = cp.user_id OR m.is_read = true)
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT 1
+) latest
+WHERE cp.last_read_at IS NULL OR cp.last_read_at < latest.created_at;
+
+-- Move the caller's marker forward to a message; markers never move back
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(p_conversation_id uuid, p_message_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  read_at timestamptz;
+BEGIN
+  IF NOT public.is_conversation_participant(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  SELECT created_at INTO read_at
+  FROM public.messages
+  WHERE id = p_message_id
+  AND conversation_id = p_conversation_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found in this conversation';
+  END IF;
+
+  UPDATE public.conversation_participants
+  SET
+    last_read_message_id = p_message_id,
+    last_read_at = read_at
+  WHERE conversation_id = p_conversation_id
+  AND user_id = auth.uid()
+  AND (last_read_at IS NULL OR last_read_at < read_at);
+
+  -- Keep the legacy flag in sync for older clients
+  UPDATE public.messages
+  SET is_read = true
+  WHERE conversation_id = p_conversation_id
+  AND sender_id <> auth.uid()
+  AND is_read = false
+  AND created_at <= read_at;
+END;
+$$;
+
+-- Unread messages per conversation for the caller, counted after their marker
+CREATE OR REPLACE FUNCTION public.get_unread_counts()
+RETURNS TABLE (conversation_id uuid, unread_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT cp.conversation_id, count(m.id)
+  FROM public.conversation_participants cp
+  LEFT JOIN public.messages m
+    ON m.conversation_id = cp.conversation_id
+    AND m.sender_id <> cp.user_id
+    AND m.message_type = 'text'
+    AND m.is_hidden = false
+    AND m.created_at > COALESCE(cp.last_read_at, '-infinity'::timestamptz)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.message_deletions d
+      WHERE d.message_id = m.id
+      AND d.user_id = cp.user_id
+    )
+  WHERE cp.user_id = auth.uid()
+  GROUP BY cp.conversation_id;
+$$;
+
+-- Participants see each other's markers move
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_participants;
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created ON public.messages(conversation_id, created_at);
@@ -0,0 +1,146 @@
+-- Create scheduled_messages table: text written now, delivered into messages at scheduled_for
+CREATE TABLE public.scheduled_messages (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  content text NOT NULL CHECK (char_length(btrim(content)) BETWEEN 1 AND 2000),
+  reply_to_message_id uuid REFERENCES public.messages(id) ON DELETE SET NULL,
+  scheduled_for timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  sent_message_id uuid REFERENCES public.messages(id) ON DELETE SET NULL,
+  failure_reason text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for scheduled_messages: only the author sees them, and only pending ones can change
+CREATE POLICY "Users can view their scheduled messages"
+ON public.scheduled_messages FOR SELECT
+USING (auth.uid() = sender_id);
+
+CREATE POLICY "Participants can schedule messages"
+ON public.scheduled_messages FOR INSERT
+WITH CHECK (
+  auth.uid() = sender_id
+  AND status = 'pending'
+  AND scheduled_for > now()
+  AND NOT public.is_user_suspended(auth.uid())
+  AND public.is_conversation_participant(conversation_id, auth.uid())
+);
+
+CREATE POLICY "Users can edit their pending scheduled messages"
+ON public.scheduled_messages FOR UPDATE
+USING (auth.uid() = sender_id AND status = 'pending')
+WITH CHECK (
+  auth.uid() = sender_id
+  AND status = 'pending'
+  AND scheduled_for > now()
+  AND public.is_conversation_participant(conversation_id, auth.uid())
+);
+
+CREATE POLICY "Users can cancel their pending scheduled messages"
+ON public.scheduled_messages FOR DELETE
+USING (auth.uid() = sender_id AND status = 'pending');
+
+CREATE TRIGGER update_scheduled_messages_updated_at
+  BEFORE UPDATE ON public.scheduled_messages
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A scheduled message stays in its conversation and can only quote a message from it
+CREATE OR REPLACE FUNCTION public.validate_scheduled_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.conversation_id IS DISTINCT FROM OLD.conversation_id THEN
+    RAISE EXCEPTION 'Scheduled messages cannot move to another conversation';
+  END IF;
+
+  IF NEW.reply_to_message_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.messages
+    WHERE id = NEW.reply_to_message_id
+    AND conversation_id = NEW.conversation_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must quote a message from the same conversation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_scheduled_message
+  BEFORE INSERT OR UPDATE OF conversation_id, reply_to_message_id ON public.scheduled_messages
+  FOR EACH ROW EXECUTE FUNCTION public.validate_scheduled_message();
+
+-- Delivers every due message; called by the scheduled-messages edge function.
+-- Rows are claimed with SKIP LOCKED so overlapping runs never deliver twice.
+CREATE OR REPLACE FUNCTION public.release_scheduled_messages(p_limit integer DEFAULT 200)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  due record;
+  new_message_id uuid;
+  released integer := 0;
+BEGIN
+  FOR due IN
+    SELECT *
+    FROM public.scheduled_messages
+    WHERE status = 'pending'
+    AND scheduled_for <= now()
+    ORDER BY scheduled_for, created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    -- The author may have left the conversation or been suspended since scheduling
+    IF public.is_user_suspended(due.sender_id)
+      OR NOT public.is_conversation_participant(due.conversation_id, due.sender_id) THEN
+      UPDATE public.scheduled_messages
+      SET status = 'failed', failure_reason = 'Not allowed to send messages'
+      WHERE id = due.id;
+      CONTINUE;
+    END IF;
+
+    -- A row that cannot be delivered fails on its own instead of holding up the batch
+    BEGIN
+      INSERT INTO public.messages (conversation_id, sender_id, content, reply_to_message_id)
+      VALUES (due.conversation_id, due.sender_id, btrim(due.content), due.reply_to_message_id)
+      RETURNING id INTO new_message_id;
+
+      UPDATE public.scheduled_messages
+      SET status = 'sent', sent_message_id = new_message_id
+      WHERE id = due.id;
+
+      UPDATE public.conversations
+      SET updated_at = now()
+      WHERE id = due.conversation_id;
+
+      released := released + 1;
+    EXCEPTION WHEN others THEN
+      UPDATE public.scheduled_messages
+      SET status = 'failed', failure_reason = SQLERRM
+      WHERE id = due.id;
+    END;
+  END LOOP;
+
+  RETURN released;
+END;
+$$;
+
+-- Only the edge function (service role) releases messages
+REVOKE EXECUTE ON FUNCTION public.release_scheduled_messages(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_scheduled_messages(integer) TO service_role;
+
+-- Authors' lists update live when messages go out
+ALTER PUBLICATION supabase_realtime ADD TABLE public.scheduled_messages;
+
+-- Indexes for performance
+CREATE INDEX idx_scheduled_messages_due ON public.scheduled_messages(scheduled_for) WHERE status = 'pending';
+CREATE INDEX idx_scheduled_messages_sender_conversation ON public.scheduled_messages(sender_id, conversation_id);
@@ -0,0 +1,264 @@
+-- Disappearing messages: a per-conversation timer stamped on each new message.
+-- Expired messages are hidden right away and deleted by the disappearing-messages-cleanup function.
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS disappearing_seconds integer
+CHECK (disappearing_seconds IN (3600, 86400, 604800));
+
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS expires_at timestamptz;
+
+-- Messages take the timer that is on when they are sent; system messages stay
+CREATE OR REPLACE FUNCTION public.set_message_expiry()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  timer_seconds integer;
+BEGIN
+  IF NEW.message_type = 'system' THEN
+    NEW.expires_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT disappearing_seconds INTO timer_seconds
+  FROM public.conversations
+  WHERE id = NEW.conversation_id;
+
+  NEW.expires_at := CASE
+    WHEN timer_seconds IS NULL THEN NULL
+    ELSE COALESCE(NEW.created_at, now()) + make_interval(secs => timer_seconds)
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_message_expiry
+BEFORE INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.set_message_expiry();
+
+-- expires_at is fixed once sent, like the content
+CREATE OR REPLACE FUNCTION public.protect_message_content()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- The type, system metadata and moderation state are set by the server, and other
+  -- participants may only mark the message as read
+  IF COALESCE(current_setting('app.message_change', true), '') <> 'on'
+    AND COALESCE(current_setting('app.moderation_change', true), '') <> 'on' THEN
+    IF NEW.message_type IS DISTINCT FROM OLD.message_type
+      OR NEW.metadata IS DISTINCT FROM OLD.metadata
+      OR NEW.is_hidden IS DISTINCT FROM OLD.is_hidden THEN
+      RAISE EXCEPTION 'Message type, metadata and moderation state cannot be changed';
+    END IF;
+
+    -- search_vector is generated (not yet computed here); reply_to_message_id is checked below
+    IF OLD.sender_id IS DISTINCT FROM auth.uid()
+      AND (to_jsonb(NEW) - 'is_read' - 'search_vector' - 'reply_to_message_id')
+        IS DISTINCT FROM (to_jsonb(OLD) - 'is_read' - 'search_vector' - 'reply_to_message_id') THEN
+      RAISE EXCEPTION 'Only the sender can change this message';
+    END IF;
+  END IF;
+
+  IF (
+    NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.sticker_url IS DISTINCT FROM OLD.sticker_url
+    OR NEW.audio_url IS DISTINCT FROM OLD.audio_url
+    OR NEW.edited_at IS DISTINCT FROM OLD.edited_at
+    OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+    OR NEW.sender_id IS DISTINCT FROM OLD.sender_id
+    OR NEW.conversation_id IS DISTINCT FROM OLD.conversation_id
+    OR NEW.expires_at IS DISTINCT FROM OLD.expires_at
+  ) AND COALESCE(current_setting('app.message_change', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Messages can only be changed with edit_message or delete_message_for_everyone';
+  END IF;
+
+  -- ON DELETE SET NULL clears it when the original is removed
+  IF NEW.reply_to_message_id IS NOT NULL
+    AND NEW.reply_to_message_id IS DISTINCT FROM OLD.reply_to_message_id THEN
+    RAISE EXCEPTION 'The quoted message cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Expired messages disappear before the cleanup job gets to them
+DROP POLICY IF EXISTS "Users can view messages in their conversations" ON public.messages;
+CREATE POLICY "Users can view messages in their conversations"
+ON public.messages
+FOR SELECT
+USING (
+  public.is_conversation_participant(conversation_id, auth.uid())
+  AND is_hidden = false
+  AND (expires_at IS NULL OR expires_at > now())
+  AND NOT EXISTS (
+    SELECT 1 FROM public.message_deletions d
+    WHERE d.message_id = messages.id AND d.user_id = auth.uid()
+  )
+);
+
+-- The timer only changes through set_disappearing_messages, which posts the system message
+CREATE OR REPLACE FUNCTION public.protect_group_details()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_group IS DISTINCT FROM OLD.is_group OR NEW.created_by IS DISTINCT FROM OLD.created_by THEN
+    RAISE EXCEPTION 'Conversation type cannot be changed';
+  END IF;
+
+  IF (NEW.title IS DISTINCT FROM OLD.title OR NEW.avatar_url IS DISTINCT FROM OLD.avatar_url)
+    AND NOT public.is_conversation_admin(NEW.id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only group admins can edit the group';
+  END IF;
+
+  IF NEW.disappearing_seconds IS DISTINCT FROM OLD.disappearing_seconds
+    AND COALESCE(current_setting('app.conversation_change', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Use set_disappearing_messages to change the timer';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Turn the timer on (3600, 86400 or 604800 seconds) or off (NULL).
+-- Anyone in a 1:1 chat can change it; in groups only admins.
+CREATE OR REPLACE FUNCTION public.set_disappearing_messages(p_conversation_id uuid, p_seconds integer)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  conv record;
+BEGIN
+  IF NOT public.is_conversation_participant(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  IF p_seconds IS NOT NULL AND p_seconds NOT IN (3600, 86400, 604800) THEN
+    RAISE EXCEPTION 'Invalid disappearing timer';
+  END IF;
+
+  SELECT is_group, disappearing_seconds INTO conv
+  FROM public.conversations
+  WHERE id = p_conversation_id;
+
+  IF conv.is_group AND NOT public.is_conversation_admin(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only group admins can do this';
+  END IF;
+
+  IF conv.disappearing_seconds IS NOT DISTINCT FROM p_seconds THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.conversation_change', 'on', true);
+
+  UPDATE public.conversations
+  SET disappearing_seconds = p_seconds
+  WHERE id = p_conversation_id;
+
+  PERFORM public.post_system_message(
+    p_conversation_id,
+    auth.uid(),
+    'disappearing_changed',
+    NULL,
+    jsonb_build_object('seconds', p_seconds)
+  );
+END;
+$$;
+
+-- Security definer readers bypass the policy above, so they skip expired messages themselves
+CREATE OR REPLACE FUNCTION public.search_messages(
+  p_query text,
+  p_conversation_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 30
+)
+RETURNS TABLE (
+  message_id uuid,
+  conversation_id uuid,
+  sender_id uuid,
+  sender_username text,
+  sender_display_name text,
+  sender_avatar_url text,
+  snippet text,
+  created_at timestamptz,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('portuguese'::regconfig, p_query) AS query
+  )
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.sender_id,
+    p.username,
+    p.display_name,
+    p.avatar_url,
+    ts_headline(
+      'portuguese'::regconfig,
+      m.content,
+      q.query,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=6, MaxWords=20, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    m.created_at,
+    ts_rank_cd(m.search_vector, q.query)
+  FROM public.messages m
+  CROSS JOIN q
+  LEFT JOIN public.profiles p ON p.id = m.sender_id
+  WHERE auth.uid() IS NOT NULL
+    AND m.search_vector @@ q.query
+    AND m.message_type = 'text'
+    AND m.deleted_at IS NULL
+    AND m.is_hidden = false
+    AND (m.expires_at IS NULL OR m.expires_at > now())
+    AND (p_conversation_id IS NULL OR m.conversation_id = p_conversation_id)
+    AND public.is_conversation_participant(m.conversation_id, auth.uid())
+    AND NOT EXISTS (
+      SELECT 1 FROM public.message_deletions d
+      WHERE d.message_id = m.id
+      AND d.user_id = auth.uid()
+    )
+  ORDER BY ts_rank_cd(m.search_vector, q.query) DESC, m.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_unread_counts()
+RETURNS TABLE (conversation_id uuid, unread_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT cp.conversation_id, count(m.id)
+  FROM public.conversation_participants cp
+  LEFT JOIN public.messages m
+    ON m.conversation_id = cp.conversation_id
+    AND m.sender_id <> cp.user_id
+    AND m.message_type = 'text'
+    AND m.is_hidden = false
+    AND (m.expires_at IS NULL OR m.expires_at > now())
+    AND m.created_at > COALESCE(cp.last_read_at, '-infinity'::timestamptz)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.message_deletions d
+      WHERE d.message_id = m.id
+      AND d.user_id = cp.user_id
+    )
+  WHERE cp.user_id = auth.uid()
+  GROUP BY cp.conversation_id;
+$$;
+
+-- Indexes for performance
+CREATE INDEX idx_messages_expires_at ON public.messages(expires_at) WHERE expires_at IS NOT NULL;
@@ -0,0 +1,184 @@
+-- Per-user conversation state: pinned, archived, muted and manually marked unread
+ALTER TABLE public.conversation_participants
+ADD COLUMN IF NOT EXISTS pinned_at timestamptz,
+ADD COLUMN IF NOT EXISTS is_archived boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS muted_until timestamptz,
+ADD COLUMN IF NOT EXISTS is_marked_unread boolean NOT NULL DEFAULT false;
+
+-- Pin or unpin for the caller; at most 3 pinned conversations, and pinning unarchives
+CREATE OR REPLACE FUNCTION public.set_conversation_pinned(p_conversation_id uuid, p_pinned boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_conversation_participant(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  IF p_pinned AND (
+    SELECT count(*) FROM public.conversation_participants
+    WHERE user_id = auth.uid()
+    AND pinned_at IS NOT NULL
+    AND conversation_id <> p_conversation_id
+  ) >= 3 THEN
+    RAISE EXCEPTION 'Pinned conversations are limited to 3';
+  END IF;
+
+  UPDATE public.conversation_participants
+  SET
+    pinned_at = CASE WHEN p_pinned THEN COALESCE(pinned_at, now()) ELSE NULL END,
+    is_archived = CASE WHEN p_pinned THEN false ELSE is_archived END
+  WHERE conversation_id = p_conversation_id
+  AND user_id = auth.uid();
+END;
+$$;
+
+-- Archive or unarchive for the caller; archiving unpins
+CREATE OR REPLACE FUNCTION public.set_conversation_archived(p_conversation_id uuid, p_archived boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_conversation_participant(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  UPDATE public.conversation_participants
+  SET
+    is_archived = p_archived,
+    pinned_at = CASE WHEN p_archived THEN NULL ELSE pinned_at END
+  WHERE conversation_id = p_conversation_id
+  AND user_id = auth.uid();
+END;
+$$;
+
+-- Mute until a time ('infinity' for always) or unmute with NULL
+CREATE OR REPLACE FUNCTION public.set_conversation_muted(p_conversation_id uuid, p_muted_until timestamptz)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_conversation_participant(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  UPDATE public.conversation_participants
+  SET muted_until = CASE WHEN p_muted_until > now() THEN p_muted_until ELSE NULL END
+  WHERE conversation_id = p_conversation_id
+  AND user_id = auth.uid();
+END;
+$$;
+
+-- Flag a conversation as unread without touching the read marker
+CREATE OR REPLACE FUNCTION public.set_conversation_marked_unread(p_conversation_id uuid, p_unread boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_conversation_participant(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  UPDATE public.conversation_participants
+  SET is_marked_unread = p_unread
+  WHERE conversation_id = p_conversation_id
+  AND user_id = auth.uid()
+  AND is_marked_unread IS DISTINCT FROM p_unread;
+END;
+$$;
+
+-- Reading a conversation also clears the manual unread flag
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(p_conversation_id uuid, p_message_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  read_at timestamptz;
+BEGIN
+  IF NOT public.is_conversation_participant(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  SELECT created_at INTO read_at
+  FROM public.messages
+  WHERE id = p_message_id
+  AND conversation_id = p_conversation_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found in this conversation';
+  END IF;
+
+  UPDATE public.conversation_participants
+  SET
+    last_read_message_id = p_message_id,
+    last_read_at = read_at
+  WHERE conversation_id = p_conversation_id
+  AND user_id = auth.uid()
+  AND (last_read_at IS NULL OR last_read_at < read_at);
+
+  UPDATE public.conversation_participants
+  SET is_marked_unread = false
+  WHERE conversation_id = p_conversation_id
+  AND user_id = auth.uid()
+  AND is_marked_unread = true;
+
+  -- Keep the legacy flag in sync for older clients
+  UPDATE public.messages
+  SET is_read = true
+  WHERE conversation_id = p_conversation_id
+  AND sender_id <> auth.uid()
+  AND is_read = false
+  AND created_at <= read_at;
+END;
+$$;
+
+-- New messages notify the other participants unless they muted the conversation.
+-- One unread "message" notification per sender is enough; later ones don't stack.
+CREATE OR REPLACE FUNCTION public.notify_message_recipients()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.message_type = 'system' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, from_user_id)
+  SELECT cp.user_id, 'message', NEW.sender_id
+  FROM public.conversation_participants cp
+  WHERE cp.conversation_id = NEW.conversation_id
+  AND cp.user_id <> NEW.sender_id
+  AND (cp.muted_until IS NULL OR cp.muted_until <= now())
+  AND NOT EXISTS (
+    SELECT 1 FROM public.notifications n
+    WHERE n.user_id = cp.user_id
+    AND n.type = 'message'
+    AND n.from_user_id = NEW.sender_id
+    AND COALESCE(n.is_read, false) = false
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_message_recipients
+AFTER INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_message_recipients();
+
+-- Indexes for performance
+CREATE INDEX idx_notifications_unread_message
+ON public.notifications(user_id, from_user_id)
+WHERE type = 'message' AND is_read = false;
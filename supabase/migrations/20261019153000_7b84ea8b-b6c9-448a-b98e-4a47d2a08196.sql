@@ -0,0 +1,350 @@
+-- Message requests: with message_privacy = 'requests', people you don't follow can still
+-- write, but the conversation waits in "Solicitações" until you accept it
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_message_privacy_check;
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_message_privacy_check
+CHECK (message_privacy IN ('everyone', 'followers', 'requests', 'nobody'));
+
+-- Set on the recipient's participation while the request is pending, with who it came from
+ALTER TABLE public.conversation_participants
+ADD COLUMN IF NOT EXISTS is_request boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS requested_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+-- 'requests' lets anyone write; whether it lands as a request is decided when the conversation starts
+CREATE OR REPLACE FUNCTION public.can_send_message(sender_id uuid, receiver_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  privacy_setting text;
+  is_follower boolean;
+BEGIN
+  -- Get receiver's message privacy setting
+  SELECT message_privacy INTO privacy_setting
+  FROM public.profiles
+  WHERE id = receiver_id;
+
+  -- Default to everyone if not set
+  IF privacy_setting IS NULL THEN
+    privacy_setting := 'everyone';
+  END IF;
+
+  -- Check based on privacy setting
+  CASE privacy_setting
+    WHEN 'nobody' THEN
+      RETURN FALSE;
+    WHEN 'followers' THEN
+      -- Check if sender follows receiver
+      SELECT EXISTS (
+        SELECT 1 FROM public.follows
+        WHERE follower_id = sender_id AND following_id = receiver_id
+      ) INTO is_follower;
+      RETURN is_follower;
+    ELSE
+      RETURN TRUE; -- 'everyone' and 'requests'
+  END CASE;
+END;
+$$;
+
+-- A conversation someone starts or adds you to waits as a request when you use
+-- 'requests' and don't follow them
+CREATE OR REPLACE FUNCTION public.is_message_request(_sender_id uuid, _receiver_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = _receiver_id
+    AND message_privacy = 'requests'
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.follows
+    WHERE follower_id = _receiver_id AND following_id = _sender_id
+  )
+$$;
+
+-- New 1:1 conversations respect the recipient's privacy and start as a request
+-- when they use 'requests' and don't follow the sender
+CREATE OR REPLACE FUNCTION public.create_conversation_with_participants(other_user_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_conv_id uuid;
+  existing_conv_id uuid;
+  current_user_id uuid;
+  starts_as_request boolean;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF current_user_id = other_user_id THEN
+    RAISE EXCEPTION 'Cannot create conversation with yourself';
+  END IF;
+
+  -- Check for existing conversation between these users
+  SELECT cp1.conversation_id INTO existing_conv_id
+  FROM conversation_participants cp1
+  INNER JOIN conversation_participants cp2 ON cp1.conversation_id = cp2.conversation_id
+  INNER JOIN conversations c ON c.id = cp1.conversation_id
+  WHERE cp1.user_id = current_user_id AND cp2.user_id = other_user_id
+  AND c.is_group = false
+  LIMIT 1;
+
+  IF existing_conv_id IS NOT NULL THEN
+    RETURN existing_conv_id;
+  END IF;
+
+  IF NOT public.can_send_message(current_user_id, other_user_id) THEN
+    RAISE EXCEPTION 'This user does not accept messages from you';
+  END IF;
+
+  starts_as_request := public.is_message_request(current_user_id, other_user_id);
+
+  -- Create new conversation
+  INSERT INTO conversations DEFAULT VALUES
+  RETURNING id INTO new_conv_id;
+
+  -- Add both participants
+  INSERT INTO conversation_participants (conversation_id, user_id, is_request, requested_by)
+  VALUES
+    (new_conv_id, current_user_id, false, NULL),
+    (new_conv_id, other_user_id, starts_as_request, CASE WHEN starts_as_request THEN current_user_id END);
+
+  RETURN new_conv_id;
+END;
+$$;
+
+-- Groups follow the same rule: members using 'requests' who don't follow whoever adds
+-- them see the group in their requests until they accept it
+CREATE OR REPLACE FUNCTION public.create_group_conversation(p_title text, p_member_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid;
+  new_conv_id uuid;
+  clean_title text;
+  member_id uuid;
+  member_ids uuid[];
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF public.is_user_suspended(current_user_id) THEN
+    RAISE EXCEPTION 'Account suspended';
+  END IF;
+
+  clean_title := NULLIF(btrim(p_title), '');
+  IF clean_title IS NULL OR length(clean_title) > 100 THEN
+    RAISE EXCEPTION 'Invalid group title';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT m), '{}') INTO member_ids
+  FROM unnest(p_member_ids) AS m
+  WHERE m IS NOT NULL AND m <> current_user_id;
+
+  IF cardinality(member_ids) = 0 THEN
+    RAISE EXCEPTION 'A group needs at least one other member';
+  END IF;
+
+  IF cardinality(member_ids) + 1 > 50 THEN
+    RAISE EXCEPTION 'Groups are limited to 50 members';
+  END IF;
+
+  FOREACH member_id IN ARRAY member_ids LOOP
+    IF NOT public.can_send_message(current_user_id, member_id) THEN
+      RAISE EXCEPTION 'User % does not accept messages from you', member_id;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.conversations (is_group, title, created_by)
+  VALUES (true, clean_title, current_user_id)
+  RETURNING id INTO new_conv_id;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id, role)
+  VALUES (new_conv_id, current_user_id, 'admin');
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id, role, is_request, requested_by)
+  SELECT new_conv_id, m, 'member', r.needs_request, CASE WHEN r.needs_request THEN current_user_id END
+  FROM unnest(member_ids) AS m,
+  LATERAL (SELECT public.is_message_request(current_user_id, m) AS needs_request) r;
+
+  PERFORM public.post_system_message(new_conv_id, current_user_id, 'group_created', NULL, jsonb_build_object('title', clean_title));
+
+  RETURN new_conv_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_group_members(p_conversation_id uuid, p_member_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid;
+  member_id uuid;
+  member_count integer;
+  added integer := 0;
+  needs_request boolean;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF NOT EXISTS (SELECT 1 FROM public.conversations WHERE id = p_conversation_id AND is_group = true) THEN
+    RAISE EXCEPTION 'Conversation is not a group';
+  END IF;
+
+  IF NOT public.is_conversation_admin(p_conversation_id, current_user_id) THEN
+    RAISE EXCEPTION 'Only group admins can add members';
+  END IF;
+
+  SELECT count(*) INTO member_count
+  FROM public.conversation_participants
+  WHERE conversation_id = p_conversation_id;
+
+  FOR member_id IN
+    SELECT DISTINCT m FROM unnest(p_member_ids) AS m
+    WHERE m IS NOT NULL
+    AND NOT public.is_conversation_participant(p_conversation_id, m)
+  LOOP
+    IF member_count + added >= 50 THEN
+      RAISE EXCEPTION 'Groups are limited to 50 members';
+    END IF;
+
+    IF NOT public.can_send_message(current_user_id, member_id) THEN
+      RAISE EXCEPTION 'User % does not accept messages from you', member_id;
+    END IF;
+
+    needs_request := public.is_message_request(current_user_id, member_id);
+
+    INSERT INTO public.conversation_participants (conversation_id, user_id, role, is_request, requested_by)
+    VALUES (p_conversation_id, member_id, 'member', needs_request, CASE WHEN needs_request THEN current_user_id END);
+
+    PERFORM public.post_system_message(p_conversation_id, current_user_id, 'member_added', member_id);
+    added := added + 1;
+  END LOOP;
+
+  RETURN added;
+END;
+$$;
+
+-- Accepting turns the request into a normal conversation
+CREATE OR REPLACE FUNCTION public.accept_message_request(p_conversation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversation_participants
+  SET is_request = false
+  WHERE conversation_id = p_conversation_id
+  AND user_id = auth.uid()
+  AND is_request = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending request for this conversation';
+  END IF;
+END;
+$$;
+
+-- Deleting drops the recipient out of the conversation; the sender isn't told
+CREATE OR REPLACE FUNCTION public.decline_message_request(p_conversation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = p_conversation_id
+    AND user_id = auth.uid()
+    AND is_request = true
+  ) THEN
+    RAISE EXCEPTION 'No pending request for this conversation';
+  END IF;
+
+  DELETE FROM public.conversation_participants
+  WHERE conversation_id = p_conversation_id
+  AND user_id = auth.uid();
+END;
+$$;
+
+-- Reading a pending request doesn't move the marker, so the sender can't tell it was seen
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(p_conversation_id uuid, p_message_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  read_at timestamptz;
+BEGIN
+  IF NOT public.is_conversation_participant(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = p_conversation_id
+    AND user_id = auth.uid()
+    AND is_request = true
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT created_at INTO read_at
+  FROM public.messages
+  WHERE id = p_message_id
+  AND conversation_id = p_conversation_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found in this conversation';
+  END IF;
+
+  UPDATE public.conversation_participants
+  SET
+    last_read_message_id = p_message_id,
+    last_read_at = read_at
+  WHERE conversation_id = p_conversation_id
+  AND user_id = auth.uid()
+  AND (last_read_at IS NULL OR last_read_at < read_at);
+
+  UPDATE public.conversation_participants
+  SET is_marked_unread = false
+  WHERE conversation_id = p_conversation_id
+  AND user_id = auth.uid()
+  AND is_marked_unread = true;
+
+  -- Keep the legacy flag in sync for older clients
+  UPDATE public.messages
+  SET is_read = true
+  WHERE conversation_id = p_conversation_id
+  AND sender_id <> auth.uid()
+  AND is_read = false
+  AND created_at <= read_at;
+END;
+$$;
+
+-- Indexes for performance
+CREATE INDEX idx_conversation_participants_requests
+ON public.conversation_participants(user_id)
+WHERE is_request = true;
@@ -0,0 +1,530 @@
+-- Blocking: a block in either direction hides profiles, posts and comments from each other
+-- and stops follows, direct messages, calls and comments between the two users
+
+-- Create blocks table
+CREATE TABLE public.blocks (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  blocker_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  blocked_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.blocks ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for blocks: only the blocker sees or changes their blocks
+CREATE POLICY "Users can view their blocks"
+ON public.blocks FOR SELECT
+USING (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can block others"
+ON public.blocks FOR INSERT
+WITH CHECK (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can unblock"
+ON public.blocks FOR DELETE
+USING (auth.uid() = blocker_id);
+
+-- blocks RLS only shows the blocker's rows, so policies go through this
+CREATE OR REPLACE FUNCTION public.is_blocked(_user_a uuid, _user_b uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.blocks
+    WHERE (blocker_id = _user_a AND blocked_id = _user_b)
+    OR (blocker_id = _user_b AND blocked_id = _user_a)
+  )
+$$;
+
+-- A 1:1 conversation where either side blocked the other; groups are never blocked as a whole
+CREATE OR REPLACE FUNCTION public.is_conversation_blocked(_conversation_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.conversations c
+    JOIN public.conversation_participants cp ON cp.conversation_id = c.id
+    WHERE c.id = _conversation_id
+    AND c.is_group = false
+    AND cp.user_id <> _user_id
+    AND public.is_blocked(cp.user_id, _user_id)
+  )
+$$;
+
+-- Profiles
+DROP POLICY IF EXISTS "Anyone can view profiles" ON public.profiles;
+CREATE POLICY "Anyone can view profiles" ON public.profiles
+FOR SELECT USING (
+  NOT public.is_blocked(id, auth.uid()) OR public.can_moderate(auth.uid())
+);
+
+-- Posts
+DROP POLICY IF EXISTS "Anyone can view posts" ON public.posts;
+CREATE POLICY "Anyone can view posts" ON public.posts
+FOR SELECT USING (
+  (is_hidden = false OR auth.uid() = creator_id OR public.can_moderate(auth.uid()))
+  AND (NOT public.is_blocked(creator_id, auth.uid()) OR public.can_moderate(auth.uid()))
+);
+
+-- Comments: hidden both ways, and no commenting on posts of someone you're blocked with
+DROP POLICY IF EXISTS "Anyone can view comments" ON public.comments;
+CREATE POLICY "Anyone can view comments" ON public.comments
+FOR SELECT USING (
+  (is_hidden = false OR auth.uid() = user_id OR public.can_moderate(auth.uid()))
+  AND (NOT public.is_blocked(user_id, auth.uid()) OR public.can_moderate(auth.uid()))
+);
+
+DROP POLICY IF EXISTS "Users can create comments" ON public.comments;
+CREATE POLICY "Users can create comments" ON public.comments
+FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND NOT public.is_user_suspended(auth.uid())
+  AND NOT EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id
+    AND public.is_blocked(p.creator_id, auth.uid())
+  )
+);
+
+-- Follows
+DROP POLICY IF EXISTS "Users can follow" ON public.follows;
+CREATE POLICY "Users can follow" ON public.follows
+FOR INSERT WITH CHECK (
+  auth.uid() = follower_id
+  AND NOT public.is_blocked(following_id, auth.uid())
+);
+
+-- Messages: nothing goes through a blocked 1:1 conversation
+DROP POLICY IF EXISTS "Users can send messages" ON public.messages;
+CREATE POLICY "Users can send messages" ON public.messages
+FOR INSERT WITH CHECK (
+  auth.uid() = sender_id
+  AND NOT public.is_user_suspended(auth.uid())
+  AND public.is_conversation_participant(conversation_id, auth.uid())
+  AND NOT public.is_conversation_blocked(conversation_id, auth.uid())
+  AND message_type = 'text'
+);
+
+-- The definer functions that insert messages skip the policy above, so they check for blocks too
+CREATE OR REPLACE FUNCTION public.send_message_with_attachments(
+  p_conversation_id uuid,
+  p_content text,
+  p_attachments jsonb,
+  p_reply_to_message_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_message_id uuid;
+  path_prefix text := p_conversation_id::text || '/' || auth.uid()::text || '/';
+BEGIN
+  IF auth.uid() IS NULL OR public.is_user_suspended(auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to send messages';
+  END IF;
+
+  IF NOT public.is_conversation_participant(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  IF public.is_conversation_blocked(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to send messages';
+  END IF;
+
+  IF jsonb_typeof(p_attachments) <> 'array'
+    OR jsonb_array_length(p_attachments) NOT BETWEEN 1 AND 10 THEN
+    RAISE EXCEPTION 'A message takes between 1 and 10 attachments';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_attachments) a
+    WHERE left(a->>'storage_path', length(path_prefix)) <> path_prefix
+    OR (a->>'thumbnail_path' IS NOT NULL AND left(a->>'thumbnail_path', length(path_prefix)) <> path_prefix)
+  ) THEN
+    RAISE EXCEPTION 'Attachments must be uploaded to your folder in this conversation';
+  END IF;
+
+  INSERT INTO public.messages (conversation_id, sender_id, content, reply_to_message_id)
+  VALUES (p_conversation_id, auth.uid(), NULLIF(btrim(p_content), ''), p_reply_to_message_id)
+  RETURNING id INTO new_message_id;
+
+  INSERT INTO public.message_attachments (
+    message_id, conversation_id, uploader_id, kind, storage_path, thumbnail_path,
+    file_name, mime_type, size_bytes, width, height, duration_seconds, position
+  )
+  SELECT
+    new_message_id, p_conversation_id, auth.uid(), a.kind, a.storage_path, a.thumbnail_path,
+    a.file_name, a.mime_type, a.size_bytes, a.width, a.height, a.duration_seconds, (a.ord - 1)::smallint
+  FROM jsonb_to_recordset(p_attachments) WITH ORDINALITY AS a(
+    kind text, storage_path text, thumbnail_path text, file_name text, mime_type text,
+    size_bytes bigint, width integer, height integer, duration_seconds integer, ord bigint
+  );
+
+  UPDATE public.conversations
+  SET updated_at = now()
+  WHERE id = p_conversation_id;
+
+  RETURN new_message_id;
+END;
+$$;
+
+-- Nothing new can be scheduled into a blocked conversation
+CREATE OR REPLACE FUNCTION public.validate_scheduled_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.conversation_id IS DISTINCT FROM OLD.conversation_id THEN
+    RAISE EXCEPTION 'Scheduled messages cannot move to another conversation';
+  END IF;
+
+  IF TG_OP = 'INSERT' AND public.is_conversation_blocked(NEW.conversation_id, NEW.sender_id) THEN
+    RAISE EXCEPTION 'Not allowed to send messages';
+  END IF;
+
+  IF NEW.reply_to_message_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.messages
+    WHERE id = NEW.reply_to_message_id
+    AND conversation_id = NEW.conversation_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must quote a message from the same conversation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Scheduled messages into a blocked conversation fail instead of staying pending
+CREATE OR REPLACE FUNCTION public.release_scheduled_messages(p_limit integer DEFAULT 200)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  due record;
+  new_message_id uuid;
+  released integer := 0;
+BEGIN
+  FOR due IN
+    SELECT *
+    FROM public.scheduled_messages
+    WHERE status = 'pending'
+    AND scheduled_for <= now()
+    ORDER BY scheduled_for, created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    -- The author may have left the conversation, been suspended or blocked since scheduling
+    IF public.is_user_suspended(due.sender_id)
+      OR NOT public.is_conversation_participant(due.conversation_id, due.sender_id)
+      OR public.is_conversation_blocked(due.conversation_id, due.sender_id) THEN
+      UPDATE public.scheduled_messages
+      SET status = 'failed', failure_reason = 'Not allowed to send messages'
+      WHERE id = due.id;
+      CONTINUE;
+    END IF;
+
+    -- A row that cannot be delivered fails on its own instead of holding up the batch
+    BEGIN
+      INSERT INTO public.messages (conversation_id, sender_id, content, reply_to_message_id)
+      VALUES (due.conversation_id, due.sender_id, btrim(due.content), due.reply_to_message_id)
+      RETURNING id INTO new_message_id;
+
+      UPDATE public.scheduled_messages
+      SET status = 'sent', sent_message_id = new_message_id
+      WHERE id = due.id;
+
+      UPDATE public.conversations
+      SET updated_at = now()
+      WHERE id = due.conversation_id;
+
+      released := released + 1;
+    EXCEPTION WHEN others THEN
+      UPDATE public.scheduled_messages
+      SET status = 'failed', failure_reason = SQLERRM
+      WHERE id = due.id;
+    END;
+  END LOOP;
+
+  RETURN released;
+END;
+$$;
+
+-- Blocking drops follows both ways and keeps the counters in line
+CREATE OR REPLACE FUNCTION public.handle_new_block()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  removed record;
+BEGIN
+  FOR removed IN
+    DELETE FROM public.follows
+    WHERE (follower_id = NEW.blocker_id AND following_id = NEW.blocked_id)
+    OR (follower_id = NEW.blocked_id AND following_id = NEW.blocker_id)
+    RETURNING follower_id, following_id
+  LOOP
+    UPDATE public.profiles
+    SET following_count = GREATEST(COALESCE(following_count, 0) - 1, 0)
+    WHERE id = removed.follower_id;
+
+    UPDATE public.profiles
+    SET followers_count = GREATEST(COALESCE(followers_count, 0) - 1, 0)
+    WHERE id = removed.following_id;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_block_created
+AFTER INSERT ON public.blocks
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_new_block();
+
+-- Messaging is off in both directions once either side blocks
+CREATE OR REPLACE FUNCTION public.can_send_message(sender_id uuid, receiver_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  privacy_setting text;
+  is_follower boolean;
+BEGIN
+  IF public.is_blocked(sender_id, receiver_id) THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Get receiver's message privacy setting
+  SELECT message_privacy INTO privacy_setting
+  FROM public.profiles
+  WHERE id = receiver_id;
+
+  -- Default to everyone if not set
+  IF privacy_setting IS NULL THEN
+    privacy_setting := 'everyone';
+  END IF;
+
+  -- Check based on privacy setting
+  CASE privacy_setting
+    WHEN 'nobody' THEN
+      RETURN FALSE;
+    WHEN 'followers' THEN
+      -- Check if sender follows receiver
+      SELECT EXISTS (
+        SELECT 1 FROM public.follows
+        WHERE follower_id = sender_id AND following_id = receiver_id
+      ) INTO is_follower;
+      RETURN is_follower;
+    ELSE
+      RETURN TRUE; -- 'everyone' and 'requests'
+  END CASE;
+END;
+$$;
+
+-- Declining a message request can also block whoever sent it, so they can't start a new one
+DROP FUNCTION IF EXISTS public.decline_message_request(uuid);
+
+CREATE OR REPLACE FUNCTION public.decline_message_request(p_conversation_id uuid, p_block boolean DEFAULT false)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  requester_id uuid;
+BEGIN
+  SELECT requested_by INTO requester_id
+  FROM public.conversation_participants
+  WHERE conversation_id = p_conversation_id
+  AND user_id = auth.uid()
+  AND is_request = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending request for this conversation';
+  END IF;
+
+  IF p_block AND requester_id IS NOT NULL THEN
+    INSERT INTO public.blocks (blocker_id, blocked_id)
+    VALUES (auth.uid(), requester_id)
+    ON CONFLICT (blocker_id, blocked_id) DO NOTHING;
+  END IF;
+
+  DELETE FROM public.conversation_participants
+  WHERE conversation_id = p_conversation_id
+  AND user_id = auth.uid();
+END;
+$$;
+
+-- 1:1 calls fail when blocked; group calls just don't ring members blocked with the caller
+CREATE OR REPLACE FUNCTION public.start_call(p_conversation_id uuid, p_call_type text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid;
+  conv_is_group boolean;
+  other_user_id uuid;
+  new_call_id uuid;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF NOT public.is_conversation_participant(p_conversation_id, current_user_id) THEN
+    RAISE EXCEPTION 'Not a member of this conversation';
+  END IF;
+
+  IF public.is_conversation_blocked(p_conversation_id, current_user_id) THEN
+    RAISE EXCEPTION 'This user is blocked';
+  END IF;
+
+  SELECT is_group INTO conv_is_group
+  FROM public.conversations
+  WHERE id = p_conversation_id;
+
+  -- A group has at most one live call; calling again joins it
+  IF conv_is_group THEN
+    SELECT id INTO new_call_id
+    FROM public.call_sessions
+    WHERE conversation_id = p_conversation_id
+    AND is_group = true
+    AND status IN ('ringing', 'connected')
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF new_call_id IS NOT NULL THEN
+      INSERT INTO public.call_participants (call_id, user_id, status)
+      VALUES (new_call_id, current_user_id, 'invited')
+      ON CONFLICT (call_id, user_id) DO NOTHING;
+
+      RETURN new_call_id;
+    END IF;
+  ELSE
+    SELECT user_id INTO other_user_id
+    FROM public.conversation_participants
+    WHERE conversation_id = p_conversation_id AND user_id <> current_user_id
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO public.call_sessions (conversation_id, caller_id, callee_id, call_type, status, is_group)
+  VALUES (p_conversation_id, current_user_id, other_user_id, p_call_type, 'ringing', conv_is_group)
+  RETURNING id INTO new_call_id;
+
+  INSERT INTO public.call_participants (call_id, user_id, status, joined_at)
+  VALUES (new_call_id, current_user_id, 'joined', now());
+
+  INSERT INTO public.call_participants (call_id, user_id, status)
+  SELECT new_call_id, user_id, 'invited'
+  FROM public.conversation_participants
+  WHERE conversation_id = p_conversation_id
+  AND user_id <> current_user_id
+  AND NOT public.is_blocked(user_id, current_user_id);
+
+  RETURN new_call_id;
+END;
+$$;
+
+-- The feed runs as definer, so it filters blocks itself
+CREATE OR REPLACE FUNCTION public.get_ranked_feed(p_user_id uuid DEFAULT NULL::uuid, p_limit integer DEFAULT 20, p_offset integer DEFAULT 0)
+ RETURNS TABLE(id uuid, creator_id uuid, content_url text, content_type content_type, description text, tags text[], likes_count integer, comments_count integer, shares_count integer, saves_count integer, engagement_score numeric, created_at timestamp with time zone, creator_username text, creator_display_name text, creator_avatar_url text, creator_is_verified boolean, creator_verification_type verification_type, rank_score numeric)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.creator_id,
+    p.content_url,
+    p.content_type,
+    p.description,
+    p.tags,
+    p.likes_count,
+    p.comments_count,
+    p.shares_count,
+    p.saves_count,
+    p.engagement_score,
+    p.created_at,
+    pr.username AS creator_username,
+    pr.display_name AS creator_display_name,
+    pr.avatar_url AS creator_avatar_url,
+    pr.is_verified AS creator_is_verified,
+    pr.verification_type AS creator_verification_type,
+    (
+      (p.likes_count * 2 + p.comments_count * 5 + p.shares_count * 10 + p.saves_count * 15) /
+      POWER(EXTRACT(EPOCH FROM (NOW() - p.created_at)) / 3600 + 2, 1.5)
+    ) * (CASE WHEN pr.is_verified THEN 1.5 ELSE 1.0 END)
+      * (CASE WHEN EXISTS (
+          SELECT 1 FROM public.feed_feedback ff
+          WHERE ff.user_id = p_user_id
+          AND ff.feedback_type = 'tag'
+          AND lower(ff.tag) IN (SELECT lower(t) FROM unnest(p.tags) AS t)
+        ) THEN 0.2 ELSE 1.0 END) AS rank_score
+  FROM public.posts p
+  JOIN public.profiles pr ON p.creator_id = pr.id
+  WHERE (p.is_private = false OR p.creator_id = p_user_id)
+  AND p.is_hidden = false
+  AND NOT public.is_blocked(p.creator_id, auth.uid())
+  AND NOT EXISTS (
+    SELECT 1 FROM public.feed_feedback ff
+    WHERE ff.user_id = p_user_id
+    AND (
+      (ff.feedback_type = 'post' AND ff.post_id = p.id) OR
+      (ff.feedback_type = 'creator' AND ff.creator_id = p.creator_id)
+    )
+  )
+  ORDER BY rank_score DESC, p.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$function$;
+
+-- The caller's blocked accounts; their profiles are hidden by the policy above
+CREATE OR REPLACE FUNCTION public.get_blocked_users()
+RETURNS TABLE (
+  id uuid,
+  username text,
+  display_name text,
+  avatar_url text,
+  blocked_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.username, p.display_name, p.avatar_url, b.created_at
+  FROM public.blocks b
+  JOIN public.profiles p ON p.id = b.blocked_id
+  WHERE b.blocker_id = auth.uid()
+  ORDER BY b.created_at DESC;
+$$;
+
+-- Indexes for performance
+CREATE INDEX idx_blocks_blocked_id ON public.blocks(blocked_id);
@@ -0,0 +1,368 @@
+-- Private accounts: new followers wait for approval and only accepted followers see the posts
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS is_private boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.follows
+ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'accepted'
+CHECK (status IN ('pending', 'accepted'));
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+ADD CONSTRAINT notifications_type_check
+CHECK (type IN ('like', 'comment', 'follow', 'follow_request', 'follow_accepted', 'mention', 'message'));
+
+-- The server decides whether a follow needs approval
+CREATE OR REPLACE FUNCTION public.set_follow_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.status := CASE
+    WHEN EXISTS (SELECT 1 FROM public.profiles WHERE id = NEW.following_id AND is_private = true)
+      THEN 'pending'
+    ELSE 'accepted'
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_follow_status
+BEFORE INSERT ON public.follows
+FOR EACH ROW
+EXECUTE FUNCTION public.set_follow_status();
+
+-- Follower counters only count accepted follows and are kept here, whatever path
+-- creates, approves or removes the follow
+CREATE OR REPLACE FUNCTION public.update_follow_counts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  delta integer;
+  follow_row public.follows%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    follow_row := OLD;
+    delta := CASE WHEN OLD.status = 'accepted' THEN -1 ELSE 0 END;
+  ELSIF TG_OP = 'INSERT' THEN
+    follow_row := NEW;
+    delta := CASE WHEN NEW.status = 'accepted' THEN 1 ELSE 0 END;
+  ELSE
+    follow_row := NEW;
+    delta := (CASE WHEN NEW.status = 'accepted' THEN 1 ELSE 0 END)
+      - (CASE WHEN OLD.status = 'accepted' THEN 1 ELSE 0 END);
+  END IF;
+
+  IF delta <> 0 THEN
+    UPDATE public.profiles
+    SET following_count = GREATEST(COALESCE(following_count, 0) + delta, 0)
+    WHERE id = follow_row.follower_id;
+
+    UPDATE public.profiles
+    SET followers_count = GREATEST(COALESCE(followers_count, 0) + delta, 0)
+    WHERE id = follow_row.following_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_follow_counts
+AFTER INSERT OR UPDATE OF status OR DELETE ON public.follows
+FOR EACH ROW
+EXECUTE FUNCTION public.update_follow_counts();
+
+-- Counts were written by the client until now and drifted
+UPDATE public.profiles p
+SET
+  followers_count = (SELECT count(*) FROM public.follows f WHERE f.following_id = p.id AND f.status = 'accepted'),
+  following_count = (SELECT count(*) FROM public.follows f WHERE f.follower_id = p.id AND f.status = 'accepted');
+
+-- Accepted follower (or the owner) of a private account
+CREATE OR REPLACE FUNCTION public.can_view_posts_of(_owner_id uuid, _viewer_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _owner_id = _viewer_id
+    OR NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = _owner_id AND is_private = true)
+    OR EXISTS (
+      SELECT 1 FROM public.follows
+      WHERE follower_id = _viewer_id
+      AND following_id = _owner_id
+      AND status = 'accepted'
+    )
+$$;
+
+-- Pending requests are only visible to the two people involved
+DROP POLICY IF EXISTS "Anyone can view follows" ON public.follows;
+CREATE POLICY "Anyone can view follows" ON public.follows
+FOR SELECT USING (
+  status = 'accepted' OR auth.uid() = follower_id OR auth.uid() = following_id
+);
+
+-- Posts
+DROP POLICY IF EXISTS "Anyone can view posts" ON public.posts;
+CREATE POLICY "Anyone can view posts" ON public.posts
+FOR SELECT USING (
+  (is_hidden = false OR auth.uid() = creator_id OR public.can_moderate(auth.uid()))
+  AND (NOT public.is_blocked(creator_id, auth.uid()) OR public.can_moderate(auth.uid()))
+  AND (public.can_view_posts_of(creator_id, auth.uid()) OR public.can_moderate(auth.uid()))
+);
+
+-- Comments on a private account's posts are only for those who can see the posts
+DROP POLICY IF EXISTS "Anyone can view comments" ON public.comments;
+CREATE POLICY "Anyone can view comments" ON public.comments
+FOR SELECT USING (
+  (is_hidden = false OR auth.uid() = user_id OR public.can_moderate(auth.uid()))
+  AND (NOT public.is_blocked(user_id, auth.uid()) OR public.can_moderate(auth.uid()))
+  AND (
+    public.can_view_posts_of((SELECT p.creator_id FROM public.posts p WHERE p.id = post_id), auth.uid())
+    OR public.can_moderate(auth.uid())
+  )
+);
+
+DROP POLICY IF EXISTS "Users can create comments" ON public.comments;
+CREATE POLICY "Users can create comments" ON public.comments
+FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND NOT public.is_user_suspended(auth.uid())
+  AND NOT EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id
+    AND public.is_blocked(p.creator_id, auth.uid())
+  )
+  AND (
+    public.can_view_posts_of((SELECT p.creator_id FROM public.posts p WHERE p.id = post_id), auth.uid())
+    OR public.can_moderate(auth.uid())
+  )
+);
+
+-- Approve or deny a pending request to follow the caller
+CREATE OR REPLACE FUNCTION public.respond_to_follow_request(p_follower_id uuid, p_approve boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.follows
+    WHERE follower_id = p_follower_id
+    AND following_id = current_user_id
+    AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'No pending follow request';
+  END IF;
+
+  IF p_approve THEN
+    UPDATE public.follows
+    SET status = 'accepted'
+    WHERE follower_id = p_follower_id
+    AND following_id = current_user_id;
+
+    -- The request becomes a regular follow in our list, and the follower hears back
+    UPDATE public.notifications
+    SET type = 'follow', is_read = true
+    WHERE user_id = current_user_id
+    AND from_user_id = p_follower_id
+    AND type = 'follow_request';
+
+    INSERT INTO public.notifications (user_id, type, from_user_id)
+    VALUES (p_follower_id, 'follow_accepted', current_user_id);
+  ELSE
+    DELETE FROM public.follows
+    WHERE follower_id = p_follower_id
+    AND following_id = current_user_id;
+
+    DELETE FROM public.notifications
+    WHERE user_id = current_user_id
+    AND from_user_id = p_follower_id
+    AND type = 'follow_request';
+  END IF;
+END;
+$$;
+
+-- Going public accepts everyone who was waiting. Runs after the update because accepting
+-- bumps this profile's followers_count through update_follow_counts
+CREATE OR REPLACE FUNCTION public.accept_pending_follows_on_public()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.is_private = true AND NEW.is_private = false THEN
+    UPDATE public.follows
+    SET status = 'accepted'
+    WHERE following_id = NEW.id
+    AND status = 'pending';
+
+    UPDATE public.notifications
+    SET type = 'follow'
+    WHERE user_id = NEW.id
+    AND type = 'follow_request';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER accept_pending_follows_on_public
+AFTER UPDATE OF is_private ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.accept_pending_follows_on_public();
+
+-- update_follow_counts takes the removed follows off the counters
+CREATE OR REPLACE FUNCTION public.handle_new_block()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.follows
+  WHERE (follower_id = NEW.blocker_id AND following_id = NEW.blocked_id)
+  OR (follower_id = NEW.blocked_id AND following_id = NEW.blocker_id);
+
+  RETURN NEW;
+END;
+$$;
+
+-- A pending request doesn't make you a follower for message privacy either
+CREATE OR REPLACE FUNCTION public.can_send_message(sender_id uuid, receiver_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  privacy_setting text;
+  is_follower boolean;
+BEGIN
+  IF public.is_blocked(sender_id, receiver_id) THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Get receiver's message privacy setting
+  SELECT message_privacy INTO privacy_setting
+  FROM public.profiles
+  WHERE id = receiver_id;
+
+  -- Default to everyone if not set
+  IF privacy_setting IS NULL THEN
+    privacy_setting := 'everyone';
+  END IF;
+
+  -- Check based on privacy setting
+  CASE privacy_setting
+    WHEN 'nobody' THEN
+      RETURN FALSE;
+    WHEN 'followers' THEN
+      -- Check if sender follows receiver
+      SELECT EXISTS (
+        SELECT 1 FROM public.follows
+        WHERE follower_id = sender_id AND following_id = receiver_id
+        AND status = 'accepted'
+      ) INTO is_follower;
+      RETURN is_follower;
+    ELSE
+      RETURN TRUE; -- 'everyone' and 'requests'
+  END CASE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_message_request(_sender_id uuid, _receiver_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = _receiver_id
+    AND message_privacy = 'requests'
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.follows
+    WHERE follower_id = _receiver_id AND following_id = _sender_id
+    AND status = 'accepted'
+  )
+$$;
+
+-- Private accounts' posts only reach their accepted followers
+CREATE OR REPLACE FUNCTION public.get_ranked_feed(p_user_id uuid DEFAULT NULL::uuid, p_limit integer DEFAULT 20, p_offset integer DEFAULT 0)
+ RETURNS TABLE(id uuid, creator_id uuid, content_url text, content_type content_type, description text, tags text[], likes_count integer, comments_count integer, shares_count integer, saves_count integer, engagement_score numeric, created_at timestamp with time zone, creator_username text, creator_display_name text, creator_avatar_url text, creator_is_verified boolean, creator_verification_type verification_type, rank_score numeric)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.creator_id,
+    p.content_url,
+    p.content_type,
+    p.description,
+    p.tags,
+    p.likes_count,
+    p.comments_count,
+    p.shares_count,
+    p.saves_count,
+    p.engagement_score,
+    p.created_at,
+    pr.username AS creator_username,
+    pr.display_name AS creator_display_name,
+    pr.avatar_url AS creator_avatar_url,
+    pr.is_verified AS creator_is_verified,
+    pr.verification_type AS creator_verification_type,
+    (
+      (p.likes_count * 2 + p.comments_count * 5 + p.shares_count * 10 + p.saves_count * 15) /
+      POWER(EXTRACT(EPOCH FROM (NOW() - p.created_at)) / 3600 + 2, 1.5)
+    ) * (CASE WHEN pr.is_verified THEN 1.5 ELSE 1.0 END)
+      * (CASE WHEN EXISTS (
+          SELECT 1 FROM public.feed_feedback ff
+          WHERE ff.user_id = p_user_id
+          AND ff.feedback_type = 'tag'
+          AND lower(ff.tag) IN (SELECT lower(t) FROM unnest(p.tags) AS t)
+        ) THEN 0.2 ELSE 1.0 END) AS rank_score
+  FROM public.posts p
+  JOIN public.profiles pr ON p.creator_id = pr.id
+  WHERE (p.is_private = false OR p.creator_id = p_user_id)
+  AND p.is_hidden = false
+  AND NOT public.is_blocked(p.creator_id, auth.uid())
+  AND public.can_view_posts_of(p.creator_id, auth.uid())
+  AND NOT EXISTS (
+    SELECT 1 FROM public.feed_feedback ff
+    WHERE ff.user_id = p_user_id
+    AND (
+      (ff.feedback_type = 'post' AND ff.post_id = p.id) OR
+      (ff.feedback_type = 'creator' AND ff.creator_id = p.creator_id)
+    )
+  )
+  ORDER BY rank_score DESC, p.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$function$;
+
+-- Indexes for performance
+CREATE INDEX idx_follows_pending ON public.follows(following_id) WHERE status = 'pending';
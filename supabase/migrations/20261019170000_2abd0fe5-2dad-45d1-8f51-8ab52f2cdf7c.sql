@@ -0,0 +1,230 @@
+-- @mentions: the text keeps "@handle" as typed, and each row stores which users those
+-- handles pointed to when it was written, so links still resolve after a username change
+ALTER TABLE public.posts
+ADD COLUMN IF NOT EXISTS mentions jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.comments
+ADD COLUMN IF NOT EXISTS mentions jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS mentions jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- [{ "user_id": ..., "handle": ... }] for every @handle that matches a profile, at most 20
+CREATE OR REPLACE FUNCTION public.extract_mentions(_text text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object('user_id', p.id, 'handle', h.handle)),
+    '[]'::jsonb
+  )
+  FROM (
+    SELECT DISTINCT lower(match[1]) AS handle
+    FROM regexp_matches(COALESCE(_text, ''), '(?:^|[^a-zA-Z0-9_])@([a-zA-Z0-9_]+)', 'g') AS match
+    LIMIT 20
+  ) h
+  JOIN public.profiles p ON lower(p.username) = h.handle
+$$;
+
+-- Mentions are always derived from the text column named in TG_ARGV[0]; clients can't set them
+CREATE OR REPLACE FUNCTION public.set_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  text_column text := TG_ARGV[0];
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (to_jsonb(NEW) -> text_column) IS NOT DISTINCT FROM (to_jsonb(OLD) -> text_column) THEN
+    NEW.mentions := OLD.mentions;
+  ELSE
+    NEW.mentions := public.extract_mentions(to_jsonb(NEW) ->> text_column);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_post_mentions
+BEFORE INSERT OR UPDATE ON public.posts
+FOR EACH ROW
+EXECUTE FUNCTION public.set_mentions('description');
+
+CREATE TRIGGER set_comment_mentions
+BEFORE INSERT OR UPDATE ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.set_mentions('content');
+
+CREATE TRIGGER set_message_mentions
+BEFORE INSERT OR UPDATE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.set_mentions('content');
+
+-- Newly mentioned users on this row; edits only notify the handles they add
+CREATE OR REPLACE FUNCTION public.new_mentions(_old jsonb, _new jsonb)
+RETURNS SETOF uuid
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT DISTINCT (m ->> 'user_id')::uuid
+  FROM jsonb_array_elements(COALESCE(_new, '[]'::jsonb)) AS m
+  WHERE NOT COALESCE(_old, '[]'::jsonb) @> jsonb_build_array(jsonb_build_object('user_id', m ->> 'user_id'))
+$$;
+
+-- Posts: only people who can see the post hear about it
+CREATE OR REPLACE FUNCTION public.notify_post_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_hidden THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, from_user_id, post_id)
+  SELECT mentioned_id, 'mention', NEW.creator_id, NEW.id
+  FROM public.new_mentions(CASE WHEN TG_OP = 'UPDATE' THEN OLD.mentions END, NEW.mentions) AS mentioned_id
+  WHERE mentioned_id <> NEW.creator_id
+  AND NOT public.is_blocked(mentioned_id, NEW.creator_id)
+  AND public.can_view_posts_of(NEW.creator_id, mentioned_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_post_mentions
+AFTER INSERT OR UPDATE ON public.posts
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_post_mentions();
+
+-- Comments: same, checked against the post's creator as well as the commenter
+CREATE OR REPLACE FUNCTION public.notify_comment_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  post_creator_id uuid;
+BEGIN
+  IF NEW.is_hidden THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT creator_id INTO post_creator_id
+  FROM public.posts
+  WHERE id = NEW.post_id;
+
+  INSERT INTO public.notifications (user_id, type, from_user_id, post_id, comment_id)
+  SELECT mentioned_id, 'mention', NEW.user_id, NEW.post_id, NEW.id
+  FROM public.new_mentions(CASE WHEN TG_OP = 'UPDATE' THEN OLD.mentions END, NEW.mentions) AS mentioned_id
+  WHERE mentioned_id <> NEW.user_id
+  AND NOT public.is_blocked(mentioned_id, NEW.user_id)
+  AND NOT public.is_blocked(mentioned_id, post_creator_id)
+  AND public.can_view_posts_of(post_creator_id, mentioned_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_comment_mentions
+AFTER INSERT OR UPDATE ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_comment_mentions();
+
+-- Messages: only members of the conversation, and mentions ring through a mute
+CREATE OR REPLACE FUNCTION public.notify_message_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.message_type = 'system' OR NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, from_user_id)
+  SELECT mentioned_id, 'mention', NEW.sender_id
+  FROM public.new_mentions(CASE WHEN TG_OP = 'UPDATE' THEN OLD.mentions END, NEW.mentions) AS mentioned_id
+  WHERE mentioned_id <> NEW.sender_id
+  AND public.is_conversation_participant(NEW.conversation_id, mentioned_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_message_mentions
+AFTER INSERT OR UPDATE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_message_mentions();
+
+-- The feed returns mentions too, which changes its row type
+DROP FUNCTION IF EXISTS public.get_ranked_feed(uuid, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.get_ranked_feed(p_user_id uuid DEFAULT NULL::uuid, p_limit integer DEFAULT 20, p_offset integer DEFAULT 0)
+ RETURNS TABLE(id uuid, creator_id uuid, content_url text, content_type content_type, description text, mentions jsonb, tags text[], likes_count integer, comments_count integer, shares_count integer, saves_count integer, engagement_score numeric, created_at timestamp with time zone, creator_username text, creator_display_name text, creator_avatar_url text, creator_is_verified boolean, creator_verification_type verification_type, rank_score numeric)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.creator_id,
+    p.content_url,
+    p.content_type,
+    p.description,
+    p.mentions,
+    p.tags,
+    p.likes_count,
+    p.comments_count,
+    p.shares_count,
+    p.saves_count,
+    p.engagement_score,
+    p.created_at,
+    pr.username AS creator_username,
+    pr.display_name AS creator_display_name,
+    pr.avatar_url AS creator_avatar_url,
+    pr.is_verified AS creator_is_verified,
+    pr.verification_type AS creator_verification_type,
+    (
+      (p.likes_count * 2 + p.comments_count * 5 + p.shares_count * 10 + p.saves_count * 15) /
+      POWER(EXTRACT(EPOCH FROM (NOW() - p.created_at)) / 3600 + 2, 1.5)
+    ) * (CASE WHEN pr.is_verified THEN 1.5 ELSE 1.0 END)
+      * (CASE WHEN EXISTS (
+          SELECT 1 FROM public.feed_feedback ff
+          WHERE ff.user_id = p_user_id
+          AND ff.feedback_type = 'tag'
+          AND lower(ff.tag) IN (SELECT lower(t) FROM unnest(p.tags) AS t)
+        ) THEN 0.2 ELSE 1.0 END) AS rank_score
+  FROM public.posts p
+  JOIN public.profiles pr ON p.creator_id = pr.id
+  WHERE (p.is_private = false OR p.creator_id = p_user_id)
+  AND p.is_hidden = false
+  AND NOT public.is_blocked(p.creator_id, auth.uid())
+  AND public.can_view_posts_of(p.creator_id, auth.uid())
+  AND NOT EXISTS (
+    SELECT 1 FROM public.feed_feedback ff
+    WHERE ff.user_id = p_user_id
+    AND (
+      (ff.feedback_type = 'post' AND ff.post_id = p.id) OR
+      (ff.feedback_type = 'creator' AND ff.creator_id = p.creator_id)
+    )
+  )
+  ORDER BY rank_score DESC, p.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$function$;
+
+-- Indexes for performance
+CREATE INDEX idx_profiles_username_lower ON public.profiles(lower(username));
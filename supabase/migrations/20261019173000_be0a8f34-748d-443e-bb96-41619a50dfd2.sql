@@ -0,0 +1,124 @@
+-- Hashtags: posts.tags holds the lowercased #tags parsed from the description at post time
+
+-- Older posts may carry tags with capitals or a leading "#"; store them the way the client
+-- now does, so the tag filter below and trending counts match them
+UPDATE public.posts p
+SET tags = (
+  SELECT COALESCE(array_agg(n.tag ORDER BY n.first_pos), '{}')
+  FROM (
+    SELECT lower(ltrim(btrim(u.raw), '#')) AS tag, min(u.pos) AS first_pos
+    FROM unnest(p.tags) WITH ORDINALITY AS u(raw, pos)
+    WHERE length(ltrim(btrim(u.raw), '#')) > 0
+    GROUP BY 1
+  ) n
+)
+WHERE EXISTS (
+  SELECT 1 FROM unnest(p.tags) AS u(raw)
+  WHERE u.raw IS DISTINCT FROM lower(ltrim(btrim(u.raw), '#'))
+);
+
+-- Tag pages reuse the feed ranking, filtered to a single tag
+DROP FUNCTION IF EXISTS public.get_ranked_feed(uuid, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.get_ranked_feed(p_user_id uuid DEFAULT NULL::uuid, p_limit integer DEFAULT 20, p_offset integer DEFAULT 0, p_tag text DEFAULT NULL::text)
+ RETURNS TABLE(id uuid, creator_id uuid, content_url text, content_type content_type, description text, mentions jsonb, tags text[], likes_count integer, comments_count integer, shares_count integer, saves_count integer, engagement_score numeric, created_at timestamp with time zone, creator_username text, creator_display_name text, creator_avatar_url text, creator_is_verified boolean, creator_verification_type verification_type, rank_score numeric)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.creator_id,
+    p.content_url,
+    p.content_type,
+    p.description,
+    p.mentions,
+    p.tags,
+    p.likes_count,
+    p.comments_count,
+    p.shares_count,
+    p.saves_count,
+    p.engagement_score,
+    p.created_at,
+    pr.username AS creator_username,
+    pr.display_name AS creator_display_name,
+    pr.avatar_url AS creator_avatar_url,
+    pr.is_verified AS creator_is_verified,
+    pr.verification_type AS creator_verification_type,
+    (
+      (p.likes_count * 2 + p.comments_count * 5 + p.shares_count * 10 + p.saves_count * 15) /
+      POWER(EXTRACT(EPOCH FROM (NOW() - p.created_at)) / 3600 + 2, 1.5)
+    ) * (CASE WHEN pr.is_verified THEN 1.5 ELSE 1.0 END)
+      * (CASE WHEN EXISTS (
+          SELECT 1 FROM public.feed_feedback ff
+          WHERE ff.user_id = p_user_id
+          AND ff.feedback_type = 'tag'
+          AND lower(ff.tag) IN (SELECT lower(t) FROM unnest(p.tags) AS t)
+        ) THEN 0.2 ELSE 1.0 END) AS rank_score
+  FROM public.posts p
+  JOIN public.profiles pr ON p.creator_id = pr.id
+  WHERE (p.is_private = false OR p.creator_id = p_user_id)
+  AND p.is_hidden = false
+  AND NOT public.is_blocked(p.creator_id, auth.uid())
+  AND public.can_view_posts_of(p.creator_id, auth.uid())
+  AND (p_tag IS NULL OR p.tags @> ARRAY[lower(p_tag)])
+  AND NOT EXISTS (
+    SELECT 1 FROM public.feed_feedback ff
+    WHERE ff.user_id = p_user_id
+    AND (
+      (ff.feedback_type = 'post' AND ff.post_id = p.id) OR
+      (ff.feedback_type = 'creator' AND ff.creator_id = p.creator_id)
+    )
+  )
+  ORDER BY rank_score DESC, p.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$function$;
+
+-- Trending tags: uses in the last p_window_hours against the window before it.
+-- velocity is the change in uses per hour, so steady big tags don't crowd out rising ones
+CREATE OR REPLACE FUNCTION public.get_trending_tags(p_window_hours integer DEFAULT 24, p_limit integer DEFAULT 10)
+RETURNS TABLE(tag text, recent_count bigint, previous_count bigint, velocity numeric)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH usage AS (
+    SELECT
+      lower(t) AS tag,
+      p.created_at >= now() - make_interval(hours => p_window_hours) AS is_recent
+    FROM public.posts p
+    JOIN public.profiles pr ON pr.id = p.creator_id
+    CROSS JOIN LATERAL unnest(p.tags) AS t
+    WHERE p.created_at >= now() - make_interval(hours => p_window_hours * 2)
+    AND p.is_private = false
+    AND p.is_hidden = false
+    AND pr.is_private = false
+    AND NOT public.is_blocked(p.creator_id, auth.uid())
+  ),
+  counts AS (
+    SELECT
+      u.tag,
+      count(*) FILTER (WHERE u.is_recent) AS recent_count,
+      count(*) FILTER (WHERE NOT u.is_recent) AS previous_count
+    FROM usage u
+    GROUP BY u.tag
+  )
+  SELECT
+    c.tag,
+    c.recent_count,
+    c.previous_count,
+    round((c.recent_count - c.previous_count)::numeric / GREATEST(p_window_hours, 1), 3) AS velocity
+  FROM counts c
+  WHERE c.recent_count > 0
+  ORDER BY velocity DESC, c.recent_count DESC, c.tag
+  LIMIT p_limit
+$$;
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_posts_tags ON public.posts USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_posts_created_at ON public.posts(created_at DESC);
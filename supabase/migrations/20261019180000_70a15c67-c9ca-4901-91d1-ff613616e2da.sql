@@ -0,0 +1,66 @@
+-- Threaded comments: replies point at the comment they answer through parent_id,
+-- and posts.comments_count is kept by the server so deleting a whole thread stays correct
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+ADD CONSTRAINT notifications_type_check
+CHECK (type IN ('like', 'comment', 'reply', 'follow', 'follow_request', 'follow_accepted', 'mention', 'message'));
+
+-- A reply must belong to the same post as the comment it answers
+CREATE OR REPLACE FUNCTION public.validate_comment_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.comments
+    WHERE id = NEW.parent_id
+    AND post_id = NEW.post_id
+  ) THEN
+    RAISE EXCEPTION 'Parent comment belongs to another post';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_comment_parent
+BEFORE INSERT ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_comment_parent();
+
+-- Replies are removed by the parent_id cascade, which fires this once per deleted row
+CREATE OR REPLACE FUNCTION public.update_post_comments_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.posts
+    SET comments_count = COALESCE(comments_count, 0) + 1
+    WHERE id = NEW.post_id;
+  ELSE
+    UPDATE public.posts
+    SET comments_count = GREATEST(COALESCE(comments_count, 0) - 1, 0)
+    WHERE id = OLD.post_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_post_comments_count
+AFTER INSERT OR DELETE ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_post_comments_count();
+
+-- Counts were kept by the client until now and drifted whenever a thread was deleted
+UPDATE public.posts p
+SET comments_count = (SELECT count(*) FROM public.comments c WHERE c.post_id = p.id);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_comments_parent_id ON public.comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_comments_post_created ON public.comments(post_id, created_at);
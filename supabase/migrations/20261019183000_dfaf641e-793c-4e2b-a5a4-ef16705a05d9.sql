@@ -0,0 +1,274 @@
+-- Comment moderation for post authors: pin one comment, hide or delete others' comments,
+-- turn comments off per post and auto-hide comments matching the author's keyword filter
+ALTER TABLE public.posts
+ADD COLUMN IF NOT EXISTS comments_disabled boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS pinned_comment_id uuid REFERENCES public.comments(id) ON DELETE SET NULL;
+
+-- Separate from is_hidden, which belongs to the report queue
+ALTER TABLE public.comments
+ADD COLUMN IF NOT EXISTS hidden_by_author boolean NOT NULL DEFAULT false;
+
+-- Keyword filter, private to its owner
+CREATE TABLE public.comment_keyword_filters (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  keyword TEXT NOT NULL CHECK (length(btrim(keyword)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.comment_keyword_filters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their comment filters" ON public.comment_keyword_filters
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create comment filters" ON public.comment_keyword_filters
+FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their comment filters" ON public.comment_keyword_filters
+FOR DELETE USING (auth.uid() = user_id);
+
+CREATE UNIQUE INDEX idx_comment_keyword_filters_keyword ON public.comment_keyword_filters(user_id, lower(keyword));
+
+CREATE OR REPLACE FUNCTION public.is_post_author(_post_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE id = _post_id
+    AND creator_id = _user_id
+  )
+$$;
+
+-- Runs before every insert and content edit. Only the post author (or a moderator) can change
+-- hidden_by_author, and the author's keywords hide a matching comment before anyone else sees it
+CREATE OR REPLACE FUNCTION public.apply_comment_filters()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  post_creator_id uuid;
+BEGIN
+  SELECT creator_id INTO post_creator_id
+  FROM public.posts
+  WHERE id = NEW.post_id;
+
+  IF auth.uid() IS DISTINCT FROM post_creator_id AND NOT public.can_moderate(auth.uid()) THEN
+    NEW.hidden_by_author := CASE WHEN TG_OP = 'UPDATE' THEN OLD.hidden_by_author ELSE false END;
+  END IF;
+
+  IF NEW.user_id <> post_creator_id
+  AND (TG_OP = 'INSERT' OR NEW.content IS DISTINCT FROM OLD.content)
+  AND EXISTS (
+    SELECT 1 FROM public.comment_keyword_filters f
+    WHERE f.user_id = post_creator_id
+    AND position(lower(btrim(f.keyword)) IN lower(NEW.content)) > 0
+  ) THEN
+    NEW.hidden_by_author := true;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_comment_filters
+BEFORE INSERT OR UPDATE ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_comment_filters();
+
+-- Hidden comments stay visible to whoever wrote them, the post author and moderators.
+-- Realtime checks this policy too, so the comments channel never carries them to anyone else
+DROP POLICY IF EXISTS "Anyone can view comments" ON public.comments;
+CREATE POLICY "Anyone can view comments" ON public.comments
+FOR SELECT USING (
+  (is_hidden = false OR auth.uid() = user_id OR public.can_moderate(auth.uid()))
+  AND (NOT public.is_blocked(user_id, auth.uid()) OR public.can_moderate(auth.uid()))
+  AND (
+    hidden_by_author = false
+    OR auth.uid() = user_id
+    OR public.is_post_author(post_id, auth.uid())
+    OR public.can_moderate(auth.uid())
+  )
+  AND (
+    public.can_view_posts_of((SELECT p.creator_id FROM public.posts p WHERE p.id = post_id), auth.uid())
+    OR public.can_moderate(auth.uid())
+  )
+);
+
+-- No new comments once the author turns them off
+DROP POLICY IF EXISTS "Users can create comments" ON public.comments;
+CREATE POLICY "Users can create comments" ON public.comments
+FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND NOT public.is_user_suspended(auth.uid())
+  AND NOT EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id
+    AND (public.is_blocked(p.creator_id, auth.uid()) OR p.comments_disabled)
+  )
+  AND (
+    public.can_view_posts_of((SELECT p.creator_id FROM public.posts p WHERE p.id = post_id), auth.uid())
+    OR public.can_moderate(auth.uid())
+  )
+);
+
+CREATE POLICY "Post authors can delete comments on their posts" ON public.comments
+FOR DELETE USING (public.is_post_author(post_id, auth.uid()));
+
+-- Hide or show a comment on one of the caller's posts
+CREATE OR REPLACE FUNCTION public.set_comment_hidden(p_comment_id uuid, p_hidden boolean)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.comments c
+  SET hidden_by_author = p_hidden
+  WHERE c.id = p_comment_id
+  AND public.is_post_author(c.post_id, auth.uid());
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  -- A hidden comment can't stay pinned
+  IF p_hidden THEN
+    UPDATE public.posts
+    SET pinned_comment_id = NULL
+    WHERE pinned_comment_id = p_comment_id;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Pin a top-level comment on one of the caller's posts, or unpin with NULL
+CREATE OR REPLACE FUNCTION public.set_pinned_comment(p_post_id uuid, p_comment_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_post_author(p_post_id, auth.uid()) THEN
+    RETURN false;
+  END IF;
+
+  IF p_comment_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.comments
+    WHERE id = p_comment_id
+    AND post_id = p_post_id
+    AND parent_id IS NULL
+    AND hidden_by_author = false
+  ) THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.posts
+  SET pinned_comment_id = p_comment_id
+  WHERE id = p_post_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Filtered comments don't send mention notifications
+CREATE OR REPLACE FUNCTION public.notify_comment_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  post_creator_id uuid;
+BEGIN
+  IF NEW.is_hidden OR NEW.hidden_by_author THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT creator_id INTO post_creator_id
+  FROM public.posts
+  WHERE id = NEW.post_id;
+
+  INSERT INTO public.notifications (user_id, type, from_user_id, post_id, comment_id)
+  SELECT mentioned_id, 'mention', NEW.user_id, NEW.post_id, NEW.id
+  FROM public.new_mentions(CASE WHEN TG_OP = 'UPDATE' THEN OLD.mentions END, NEW.mentions) AS mentioned_id
+  WHERE mentioned_id <> NEW.user_id
+  AND NOT public.is_blocked(mentioned_id, NEW.user_id)
+  AND NOT public.is_blocked(mentioned_id, post_creator_id)
+  AND public.can_view_posts_of(post_creator_id, mentioned_id);
+
+  RETURN NEW;
+END;
+$$;
+
+-- The feed returns comments_disabled so cards can show the post's comment state
+DROP FUNCTION IF EXISTS public.get_ranked_feed(uuid, integer, integer, text);
+
+CREATE OR REPLACE FUNCTION public.get_ranked_feed(p_user_id uuid DEFAULT NULL::uuid, p_limit integer DEFAULT 20, p_offset integer DEFAULT 0, p_tag text DEFAULT NULL::text)
+ RETURNS TABLE(id uuid, creator_id uuid, content_url text, content_type content_type, description text, mentions jsonb, tags text[], comments_disabled boolean, likes_count integer, comments_count integer, shares_count integer, saves_count integer, engagement_score numeric, created_at timestamp with time zone, creator_username text, creator_display_name text, creator_avatar_url text, creator_is_verified boolean, creator_verification_type verification_type, rank_score numeric)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.creator_id,
+    p.content_url,
+    p.content_type,
+    p.description,
+    p.mentions,
+    p.tags,
+    p.comments_disabled,
+    p.likes_count,
+    p.comments_count,
+    p.shares_count,
+    p.saves_count,
+    p.engagement_score,
+    p.created_at,
+    pr.username AS creator_username,
+    pr.display_name AS creator_display_name,
+    pr.avatar_url AS creator_avatar_url,
+    pr.is_verified AS creator_is_verified,
+    pr.verification_type AS creator_verification_type,
+    (
+      (p.likes_count * 2 + p.comments_count * 5 + p.shares_count * 10 + p.saves_count * 15) /
+      POWER(EXTRACT(EPOCH FROM (NOW() - p.created_at)) / 3600 + 2, 1.5)
+    ) * (CASE WHEN pr.is_verified THEN 1.5 ELSE 1.0 END)
+      * (CASE WHEN EXISTS (
+          SELECT 1 FROM public.feed_feedback ff
+          WHERE ff.user_id = p_user_id
+          AND ff.feedback_type = 'tag'
+          AND lower(ff.tag) IN (SELECT lower(t) FROM unnest(p.tags) AS t)
+        ) THEN 0.2 ELSE 1.0 END) AS rank_score
+  FROM public.posts p
+  JOIN public.profiles pr ON p.creator_id = pr.id
+  WHERE (p.is_private = false OR p.creator_id = p_user_id)
+  AND p.is_hidden = false
+  AND NOT public.is_blocked(p.creator_id, auth.uid())
+  AND public.can_view_posts_of(p.creator_id, auth.uid())
+  AND (p_tag IS NULL OR p.tags @> ARRAY[lower(p_tag)])
+  AND NOT EXISTS (
+    SELECT 1 FROM public.feed_feedback ff
+    WHERE ff.user_id = p_user_id
+    AND (
+      (ff.feedback_type = 'post' AND ff.post_id = p.id) OR
+      (ff.feedback_type = 'creator' AND ff.creator_id = p.creator_id)
+    )
+  )
+  ORDER BY rank_score DESC, p.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$function$;
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_comments_hidden_by_author ON public.comments(post_id) WHERE hidden_by_author = true;
@@ -0,0 +1,233 @@
+-- Notifications are only created by the database: likes, comments, replies and follows
+-- fan out from triggers, so clients can neither skip nor forge them
+DROP POLICY IF EXISTS "System can create notifications" ON public.notifications;
+
+-- One like/follow notification per actor and target. Liking, unliking and liking again
+-- (or unfollowing and following again) within a day doesn't notify twice
+DELETE FROM public.notifications n
+USING public.notifications newer
+WHERE n.type IN ('like', 'follow', 'follow_request')
+AND newer.type = n.type
+AND newer.user_id = n.user_id
+AND newer.from_user_id = n.from_user_id
+AND newer.post_id IS NOT DISTINCT FROM n.post_id
+AND (newer.created_at, newer.id) > (n.created_at, n.id);
+
+CREATE UNIQUE INDEX idx_notifications_unique_like
+ON public.notifications(user_id, from_user_id, post_id)
+WHERE type = 'like';
+
+CREATE UNIQUE INDEX idx_notifications_unique_follow
+ON public.notifications(user_id, from_user_id)
+WHERE type = 'follow';
+
+CREATE UNIQUE INDEX idx_notifications_unique_follow_request
+ON public.notifications(user_id, from_user_id)
+WHERE type = 'follow_request';
+
+-- Likes
+CREATE OR REPLACE FUNCTION public.notify_post_like()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  post_creator_id uuid;
+BEGIN
+  SELECT creator_id INTO post_creator_id
+  FROM public.posts
+  WHERE id = NEW.post_id;
+
+  IF post_creator_id IS NULL
+  OR post_creator_id = NEW.user_id
+  OR public.is_blocked(post_creator_id, NEW.user_id) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, from_user_id, post_id)
+  VALUES (post_creator_id, 'like', NEW.user_id, NEW.post_id)
+  ON CONFLICT (user_id, from_user_id, post_id) WHERE type = 'like'
+  DO UPDATE SET created_at = now(), is_read = false
+  WHERE notifications.created_at < now() - interval '1 day';
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_post_like
+AFTER INSERT ON public.post_likes
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_post_like();
+
+-- Comments: a reply notifies the author of the comment it answers, and the post author
+-- hears about every comment unless that reply already reached them. Comments hidden by
+-- moderation or the author's keyword filter notify no one
+CREATE OR REPLACE FUNCTION public.notify_new_comment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  post_creator_id uuid;
+  parent_author_id uuid;
+BEGIN
+  IF NEW.is_hidden OR NEW.hidden_by_author THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT creator_id INTO post_creator_id
+  FROM public.posts
+  WHERE id = NEW.post_id;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT user_id INTO parent_author_id
+    FROM public.comments
+    WHERE id = NEW.parent_id;
+  END IF;
+
+  IF parent_author_id IS NOT NULL
+  AND parent_author_id <> NEW.user_id
+  AND NOT public.is_blocked(parent_author_id, NEW.user_id) THEN
+    INSERT INTO public.notifications (user_id, type, from_user_id, post_id, comment_id)
+    VALUES (parent_author_id, 'reply', NEW.user_id, NEW.post_id, NEW.id);
+  END IF;
+
+  IF post_creator_id IS NOT NULL
+  AND post_creator_id <> NEW.user_id
+  AND post_creator_id IS DISTINCT FROM parent_author_id THEN
+    INSERT INTO public.notifications (user_id, type, from_user_id, post_id, comment_id)
+    VALUES (post_creator_id, 'comment', NEW.user_id, NEW.post_id, NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_new_comment
+AFTER INSERT ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_new_comment();
+
+-- Follows: a request while pending, a follow once accepted, and a cancelled or denied
+-- request takes its notification with it
+CREATE OR REPLACE FUNCTION public.notify_follow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status = 'pending' THEN
+      DELETE FROM public.notifications
+      WHERE user_id = OLD.following_id
+      AND from_user_id = OLD.follower_id
+      AND type = 'follow_request';
+    END IF;
+
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status = 'pending' THEN
+    INSERT INTO public.notifications (user_id, type, from_user_id)
+    VALUES (NEW.following_id, 'follow_request', NEW.follower_id)
+    ON CONFLICT (user_id, from_user_id) WHERE type = 'follow_request'
+    DO NOTHING;
+
+    RETURN NEW;
+  END IF;
+
+  -- An approved request was already seen, so its follow notification starts out read
+  IF TG_OP = 'UPDATE' THEN
+    DELETE FROM public.notifications
+    WHERE user_id = NEW.following_id
+    AND from_user_id = NEW.follower_id
+    AND type = 'follow_request';
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, from_user_id, is_read)
+  VALUES (NEW.following_id, 'follow', NEW.follower_id, TG_OP = 'UPDATE')
+  ON CONFLICT (user_id, from_user_id) WHERE type = 'follow'
+  DO UPDATE SET created_at = now(), is_read = EXCLUDED.is_read
+  WHERE notifications.created_at < now() - interval '1 day';
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_follow_insert
+AFTER INSERT ON public.follows
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_follow();
+
+CREATE TRIGGER notify_follow_accepted
+AFTER UPDATE OF status ON public.follows
+FOR EACH ROW
+WHEN (OLD.status = 'pending' AND NEW.status = 'accepted')
+EXECUTE FUNCTION public.notify_follow();
+
+CREATE TRIGGER notify_follow_delete
+AFTER DELETE ON public.follows
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_follow();
+
+-- The follow triggers now turn requests into follows, so these only keep their own work
+CREATE OR REPLACE FUNCTION public.respond_to_follow_request(p_follower_id uuid, p_approve boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.follows
+    WHERE follower_id = p_follower_id
+    AND following_id = current_user_id
+    AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'No pending follow request';
+  END IF;
+
+  IF p_approve THEN
+    UPDATE public.follows
+    SET status = 'accepted'
+    WHERE follower_id = p_follower_id
+    AND following_id = current_user_id;
+
+    INSERT INTO public.notifications (user_id, type, from_user_id)
+    VALUES (p_follower_id, 'follow_accepted', current_user_id);
+  ELSE
+    DELETE FROM public.follows
+    WHERE follower_id = p_follower_id
+    AND following_id = current_user_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_pending_follows_on_public()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.is_private = true AND NEW.is_private = false THEN
+    UPDATE public.follows
+    SET status = 'accepted'
+    WHERE following_id = NEW.id
+    AND status = 'pending';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
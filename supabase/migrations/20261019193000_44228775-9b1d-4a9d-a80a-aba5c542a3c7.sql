@@ -0,0 +1,145 @@
+-- Grouped notifications: likes, comments and follows on the same post collapse into one
+-- entry ("ana, joão e mais 48 curtiram...") for as long as each one arrives within the
+-- window of the previous one; a longer gap starts a new group. Every other type stays on its own
+CREATE OR REPLACE FUNCTION public.notification_group_keys(p_window_hours integer DEFAULT 24)
+RETURNS TABLE(id uuid, group_key text)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH ordered AS (
+    SELECT
+      n.id,
+      n.type,
+      n.post_id,
+      n.created_at,
+      n.type IN ('like', 'comment', 'follow') AS groupable,
+      lag(n.created_at) OVER (PARTITION BY n.type, n.post_id ORDER BY n.created_at, n.id) AS previous_at
+    FROM public.notifications n
+    WHERE n.user_id = auth.uid()
+  ),
+  numbered AS (
+    SELECT
+      o.*,
+      sum(
+        CASE
+          WHEN o.previous_at IS NULL
+          OR o.created_at - o.previous_at > make_interval(hours => GREATEST(p_window_hours, 1))
+          THEN 1 ELSE 0
+        END
+      ) OVER (PARTITION BY o.type, o.post_id ORDER BY o.created_at, o.id) AS group_number
+    FROM ordered o
+  )
+  SELECT
+    n.id,
+    CASE
+      WHEN n.groupable THEN n.type || ':' || COALESCE(n.post_id::text, '') || ':' || n.group_number::text
+      ELSE n.id::text
+    END
+  FROM numbered n
+$$;
+
+-- One page of the caller's groups, newest first. Page with the latest_at and group_key
+-- of the last group received; actors holds the two most recent people in the group
+CREATE OR REPLACE FUNCTION public.get_notification_groups(
+  p_limit integer DEFAULT 20,
+  p_before_at timestamptz DEFAULT NULL,
+  p_before_key text DEFAULT NULL,
+  p_window_hours integer DEFAULT 24
+)
+RETURNS TABLE(
+  group_key text,
+  type text,
+  post_id uuid,
+  comment_id uuid,
+  latest_id uuid,
+  notification_ids uuid[],
+  actor_count integer,
+  actors jsonb,
+  is_read boolean,
+  latest_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH keyed AS (
+    SELECT n.*, gk.group_key AS key
+    FROM public.notifications n
+    JOIN public.notification_group_keys(p_window_hours) gk ON gk.id = n.id
+  ),
+  groups AS (
+    SELECT
+      k.key,
+      (array_agg(k.type ORDER BY k.created_at DESC))[1] AS type,
+      (array_agg(k.post_id ORDER BY k.created_at DESC))[1] AS post_id,
+      (array_agg(k.comment_id ORDER BY k.created_at DESC))[1] AS comment_id,
+      (array_agg(k.id ORDER BY k.created_at DESC))[1] AS latest_id,
+      array_agg(k.id ORDER BY k.created_at DESC) AS notification_ids,
+      count(DISTINCT k.from_user_id)::integer AS actor_count,
+      bool_and(COALESCE(k.is_read, false)) AS is_read,
+      max(k.created_at) AS latest_at
+    FROM keyed k
+    GROUP BY k.key
+  ),
+  paged AS (
+    SELECT g.*
+    FROM groups g
+    WHERE p_before_at IS NULL
+    OR (g.latest_at, g.key) < (p_before_at, COALESCE(p_before_key, ''))
+    ORDER BY g.latest_at DESC, g.key DESC
+    LIMIT p_limit
+  )
+  SELECT
+    p.key,
+    p.type,
+    p.post_id,
+    p.comment_id,
+    p.latest_id,
+    p.notification_ids,
+    p.actor_count,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', pr.id,
+          'username', pr.username,
+          'display_name', pr.display_name,
+          'avatar_url', pr.avatar_url
+        )
+        ORDER BY a.last_at DESC
+      )
+      FROM (
+        SELECT k.from_user_id, max(k.created_at) AS last_at
+        FROM keyed k
+        WHERE k.key = p.key
+        AND k.from_user_id IS NOT NULL
+        GROUP BY k.from_user_id
+        ORDER BY last_at DESC
+        LIMIT 2
+      ) a
+      JOIN public.profiles pr ON pr.id = a.from_user_id
+    ), '[]'::jsonb) AS actors,
+    p.is_read,
+    p.latest_at
+  FROM paged p
+  ORDER BY p.latest_at DESC, p.key DESC
+$$;
+
+-- Unread badge: groups with anything unread, not individual rows
+CREATE OR REPLACE FUNCTION public.get_unread_notification_groups_count(p_window_hours integer DEFAULT 24)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(DISTINCT gk.group_key)::integer
+  FROM public.notifications n
+  JOIN public.notification_group_keys(p_window_hours) gk ON gk.id = n.id
+  WHERE COALESCE(n.is_read, false) = false
+$$;
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+ON public.notifications(user_id, created_at DESC);
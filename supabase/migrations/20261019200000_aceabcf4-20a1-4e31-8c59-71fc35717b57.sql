@@ -0,0 +1,210 @@
+-- Notification preferences: each type can be turned off or limited to people the user
+-- follows, and quiet hours deliver notifications silently. Enforced when the row is
+-- inserted, so every trigger and RPC that notifies honours them
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(_tz text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  PERFORM now() AT TIME ZONE _tz;
+  RETURN true;
+EXCEPTION WHEN others THEN
+  RETURN false;
+END;
+$$;
+
+CREATE TABLE public.notification_preferences (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  likes_enabled BOOLEAN NOT NULL DEFAULT true,
+  likes_followers_only BOOLEAN NOT NULL DEFAULT false,
+  comments_enabled BOOLEAN NOT NULL DEFAULT true,
+  comments_followers_only BOOLEAN NOT NULL DEFAULT false,
+  follows_enabled BOOLEAN NOT NULL DEFAULT true,
+  follows_followers_only BOOLEAN NOT NULL DEFAULT false,
+  mentions_enabled BOOLEAN NOT NULL DEFAULT true,
+  mentions_followers_only BOOLEAN NOT NULL DEFAULT false,
+  messages_enabled BOOLEAN NOT NULL DEFAULT true,
+  messages_followers_only BOOLEAN NOT NULL DEFAULT false,
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  timezone TEXT NOT NULL DEFAULT 'America/Sao_Paulo' CHECK (public.is_valid_timezone(timezone)),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notification preferences" ON public.notification_preferences
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their notification preferences" ON public.notification_preferences
+FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their notification preferences" ON public.notification_preferences
+FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+BEFORE UPDATE ON public.notification_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Set on notifications that arrived during quiet hours: they stay unread but the app
+-- shows no alert for them
+ALTER TABLE public.notifications
+ADD COLUMN silent BOOLEAN NOT NULL DEFAULT false;
+
+-- Replies count as comments and accepted requests as follows. Follow requests always go
+-- through since they are waiting on an answer. Returning NULL drops the notification
+CREATE OR REPLACE FUNCTION public.apply_notification_preferences()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  prefs public.notification_preferences%ROWTYPE;
+  type_enabled boolean;
+  followers_only boolean;
+  local_time time;
+BEGIN
+  SELECT * INTO prefs
+  FROM public.notification_preferences
+  WHERE user_id = NEW.user_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  CASE NEW.type
+    WHEN 'like' THEN
+      type_enabled := prefs.likes_enabled;
+      followers_only := prefs.likes_followers_only;
+    WHEN 'comment', 'reply' THEN
+      type_enabled := prefs.comments_enabled;
+      followers_only := prefs.comments_followers_only;
+    WHEN 'follow', 'follow_accepted' THEN
+      type_enabled := prefs.follows_enabled;
+      followers_only := prefs.follows_followers_only;
+    WHEN 'mention' THEN
+      type_enabled := prefs.mentions_enabled;
+      followers_only := prefs.mentions_followers_only;
+    WHEN 'message' THEN
+      type_enabled := prefs.messages_enabled;
+      followers_only := prefs.messages_followers_only;
+    ELSE
+      type_enabled := true;
+      followers_only := false;
+  END CASE;
+
+  IF NOT type_enabled THEN
+    RETURN NULL;
+  END IF;
+
+  IF followers_only
+  AND NEW.from_user_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.follows
+    WHERE follower_id = NEW.user_id
+    AND following_id = NEW.from_user_id
+    AND status = 'accepted'
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Quiet hours may wrap past midnight (22:00 to 07:00)
+  IF prefs.quiet_hours_start IS NOT NULL AND prefs.quiet_hours_end IS NOT NULL THEN
+    local_time := (now() AT TIME ZONE prefs.timezone)::time;
+
+    IF (prefs.quiet_hours_start <= prefs.quiet_hours_end
+        AND local_time >= prefs.quiet_hours_start
+        AND local_time < prefs.quiet_hours_end)
+    OR (prefs.quiet_hours_start > prefs.quiet_hours_end
+        AND (local_time >= prefs.quiet_hours_start OR local_time < prefs.quiet_hours_end)) THEN
+      NEW.silent := true;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_notification_preferences
+BEFORE INSERT ON public.notifications
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_notification_preferences();
+
+-- A repeated like or follow refreshes the existing notification instead of inserting one.
+-- EXCLUDED already went through apply_notification_preferences, so it carries the quiet hours
+CREATE OR REPLACE FUNCTION public.notify_post_like()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  post_creator_id uuid;
+BEGIN
+  SELECT creator_id INTO post_creator_id
+  FROM public.posts
+  WHERE id = NEW.post_id;
+
+  IF post_creator_id IS NULL
+  OR post_creator_id = NEW.user_id
+  OR public.is_blocked(post_creator_id, NEW.user_id) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, from_user_id, post_id)
+  VALUES (post_creator_id, 'like', NEW.user_id, NEW.post_id)
+  ON CONFLICT (user_id, from_user_id, post_id) WHERE type = 'like'
+  DO UPDATE SET created_at = now(), is_read = false, silent = EXCLUDED.silent
+  WHERE notifications.created_at < now() - interval '1 day';
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_follow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status = 'pending' THEN
+      DELETE FROM public.notifications
+      WHERE user_id = OLD.following_id
+      AND from_user_id = OLD.follower_id
+      AND type = 'follow_request';
+    END IF;
+
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status = 'pending' THEN
+    INSERT INTO public.notifications (user_id, type, from_user_id)
+    VALUES (NEW.following_id, 'follow_request', NEW.follower_id)
+    ON CONFLICT (user_id, from_user_id) WHERE type = 'follow_request'
+    DO NOTHING;
+
+    RETURN NEW;
+  END IF;
+
+  -- An approved request was already seen, so its follow notification starts out read
+  IF TG_OP = 'UPDATE' THEN
+    DELETE FROM public.notifications
+    WHERE user_id = NEW.following_id
+    AND from_user_id = NEW.follower_id
+    AND type = 'follow_request';
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, from_user_id, is_read)
+  VALUES (NEW.following_id, 'follow', NEW.follower_id, TG_OP = 'UPDATE')
+  ON CONFLICT (user_id, from_user_id) WHERE type = 'follow'
+  DO UPDATE SET created_at = now(), is_read = EXCLUDED.is_read, silent = EXCLUDED.silent
+  WHERE notifications.created_at < now() - interval '1 day';
+
+  RETURN NEW;
+END;
+$$;